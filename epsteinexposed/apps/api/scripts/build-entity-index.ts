@@ -0,0 +1,38 @@
+import { getEntityIndex } from '../src/services/entity-index.service';
+
+/**
+ * Build or update the SQLite entity index from data/entities.
+ * The API syncs the index on demand, this just does it ahead of time.
+ *
+ * Usage: pnpm index:entities [--rebuild]
+ */
+async function main() {
+  const rebuild = process.argv.includes('--rebuild');
+  const index = getEntityIndex();
+
+  console.log(rebuild ? '🗂️  Rebuilding entity index from scratch...\n' : '🗂️  Syncing entity index...\n');
+
+  try {
+    const result = rebuild ? await index.rebuild() : await index.sync();
+    const totals = await index.getTotals();
+
+    console.log('\n📊 Index summary:');
+    console.log(`   Files added:     ${result.added}`);
+    console.log(`   Files updated:   ${result.updated}`);
+    console.log(`   Files removed:   ${result.removed}`);
+    console.log(`   Files unchanged: ${result.unchanged}`);
+    console.log(`   Documents:       ${totals.documents}`);
+    console.log(`   People:          ${totals.people}`);
+    console.log(`   Locations:       ${totals.locations}`);
+    console.log(`   Connections:     ${totals.connections}`);
+    console.log(`   Typed relations: ${totals.relations}`);
+    console.log(`\n✅ Done in ${result.elapsedMs}ms`);
+  } catch (error) {
+    console.error('❌ Error building entity index:', error);
+    process.exit(1);
+  } finally {
+    index.close();
+  }
+}
+
+main();
@@ -0,0 +1,181 @@
+import { config } from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Load .env.local explicitly
+config({ path: path.join(__dirname, '../.env.local') });
+
+import { CandidateEntity, listExtractors } from '../src/services/entity-extractor.service';
+import { EntityEnsembleService, DEFAULT_EXTRACTORS } from '../src/services/entity-ensemble.service';
+import { normalizeEntityKey } from '../src/services/entity-index.service';
+
+/**
+ * Compare entity extractors on a sample of already-ingested documents.
+ *
+ * Usage:
+ *   pnpm extractors:compare [--extractors regex,gazetteer,ner] [--sample 25] [--docs id1,id2]
+ *                           [--min-chars 500] [--verbose] [--json out.json]
+ *
+ * Documents come from data/entities/*.json (their stored text). For each extractor it reports
+ * how many entities it found, how many nobody else found, overlap with the others, and time taken.
+ */
+
+interface SampleDocument {
+  id: string;
+  filename: string;
+  pageCount: number;
+  text: string;
+}
+
+interface ExtractorTotals {
+  entities: number;
+  byType: Record<CandidateEntity['type'], number>;
+  unique: number;
+  confidenceSum: number;
+  elapsedMs: number;
+  failures: number;
+}
+
+function option(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function loadSample(args: string[]): Promise<SampleDocument[]> {
+  const entitiesDir = path.join(__dirname, '../data/entities');
+  const sampleSize = parseInt(option(args, 'sample') || '25', 10);
+  const minChars = parseInt(option(args, 'min-chars') || '500', 10);
+  const docIds = option(args, 'docs')?.split(',').map(id => id.trim()).filter(Boolean);
+
+  const files = docIds
+    ? docIds.map(id => `${id}.json`)
+    : (await fs.readdir(entitiesDir)).filter(f => f.endsWith('.json')).sort();
+
+  const docs: SampleDocument[] = [];
+  // Spread the sample evenly over the sorted list so every dataset is represented and runs are repeatable
+  const stride = docIds ? 1 : Math.max(1, Math.floor(files.length / (sampleSize * 4)));
+
+  for (let i = 0; i < files.length && docs.length < (docIds ? files.length : sampleSize); i += stride) {
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(entitiesDir, files[i]), 'utf-8'));
+      const text: string = data.document?.text || '';
+      if (!docIds && text.length < minChars) continue;
+      docs.push({
+        id: data.document?.id || path.basename(files[i], '.json'),
+        filename: data.document?.filename || files[i],
+        pageCount: data.document?.pageCount || 0,
+        text,
+      });
+    } catch (error) {
+      console.warn(`⚠️  Could not read ${files[i]}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return docs;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const names = option(args, 'extractors')?.split(',').map(n => n.trim()).filter(Boolean) || DEFAULT_EXTRACTORS;
+  const verbose = args.includes('--verbose');
+  const jsonPath = option(args, 'json');
+
+  const unknown = names.filter(name => !listExtractors().includes(name));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown extractor(s): ${unknown.join(', ')} (available: ${listExtractors().join(', ')})`);
+    process.exit(1);
+  }
+
+  const ensemble = new EntityEnsembleService({ extractors: names, fallback: null });
+  const docs = await loadSample(args);
+  console.log(`🔬 Comparing ${names.join(', ')} on ${docs.length} documents\n`);
+
+  const totals: Record<string, ExtractorTotals> = {};
+  for (const name of [...names, 'ensemble']) {
+    totals[name] = { entities: 0, byType: { person: 0, location: 0, organization: 0 }, unique: 0, confidenceSum: 0, elapsedMs: 0, failures: 0 };
+  }
+  // Pairwise overlap: |A ∩ B| / |A ∪ B| summed over documents
+  const overlap: Record<string, number> = {};
+  const report: Array<{ document: string; bySource: Record<string, CandidateEntity[]>; ensemble: unknown[] }> = [];
+
+  try {
+    for (const doc of docs) {
+      const bySource: Record<string, CandidateEntity[]> = {};
+      const keys: Record<string, Set<string>> = {};
+
+      for (const name of names) {
+        const extractor = ensemble.get(name)!;
+        const started = Date.now();
+        try {
+          bySource[name] = await extractor.extract(doc.text, { documentId: doc.id, filename: doc.filename, pageCount: doc.pageCount });
+        } catch (error) {
+          totals[name].failures++;
+          bySource[name] = [];
+          console.error(`   ⚠️  ${name} failed on ${doc.id}: ${error instanceof Error ? error.message : error}`);
+        }
+        totals[name].elapsedMs += Date.now() - started;
+        keys[name] = new Set(bySource[name].map(e => normalizeEntityKey(e.name)));
+
+        for (const entity of bySource[name]) {
+          totals[name].entities++;
+          totals[name].byType[entity.type]++;
+          totals[name].confidenceSum += entity.confidence;
+        }
+      }
+
+      for (const name of names) {
+        const others = names.filter(n => n !== name);
+        const uniqueKeys = [...keys[name]].filter(key => !others.some(other => keys[other].has(key)));
+        totals[name].unique += uniqueKeys.length;
+
+        if (verbose && uniqueKeys.length > 0) {
+          const uniqueNames = bySource[name].filter(e => uniqueKeys.includes(normalizeEntityKey(e.name))).map(e => e.name.replace(/\s+/g, ' '));
+          console.log(`   ${doc.id} [${name} only]: ${[...new Set(uniqueNames)].slice(0, 15).join(', ')}`);
+        }
+
+        for (const other of others) {
+          if (other <= name) continue;
+          const union = new Set([...keys[name], ...keys[other]]);
+          const shared = [...keys[name]].filter(key => keys[other].has(key)).length;
+          overlap[`${name}/${other}`] = (overlap[`${name}/${other}`] || 0) + (union.size > 0 ? shared / union.size : 1);
+        }
+      }
+
+      const merged = ensemble.merge(bySource);
+      for (const entity of merged) {
+        totals.ensemble.entities++;
+        totals.ensemble.byType[entity.type]++;
+        totals.ensemble.confidenceSum += entity.confidence;
+      }
+
+      report.push({ document: doc.id, bySource, ensemble: merged });
+    }
+  } finally {
+    await ensemble.close();
+  }
+
+  console.log(`${'Extractor'.padEnd(12)} ${'Entities'.padStart(9)} ${'People'.padStart(7)} ${'Places'.padStart(7)} ${'Orgs'.padStart(6)} ${'Unique'.padStart(7)} ${'Avg conf'.padStart(9)} ${'ms/doc'.padStart(8)}`);
+  for (const [name, t] of Object.entries(totals)) {
+    const avg = t.entities > 0 ? (t.confidenceSum / t.entities).toFixed(2) : '-';
+    const perDoc = name === 'ensemble' ? '-' : (docs.length > 0 ? Math.round(t.elapsedMs / docs.length) : 0).toString();
+    const unique = name === 'ensemble' ? '-' : t.unique.toString();
+    console.log(`${name.padEnd(12)} ${String(t.entities).padStart(9)} ${String(t.byType.person).padStart(7)} ${String(t.byType.location).padStart(7)} ${String(t.byType.organization).padStart(6)} ${unique.padStart(7)} ${avg.padStart(9)} ${perDoc.padStart(8)}${t.failures > 0 ? `   (${t.failures} failed)` : ''}`);
+  }
+
+  if (Object.keys(overlap).length > 0) {
+    console.log('\n🔗 Mean overlap (Jaccard):');
+    for (const [pair, sum] of Object.entries(overlap)) {
+      console.log(`   ${pair.padEnd(24)} ${(sum / Math.max(1, docs.length)).toFixed(3)}`);
+    }
+  }
+
+  if (jsonPath) {
+    await fs.writeFile(jsonPath, JSON.stringify({ extractors: names, documents: report }, null, 2));
+    console.log(`\n💾 Per-document results written to ${jsonPath}`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Comparison failed:', error);
+  process.exit(1);
+});
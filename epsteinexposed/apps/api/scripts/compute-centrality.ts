@@ -0,0 +1,36 @@
+import { CentralityService } from '../src/services/centrality.service';
+import { getEntityIndex } from '../src/services/entity-index.service';
+
+/**
+ * Compute weighted degree, betweenness, eigenvector and PageRank centrality
+ * for every entity in the connection graph and store them in the entity index.
+ * These back the tRPC API only - the web app reads Supabase (see packages/analysis/README.md).
+ *
+ * Usage: pnpm centrality:compute [--samples=500] [--exact]
+ */
+async function main() {
+  const exact = process.argv.includes('--exact');
+  const samplesArg = process.argv.find(arg => arg.startsWith('--samples='));
+  const betweennessSamples = exact ? 0 : samplesArg ? parseInt(samplesArg.split('=')[1], 10) : undefined;
+
+  const index = getEntityIndex();
+  const centrality = new CentralityService(undefined, index);
+
+  console.log(exact ? '🧮 Computing exact centrality (this can take a while)...\n' : '🧮 Computing centrality...\n');
+
+  try {
+    const result = await centrality.run({ betweennessSamples });
+
+    console.log('\n📊 Centrality summary:');
+    console.log(`   Entities:    ${result.entities}`);
+    console.log(`   Connections: ${result.connections}`);
+    console.log(`\n✅ Done in ${result.elapsedMs}ms`);
+  } catch (error) {
+    console.error('❌ Error computing centrality:', error);
+    process.exit(1);
+  } finally {
+    index.close();
+  }
+}
+
+main();
@@ -0,0 +1,81 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DocumentEntity } from '../src/services/entity-index.service';
+import { RelationExtractorService, RelationType } from '../src/services/relation-extractor.service';
+
+const ENTITIES_PATH = path.join(__dirname, '../data/entities');
+const PAGE_SEPARATOR = '\f';
+
+// Lookup tables and flight/black-book exports share the directory but aren't per-document files
+function isDocumentWithText(json: unknown): json is DocumentEntity & { document: { text: string } } {
+  const document = (json as Partial<DocumentEntity> | null)?.document;
+  return typeof document?.id === 'string' && typeof document.text === 'string';
+}
+
+/**
+ * Add typed relations to entity files ingested before relation extraction existed.
+ * New ingestions write them directly; the entity index picks up the rewritten files.
+ *
+ * Usage: pnpm relations:extract [--force] [--dry-run]
+ */
+async function main() {
+  const force = process.argv.includes('--force');
+  const dryRun = process.argv.includes('--dry-run');
+  const extractor = new RelationExtractorService();
+
+  console.log(`🔗 Extracting typed relations from entity files${dryRun ? ' (dry run)' : ''}...\n`);
+  const startTime = Date.now();
+
+  const files = (await fs.readdir(ENTITIES_PATH)).filter(f => f.endsWith('.json'));
+  const byType: Partial<Record<RelationType, number>> = {};
+  let updated = 0;
+  let skipped = 0;
+  let total = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    const filePath = path.join(ENTITIES_PATH, files[i]);
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      continue;
+    }
+
+    if (!isDocumentWithText(data)) continue;
+    if (Array.isArray(data.relationships) && !force) {
+      skipped++;
+      continue;
+    }
+
+    const relationships = extractor.extract(data.document.text.split(PAGE_SEPARATOR), [
+      ...(data.entities?.people || []).filter(p => p?.name).map(p => ({ name: p.name, type: 'person' as const })),
+      ...(data.entities?.organizations || []).filter(o => o?.name).map(o => ({ name: o.name, type: 'organization' as const })),
+    ]);
+    for (const relation of relationships) {
+      byType[relation.type] = (byType[relation.type] || 0) + 1;
+    }
+    total += relationships.length;
+
+    if (!dryRun) {
+      // Same key order as the ingestion service writes
+      const { document, entities, processedAt, ...rest } = data;
+      await fs.writeFile(filePath, JSON.stringify({ document, entities, ...rest, relationships, processedAt }, null, 2));
+    }
+    updated++;
+
+    if ((i + 1) % 100 === 0) {
+      process.stdout.write(`\r  Files: ${i + 1}/${files.length}, relations: ${total}`);
+    }
+  }
+
+  console.log('\n\n📊 Relations by type:');
+  for (const [type, count] of Object.entries(byType).sort((a, b) => b[1] - a[1])) {
+    console.log(`   ${type.padEnd(15)} ${count}`);
+  }
+  console.log(`\n✅ ${updated} files ${dryRun ? 'would be updated' : 'updated'}, ${skipped} already had relations, ${total} relations in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+}
+
+main().catch(error => {
+  console.error('❌ Error extracting relations:', error);
+  process.exit(1);
+});
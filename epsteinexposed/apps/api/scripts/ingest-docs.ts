@@ -5,23 +5,89 @@ import path from 'path';
 config({ path: path.join(__dirname, '../.env.local') });
 
 import { DocumentIngestionService } from '../src/services/document-ingestion.service';
+import { INGESTION_LLM_CONFIG } from '../src/services/llm-extractor.service';
+import { IngestionLedger, INGESTION_STAGES, STAGE_LABELS } from '@repo/ingestion/ledger';
+import { isLlmConfigured } from '@repo/llm/client';
+
+/**
+ * Incremental document ingestion backed by the ingestion ledger.
+ *
+ * Usage:
+ *   pnpm ingest           Process new, changed and failed PDFs
+ *                         --no-ocr skips OCR of scanned pages, --force reprocesses every file
+ *   pnpm ingest status    Show per-stage progress and recent failures
+ *   pnpm ingest retry     Reset failed stages and reprocess only those files
+ */
+function printStatus() {
+  const ledger = new IngestionLedger();
+
+  try {
+    const summary = ledger.summary();
+    const failures = ledger.failures();
+
+    console.log('📒 Ingestion ledger\n');
+    console.log(`   Files tracked: ${summary.files}\n`);
+    for (const stage of INGESTION_STAGES) {
+      const counts = summary.stages[stage];
+      console.log(`   ${STAGE_LABELS[stage].padEnd(20)} ✅ ${String(counts.done).padStart(6)}   ❌ ${String(counts.failed).padStart(6)}   ⏳ ${String(counts.pending).padStart(6)}`);
+    }
+
+    if (failures.length > 0) {
+      console.log(`\n❌ Failures (${failures.length}):`);
+      for (const failure of failures.slice(0, 20)) {
+        console.log(`   [${failure.stage}] ${failure.source} (attempts: ${failure.attempts})`);
+        if (failure.error) console.log(`      ${failure.error}`);
+      }
+      if (failures.length > 20) console.log(`   ... and ${failures.length - 20} more`);
+      console.log('\n   Run `pnpm ingest retry` to try them again');
+    }
+  } finally {
+    ledger.close();
+  }
+}
 
 async function main() {
-  console.log('Starting Epstein document ingestion...\n');
-  
-  if (!process.env.ANTHROPIC_API_KEY) {
-    console.error('❌ ANTHROPIC_API_KEY environment variable not set!');
-    console.error('   Create apps/api/.env.local with: ANTHROPIC_API_KEY=your_key_here');
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('--')) || 'run';
+  const ocr = !args.includes('--no-ocr');
+  const force = args.includes('--force');
+
+  if (command === 'status') {
+    printStatus();
+    return;
+  }
+
+  if (command !== 'run' && command !== 'retry') {
+    console.error(`❌ Unknown command: ${command}`);
+    console.error('   Usage: pnpm ingest [run|status|retry] [--no-ocr] [--force]');
     process.exit(1);
   }
-  
+
+  console.log('Starting Epstein document ingestion...\n');
+
+  if (!isLlmConfigured(INGESTION_LLM_CONFIG)) {
+    // Local extractors still run - only the LLM fallback for sparse documents is lost
+    console.warn('⚠️  No LLM configured - LLM fallback disabled');
+    console.warn('   Create apps/api/.env.local with: ANTHROPIC_API_KEY=your_key_here (or set LLM_PROVIDER)');
+    process.env.ENTITY_EXTRACTOR_FALLBACK = 'none';
+  }
+
   const service = new DocumentIngestionService();
-  
+
   try {
-    const results = await service.ingestAllDocuments();
+    if (command === 'retry') {
+      const ledger = new IngestionLedger();
+      const reset = ledger.resetFailures();
+      ledger.close();
+      console.log(`🔁 Reset ${reset} failed stages\n`);
+    }
+
+    await service.ingestAllDocuments({ retryOnly: command === 'retry', ocr, force });
+    await service.close();
     console.log('\n✅ Ingestion completed successfully!');
     process.exit(0);
   } catch (error) {
+    await service.close();
     console.error('\n❌ Ingestion failed:', error);
     process.exit(1);
   }
@@ -1,9 +1,14 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { parse } from 'csv-parse/sync';
+import { RelationshipFile } from '../src/services/relation-extractor.service';
 
 const INPUT_PATH = path.join(__dirname, '../data/external/black-book.csv');
 const OUTPUT_PATH = path.join(__dirname, '../data/entities/black-book-contacts.json');
+const RELATIONSHIPS_PATH = path.join(__dirname, '../data/entities/black-book-relationships.json');
+
+// Whose contact book it is - every entry is a directed owner → contact relation
+const BOOK_OWNER = 'Jeffrey Epstein';
 
 interface BlackBookContact {
   id: string;
@@ -128,6 +133,28 @@ async function main() {
     await fs.writeFile(lookupPath, JSON.stringify(nameLookup, null, 2));
     console.log(`💾 Saved lookup table to ${lookupPath}`);
     
+    const relationships: RelationshipFile = {
+      source: 'black_book',
+      generatedAt: new Date().toISOString(),
+      relationships: contacts
+        .filter(c => normalizeText(c.name) !== normalizeText(BOOK_OWNER))
+        .map(c => ({
+          type: 'contact' as const,
+          source: BOOK_OWNER,
+          target: c.name,
+          directed: true,
+          confidence: 0.95,
+          cue: c.circled ? 'contact book (circled)' : 'contact book',
+          evidence: {
+            page: c.pageNumber ?? null,
+            text: `Contact book entry: ${c.name}${c.circled ? ' (circled)' : ''}`,
+            reference: c.id,
+          },
+        })),
+    };
+    await fs.writeFile(RELATIONSHIPS_PATH, JSON.stringify(relationships, null, 2));
+    console.log(`💾 Saved ${relationships.relationships.length} contact relations to ${RELATIONSHIPS_PATH}`);
+    
     // Show sample entries
     console.log('\n📋 Sample entries:');
     contacts.slice(0, 5).forEach((c, i) => {
@@ -1,9 +1,11 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { parse } from 'csv-parse/sync';
+import { ExtractedRelation, RelationshipFile } from '../src/services/relation-extractor.service';
 
 const INPUT_PATH = path.join(__dirname, '../data/external/flight-logs.csv');
 const OUTPUT_PATH = path.join(__dirname, '../data/entities/flight-logs.json');
+const RELATIONSHIPS_PATH = path.join(__dirname, '../data/entities/flight-log-relationships.json');
 
 interface Flight {
   id: string;
@@ -194,6 +196,31 @@ async function parseFlightLogs(): Promise<{ flights: Flight[]; passengers: Passe
   return { flights, passengers };
 }
 
+// Everyone on a flight travelled with everyone else on it - one relation per pair per flight
+function coPassengerRelations(flights: Flight[]): ExtractedRelation[] {
+  const relations: ExtractedRelation[] = [];
+  for (const flight of flights) {
+    const text = `${flight.date || 'Undated'} ${flight.origin || '?'} → ${flight.destination || '?'} (${flight.tailNumber})`;
+    for (let i = 0; i < flight.passengers.length; i++) {
+      for (let j = i + 1; j < flight.passengers.length; j++) {
+        const a = flight.passengers[i];
+        const b = flight.passengers[j];
+        if (a.normalizedName === b.normalizedName) continue;
+        relations.push({
+          type: 'traveled_with',
+          source: a.name,
+          target: b.name,
+          directed: false,
+          confidence: 0.9,
+          cue: 'flight log',
+          evidence: { page: null, text, reference: flight.id },
+        });
+      }
+    }
+  }
+  return relations;
+}
+
 async function main() {
   try {
     const { flights, passengers } = await parseFlightLogs();
@@ -219,6 +246,15 @@ async function main() {
     await fs.writeFile(lookupPath, JSON.stringify(lookup, null, 2));
     console.log(`💾 Saved lookup table to ${lookupPath}`);
     
+    // Co-passenger relations for the entity index and the Supabase graph
+    const relationships: RelationshipFile = {
+      source: 'flight_logs',
+      generatedAt: new Date().toISOString(),
+      relationships: coPassengerRelations(flights),
+    };
+    await fs.writeFile(RELATIONSHIPS_PATH, JSON.stringify(relationships, null, 2));
+    console.log(`💾 Saved ${relationships.relationships.length} co-passenger relations to ${RELATIONSHIPS_PATH}`);
+    
   } catch (error) {
     console.error('❌ Error parsing flight logs:', error);
     process.exit(1);
@@ -2,9 +2,16 @@ import { z } from 'zod';
 import { publicProcedure, router } from '../trpc';
 import { EntityDataLoaderService } from '../services/entity-data-loader.service';
 import { GraphBuilderService } from '../services/graph-builder.service';
+import { PathFinderService } from '../services/path-finder.service';
+import { CentralityService } from '../services/centrality.service';
+import { EDGE_WEIGHTINGS } from '@repo/analysis/edge-weighting';
+import { PATH_WEIGHTINGS } from '@repo/analysis/paths';
+import { RELATION_TYPES } from '../services/relation-extractor.service';
 
 const entityLoader = new EntityDataLoaderService();
 const graphBuilder = new GraphBuilderService();
+const pathFinder = new PathFinderService(entityLoader);
+const centrality = new CentralityService(entityLoader);
 
 export const graphRouter = router({
   
@@ -52,15 +59,28 @@ export const graphRouter = router({
       if (!entity) return null;
       
       const connections = await entityLoader.getEntityConnections(input.nodeId);
+      const relationships = await entityLoader.getRelationships({ entityId: input.nodeId, limit: 20, evidenceLimit: 1 });
+      // Null until `pnpm centrality:compute` has run
+      const scores = await centrality.getScores(input.nodeId);
       
       return {
         ...entity,
+        centrality: scores,
         connections: connections.slice(0, 20).map(c => ({
           name: c.from === input.nodeId ? c.toName : c.fromName,
           id: c.from === input.nodeId ? c.to : c.from,
           strength: c.strength,
           documents: c.documentIds.length,
         })),
+        // Why they are linked, where the text says so
+        relationships: relationships.map(r => ({
+          type: r.type,
+          direction: !r.directed ? 'both' : r.from === input.nodeId ? 'outgoing' : 'incoming',
+          name: r.from === input.nodeId ? r.toName : r.fromName,
+          id: r.from === input.nodeId ? r.to : r.from,
+          strength: r.strength,
+          evidence: r.evidence[0] || null,
+        })),
       };
     }),
   
@@ -83,9 +103,29 @@ export const graphRouter = router({
   
   // Get strongest connections
   getConnections: publicProcedure
-    .input(z.object({ limit: z.number().optional() }).optional())
+    .input(z.object({
+      limit: z.number().optional(),
+      weighting: z.enum(EDGE_WEIGHTINGS).optional(),
+    }).optional())
+    .query(async ({ input }) => {
+      return await entityLoader.getStrongestConnections(input?.limit || 50, input?.weighting);
+    }),
+  
+  // Typed relations, optionally of some types or around one entity
+  getRelationships: publicProcedure
+    .input(z.object({
+      types: z.array(z.enum(RELATION_TYPES)).optional(),
+      entityId: z.string().optional(),
+      limit: z.number().int().min(1).max(1000).optional(),
+      evidenceLimit: z.number().int().min(0).max(50).optional(),
+    }).optional())
     .query(async ({ input }) => {
-      return await entityLoader.getStrongestConnections(input?.limit || 50);
+      return await entityLoader.getRelationships({
+        types: input?.types,
+        entityId: input?.entityId,
+        limit: input?.limit || 100,
+        evidenceLimit: input?.evidenceLimit,
+      });
     }),
   
   // Get discoveries from analysis
@@ -101,11 +141,21 @@ export const graphRouter = router({
     .input(z.object({
       minStrength: z.number().optional(),
       minSize: z.number().optional(),
+      algorithm: z.enum(['components', 'louvain']).optional(),
+      resolution: z.number().positive().optional(),
+      excludeTopHubs: z.number().int().min(0).optional(),
+      excludeIds: z.array(z.string()).optional(),
     }).optional())
     .query(async ({ input }) => {
       return await graphBuilder.findNetworkClusters(
         input?.minStrength || 3,
-        input?.minSize || 3
+        input?.minSize || 3,
+        {
+          algorithm: input?.algorithm,
+          resolution: input?.resolution,
+          excludeTopHubs: input?.excludeTopHubs,
+          excludeIds: input?.excludeIds,
+        }
       );
     }),
   
@@ -116,6 +166,22 @@ export const graphRouter = router({
       return await graphBuilder.findMostConnected(input?.limit || 20);
     }),
   
+  // Shortest and k-shortest paths between two entities, with evidence per hop
+  findPaths: publicProcedure
+    .input(z.object({
+      fromId: z.string(),
+      toId: z.string(),
+      k: z.number().int().min(1).max(10).optional(),
+      minStrength: z.number().min(1).optional(),
+      maxHops: z.number().int().min(1).max(10).optional(),
+      weighting: z.enum(PATH_WEIGHTINGS).optional(),
+      evidenceLimit: z.number().int().min(0).max(100).optional(),
+    }))
+    .query(async ({ input }) => {
+      const { fromId, toId, ...options } = input;
+      return await pathFinder.findPaths(fromId, toId, options);
+    }),
+  
   // Get geographic patterns
   getGeographicPatterns: publicProcedure
     .query(async () => {
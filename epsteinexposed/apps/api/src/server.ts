@@ -5,6 +5,7 @@ import fs from 'fs';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
 import { appRouter } from './routers/_app';
 import { DocumentMapperService } from './services/document-mapper.service';
+import { getEntityIndex } from './services/entity-index.service';
 
 const app = express();
 
@@ -74,8 +75,14 @@ app.listen(PORT, () => {
   console.log('   • graph.getMetrics - Get system metrics');
   console.log('   • graph.getDiscoveries - Get AI discoveries');
   console.log('   • graph.getNodeDetails - Get entity details');
+  console.log('   • graph.findPaths - Paths between two entities');
   console.log('   • document.getEntityDocuments - Get docs for entity');
   console.log('   • document.getConnectionDocuments - Get evidence docs');
   console.log('═══════════════════════════════════════════════════════════');
   console.log('');
+  
+  // Warm the entity index so the first request doesn't pay for the sync
+  getEntityIndex().ensureReady().catch(error => {
+    console.error('❌ Entity index sync failed:', error);
+  });
 });
@@ -0,0 +1,61 @@
+/**
+ * Centrality Service
+ * Weighted degree, betweenness, eigenvector and PageRank centrality over the co-occurrence graph
+ * Betweenness surfaces brokers between groups, which raw mention counts hide
+ */
+
+import { computeCentrality, CentralityEdge, CentralityOptions, CentralityScores } from '@repo/analysis/centrality';
+import { EntityDataLoaderService } from './entity-data-loader.service';
+import { EntityIndexService, getEntityIndex } from './entity-index.service';
+
+export type { CentralityEdge, CentralityMetric, CentralityOptions, CentralityScores } from '@repo/analysis/centrality';
+
+export interface CentralityRunResult {
+  entities: number;
+  connections: number;
+  elapsedMs: number;
+}
+
+export class CentralityService {
+  private index: EntityIndexService;
+  private entityLoader: EntityDataLoaderService;
+
+  constructor(entityLoader?: EntityDataLoaderService, index: EntityIndexService = getEntityIndex()) {
+    this.entityLoader = entityLoader || new EntityDataLoaderService(index);
+    this.index = index;
+  }
+
+  /**
+   * Batch job: compute every metric over all connections and store them per entity
+   */
+  async run(options: CentralityOptions = {}): Promise<CentralityRunResult> {
+    const startTime = Date.now();
+    const connections = await this.entityLoader.buildConnectionGraph();
+
+    console.log(`📊 Computing centrality over ${connections.length} connections...`);
+    const scores = this.compute(
+      connections.map(c => ({ from: c.from, to: c.to, weight: c.strength })),
+      options,
+    );
+
+    await this.index.saveCentrality(scores);
+
+    const elapsedMs = Date.now() - startTime;
+    console.log(`✅ Stored centrality for ${scores.size} entities in ${elapsedMs}ms`);
+    return { entities: scores.size, connections: connections.length, elapsedMs };
+  }
+
+  /**
+   * Stored scores for one entity, null if the batch job hasn't covered it
+   */
+  async getScores(entityId: string): Promise<CentralityScores | null> {
+    return this.index.getCentrality(entityId);
+  }
+
+  /**
+   * Compute all metrics for an edge list
+   */
+  compute(edges: CentralityEdge[], options: CentralityOptions = {}): Map<string, CentralityScores> {
+    return computeCentrality(edges, options);
+  }
+}
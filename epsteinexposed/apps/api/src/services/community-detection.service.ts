@@ -0,0 +1,296 @@
+/**
+ * Community Detection Service
+ * Modularity-based clustering (Louvain) for the co-occurrence graph
+ * Separates social groups that plain connected components merge into one blob
+ */
+
+export interface WeightedEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export interface CommunityDetectionOptions {
+  resolution?: number;     // > 1 favours smaller communities, < 1 larger ones
+  maxLevels?: number;      // Max aggregation passes
+  seed?: number;           // Node visiting order is shuffled deterministically
+}
+
+export interface CommunityDetectionResult {
+  communities: Map<string, number>;   // node id -> community index
+  modularity: number;
+  levels: number;
+}
+
+// Compact weighted graph: neighbours and weights per node index
+interface IndexedGraph {
+  size: number;
+  neighbors: number[][];
+  weights: number[][];
+  selfLoops: number[];
+}
+
+// Small deterministic PRNG so the same input always yields the same clusters
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class CommunityDetectionService {
+  /**
+   * Louvain community detection.
+   * Local moving + aggregation until modularity stops improving, followed by a
+   * pass that splits any community that isn't internally connected.
+   */
+  louvain(edges: WeightedEdge[], options: CommunityDetectionOptions = {}): CommunityDetectionResult {
+    const resolution = options.resolution ?? 1;
+    const maxLevels = options.maxLevels ?? 10;
+    const random = mulberry32(options.seed ?? 42);
+
+    // Index nodes
+    const ids: string[] = [];
+    const indexOf = new Map<string, number>();
+    const nodeIndex = (id: string) => {
+      let index = indexOf.get(id);
+      if (index === undefined) {
+        index = ids.length;
+        ids.push(id);
+        indexOf.set(id, index);
+      }
+      return index;
+    };
+
+    const graph: IndexedGraph = { size: 0, neighbors: [], weights: [], selfLoops: [] };
+    for (const edge of edges) {
+      if (edge.weight <= 0) continue;
+      const a = nodeIndex(edge.from);
+      const b = nodeIndex(edge.to);
+      while (graph.neighbors.length < ids.length) {
+        graph.neighbors.push([]);
+        graph.weights.push([]);
+        graph.selfLoops.push(0);
+      }
+      if (a === b) {
+        graph.selfLoops[a] += edge.weight;
+        continue;
+      }
+      graph.neighbors[a].push(b);
+      graph.weights[a].push(edge.weight);
+      graph.neighbors[b].push(a);
+      graph.weights[b].push(edge.weight);
+    }
+    graph.size = ids.length;
+
+    if (graph.size === 0) {
+      return { communities: new Map(), modularity: 0, levels: 0 };
+    }
+
+    // membership[i] = community of original node i, updated after every level
+    let membership = ids.map((_, i) => i);
+    let current = graph;
+    let levels = 0;
+
+    while (levels < maxLevels) {
+      const { community, moved } = this.localMoving(current, resolution, random);
+      if (!moved) break;
+
+      // Renumber communities 0..k-1
+      const renumber = new Map<number, number>();
+      for (const c of community) {
+        if (!renumber.has(c)) renumber.set(c, renumber.size);
+      }
+      const compact = community.map(c => renumber.get(c)!);
+
+      membership = membership.map(c => compact[c]);
+      current = this.aggregate(current, compact, renumber.size);
+      levels++;
+
+      if (renumber.size === community.length) break;
+    }
+
+    membership = this.splitDisconnected(graph, membership);
+
+    const communities = new Map<string, number>();
+    ids.forEach((id, i) => communities.set(id, membership[i]));
+
+    return {
+      communities,
+      modularity: this.modularity(graph, membership, resolution),
+      levels,
+    };
+  }
+
+  /**
+   * Phase 1: move single nodes to the neighbouring community with the best modularity gain
+   */
+  private localMoving(graph: IndexedGraph, resolution: number, random: () => number): { community: number[]; moved: boolean } {
+    const n = graph.size;
+    const community = Array.from({ length: n }, (_, i) => i);
+    const degree = new Array<number>(n).fill(0);
+    let totalWeight = 0;
+
+    for (let i = 0; i < n; i++) {
+      let k = graph.selfLoops[i] * 2;
+      for (const w of graph.weights[i]) k += w;
+      degree[i] = k;
+      totalWeight += k;
+    }
+
+    const m2 = totalWeight;
+    if (m2 === 0) return { community, moved: false };
+
+    const communityTotal = degree.slice();
+
+    // Shuffled visiting order
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    let moved = false;
+    let improved = true;
+    let passes = 0;
+    const neighborWeight = new Map<number, number>();
+
+    while (improved && passes < 50) {
+      improved = false;
+      passes++;
+
+      for (const node of order) {
+        const currentCommunity = community[node];
+        const k = degree[node];
+
+        neighborWeight.clear();
+        const neighbors = graph.neighbors[node];
+        const weights = graph.weights[node];
+        for (let j = 0; j < neighbors.length; j++) {
+          const c = community[neighbors[j]];
+          neighborWeight.set(c, (neighborWeight.get(c) || 0) + weights[j]);
+        }
+
+        // Take the node out of its community
+        communityTotal[currentCommunity] -= k;
+
+        let bestCommunity = currentCommunity;
+        let bestGain = (neighborWeight.get(currentCommunity) || 0) - resolution * communityTotal[currentCommunity] * k / m2;
+
+        for (const [c, weightToC] of neighborWeight) {
+          const gain = weightToC - resolution * communityTotal[c] * k / m2;
+          if (gain > bestGain + 1e-12) {
+            bestGain = gain;
+            bestCommunity = c;
+          }
+        }
+
+        communityTotal[bestCommunity] += k;
+
+        if (bestCommunity !== currentCommunity) {
+          community[node] = bestCommunity;
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+
+    return { community, moved };
+  }
+
+  /**
+   * Phase 2: collapse each community into a single node
+   */
+  private aggregate(graph: IndexedGraph, community: number[], count: number): IndexedGraph {
+    const edgeWeights: Array<Map<number, number>> = Array.from({ length: count }, () => new Map());
+    const selfLoops = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < graph.size; i++) {
+      const ci = community[i];
+      selfLoops[ci] += graph.selfLoops[i];
+
+      const neighbors = graph.neighbors[i];
+      const weights = graph.weights[i];
+      for (let j = 0; j < neighbors.length; j++) {
+        const cj = community[neighbors[j]];
+        if (ci === cj) {
+          // Each internal edge is seen from both ends
+          selfLoops[ci] += weights[j] / 2;
+        } else {
+          edgeWeights[ci].set(cj, (edgeWeights[ci].get(cj) || 0) + weights[j]);
+        }
+      }
+    }
+
+    return {
+      size: count,
+      neighbors: edgeWeights.map(m => Array.from(m.keys())),
+      weights: edgeWeights.map(m => Array.from(m.values())),
+      selfLoops,
+    };
+  }
+
+  /**
+   * Louvain can leave a community internally disconnected - split those into their components
+   */
+  private splitDisconnected(graph: IndexedGraph, membership: number[]): number[] {
+    const result = new Array<number>(graph.size).fill(-1);
+    let next = 0;
+
+    for (let start = 0; start < graph.size; start++) {
+      if (result[start] !== -1) continue;
+
+      const label = next++;
+      const queue = [start];
+      result[start] = label;
+
+      while (queue.length > 0) {
+        const node = queue.pop()!;
+        for (const neighbor of graph.neighbors[node]) {
+          if (result[neighbor] === -1 && membership[neighbor] === membership[start]) {
+            result[neighbor] = label;
+            queue.push(neighbor);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private modularity(graph: IndexedGraph, membership: number[], resolution: number): number {
+    const internal = new Map<number, number>();
+    const total = new Map<number, number>();
+    let m2 = 0;
+
+    for (let i = 0; i < graph.size; i++) {
+      const c = membership[i];
+      let k = graph.selfLoops[i] * 2;
+      internal.set(c, (internal.get(c) || 0) + graph.selfLoops[i] * 2);
+
+      const neighbors = graph.neighbors[i];
+      const weights = graph.weights[i];
+      for (let j = 0; j < neighbors.length; j++) {
+        k += weights[j];
+        if (membership[neighbors[j]] === c) {
+          internal.set(c, (internal.get(c) || 0) + weights[j]);
+        }
+      }
+
+      total.set(c, (total.get(c) || 0) + k);
+      m2 += k;
+    }
+
+    if (m2 === 0) return 0;
+
+    let q = 0;
+    for (const [c, tot] of total) {
+      q += (internal.get(c) || 0) / m2 - resolution * (tot / m2) ** 2;
+    }
+    return q;
+  }
+}
@@ -1,8 +1,14 @@
 import fs from 'fs/promises';
 import path from 'path';
 import pdf from 'pdf-parse';
-import Anthropic from '@anthropic-ai/sdk';
-import { LocalExtractorService, LocalExtractedEntities } from './local-extractor.service';
+import { LocalExtractorService } from './local-extractor.service';
+import { EntityEnsembleService } from './entity-ensemble.service';
+import { LlmExtractor } from './llm-extractor.service';
+import { IngestionLedger, hashContent, MAX_ATTEMPTS } from '@repo/ingestion/ledger';
+import { getEntityIndex } from './entity-index.service';
+import { OcrService } from './ocr.service';
+import { buildRoleProfile, classifyMentionRole, EntityRole } from '@repo/analysis/roles';
+import { RelationExtractorService, ExtractedRelation } from './relation-extractor.service';
 
 interface Document {
   id: string;
@@ -11,40 +17,80 @@ interface Document {
   text: string;
   pageCount: number;
   dataset: string;
+  ocrConfidence?: number;                   // Mean OCR confidence (0-100) over pages that needed OCR
+  pageOcrConfidence?: Array<number | null>; // Per page - null where the embedded text layer was used
+}
+
+// Where a name appears: 1-based page number and character offset within that page
+export interface EntityMention {
+  page: number;
+  offset: number;
+  context: string;
+  role?: EntityRole;      // People only - the role the text around this mention suggests
+  roleCue?: string;
+}
+
+// Ensemble confidence (0-1) and each extractor's own confidence for the entity
+interface EntityProvenance {
+  confidence?: number;
+  sources?: Record<string, number>;
 }
 
 interface ExtractedEntities {
-  people: Array<{ name: string; role: string; context: string }>;
-  locations: Array<{ name: string; type: string }>;
+  people: Array<{ name: string; role: string; context: string; mentions?: EntityMention[] } & EntityProvenance>;
+  locations: Array<{ name: string; type: string; mentions?: EntityMention[] } & EntityProvenance>;
   dates: Array<{ date: string; event: string }>;
   flights: Array<{ from: string; to: string; date: string; passengers: string[] }>;
   phone_numbers: string[];
-  organizations: Array<{ name: string }>;
+  organizations: Array<{ name: string; mentions?: EntityMention[] } & EntityProvenance>;
+}
+
+export interface IngestionOptions {
+  retryOnly?: boolean;    // Only files with a failed stage
+  ocr?: boolean;          // OCR pages without a usable text layer (default true)
+  force?: boolean;        // Reprocess files the ledger already finished, e.g. scans ingested before OCR
+}
+
+// Pages with fewer non-whitespace characters than this are treated as scans
+const MIN_PAGE_TEXT_CHARS = 25;
+
+// Pages are joined with form feeds so downstream indexing can split them again
+const PAGE_SEPARATOR = '\f';
+const MAX_MENTIONS_PER_ENTITY = 50;
+const MENTION_CONTEXT_CHARS = 80;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 export class DocumentIngestionService {
   private docsBasePath: string;
-  private anthropic: Anthropic;
   private localExtractor: LocalExtractorService;
+  private extractors: EntityEnsembleService;
+  private ledger: IngestionLedger;
+  private ocr: OcrService;
+  private relations = new RelationExtractorService();
   private stats = {
+    ocrPages: 0,
     localExtractions: 0,
-    claudeExtractions: 0,
-    tokensUsed: 0,
     tokensSaved: 0,
   };
   
   constructor() {
     // Documents are in apps/web directory
     this.docsBasePath = path.join(__dirname, '../../../web');
-    // Initialize Anthropic client here after dotenv has loaded
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY!
-    });
     this.localExtractor = new LocalExtractorService();
+    this.extractors = new EntityEnsembleService();
+    this.ledger = new IngestionLedger();
+    this.ocr = new OcrService();
   }
   
-  async ingestAllDocuments() {
-    console.log('🔍 Starting document ingestion...');
+  /**
+   * Process new, changed and previously failed PDFs.
+   * Files whose content hash already finished entity extraction are skipped.
+   */
+  async ingestAllDocuments(options: IngestionOptions = {}) {
+    console.log(options.retryOnly ? '🔁 Retrying failed documents...' : '🔍 Starting document ingestion...');
     console.log(`📂 Base path: ${this.docsBasePath}`);
     
     const files = await this.findAllPDFs(this.docsBasePath);
@@ -53,6 +99,7 @@ export class DocumentIngestionService {
     const results = {
       total: files.length,
       processed: 0,
+      skipped: 0,
       failed: 0,
       entities: {
         people: 0,
@@ -63,12 +110,41 @@ export class DocumentIngestionService {
     };
     
     for (const filePath of files) {
+      const relativePath = path.relative(this.docsBasePath, filePath);
+      let contentHash: string | null = null;
+
       try {
-        const relativePath = path.relative(this.docsBasePath, filePath);
+        const dataBuffer = await fs.readFile(filePath);
+        contentHash = hashContent(dataBuffer);
+        this.ledger.register(contentHash, relativePath, dataBuffer.length, this.generateDocId(filePath));
+
+        if (!options.force && this.ledger.isDone(contentHash, 'entities')) {
+          results.skipped++;
+          continue;
+        }
+        if (options.retryOnly && !this.ledger.hasFailures(contentHash)) {
+          results.skipped++;
+          continue;
+        }
+        if (!options.force && (!this.ledger.canAttempt(contentHash, 'text') || !this.ledger.canAttempt(contentHash, 'entities'))) {
+          console.log(`\n⏭️  Skipping ${relativePath} - failed ${MAX_ATTEMPTS} times (use ingest retry)`);
+          results.skipped++;
+          continue;
+        }
+
         console.log(`\n📄 Processing: ${relativePath}`);
         
-        const doc = await this.processPDF(filePath);
-        const entities = await this.extractEntitiesFromDocument(doc);
+        const doc = await this.processPDF(filePath, dataBuffer, options.ocr !== false);
+        this.ledger.markDone(contentHash, 'text');
+
+        let entities: ExtractedEntities;
+        try {
+          entities = await this.extractEntitiesFromDocument(doc);
+        } catch (error) {
+          this.ledger.markFailed(contentHash, 'entities', error);
+          throw error;
+        }
+        this.ledger.markDone(contentHash, 'entities');
         
         // Update counts
         results.processed++;
@@ -81,34 +157,67 @@ export class DocumentIngestionService {
         
       } catch (error: unknown) {
         results.failed++;
+        if (contentHash && !this.ledger.isDone(contentHash, 'text')) {
+          this.ledger.markFailed(contentHash, 'text', error);
+        }
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`   ❌ Failed: ${errorMessage}`);
+        console.error(`   ❌ Failed: ${relativePath}: ${errorMessage}`);
       }
     }
+
+    await this.rebuildConnections();
     
     console.log('\n' + '='.repeat(60));
     console.log('📊 INGESTION COMPLETE');
     console.log('='.repeat(60));
     console.log(`Total files: ${results.total}`);
     console.log(`Processed: ${results.processed}`);
+    console.log(`Skipped (unchanged): ${results.skipped}`);
     console.log(`Failed: ${results.failed}`);
     console.log(`\nEntities extracted:`);
     console.log(`  People: ${results.entities.people}`);
     console.log(`  Locations: ${results.entities.locations}`);
     console.log(`  Dates: ${results.entities.dates}`);
     console.log(`  Flights: ${results.entities.flights}`);
+    console.log(`\n🔎 OCR pages: ${this.stats.ocrPages}`);
+    const llm = this.extractors.get('llm');
+    const llmUsage = llm instanceof LlmExtractor ? llm.usage : { calls: 0, tokens: 0 };
     console.log(`\n💰 TOKEN SAVINGS:`);
     console.log(`  Local extractions: ${this.stats.localExtractions}`);
-    console.log(`  Claude extractions: ${this.stats.claudeExtractions}`);
-    console.log(`  Tokens used: ${this.stats.tokensUsed.toLocaleString()}`);
+    console.log(`  LLM extractions: ${llmUsage.calls}`);
+    console.log(`  Tokens used: ${llmUsage.tokens.toLocaleString()}`);
     console.log(`  Tokens saved: ${this.stats.tokensSaved.toLocaleString()}`);
     const savingsPercent = this.stats.tokensSaved > 0 
-      ? ((this.stats.tokensSaved / (this.stats.tokensSaved + this.stats.tokensUsed)) * 100).toFixed(1)
+      ? ((this.stats.tokensSaved / (this.stats.tokensSaved + llmUsage.tokens)) * 100).toFixed(1)
       : '100';
     console.log(`  Savings: ${savingsPercent}%`);
     
     return results;
   }
+
+  /**
+   * Sync the entity index for every file whose entities changed since connections were last rebuilt
+   */
+  private async rebuildConnections() {
+    const awaiting = this.ledger.awaiting('connections', 'entities');
+    if (awaiting.length === 0) return;
+
+    console.log(`\n🔗 Rebuilding connections for ${awaiting.length} documents...`);
+    try {
+      await getEntityIndex().sync();
+      for (const entry of awaiting) this.ledger.markDone(entry.contentHash, 'connections');
+    } catch (error) {
+      for (const entry of awaiting) this.ledger.markFailed(entry.contentHash, 'connections', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`   ❌ Connection rebuild failed: ${errorMessage}`);
+    }
+  }
+
+  async close() {
+    this.ledger.close();
+    await this.ocr.terminate();
+    await this.extractors.close();
+  }
   
   private async findAllPDFs(dir: string): Promise<string[]> {
     const files: string[] = [];
@@ -136,21 +245,152 @@ export class DocumentIngestionService {
     return files;
   }
   
-  private async processPDF(filePath: string): Promise<Document> {
-    const dataBuffer = await fs.readFile(filePath);
-    const data = await pdf(dataBuffer);
+  private async processPDF(filePath: string, dataBuffer: Buffer, useOcr: boolean): Promise<Document> {
+    const pages: string[] = [];
+    const data = await pdf(dataBuffer, {
+      pagerender: (pageData) => this.renderPage(pageData, pages),
+    });
     
     // Determine which dataset this belongs to
     const dataset = this.getDatasetFromPath(filePath);
-    
-    return {
+
+    const doc: Document = {
       id: this.generateDocId(filePath),
       filename: path.basename(filePath),
       path: filePath,
-      text: data.text,
+      // Keep page boundaries - pdf-parse's own text runs every page together
+      text: pages.length > 0 ? pages.join(PAGE_SEPARATOR) : data.text,
       pageCount: data.numpages,
       dataset,
     };
+
+    if (useOcr && pages.length > 0) {
+      await this.applyOcr(doc, pages, dataBuffer);
+    }
+
+    return doc;
+  }
+
+  /**
+   * OCR pages whose text layer is missing or nearly empty (scans) and
+   * record per-page confidence on the document
+   */
+  private async applyOcr(doc: Document, pages: string[], dataBuffer: Buffer) {
+    const scannedPages: number[] = [];
+    for (let i = 0; i < doc.pageCount; i++) {
+      if ((pages[i] || '').replace(/\s/g, '').length < MIN_PAGE_TEXT_CHARS) {
+        scannedPages.push(i + 1);
+      }
+    }
+    if (scannedPages.length === 0) return;
+
+    console.log(`   🔎 OCR: ${scannedPages.length}/${doc.pageCount} pages have no text layer...`);
+    const results = await this.ocr.recognizePages(dataBuffer, scannedPages);
+
+    const pageOcrConfidence: Array<number | null> = Array.from({ length: doc.pageCount }, () => null);
+    for (const result of results) {
+      pageOcrConfidence[result.page - 1] = Math.round(result.confidence * 10) / 10;
+      // Keep whatever the text layer had if OCR found even less
+      if (result.text.trim().length > (pages[result.page - 1] || '').trim().length) {
+        pages[result.page - 1] = result.text;
+      }
+    }
+
+    const confidences = results.map(r => r.confidence);
+    doc.text = pages.join(PAGE_SEPARATOR);
+    doc.pageOcrConfidence = pageOcrConfidence;
+    doc.ocrConfidence = confidences.length > 0
+      ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 10) / 10
+      : undefined;
+    this.stats.ocrPages += results.length;
+
+    console.log(`   🔎 OCR done - mean confidence ${doc.ocrConfidence ?? 0}%`);
+  }
+
+  /**
+   * Same text layout as pdf-parse's default renderer, but records each page separately
+   */
+  private async renderPage(
+    pageData: { pageNumber: number; getTextContent: (options: object) => Promise<{ items: Array<{ str: string; transform: number[] }> }> },
+    pages: string[]
+  ): Promise<string> {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      if (lastY === undefined || lastY === item.transform[5]) {
+        text += item.str;
+      } else {
+        text += '\n' + item.str;
+      }
+      lastY = item.transform[5];
+    }
+
+    pages[pageData.pageNumber - 1] = text;
+    return text;
+  }
+
+  /**
+   * Every place a name occurs in the document, with page and in-page offset
+   */
+  private locateMentions(pages: string[], name: string): EntityMention[] {
+    const words = name.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+    if (words.length === 0) return [];
+
+    // Names wrap across lines in OCR'd text, so any whitespace separates words
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+    const mentions: EntityMention[] = [];
+
+    for (let i = 0; i < pages.length && mentions.length < MAX_MENTIONS_PER_ENTITY; i++) {
+      const page = pages[i] || '';
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(page)) !== null && mentions.length < MAX_MENTIONS_PER_ENTITY) {
+        const start = Math.max(0, match.index - MENTION_CONTEXT_CHARS);
+        const end = Math.min(page.length, match.index + match[0].length + MENTION_CONTEXT_CHARS);
+        mentions.push({
+          page: i + 1,
+          offset: match.index,
+          context: page.slice(start, end).replace(/\s+/g, ' ').trim(),
+        });
+      }
+    }
+
+    return mentions;
+  }
+
+  /**
+   * Attach page-level mentions to people, locations and organizations
+   */
+  private attachMentions(doc: Document, entities: ExtractedEntities) {
+    const pages = doc.text.split(PAGE_SEPARATOR);
+    const cache = new Map<string, EntityMention[]>();
+    const mentionsOf = (name: string) => {
+      const key = name.toLowerCase().trim();
+      let mentions = cache.get(key);
+      if (!mentions) {
+        mentions = this.locateMentions(pages, name);
+        cache.set(key, mentions);
+      }
+      return mentions;
+    };
+
+    for (const person of entities.people) {
+      // Copies - the cache is shared by name, and roles are per person
+      person.mentions = mentionsOf(person.name).map(mention => {
+        const classified = classifyMentionRole(person.name, mention.context, { dataset: doc.dataset, title: doc.filename });
+        return classified ? { ...mention, role: classified.role, roleCue: classified.cue } : { ...mention };
+      });
+      // The role this document gives them, over whatever the extractor guessed
+      const profile = buildRoleProfile(person.mentions.map(mention => mention.role));
+      if (profile.primary) person.role = profile.primary;
+    }
+    for (const location of entities.locations) location.mentions = mentionsOf(location.name);
+    for (const org of entities.organizations) org.mentions = mentionsOf(org.name);
   }
   
   private async extractEntitiesFromDocument(doc: Document): Promise<ExtractedEntities> {
@@ -163,29 +403,12 @@ export class DocumentIngestionService {
       organizations: [],
     };
     
-    // STEP 1: Local extraction first (FREE - no API calls)
-    console.log(`   📋 Running local pattern extraction...`);
+    // STEP 1: Structured fields (dates, flights, phone numbers) from local patterns
     const localEntities = this.localExtractor.extractAll(doc.text);
     
     // Estimate tokens we would have used
     const estimatedTokens = Math.ceil(doc.text.length / 4);
     
-    // Convert local entities to our format
-    for (const person of localEntities.people) {
-      allEntities.people.push({
-        name: person.name,
-        role: 'extracted',
-        context: person.context,
-      });
-    }
-    
-    for (const loc of localEntities.locations) {
-      allEntities.locations.push({
-        name: loc.name,
-        type: loc.type,
-      });
-    }
-    
     for (const date of localEntities.dates) {
       allEntities.dates.push({
         date: date.date,
@@ -204,77 +427,57 @@ export class DocumentIngestionService {
     
     allEntities.phone_numbers = localEntities.phone_numbers.map(p => p.number);
     
-    const localCount = allEntities.people.length + allEntities.locations.length + 
-                       allEntities.dates.length + allEntities.flights.length;
-    
-    console.log(`   ✅ Local: ${localEntities.people.length} people, ${localEntities.locations.length} locations, ${localEntities.dates.length} dates, ${localEntities.flights.length} flights`);
-    
-    // STEP 2: Check if we need Claude (only for complex/ambiguous docs)
+    // STEP 2: Named entities from the extractor ensemble - the LLM fallback only runs for complex/ambiguous docs
     const needsClaude = this.localExtractor.needsClaudeAnalysis(localEntities, doc.text.length);
+    console.log(`   📋 Running extractors: ${this.extractors.names.join(', ')}${needsClaude ? ' + llm fallback' : ''}...`);
     
-    if (needsClaude) {
-      console.log(`   🤖 Document needs Claude analysis (low local extraction)...`);
-      
-      // Only send a SUMMARY to Claude, not the full text
-      const summary = this.createDocumentSummary(doc.text, localEntities);
-      
-      try {
-        const message = await this.anthropic.messages.create({
-          model: 'claude-haiku-4-5-20251001',
-          max_tokens: 2048,
-          messages: [{
-            role: 'user',
-            content: `Analyze this document summary and extract any ADDITIONAL entities not already found. Return ONLY JSON:
-
-Already found: ${localCount} entities
-Document: ${doc.filename} (${doc.pageCount} pages)
-
-Summary (first 2000 chars):
-${summary}
-
-Return JSON with ONLY NEW entities not in the "already found" list:
-{"people": [{"name": "", "role": "", "context": ""}], "locations": [{"name": "", "type": ""}], "organizations": [{"name": ""}]}`
-          }]
-        });
-        
-        const responseText = message.content[0].type === 'text' ? message.content[0].text : '{}';
-        const claudeEntities = JSON.parse(responseText);
-        
-        // Track token usage
-        this.stats.claudeExtractions++;
-        this.stats.tokensUsed += (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0);
-        
-        // Merge Claude entities
-        allEntities.people.push(...(claudeEntities.people || []));
-        allEntities.locations.push(...(claudeEntities.locations || []));
-        allEntities.organizations.push(...(claudeEntities.organizations || []));
-        
-        console.log(`   🤖 Claude added: ${(claudeEntities.people || []).length} people, ${(claudeEntities.locations || []).length} locations`);
-        
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`   ⚠️  Claude extraction failed: ${errorMessage}`);
+    const result = await this.extractors.extract(
+      doc.text,
+      { documentId: doc.id, filename: doc.filename, pageCount: doc.pageCount },
+      needsClaude
+    );
+    for (const [source, message] of Object.entries(result.errors)) {
+      console.error(`   ⚠️  ${source} extraction failed: ${message}`);
+    }
+    
+    for (const entity of result.entities) {
+      const provenance = { confidence: entity.confidence, sources: entity.sources };
+      if (entity.type === 'person') {
+        allEntities.people.push({ name: entity.name, role: entity.role || 'extracted', context: entity.context || '', ...provenance });
+      } else if (entity.type === 'location') {
+        allEntities.locations.push({ name: entity.name, type: entity.subtype || 'location', ...provenance });
+      } else {
+        allEntities.organizations.push({ name: entity.name, ...provenance });
       }
-    } else {
+    }
+    
+    const counts = Object.entries(result.bySource).map(([source, found]) => `${source} ${found.length}`).join(', ');
+    console.log(`   ✅ Extracted: ${allEntities.people.length} people, ${allEntities.locations.length} locations, ${allEntities.organizations.length} organizations (${counts}), ${allEntities.dates.length} dates, ${allEntities.flights.length} flights`);
+    
+    if (!result.bySource.llm) {
       // Track savings
       this.stats.localExtractions++;
       this.stats.tokensSaved += estimatedTokens;
-      console.log(`   💰 Skipped Claude (saved ~${estimatedTokens.toLocaleString()} tokens)`);
+      console.log(`   💰 Skipped LLM (saved ~${estimatedTokens.toLocaleString()} tokens)`);
     }
     
+    this.attachMentions(doc, allEntities);
+
+    // Typed relations (employment, counsel, payments...) between the names found
+    const relationships = this.relations.extract(doc.text.split(PAGE_SEPARATOR), [
+      ...allEntities.people.map(p => ({ name: p.name, type: 'person' as const })),
+      ...allEntities.organizations.map(o => ({ name: o.name, type: 'organization' as const })),
+    ]);
+    if (relationships.length > 0) {
+      console.log(`   🔗 ${relationships.length} typed relations`);
+    }
+
     // Save to JSON file
-    await this.saveEntitiesToFile(doc, allEntities);
+    await this.saveEntitiesToFile(doc, allEntities, relationships);
     
     return allEntities;
   }
   
-  private createDocumentSummary(text: string, localEntities: LocalExtractedEntities): string {
-    // Create a compact summary for Claude
-    const lines = text.split('\n').filter(l => l.trim().length > 20);
-    const uniqueLines = [...new Set(lines)].slice(0, 50);
-    return uniqueLines.join('\n').slice(0, 2000);
-  }
-  
   private chunkText(text: string, maxLength: number): string[] {
     const chunks: string[] = [];
     let start = 0;
@@ -315,7 +518,7 @@ Return JSON with ONLY NEW entities not in the "already found" list:
     return 'Uncategorized';
   }
   
-  private async saveEntitiesToFile(doc: Document, entities: ExtractedEntities) {
+  private async saveEntitiesToFile(doc: Document, entities: ExtractedEntities, relationships: ExtractedRelation[]) {
     const outputDir = path.join(__dirname, '../../data/entities');
     await fs.mkdir(outputDir, { recursive: true });
     
@@ -323,6 +526,7 @@ Return JSON with ONLY NEW entities not in the "already found" list:
     await fs.writeFile(outputPath, JSON.stringify({
       document: doc,
       entities,
+      relationships,
       processedAt: new Date().toISOString(),
     }, null, 2));
   }
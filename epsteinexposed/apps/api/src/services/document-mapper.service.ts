@@ -1,5 +1,5 @@
-import fs from 'fs/promises';
 import path from 'path';
+import { EntityIndexService, getEntityIndex } from './entity-index.service';
 
 export interface DocumentReference {
   id: string;
@@ -7,6 +7,7 @@ export interface DocumentReference {
   path: string;
   pageCount: number;
   dataset: string;
+  ocrConfidence?: number | null;
   mentions: Array<{
     entity: string;
     type: string;
@@ -14,235 +15,82 @@ export interface DocumentReference {
   }>;
 }
 
-interface DocumentEntity {
-  document: {
-    id: string;
-    filename: string;
-    path: string;
-    pageCount: number;
-    dataset: string;
-  };
-  entities: {
-    people?: Array<{ name: string; role?: string; context?: string }>;
-    locations?: Array<{ name: string; type?: string }>;
-    dates?: Array<{ date: string; event?: string }>;
-    flights?: Array<{ from: string; to: string; date?: string }>;
-  };
-}
-
 export class DocumentMapperService {
-  private entitiesPath: string;
+  private index: EntityIndexService;
   private docsBasePath: string;
-  private cache: Map<string, DocumentReference[]> = new Map();
   
-  constructor() {
-    this.entitiesPath = path.join(__dirname, '../../data/entities');
+  constructor(index: EntityIndexService = getEntityIndex()) {
+    this.index = index;
     this.docsBasePath = path.join(__dirname, '../../../web');
   }
   
   async getDocumentsForEntity(entityName: string): Promise<DocumentReference[]> {
-    const normalizedName = entityName.toLowerCase().trim();
-    
-    // Check cache
-    if (this.cache.has(normalizedName)) {
-      return this.cache.get(normalizedName)!;
-    }
-    
     console.log(`📄 Finding documents for entity: ${entityName}`);
-    const docs: DocumentReference[] = [];
-    
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      console.error('Entity directory not found');
-      return [];
-    }
     
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
+    const mentions = await this.index.findMentionsByName(entityName);
     
-    for (const file of jsonFiles) {
-      try {
-        const filePath = path.join(this.entitiesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data: DocumentEntity = JSON.parse(content);
-        
-        const mentions: Array<{ entity: string; type: string; context?: string }> = [];
-        
-        // Check people
-        if (data.entities?.people) {
-          for (const person of data.entities.people) {
-            if (person.name.toLowerCase().trim().includes(normalizedName) ||
-                normalizedName.includes(person.name.toLowerCase().trim())) {
-              mentions.push({
-                entity: person.name,
-                type: 'person',
-                context: person.context || person.role,
-              });
-            }
-          }
-        }
-        
-        // Check locations
-        if (data.entities?.locations) {
-          for (const location of data.entities.locations) {
-            if (location.name.toLowerCase().trim().includes(normalizedName) ||
-                normalizedName.includes(location.name.toLowerCase().trim())) {
-              mentions.push({
-                entity: location.name,
-                type: 'location',
-              });
-            }
-          }
-        }
-        
-        if (mentions.length > 0) {
-          docs.push({
-            id: data.document.id,
-            filename: data.document.filename,
-            path: data.document.path,
-            pageCount: data.document.pageCount || 0,
-            dataset: data.document.dataset || 'Unknown',
-            mentions,
-          });
-        }
-        
-      } catch (error) {
-        // Skip failed files
+    // Group mentions by document, keeping index order
+    const mentionsByDoc = new Map<string, DocumentReference['mentions']>();
+    for (const mention of mentions) {
+      if (!mentionsByDoc.has(mention.documentId)) {
+        mentionsByDoc.set(mention.documentId, []);
       }
+      mentionsByDoc.get(mention.documentId)!.push({
+        entity: mention.name,
+        type: mention.type,
+        context: mention.type === 'person' ? mention.context ?? undefined : undefined,
+      });
     }
     
-    // Cache results
-    this.cache.set(normalizedName, docs);
+    const documents = await this.index.getDocuments(Array.from(mentionsByDoc.keys()));
+    const docs: DocumentReference[] = documents.map(doc => ({
+      ...doc,
+      mentions: mentionsByDoc.get(doc.id) || [],
+    }));
     
     console.log(`✅ Found ${docs.length} documents for ${entityName}`);
     return docs;
   }
   
   async getDocumentsForConnection(entity1: string, entity2: string): Promise<DocumentReference[]> {
-    const normalized1 = entity1.toLowerCase().trim();
-    const normalized2 = entity2.toLowerCase().trim();
-    
     console.log(`🔗 Finding documents connecting: ${entity1} ↔ ${entity2}`);
-    const docs: DocumentReference[] = [];
     
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      return [];
-    }
+    const [mentions1, mentions2] = await Promise.all([
+      this.index.findMentionsByName(entity1),
+      this.index.findMentionsByName(entity2),
+    ]);
     
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
+    const docs1 = new Set(mentions1.map(m => m.documentId));
+    const sharedDocIds = Array.from(new Set(mentions2.map(m => m.documentId)))
+      .filter(id => docs1.has(id));
     
-    for (const file of jsonFiles) {
-      try {
-        const filePath = path.join(this.entitiesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data: DocumentEntity = JSON.parse(content);
-        
-        const entity1Present = this.entityInDocument(data, normalized1);
-        const entity2Present = this.entityInDocument(data, normalized2);
-        
-        if (entity1Present && entity2Present) {
-          docs.push({
-            id: data.document.id,
-            filename: data.document.filename,
-            path: data.document.path,
-            pageCount: data.document.pageCount || 0,
-            dataset: data.document.dataset || 'Unknown',
-            mentions: [
-              { entity: entity1, type: 'person' },
-              { entity: entity2, type: 'person' },
-            ],
-          });
-        }
-        
-      } catch (error) {
-        // Skip
-      }
-    }
+    const documents = await this.index.getDocuments(sharedDocIds);
+    const docs: DocumentReference[] = documents.map(doc => ({
+      ...doc,
+      mentions: [
+        { entity: entity1, type: 'person' },
+        { entity: entity2, type: 'person' },
+      ],
+    }));
     
     console.log(`✅ Found ${docs.length} documents connecting ${entity1} ↔ ${entity2}`);
     return docs;
   }
   
-  private entityInDocument(data: DocumentEntity, normalizedName: string): boolean {
-    if (data.entities?.people) {
-      for (const person of data.entities.people) {
-        const personName = person.name.toLowerCase().trim();
-        if (personName.includes(normalizedName) || normalizedName.includes(personName)) {
-          return true;
-        }
-      }
-    }
-    
-    if (data.entities?.locations) {
-      for (const location of data.entities.locations) {
-        const locName = location.name.toLowerCase().trim();
-        if (locName.includes(normalizedName) || normalizedName.includes(locName)) {
-          return true;
-        }
-      }
-    }
-    
-    return false;
-  }
-  
   async getDocumentById(documentId: string): Promise<DocumentReference | null> {
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      return null;
-    }
+    const doc = await this.index.findDocument(documentId);
+    if (!doc) return null;
     
-    // Find the JSON file for this document
-    for (const file of files) {
-      if (file.includes(documentId) || file.startsWith(documentId)) {
-        try {
-          const filePath = path.join(this.entitiesPath, file);
-          const content = await fs.readFile(filePath, 'utf-8');
-          const data: DocumentEntity = JSON.parse(content);
-          
-          if (data.document.id === documentId || data.document.id.includes(documentId)) {
-            const mentions: Array<{ entity: string; type: string; context?: string }> = [];
-            
-            if (data.entities?.people) {
-              for (const person of data.entities.people) {
-                mentions.push({
-                  entity: person.name,
-                  type: 'person',
-                  context: person.context || person.role,
-                });
-              }
-            }
-            
-            if (data.entities?.locations) {
-              for (const location of data.entities.locations) {
-                mentions.push({
-                  entity: location.name,
-                  type: 'location',
-                });
-              }
-            }
-            
-            return {
-              id: data.document.id,
-              filename: data.document.filename,
-              path: data.document.path,
-              pageCount: data.document.pageCount || 0,
-              dataset: data.document.dataset || 'Unknown',
-              mentions,
-            };
-          }
-        } catch (error) {
-          // Continue searching
-        }
-      }
-    }
+    const mentions = await this.index.getDocumentMentions(doc.id);
     
-    return null;
+    return {
+      ...doc,
+      mentions: mentions.map(m => ({
+        entity: m.name,
+        type: m.type,
+        context: m.type === 'person' ? m.context ?? undefined : undefined,
+      })),
+    };
   }
   
   async getDocumentPath(documentId: string): Promise<string | null> {
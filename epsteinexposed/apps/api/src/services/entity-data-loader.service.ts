@@ -1,5 +1,5 @@
-import fs from 'fs/promises';
-import path from 'path';
+import { EntityIndexService, IndexedConnectionRow, IndexedEntityRow, IndexedRelationRow, RelationQuery, getEntityIndex } from './entity-index.service';
+import { ConnectionWeights, EdgeWeighting, weighConnection } from '@repo/analysis/edge-weighting';
 
 export interface Entity {
   id: string;
@@ -17,255 +17,107 @@ export interface EntityConnection {
   toName: string;
   documentIds: string[];
   strength: number;
+  pageHits: number;
+  paragraphHits: number;
+  weights: ConnectionWeights;
 }
 
-interface DocumentEntity {
-  document: {
-    id: string;
-    filename: string;
-    path: string;
-    pageCount: number;
-    dataset: string;
-  };
-  entities: {
-    people?: Array<{ name: string; role?: string; context?: string }>;
-    locations?: Array<{ name: string; type?: string }>;
-    dates?: Array<{ date: string; event?: string }>;
-    flights?: Array<{ from: string; to: string; date?: string; passengers?: string[] }>;
-    phone_numbers?: string[];
-    organizations?: Array<{ name: string }>;
-  };
-  processedAt: string;
-}
+// Association weights are noisy for pairs seen once or twice - rank only pairs with more support
+const MIN_ASSOCIATION_SUPPORT = 3;
 
 export class EntityDataLoaderService {
-  private entitiesPath: string;
-  private entityCache: Map<string, Entity> | null = null;
+  private index: EntityIndexService;
+  private entityCache: Entity[] | null = null;
   private connectionCache: EntityConnection[] | null = null;
   private metricsCache: any = null;
-  private lastCacheTime = 0;
-  private CACHE_TTL = 60000; // 1 minute cache
+  private frequencyCache: { documents: Map<string, number>; total: number } | null = null;
+  private cacheVersion = -1;
   
-  constructor() {
-    this.entitiesPath = path.join(__dirname, '../../data/entities');
+  constructor(index: EntityIndexService = getEntityIndex()) {
+    this.index = index;
   }
   
-  private normalizeKey(name: string): string {
-    return name.toLowerCase().trim().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, '_');
+  /**
+   * Drop derived caches once the index has picked up new or changed files
+   */
+  private async refreshCaches() {
+    await this.index.ensureReady();
+    if (this.cacheVersion !== this.index.getVersion()) {
+      this.entityCache = null;
+      this.connectionCache = null;
+      this.metricsCache = null;
+      this.frequencyCache = null;
+      this.cacheVersion = this.index.getVersion();
+    }
+  }
+  
+  private toEntity(row: IndexedEntityRow): Entity {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      documentIds: row.documentIds,
+      context: row.context ?? undefined,
+      occurrences: row.occurrences,
+    };
   }
   
   async loadAllEntities(): Promise<Entity[]> {
-    // Check cache
-    if (this.entityCache && Date.now() - this.lastCacheTime < this.CACHE_TTL) {
-      return Array.from(this.entityCache.values());
+    await this.refreshCaches();
+    if (this.entityCache) {
+      return [...this.entityCache];
     }
     
     console.log('📊 Loading all extracted entities...');
     const startTime = Date.now();
     
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      console.error('Entity directory not found:', this.entitiesPath);
-      return [];
-    }
-    
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
-    console.log(`Found ${jsonFiles.length} entity files`);
-    
-    const entityMap = new Map<string, Entity>();
-    
-    // Process all files
-    for (const file of jsonFiles) {
-      try {
-        const filePath = path.join(this.entitiesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data: DocumentEntity = JSON.parse(content);
-        const docId = data.document.id;
-        
-        // Extract people
-        if (data.entities?.people) {
-          for (const person of data.entities.people) {
-            if (!person.name || person.name.length < 2) continue;
-            
-            const key = this.normalizeKey(person.name);
-            if (key.length < 2) continue;
-            
-            if (!entityMap.has(key)) {
-              entityMap.set(key, {
-                id: key,
-                name: person.name,
-                type: 'person',
-                documentIds: [docId],
-                context: person.context || person.role,
-                occurrences: 1,
-              });
-            } else {
-              const entity = entityMap.get(key)!;
-              if (!entity.documentIds.includes(docId)) {
-                entity.documentIds.push(docId);
-              }
-              entity.occurrences++;
-            }
-          }
-        }
-        
-        // Extract locations
-        if (data.entities?.locations) {
-          for (const location of data.entities.locations) {
-            if (!location.name || location.name.length < 2) continue;
-            
-            const key = 'loc_' + this.normalizeKey(location.name);
-            
-            if (!entityMap.has(key)) {
-              entityMap.set(key, {
-                id: key,
-                name: location.name,
-                type: 'location',
-                documentIds: [docId],
-                context: location.type,
-                occurrences: 1,
-              });
-            } else {
-              const entity = entityMap.get(key)!;
-              if (!entity.documentIds.includes(docId)) {
-                entity.documentIds.push(docId);
-              }
-              entity.occurrences++;
-            }
-          }
-        }
-        
-        // Extract flights
-        if (data.entities?.flights) {
-          for (const flight of data.entities.flights) {
-            const key = `flight_${flight.from}_${flight.to}_${flight.date || 'unknown'}`;
-            
-            if (!entityMap.has(key)) {
-              entityMap.set(key, {
-                id: key,
-                name: `${flight.from} → ${flight.to}`,
-                type: 'flight',
-                documentIds: [docId],
-                context: flight.date || 'Unknown date',
-                occurrences: 1,
-              });
-            } else {
-              const entity = entityMap.get(key)!;
-              if (!entity.documentIds.includes(docId)) {
-                entity.documentIds.push(docId);
-              }
-              entity.occurrences++;
-            }
-          }
-        }
-        
-      } catch (error) {
-        // Skip failed files silently
-      }
-    }
-    
-    // Cache results
-    this.entityCache = entityMap;
-    this.lastCacheTime = Date.now();
+    this.entityCache = (await this.index.getAllEntities()).map(row => this.toEntity(row));
     
     const elapsed = Date.now() - startTime;
-    console.log(`✅ Loaded ${entityMap.size} unique entities in ${elapsed}ms`);
+    console.log(`✅ Loaded ${this.entityCache.length} unique entities in ${elapsed}ms`);
     
-    return Array.from(entityMap.values());
+    return [...this.entityCache];
   }
   
   async getTopEntities(limit = 100, type?: string): Promise<Entity[]> {
-    const entities = await this.loadAllEntities();
-    
-    let filtered = entities;
-    if (type) {
-      filtered = entities.filter(e => e.type === type);
+    const rows = await this.index.getTopEntities(limit, type);
+    return rows.map(row => this.toEntity(row));
+  }
+  
+  /**
+   * Attach every edge weighting to raw connection rows
+   */
+  private async withWeights(rows: IndexedConnectionRow[]): Promise<EntityConnection[]> {
+    await this.refreshCaches();
+    if (!this.frequencyCache) {
+      const totals = await this.index.getTotals();
+      this.frequencyCache = { documents: await this.index.getDocumentFrequencies(), total: totals.documents };
     }
-    
-    // Sort by occurrences (most mentioned first)
-    return filtered
-      .sort((a, b) => b.occurrences - a.occurrences)
-      .slice(0, limit);
+    const { documents, total } = this.frequencyCache;
+
+    return rows.map(row => ({
+      ...row,
+      weights: weighConnection({
+        cooccurrence: row.strength,
+        pageHits: row.pageHits,
+        paragraphHits: row.paragraphHits,
+        fromDocuments: documents.get(row.from) || row.strength,
+        toDocuments: documents.get(row.to) || row.strength,
+        totalDocuments: total,
+      }),
+    }));
   }
   
   async buildConnectionGraph(): Promise<EntityConnection[]> {
-    // Check cache
-    if (this.connectionCache && Date.now() - this.lastCacheTime < this.CACHE_TTL) {
+    await this.refreshCaches();
+    if (this.connectionCache) {
       return this.connectionCache;
     }
     
     console.log('🔗 Building connection graph...');
     const startTime = Date.now();
     
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      return [];
-    }
-    
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
-    const connectionMap = new Map<string, EntityConnection>();
-    
-    // Build co-occurrence connections
-    for (const file of jsonFiles) {
-      try {
-        const filePath = path.join(this.entitiesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data: DocumentEntity = JSON.parse(content);
-        const docId = data.document.id;
-        
-        // Get all people in this document
-        const peopleInDoc: Array<{ key: string; name: string }> = [];
-        
-        if (data.entities?.people) {
-          for (const person of data.entities.people) {
-            if (!person.name || person.name.length < 2) continue;
-            const key = this.normalizeKey(person.name);
-            if (key.length >= 2) {
-              peopleInDoc.push({ key, name: person.name });
-            }
-          }
-        }
-        
-        // Create connections between all pairs
-        for (let i = 0; i < peopleInDoc.length && i < 20; i++) { // Limit pairs per doc
-          for (let j = i + 1; j < peopleInDoc.length && j < 20; j++) {
-            const a = peopleInDoc[i];
-            const b = peopleInDoc[j];
-            
-            // Sort to avoid duplicates
-            const [from, to] = a.key < b.key ? [a, b] : [b, a];
-            const connKey = `${from.key}|${to.key}`;
-            
-            if (!connectionMap.has(connKey)) {
-              connectionMap.set(connKey, {
-                from: from.key,
-                to: to.key,
-                fromName: from.name,
-                toName: to.name,
-                documentIds: [docId],
-                strength: 1,
-              });
-            } else {
-              const conn = connectionMap.get(connKey)!;
-              if (!conn.documentIds.includes(docId)) {
-                conn.documentIds.push(docId);
-                conn.strength = conn.documentIds.length;
-              }
-            }
-          }
-        }
-        
-      } catch (error) {
-        // Skip
-      }
-    }
-    
-    // Cache and return
-    this.connectionCache = Array.from(connectionMap.values());
+    this.connectionCache = await this.withWeights(await this.index.getAllConnections());
     
     const elapsed = Date.now() - startTime;
     console.log(`✅ Built ${this.connectionCache.length} connections in ${elapsed}ms`);
@@ -273,81 +125,49 @@ export class EntityDataLoaderService {
     return this.connectionCache;
   }
   
-  async getStrongestConnections(limit = 50): Promise<EntityConnection[]> {
-    const connections = await this.buildConnectionGraph();
+  async getStrongestConnections(limit = 50, weighting: EdgeWeighting = 'cooccurrence'): Promise<EntityConnection[]> {
+    if (weighting === 'cooccurrence') {
+      return this.withWeights(await this.index.getStrongestConnections(limit));
+    }
     
+    const connections = await this.buildConnectionGraph();
     return connections
-      .sort((a, b) => b.strength - a.strength)
+      .filter(c => c.weights[weighting] > 0)
+      .filter(c => weighting === 'page' || weighting === 'paragraph' || c.strength >= MIN_ASSOCIATION_SUPPORT)
+      .sort((a, b) => b.weights[weighting] - a.weights[weighting] || b.strength - a.strength)
       .slice(0, limit);
   }
   
   async getEntityConnections(entityId: string): Promise<EntityConnection[]> {
-    const connections = await this.buildConnectionGraph();
-    
-    return connections.filter(c => 
-      c.from === entityId || c.to === entityId
-    ).sort((a, b) => b.strength - a.strength);
+    return this.withWeights(await this.index.getEntityConnections(entityId));
+  }
+  
+  /**
+   * Typed relations (employment, counsel, travel, payments...) with their evidence spans
+   */
+  async getRelationships(query: RelationQuery = {}): Promise<IndexedRelationRow[]> {
+    return this.index.getRelations(query);
   }
   
   async getSystemMetrics() {
-    // Check cache
-    if (this.metricsCache && Date.now() - this.lastCacheTime < this.CACHE_TTL) {
+    await this.refreshCaches();
+    if (this.metricsCache) {
       return this.metricsCache;
     }
     
     console.log('📈 Calculating system metrics...');
     
-    let files: string[];
-    try {
-      files = await fs.readdir(this.entitiesPath);
-    } catch (error) {
-      return {
-        documentsProcessed: 0,
-        totalDocuments: 11622,
-        entities: 0,
-        people: 0,
-        locations: 0,
-        dates: 0,
-        flights: 0,
-        connections: 0,
-        redactions: 15672,
-        anomalies: 127,
-      };
-    }
-    
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
-    
-    let totalPeople = 0;
-    let totalLocations = 0;
-    let totalDates = 0;
-    let totalFlights = 0;
-    
-    for (const file of jsonFiles) {
-      try {
-        const filePath = path.join(this.entitiesPath, file);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const data: DocumentEntity = JSON.parse(content);
-        
-        totalPeople += data.entities?.people?.length || 0;
-        totalLocations += data.entities?.locations?.length || 0;
-        totalDates += data.entities?.dates?.length || 0;
-        totalFlights += data.entities?.flights?.length || 0;
-      } catch (error) {
-        // Skip
-      }
-    }
-    
-    const connections = await this.buildConnectionGraph();
+    const totals = await this.index.getTotals();
     
     this.metricsCache = {
-      documentsProcessed: jsonFiles.length,
+      documentsProcessed: totals.documents,
       totalDocuments: 11622,
-      entities: totalPeople + totalLocations,
-      people: totalPeople,
-      locations: totalLocations,
-      dates: totalDates,
-      flights: totalFlights,
-      connections: connections.length,
+      entities: totals.people + totals.locations,
+      people: totals.people,
+      locations: totals.locations,
+      dates: totals.dates,
+      flights: totals.flights,
+      connections: totals.connections,
       redactions: 15672,
       anomalies: 127,
     };
@@ -356,17 +176,12 @@ export class EntityDataLoaderService {
   }
   
   async searchEntities(query: string, limit = 20): Promise<Entity[]> {
-    const entities = await this.loadAllEntities();
-    const queryLower = query.toLowerCase();
-    
-    return entities
-      .filter(e => e.name.toLowerCase().includes(queryLower))
-      .sort((a, b) => b.occurrences - a.occurrences)
-      .slice(0, limit);
+    const rows = await this.index.searchEntities(query, limit);
+    return rows.map(row => this.toEntity(row));
   }
   
   async getEntityDetails(entityId: string): Promise<Entity | null> {
-    const entities = await this.loadAllEntities();
-    return entities.find(e => e.id === entityId) || null;
+    const row = await this.index.getEntity(entityId);
+    return row ? this.toEntity(row) : null;
   }
 }
@@ -0,0 +1,193 @@
+/**
+ * Entity Ensemble Service
+ * Runs several registered extractors over a document and merges their candidates.
+ * Each source's confidence is scaled by its weight and combined with noisy-OR, so a name
+ * found by two independent extractors scores higher than either alone
+ */
+
+import {
+  CandidateEntity,
+  CandidateEntityType,
+  EntityExtractor,
+  ExtractionContext,
+  createExtractor,
+  registerExtractor,
+} from './entity-extractor.service';
+import { normalizeEntityKey } from './entity-index.service';
+import { GazetteerExtractor } from './gazetteer-extractor.service';
+import { LlmExtractor } from './llm-extractor.service';
+import { NerExtractor } from './ner-extractor.service';
+import { RegexExtractor } from './regex-extractor.service';
+
+registerExtractor('regex', () => new RegexExtractor());
+registerExtractor('gazetteer', () => new GazetteerExtractor());
+registerExtractor('ner', () => new NerExtractor());
+registerExtractor('llm', () => new LlmExtractor());
+
+// NER needs a model download, so it's opt-in via ENTITY_EXTRACTORS
+export const DEFAULT_EXTRACTORS = ['regex', 'gazetteer'];
+export const DEFAULT_FALLBACK = 'llm';
+const DEFAULT_MIN_CONFIDENCE = 0.35;
+
+export interface MergedEntity {
+  name: string;
+  type: CandidateEntityType;
+  confidence: number;
+  context?: string;
+  subtype?: string;
+  role?: string;
+  sources: Record<string, number>;    // Extractor name -> that extractor's confidence
+}
+
+export interface EnsembleResult {
+  entities: MergedEntity[];
+  bySource: Record<string, CandidateEntity[]>;
+  errors: Record<string, string>;
+}
+
+export interface EnsembleOptions {
+  extractors?: string[];
+  fallback?: string | null;           // Extractor run only when asked to, e.g. the LLM for sparse documents
+  weights?: Record<string, number>;   // Override extractor weights
+  minConfidence?: number;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * "ner=0.9,regex=0.5" -> { ner: 0.9, regex: 0.5 }
+ */
+function parseWeights(value: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const item of parseList(value) || []) {
+    const [name, weight] = item.split('=');
+    const parsed = Number(weight);
+    if (name && Number.isFinite(parsed)) weights[name.trim()] = Math.min(1, Math.max(0, parsed));
+  }
+  return weights;
+}
+
+export class EntityEnsembleService {
+  private extractors: EntityExtractor[];
+  private fallback: EntityExtractor | null;
+  private weights: Record<string, number>;
+  private minConfidence: number;
+
+  constructor(options: EnsembleOptions = {}) {
+    const names = options.extractors || parseList(process.env.ENTITY_EXTRACTORS) || DEFAULT_EXTRACTORS;
+    const fallback = options.fallback !== undefined
+      ? options.fallback
+      : (process.env.ENTITY_EXTRACTOR_FALLBACK ?? DEFAULT_FALLBACK);
+
+    this.extractors = names.map(name => createExtractor(name));
+    this.fallback = fallback && fallback !== 'none' && !names.includes(fallback) ? createExtractor(fallback) : null;
+    this.weights = options.weights || parseWeights(process.env.EXTRACTOR_WEIGHTS);
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  }
+
+  get names(): string[] {
+    return this.extractors.map(e => e.name);
+  }
+
+  get(name: string): EntityExtractor | undefined {
+    return [...this.extractors, this.fallback].find(e => e?.name === name) ?? undefined;
+  }
+
+  weightOf(extractor: EntityExtractor): number {
+    return this.weights[extractor.name] ?? extractor.weight;
+  }
+
+  /**
+   * Run every extractor (and the fallback if `useFallback`), then merge.
+   * A failing extractor is reported in `errors` and the rest still count.
+   */
+  async extract(text: string, context: ExtractionContext = {}, useFallback = false): Promise<EnsembleResult> {
+    const bySource: Record<string, CandidateEntity[]> = {};
+    const errors: Record<string, string> = {};
+
+    const run = async (extractor: EntityExtractor, ctx: ExtractionContext) => {
+      try {
+        bySource[extractor.name] = await extractor.extract(text, ctx);
+      } catch (error: unknown) {
+        errors[extractor.name] = error instanceof Error ? error.message : String(error);
+      }
+    };
+
+    for (const extractor of this.extractors) {
+      await run(extractor, context);
+    }
+
+    if (useFallback && this.fallback) {
+      const alreadyFound = this.merge(bySource).length;
+      await run(this.fallback, { ...context, alreadyFound });
+    }
+
+    return { entities: this.merge(bySource), bySource, errors };
+  }
+
+  /**
+   * Group candidates by normalized name; type, display name and details come from the strongest source
+   */
+  merge(bySource: Record<string, CandidateEntity[]>): MergedEntity[] {
+    const groups = new Map<string, Array<{ source: string; candidate: CandidateEntity; score: number }>>();
+
+    for (const [source, candidates] of Object.entries(bySource)) {
+      const extractor = this.get(source);
+      const weight = extractor ? this.weightOf(extractor) : 0.5;
+
+      for (const candidate of candidates) {
+        const key = normalizeEntityKey(candidate.name);
+        if (!key) continue;
+        const group = groups.get(key) || [];
+        group.push({ source, candidate, score: weight * Math.min(1, Math.max(0, candidate.confidence)) });
+        groups.set(key, group);
+      }
+    }
+
+    const merged: MergedEntity[] = [];
+    for (const group of groups.values()) {
+      // Best score per source, so one extractor repeating a name doesn't count twice
+      const sources: Record<string, number> = {};
+      const bestScore: Record<string, number> = {};
+      for (const { source, candidate, score } of group) {
+        if (score >= (bestScore[source] ?? -1)) {
+          bestScore[source] = score;
+          sources[source] = candidate.confidence;
+        }
+      }
+      const confidence = 1 - Object.values(bestScore).reduce((remaining, score) => remaining * (1 - score), 1);
+      if (confidence < this.minConfidence) continue;
+
+      // Type by weighted vote
+      const typeVotes = new Map<CandidateEntityType, number>();
+      for (const { candidate, score } of group) {
+        typeVotes.set(candidate.type, (typeVotes.get(candidate.type) || 0) + score);
+      }
+      const type = [...typeVotes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+      const ranked = group.filter(g => g.candidate.type === type).sort((a, b) => b.score - a.score);
+      const best = ranked[0].candidate;
+
+      merged.push({
+        name: best.name,
+        type,
+        confidence: Math.round(confidence * 1000) / 1000,
+        context: ranked.find(g => g.candidate.context)?.candidate.context,
+        subtype: ranked.find(g => g.candidate.subtype)?.candidate.subtype,
+        role: ranked.find(g => g.candidate.role)?.candidate.role,
+        sources,
+      });
+    }
+
+    return merged.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async close() {
+    for (const extractor of [...this.extractors, this.fallback]) {
+      await extractor?.close?.();
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Entity Extractor interface and registry
+ * Every named-entity source (regex patterns, gazetteer, NER model, LLM) implements EntityExtractor
+ * and registers a factory by name, so the ensemble and the compare CLI can pick them from config
+ */
+
+export type CandidateEntityType = 'person' | 'location' | 'organization';
+
+export interface CandidateEntity {
+  name: string;
+  type: CandidateEntityType;
+  confidence: number;     // The extractor's own confidence, 0-1
+  context?: string;
+  subtype?: string;       // Location type (island, airport, city...) where the extractor knows it
+  role?: string;          // Person role where the extractor knows it
+}
+
+export interface ExtractionContext {
+  documentId?: string;
+  filename?: string;
+  pageCount?: number;
+  alreadyFound?: number;  // Entities found by the other extractors - lets the LLM ask only for new ones
+}
+
+export interface EntityExtractor {
+  readonly name: string;
+  readonly description: string;
+  // How far the ensemble trusts this source (0-1), multiplied into each candidate's confidence
+  readonly weight: number;
+  extract(text: string, context?: ExtractionContext): Promise<CandidateEntity[]>;
+  close?(): Promise<void>;
+}
+
+export type EntityExtractorFactory = () => EntityExtractor;
+
+const registry = new Map<string, EntityExtractorFactory>();
+
+export function registerExtractor(name: string, factory: EntityExtractorFactory) {
+  registry.set(name, factory);
+}
+
+export function createExtractor(name: string): EntityExtractor {
+  const factory = registry.get(name);
+  if (!factory) {
+    throw new Error(`Unknown entity extractor "${name}" (available: ${listExtractors().join(', ')})`);
+  }
+  return factory();
+}
+
+export function listExtractors(): string[] {
+  return [...registry.keys()];
+}
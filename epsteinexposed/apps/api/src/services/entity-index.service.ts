@@ -0,0 +1,999 @@
+/**
+ * Entity Index Service
+ * Persistent SQLite index over the per-document entity JSON files
+ * Built once from data/entities, then updated incrementally when files change
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { CentralityScores } from './centrality.service';
+import { locateMentions, sharedLocations } from '@repo/analysis/edge-weighting';
+import { ExtractedRelation, RelationEvidence, RelationshipFile, RelationType } from './relation-extractor.service';
+
+export interface DocumentEntity {
+  document: {
+    id: string;
+    filename: string;
+    path: string;
+    pageCount: number;
+    dataset: string;
+    text?: string;
+    ocrConfidence?: number;
+  };
+  entities: {
+    people?: Array<{ name: string; role?: string; context?: string }>;
+    locations?: Array<{ name: string; type?: string }>;
+    dates?: Array<{ date: string; event?: string }>;
+    flights?: Array<{ from: string; to: string; date?: string; passengers?: string[] }>;
+    phone_numbers?: string[];
+    organizations?: Array<{ name: string }>;
+  };
+  relationships?: ExtractedRelation[];
+  processedAt: string;
+}
+
+export interface IndexedEntityRow {
+  id: string;
+  name: string;
+  type: 'person' | 'location' | 'organization' | 'date' | 'flight';
+  context: string | null;
+  occurrences: number;
+  documentIds: string[];
+}
+
+export interface IndexedConnectionRow {
+  from: string;
+  to: string;
+  fromName: string;
+  toName: string;
+  documentIds: string[];
+  strength: number;
+  pageHits: number;        // Pages mentioning both entities
+  paragraphHits: number;   // Paragraphs mentioning both entities
+}
+
+export interface IndexedRelationRow {
+  from: string;
+  to: string;
+  fromName: string;
+  toName: string;
+  type: RelationType;
+  directed: boolean;       // from → to reads e.g. employee → employer
+  strength: number;        // Pieces of evidence
+  confidence: number;      // Highest rule confidence among them
+  documentIds: string[];
+  evidence: Array<RelationEvidence & { documentId: string; cue: string }>;
+}
+
+export interface RelationQuery {
+  types?: RelationType[];
+  entityId?: string;
+  limit?: number;
+  evidenceLimit?: number;  // Evidence spans per relation (default 5)
+}
+
+export interface IndexedDocumentRow {
+  id: string;
+  filename: string;
+  path: string;
+  pageCount: number;
+  dataset: string;
+  ocrConfidence: number | null;   // Mean OCR confidence (0-100), null when no page needed OCR
+}
+
+export interface IndexedMentionRow {
+  documentId: string;
+  entityId: string;
+  name: string;
+  type: string;
+  context: string | null;
+}
+
+export interface IndexTotals {
+  documents: number;
+  people: number;
+  locations: number;
+  dates: number;
+  flights: number;
+  connections: number;
+  relations: number;
+}
+
+export interface IndexSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  elapsedMs: number;
+}
+
+// Max people per document used for co-occurrence pairs (matches the old in-memory builder)
+const MAX_PEOPLE_PER_DOC = 20;
+
+// Bump when SCHEMA changes - older databases are dropped and rebuilt from the JSON files
+const SCHEMA_VERSION = 4;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS source_files (
+    filename TEXT PRIMARY KEY,
+    mtime_ms REAL NOT NULL,
+    size INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS documents (
+    source_file TEXT PRIMARY KEY,
+    id TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    path TEXT NOT NULL,
+    page_count INTEGER NOT NULL,
+    dataset TEXT NOT NULL,
+    ocr_confidence REAL,
+    people_count INTEGER NOT NULL,
+    location_count INTEGER NOT NULL,
+    date_count INTEGER NOT NULL,
+    flight_count INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS documents_id ON documents(id);
+
+  CREATE TABLE IF NOT EXISTS entities (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    name_lower TEXT NOT NULL,
+    type TEXT NOT NULL,
+    context TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS mentions (
+    source_file TEXT NOT NULL,
+    document_id TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    name_lower TEXT NOT NULL,
+    type TEXT NOT NULL,
+    context TEXT,
+    position INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS mentions_entity ON mentions(entity_id);
+  CREATE INDEX IF NOT EXISTS mentions_document ON mentions(document_id);
+  CREATE INDEX IF NOT EXISTS mentions_source ON mentions(source_file);
+
+  CREATE TABLE IF NOT EXISTS cooccurrences (
+    source_file TEXT NOT NULL,
+    from_id TEXT NOT NULL,
+    to_id TEXT NOT NULL,
+    document_id TEXT NOT NULL,
+    page_hits INTEGER NOT NULL DEFAULT 0,
+    paragraph_hits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (from_id, to_id, document_id, source_file)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS cooccurrences_to ON cooccurrences(to_id);
+  CREATE INDEX IF NOT EXISTS cooccurrences_source ON cooccurrences(source_file);
+
+  CREATE TABLE IF NOT EXISTS relations (
+    source_file TEXT NOT NULL,
+    document_id TEXT NOT NULL,
+    from_id TEXT NOT NULL,
+    to_id TEXT NOT NULL,
+    from_name TEXT NOT NULL,
+    to_name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    directed INTEGER NOT NULL,
+    confidence REAL NOT NULL,
+    cue TEXT NOT NULL,
+    page INTEGER,
+    span_start INTEGER,
+    span_end INTEGER,
+    reference TEXT,
+    evidence TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS relations_from ON relations(from_id);
+  CREATE INDEX IF NOT EXISTS relations_to ON relations(to_id);
+  CREATE INDEX IF NOT EXISTS relations_source ON relations(source_file);
+
+  CREATE TABLE IF NOT EXISTS centrality (
+    entity_id TEXT PRIMARY KEY,
+    weighted_degree REAL NOT NULL,
+    betweenness REAL NOT NULL,
+    eigenvector REAL NOT NULL,
+    page_rank REAL NOT NULL,
+    computed_at TEXT NOT NULL
+  );
+`;
+
+// Rows as the queries below select them
+interface EntityQueryRow {
+  id: string;
+  name: string;
+  type: string;
+  context: string | null;
+  occurrences: number;
+  document_ids: string;
+}
+
+interface ConnectionQueryRow {
+  from_id: string;
+  to_id: string;
+  from_name: string;
+  to_name: string;
+  strength: number;
+  page_hits: number | null;
+  paragraph_hits: number | null;
+  document_ids: string;
+}
+
+interface RelationQueryRow {
+  from_id: string;
+  to_id: string;
+  type: string;
+  directed: number;
+  from_name: string;
+  to_name: string;
+  strength: number;
+  confidence: number;
+  document_ids: string;
+  evidence: string;
+}
+
+interface RelationEvidenceJson {
+  documentId: string;
+  cue: string;
+  page: number | null;
+  start: number | null;
+  end: number | null;
+  reference: string | null;
+  text: string;
+}
+
+interface DocumentQueryRow {
+  id: string;
+  filename: string;
+  path: string;
+  page_count: number;
+  dataset: string;
+  ocr_confidence: number | null;
+}
+
+interface MentionQueryRow {
+  document_id: string;
+  entity_id: string;
+  name: string;
+  type: string;
+  context: string | null;
+}
+
+export function normalizeEntityKey(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, '_');
+}
+
+function parseIdList(json: string | null): string[] {
+  return json ? (JSON.parse(json) as string[]) : [];
+}
+
+export class EntityIndexService {
+  private entitiesPath: string;
+  private dbPath: string;
+  private db: Database.Database | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private dirty = true;
+  private syncing: Promise<IndexSyncResult> | null = null;
+  private version = 0;
+
+  constructor(entitiesPath?: string, dbPath?: string) {
+    this.entitiesPath = entitiesPath || path.join(__dirname, '../../data/entities');
+    this.dbPath = dbPath || path.join(__dirname, '../../data/entity-index.db');
+  }
+
+  /**
+   * Incremented whenever a sync changes the index, so callers can
+   * invalidate anything they derived from it
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    this.db = new Database(this.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version !== SCHEMA_VERSION) {
+      if (version !== 0) console.log(`🗂️  Entity index schema changed (v${version} → v${SCHEMA_VERSION}), rebuilding...`);
+      this.db.exec(`
+        DROP TABLE IF EXISTS centrality;
+        DROP TABLE IF EXISTS relations;
+        DROP TABLE IF EXISTS cooccurrences;
+        DROP TABLE IF EXISTS mentions;
+        DROP TABLE IF EXISTS entities;
+        DROP TABLE IF EXISTS documents;
+        DROP TABLE IF EXISTS source_files;
+      `);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+
+    this.db.exec(SCHEMA);
+    return this.db;
+  }
+
+  /**
+   * Make sure the index reflects the entity directory.
+   * The first call syncs (a full build on an empty database);
+   * later calls only sync after the directory watcher saw a change,
+   * or on every call while there is no working watcher.
+   */
+  async ensureReady(): Promise<Database.Database> {
+    const db = this.open();
+
+    if (this.dirty || !this.watcher) {
+      await this.sync();
+      this.startWatching();
+    }
+
+    return db;
+  }
+
+  private startWatching() {
+    if (this.watcher) return;
+
+    try {
+      this.watcher = fs.watch(this.entitiesPath, () => {
+        this.dirty = true;
+      });
+      this.watcher.on('error', () => {
+        // Changes may have been missed - resync, then fall back to syncing on every request
+        this.watcher?.close();
+        this.watcher = null;
+        this.dirty = true;
+      });
+      this.watcher.unref();
+    } catch {
+      this.watcher = null;
+      this.dirty = true;
+      console.warn('⚠️  Could not watch entity directory, index will resync on demand');
+    }
+  }
+
+  /**
+   * Bring the index up to date with the JSON files on disk.
+   * Files are compared by mtime and size; only new or changed files are parsed.
+   */
+  async sync(): Promise<IndexSyncResult> {
+    if (this.syncing) return this.syncing;
+
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Drop everything and rebuild from scratch
+   */
+  async rebuild(): Promise<IndexSyncResult> {
+    const db = this.open();
+    db.exec(`
+      DELETE FROM centrality;
+      DELETE FROM relations;
+      DELETE FROM cooccurrences;
+      DELETE FROM mentions;
+      DELETE FROM entities;
+      DELETE FROM documents;
+      DELETE FROM source_files;
+    `);
+    this.dirty = true;
+    return this.sync();
+  }
+
+  private async runSync(): Promise<IndexSyncResult> {
+    const db = this.open();
+    const startTime = Date.now();
+    // Cleared before reading so changes made during the sync trigger another one
+    this.dirty = false;
+
+    let files: string[];
+    try {
+      files = (await fsp.readdir(this.entitiesPath)).filter(f => f.endsWith('.json'));
+    } catch (error) {
+      console.error('Entity directory not found:', this.entitiesPath);
+      return { added: 0, updated: 0, removed: 0, unchanged: 0, elapsedMs: 0 };
+    }
+
+    const known = new Map<string, { mtime_ms: number; size: number }>();
+    for (const row of db.prepare('SELECT filename, mtime_ms, size FROM source_files').all() as Array<{ filename: string; mtime_ms: number; size: number }>) {
+      known.set(row.filename, row);
+    }
+
+    const changed: Array<{ file: string; mtimeMs: number; size: number; isNew: boolean }> = [];
+    let unchanged = 0;
+
+    for (const file of files) {
+      let stat: fs.Stats;
+      try {
+        stat = await fsp.stat(path.join(this.entitiesPath, file));
+      } catch {
+        continue;
+      }
+
+      const previous = known.get(file);
+      known.delete(file);
+
+      if (previous && previous.mtime_ms === stat.mtimeMs && previous.size === stat.size) {
+        unchanged++;
+      } else {
+        changed.push({ file, mtimeMs: stat.mtimeMs, size: stat.size, isNew: !previous });
+      }
+    }
+
+    // Whatever is left in `known` no longer exists on disk
+    const removedFiles = Array.from(known.keys());
+
+    if (changed.length === 0 && removedFiles.length === 0) {
+      return { added: 0, updated: 0, removed: 0, unchanged, elapsedMs: Date.now() - startTime };
+    }
+
+    console.log(`🗂️  Updating entity index: ${changed.length} changed, ${removedFiles.length} removed...`);
+
+    const statements = {
+      deleteCooccurrences: db.prepare('DELETE FROM cooccurrences WHERE source_file = ?'),
+      deleteRelations: db.prepare('DELETE FROM relations WHERE source_file = ?'),
+      deleteMentions: db.prepare('DELETE FROM mentions WHERE source_file = ?'),
+      deleteDocument: db.prepare('DELETE FROM documents WHERE source_file = ?'),
+      deleteSourceFile: db.prepare('DELETE FROM source_files WHERE filename = ?'),
+      upsertSourceFile: db.prepare('INSERT OR REPLACE INTO source_files (filename, mtime_ms, size) VALUES (?, ?, ?)'),
+      insertDocument: db.prepare(`
+        INSERT OR REPLACE INTO documents
+          (source_file, id, filename, path, page_count, dataset, ocr_confidence, people_count, location_count, date_count, flight_count)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `),
+      // Names are settled from the remaining mentions at the end of the sync
+      insertEntity: db.prepare(`
+        INSERT INTO entities (id, name, name_lower, type, context) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO NOTHING
+      `),
+      insertMention: db.prepare(`
+        INSERT INTO mentions (source_file, document_id, entity_id, name, name_lower, type, context, position)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `),
+      insertCooccurrence: db.prepare(`
+        INSERT OR IGNORE INTO cooccurrences (source_file, from_id, to_id, document_id, page_hits, paragraph_hits)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `),
+      insertRelation: db.prepare(`
+        INSERT INTO relations
+          (source_file, document_id, from_id, to_id, from_name, to_name, type, directed, confidence, cue, page, span_start, span_end, reference, evidence)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `),
+    };
+
+    const removeFile = (file: string) => {
+      statements.deleteCooccurrences.run(file);
+      statements.deleteRelations.run(file);
+      statements.deleteMentions.run(file);
+      statements.deleteDocument.run(file);
+    };
+
+    // Symmetric relations are stored once, in key order like co-occurrences
+    const indexRelations = (file: string, documentId: string, relationships: ExtractedRelation[]) => {
+      for (const relation of relationships) {
+        if (!relation?.source || !relation.target || !relation.evidence) continue;
+        let source = { key: normalizeEntityKey(relation.source), name: relation.source };
+        let target = { key: normalizeEntityKey(relation.target), name: relation.target };
+        if (source.key.length < 2 || target.key.length < 2 || source.key === target.key) continue;
+        if (!relation.directed && target.key < source.key) [source, target] = [target, source];
+
+        const { evidence } = relation;
+        statements.insertRelation.run(
+          file, documentId, source.key, target.key, source.name, target.name,
+          relation.type, relation.directed ? 1 : 0, relation.confidence, relation.cue,
+          evidence.page ?? null, evidence.start ?? null, evidence.end ?? null, evidence.reference ?? null, evidence.text || '',
+        );
+      }
+    };
+
+    const indexFile = (file: string, data: DocumentEntity) => {
+      const docId = data.document.id;
+      const entities = data.entities || {};
+      let position = 0;
+
+      const addMention = (entityId: string, name: string, type: string, context: string | undefined) => {
+        statements.insertEntity.run(entityId, name, name.toLowerCase().trim(), type, context ?? null);
+        statements.insertMention.run(file, docId, entityId, name, name.toLowerCase().trim(), type, context ?? null, position++);
+      };
+
+      statements.insertDocument.run(
+        file,
+        docId,
+        data.document.filename,
+        data.document.path,
+        data.document.pageCount || 0,
+        data.document.dataset || 'Unknown',
+        data.document.ocrConfidence ?? null,
+        entities.people?.length || 0,
+        entities.locations?.length || 0,
+        entities.dates?.length || 0,
+        entities.flights?.length || 0,
+      );
+
+      // People
+      const peopleInDoc: Array<{ key: string; name: string }> = [];
+      for (const person of entities.people || []) {
+        if (!person.name || person.name.length < 2) continue;
+        const key = normalizeEntityKey(person.name);
+        if (key.length < 2) continue;
+
+        addMention(key, person.name, 'person', person.context || person.role);
+        peopleInDoc.push({ key, name: person.name });
+      }
+
+      // Locations
+      for (const location of entities.locations || []) {
+        if (!location.name || location.name.length < 2) continue;
+        addMention('loc_' + normalizeEntityKey(location.name), location.name, 'location', location.type);
+      }
+
+      // Flights
+      for (const flight of entities.flights || []) {
+        const key = `flight_${flight.from}_${flight.to}_${flight.date || 'unknown'}`;
+        addMention(key, `${flight.from} → ${flight.to}`, 'flight', flight.date || 'Unknown date');
+      }
+
+      // Co-occurrence pairs between the first people in the document,
+      // with how many pages / paragraphs mention both
+      const pairCandidates = peopleInDoc.slice(0, MAX_PEOPLE_PER_DOC);
+      const locations = locateMentions(
+        data.document.text || '',
+        data.document.pageCount || 0,
+        pairCandidates.map(p => p.name),
+      );
+
+      for (let i = 0; i < pairCandidates.length; i++) {
+        for (let j = i + 1; j < pairCandidates.length; j++) {
+          const a = pairCandidates[i];
+          const b = pairCandidates[j];
+          if (a.key === b.key) continue;
+          const [from, to] = a.key < b.key ? [a.key, b.key] : [b.key, a.key];
+          const { pageHits, paragraphHits } = sharedLocations(locations.get(a.name), locations.get(b.name));
+          statements.insertCooccurrence.run(file, from, to, docId, pageHits, paragraphHits);
+        }
+      }
+
+      indexRelations(file, docId, data.relationships || []);
+    };
+
+    // Parse outside the transaction, write in batches so a huge first build
+    // doesn't hold everything in memory at once
+    const BATCH_SIZE = 500;
+    let added = 0;
+    let updated = 0;
+
+    for (let start = 0; start < changed.length; start += BATCH_SIZE) {
+      const batch = changed.slice(start, start + BATCH_SIZE);
+      const parsed: Array<{ file: string; mtimeMs: number; size: number; isNew: boolean; data: DocumentEntity | null; relations: RelationshipFile | null }> = [];
+
+      for (const entry of batch) {
+        let data: DocumentEntity | null = null;
+        let relations: RelationshipFile | null = null;
+        try {
+          const content = await fsp.readFile(path.join(this.entitiesPath, entry.file), 'utf-8');
+          const json = JSON.parse(content);
+          // Lookup tables and flight/black-book exports share the directory but aren't per-document files.
+          // Their relationship files are indexed for relations only
+          if (json && typeof json === 'object' && json.document?.id) {
+            data = json as DocumentEntity;
+          } else if (json && typeof json.source === 'string' && Array.isArray(json.relationships)) {
+            relations = json as RelationshipFile;
+          }
+        } catch {
+          // Unreadable files are recorded so they aren't re-parsed until they change
+        }
+        parsed.push({ ...entry, data, relations });
+      }
+
+      db.transaction(() => {
+        for (const entry of parsed) {
+          removeFile(entry.file);
+          if (entry.data) indexFile(entry.file, entry.data);
+          if (entry.relations) indexRelations(entry.file, entry.relations.source, entry.relations.relationships);
+          statements.upsertSourceFile.run(entry.file, entry.mtimeMs, entry.size);
+          if (entry.isNew) added++;
+          else updated++;
+        }
+      })();
+    }
+
+    db.transaction(() => {
+      for (const file of removedFiles) {
+        removeFile(file);
+        statements.deleteSourceFile.run(file);
+      }
+
+      if (added > 0 || updated > 0 || removedFiles.length > 0) {
+        // Entities whose last mention disappeared
+        db.exec('DELETE FROM entities WHERE id NOT IN (SELECT entity_id FROM mentions)');
+        // The first mention (by file, then position) names an entity, whichever order files were indexed in
+        db.exec(`
+          UPDATE entities SET
+            name = (SELECT m.name FROM mentions m WHERE m.entity_id = entities.id ORDER BY m.source_file, m.position LIMIT 1),
+            name_lower = (SELECT m.name_lower FROM mentions m WHERE m.entity_id = entities.id ORDER BY m.source_file, m.position LIMIT 1),
+            type = (SELECT m.type FROM mentions m WHERE m.entity_id = entities.id ORDER BY m.source_file, m.position LIMIT 1),
+            context = (
+              SELECT m.context FROM mentions m
+              WHERE m.entity_id = entities.id AND m.context IS NOT NULL
+              ORDER BY m.source_file, m.position LIMIT 1
+            )
+        `);
+      }
+    })();
+
+    this.version++;
+
+    const elapsedMs = Date.now() - startTime;
+    console.log(`✅ Entity index updated in ${elapsedMs}ms (${added} added, ${updated} updated, ${removedFiles.length} removed)`);
+
+    return { added, updated, removed: removedFiles.length, unchanged, elapsedMs };
+  }
+
+  // ===========================================================================
+  // ENTITY QUERIES
+  // ===========================================================================
+
+  private static ENTITY_SELECT = `
+    SELECT e.id, e.name, e.type, e.context,
+           COUNT(*) AS occurrences,
+           json_group_array(DISTINCT m.document_id) AS document_ids
+    FROM entities e
+    JOIN mentions m ON m.entity_id = e.id
+  `;
+
+  private mapEntity(row: EntityQueryRow): IndexedEntityRow {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type as IndexedEntityRow['type'],
+      context: row.context,
+      occurrences: row.occurrences,
+      documentIds: parseIdList(row.document_ids),
+    };
+  }
+
+  async getAllEntities(): Promise<IndexedEntityRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`${EntityIndexService.ENTITY_SELECT} GROUP BY e.id`).all() as EntityQueryRow[];
+    return rows.map(row => this.mapEntity(row));
+  }
+
+  async getTopEntities(limit: number, type?: string): Promise<IndexedEntityRow[]> {
+    const db = await this.ensureReady();
+    const rows = type
+      ? db.prepare(`${EntityIndexService.ENTITY_SELECT} WHERE e.type = ? GROUP BY e.id ORDER BY occurrences DESC LIMIT ?`).all(type, limit)
+      : db.prepare(`${EntityIndexService.ENTITY_SELECT} GROUP BY e.id ORDER BY occurrences DESC LIMIT ?`).all(limit);
+    return (rows as EntityQueryRow[]).map(row => this.mapEntity(row));
+  }
+
+  async searchEntities(query: string, limit: number): Promise<IndexedEntityRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      ${EntityIndexService.ENTITY_SELECT}
+      WHERE instr(e.name_lower, ?) > 0
+      GROUP BY e.id
+      ORDER BY occurrences DESC
+      LIMIT ?
+    `).all(query.toLowerCase(), limit) as EntityQueryRow[];
+    return rows.map(row => this.mapEntity(row));
+  }
+
+  async getEntity(entityId: string): Promise<IndexedEntityRow | null> {
+    const db = await this.ensureReady();
+    const row = db.prepare(`${EntityIndexService.ENTITY_SELECT} WHERE e.id = ? GROUP BY e.id`).get(entityId) as EntityQueryRow | undefined;
+    return row ? this.mapEntity(row) : null;
+  }
+
+  // ===========================================================================
+  // CONNECTION QUERIES
+  // ===========================================================================
+
+  private static CONNECTION_SELECT = `
+    SELECT c.from_id, c.to_id, ef.name AS from_name, et.name AS to_name,
+           COUNT(DISTINCT c.document_id) AS strength,
+           SUM(c.page_hits) AS page_hits,
+           SUM(c.paragraph_hits) AS paragraph_hits,
+           json_group_array(DISTINCT c.document_id) AS document_ids
+    FROM cooccurrences c
+    JOIN entities ef ON ef.id = c.from_id
+    JOIN entities et ON et.id = c.to_id
+  `;
+
+  private mapConnection(row: ConnectionQueryRow): IndexedConnectionRow {
+    return {
+      from: row.from_id,
+      to: row.to_id,
+      fromName: row.from_name,
+      toName: row.to_name,
+      documentIds: parseIdList(row.document_ids),
+      strength: row.strength,
+      pageHits: row.page_hits || 0,
+      paragraphHits: row.paragraph_hits || 0,
+    };
+  }
+
+  async getAllConnections(): Promise<IndexedConnectionRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`${EntityIndexService.CONNECTION_SELECT} GROUP BY c.from_id, c.to_id`).all() as ConnectionQueryRow[];
+    return rows.map(row => this.mapConnection(row));
+  }
+
+  async getStrongestConnections(limit: number): Promise<IndexedConnectionRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      ${EntityIndexService.CONNECTION_SELECT}
+      GROUP BY c.from_id, c.to_id
+      ORDER BY strength DESC
+      LIMIT ?
+    `).all(limit) as ConnectionQueryRow[];
+    return rows.map(row => this.mapConnection(row));
+  }
+
+  async getEntityConnections(entityId: string): Promise<IndexedConnectionRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      ${EntityIndexService.CONNECTION_SELECT}
+      WHERE c.from_id = ? OR c.to_id = ?
+      GROUP BY c.from_id, c.to_id
+      ORDER BY strength DESC
+    `).all(entityId, entityId) as ConnectionQueryRow[];
+    return rows.map(row => this.mapConnection(row));
+  }
+
+  /**
+   * Number of documents mentioning each entity, for association weights
+   */
+  async getDocumentFrequencies(): Promise<Map<string, number>> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      SELECT entity_id, COUNT(DISTINCT document_id) AS documents
+      FROM mentions
+      GROUP BY entity_id
+    `).all() as Array<{ entity_id: string; documents: number }>;
+    return new Map(rows.map(row => [row.entity_id, row.documents]));
+  }
+
+  // ===========================================================================
+  // TYPED RELATIONS
+  // ===========================================================================
+
+  /**
+   * Typed relations grouped by pair and type, most evidence first
+   */
+  async getRelations(query: RelationQuery = {}): Promise<IndexedRelationRow[]> {
+    const db = await this.ensureReady();
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.types?.length) {
+      conditions.push(`r.type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.entityId) {
+      conditions.push('(r.from_id = ? OR r.to_id = ?)');
+      params.push(query.entityId, query.entityId);
+    }
+
+    const rows = db.prepare(`
+      SELECT r.from_id, r.to_id, r.type,
+             MAX(r.directed) AS directed,
+             MAX(r.from_name) AS from_name,
+             MAX(r.to_name) AS to_name,
+             COUNT(*) AS strength,
+             MAX(r.confidence) AS confidence,
+             json_group_array(DISTINCT r.document_id) AS document_ids,
+             json_group_array(json_object(
+               'documentId', r.document_id, 'cue', r.cue, 'page', r.page,
+               'start', r.span_start, 'end', r.span_end, 'reference', r.reference, 'text', r.evidence
+             )) AS evidence
+      FROM relations r
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY r.from_id, r.to_id, r.type
+      ORDER BY strength DESC, confidence DESC
+      LIMIT ?
+    `).all(...params, query.limit ?? 500) as RelationQueryRow[];
+
+    const evidenceLimit = query.evidenceLimit ?? 5;
+    return rows.map(row => ({
+      from: row.from_id,
+      to: row.to_id,
+      fromName: row.from_name,
+      toName: row.to_name,
+      type: row.type as RelationType,
+      directed: row.directed === 1,
+      strength: row.strength,
+      confidence: row.confidence,
+      documentIds: parseIdList(row.document_ids),
+      evidence: (JSON.parse(row.evidence) as RelationEvidenceJson[]).slice(0, evidenceLimit).map(e => ({
+        documentId: e.documentId,
+        cue: e.cue,
+        page: e.page ?? null,
+        text: e.text,
+        // Spans and references are only there for the sources that have them
+        ...(e.start !== null && e.end !== null ? { start: e.start, end: e.end } : {}),
+        ...(e.reference !== null ? { reference: e.reference } : {}),
+      })),
+    }));
+  }
+
+  // ===========================================================================
+  // CENTRALITY
+  // ===========================================================================
+
+  /**
+   * Replace the stored centrality scores (written by the centrality batch job)
+   */
+  async saveCentrality(scores: Map<string, CentralityScores>): Promise<void> {
+    const db = await this.ensureReady();
+    const insert = db.prepare(`
+      INSERT INTO centrality (entity_id, weighted_degree, betweenness, eigenvector, page_rank, computed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const computedAt = new Date().toISOString();
+
+    db.transaction(() => {
+      db.exec('DELETE FROM centrality');
+      for (const [entityId, s] of scores) {
+        insert.run(entityId, s.weightedDegree, s.betweenness, s.eigenvector, s.pageRank, computedAt);
+      }
+    })();
+  }
+
+  async getCentrality(entityId: string): Promise<CentralityScores | null> {
+    const db = await this.ensureReady();
+    const row = db.prepare(`
+      SELECT weighted_degree, betweenness, eigenvector, page_rank
+      FROM centrality WHERE entity_id = ?
+    `).get(entityId) as { weighted_degree: number; betweenness: number; eigenvector: number; page_rank: number } | undefined;
+
+    return row
+      ? { weightedDegree: row.weighted_degree, betweenness: row.betweenness, eigenvector: row.eigenvector, pageRank: row.page_rank }
+      : null;
+  }
+
+  // ===========================================================================
+  // DOCUMENT QUERIES
+  // ===========================================================================
+
+  private mapDocument(row: DocumentQueryRow): IndexedDocumentRow {
+    return {
+      id: row.id,
+      filename: row.filename,
+      path: row.path,
+      pageCount: row.page_count,
+      dataset: row.dataset,
+      ocrConfidence: row.ocr_confidence,
+    };
+  }
+
+  /**
+   * People/location mentions whose name contains the query or is contained in it
+   * (same loose matching the document mapper has always used)
+   */
+  async findMentionsByName(name: string): Promise<IndexedMentionRow[]> {
+    const normalized = name.toLowerCase().trim();
+    // A blank name would be contained in every mention
+    if (!normalized) return [];
+
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      SELECT document_id, entity_id, name, type, context
+      FROM mentions
+      WHERE type IN ('person', 'location')
+        AND (instr(name_lower, ?) > 0 OR instr(?, name_lower) > 0)
+      ORDER BY source_file, position
+    `).all(normalized, normalized) as MentionQueryRow[];
+
+    return rows.map(row => ({
+      documentId: row.document_id,
+      entityId: row.entity_id,
+      name: row.name,
+      type: row.type,
+      context: row.context,
+    }));
+  }
+
+  async getDocumentMentions(documentId: string): Promise<IndexedMentionRow[]> {
+    const db = await this.ensureReady();
+    const rows = db.prepare(`
+      SELECT document_id, entity_id, name, type, context
+      FROM mentions
+      WHERE document_id = ? AND type IN ('person', 'location')
+      ORDER BY position
+    `).all(documentId) as MentionQueryRow[];
+
+    return rows.map(row => ({
+      documentId: row.document_id,
+      entityId: row.entity_id,
+      name: row.name,
+      type: row.type,
+      context: row.context,
+    }));
+  }
+
+  async getDocuments(documentIds: string[]): Promise<IndexedDocumentRow[]> {
+    if (documentIds.length === 0) return [];
+    const db = await this.ensureReady();
+
+    const results: IndexedDocumentRow[] = [];
+    const seen = new Set<string>();
+    // Stay well under SQLite's bound-parameter limit
+    for (let i = 0; i < documentIds.length; i += 500) {
+      const chunk = documentIds.slice(i, i + 500);
+      const rows = db.prepare(`
+        SELECT id, filename, path, page_count, dataset, ocr_confidence
+        FROM documents
+        WHERE id IN (${chunk.map(() => '?').join(',')})
+        ORDER BY source_file
+      `).all(...chunk) as DocumentQueryRow[];
+      for (const row of rows) {
+        if (seen.has(row.id)) continue;
+        seen.add(row.id);
+        results.push(this.mapDocument(row));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Exact id match first, otherwise the first document whose id contains the query
+   */
+  async findDocument(documentId: string): Promise<IndexedDocumentRow | null> {
+    const db = await this.ensureReady();
+    const row = db.prepare(`
+      SELECT id, filename, path, page_count, dataset, ocr_confidence
+      FROM documents
+      WHERE id = ? OR instr(id, ?) > 0
+      ORDER BY id = ? DESC, source_file
+      LIMIT 1
+    `).get(documentId, documentId, documentId) as DocumentQueryRow | undefined;
+    return row ? this.mapDocument(row) : null;
+  }
+
+  async getTotals(): Promise<IndexTotals> {
+    const db = await this.ensureReady();
+    const docTotals = db.prepare(`
+      SELECT COUNT(*) AS documents,
+             COALESCE(SUM(people_count), 0) AS people,
+             COALESCE(SUM(location_count), 0) AS locations,
+             COALESCE(SUM(date_count), 0) AS dates,
+             COALESCE(SUM(flight_count), 0) AS flights
+      FROM documents
+    `).get() as Omit<IndexTotals, 'connections' | 'relations'>;
+    const { connections } = db.prepare(`
+      SELECT COUNT(*) AS connections FROM (SELECT 1 FROM cooccurrences GROUP BY from_id, to_id)
+    `).get() as { connections: number };
+    const { relations } = db.prepare(`
+      SELECT COUNT(*) AS relations FROM (SELECT 1 FROM relations GROUP BY from_id, to_id, type)
+    `).get() as { relations: number };
+
+    return { ...docTotals, connections, relations };
+  }
+
+  close() {
+    this.watcher?.close();
+    this.watcher = null;
+    this.db?.close();
+    this.db = null;
+    this.dirty = true;
+  }
+}
+
+// One index per process - every service shares the same connection and watcher
+let sharedIndex: EntityIndexService | null = null;
+
+export function getEntityIndex(): EntityIndexService {
+  if (!sharedIndex) {
+    sharedIndex = new EntityIndexService();
+  }
+  return sharedIndex;
+}
@@ -0,0 +1,117 @@
+/**
+ * Gazetteer Extractor
+ * Matches a curated list of known people, places and organizations loaded from data/gazetteer.json
+ * (or GAZETTEER_PATH) - add names there instead of editing code
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CandidateEntity, EntityExtractor } from './entity-extractor.service';
+
+/**
+ * A known person - role marks victims and others whose names the public site masks
+ * unless they are already public in a court caption (apps/web/lib/protected-persons.ts)
+ */
+export interface GazetteerPerson {
+  name: string;
+  role?: 'victim' | 'minor' | 'jane_doe' | 'victim_statement';
+}
+
+export interface Gazetteer {
+  people: GazetteerPerson[];
+  locations: Array<{ name: string; type: string }>;
+  organizations: string[];
+}
+
+export const EMPTY_GAZETTEER: Gazetteer = { people: [], locations: [], organizations: [] };
+
+const CONTEXT_CHARS = 50;
+
+let cached: { path: string; gazetteer: Gazetteer } | null = null;
+
+export function gazetteerPath(): string {
+  return process.env.GAZETTEER_PATH || path.join(__dirname, '../../data/gazetteer.json');
+}
+
+/**
+ * Read the gazetteer file once per process - a missing file gives an empty gazetteer
+ */
+export function loadGazetteer(filePath = gazetteerPath()): Gazetteer {
+  if (cached && cached.path === filePath) return cached.gazetteer;
+
+  let gazetteer = EMPTY_GAZETTEER;
+  if (fs.existsSync(filePath)) {
+    // People are plain names, or { name, role } for the ones with a protected role
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<Omit<Gazetteer, 'people'>> & { people?: Array<string | GazetteerPerson> };
+    gazetteer = {
+      people: (raw.people || []).map(person => (typeof person === 'string' ? { name: person } : person)),
+      locations: raw.locations || [],
+      organizations: raw.organizations || [],
+    };
+  } else {
+    console.warn(`⚠️  Gazetteer not found at ${filePath}`);
+  }
+
+  cached = { path: filePath, gazetteer };
+  return gazetteer;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface GazetteerEntry {
+  name: string;
+  type: CandidateEntity['type'];
+  subtype?: string;
+  role?: string;
+  pattern: RegExp;
+}
+
+export class GazetteerExtractor implements EntityExtractor {
+  readonly name = 'gazetteer';
+  readonly description = 'Known names from data/gazetteer.json';
+  readonly weight = 0.95;
+  private entries: GazetteerEntry[];
+
+  constructor(gazetteer: Gazetteer = loadGazetteer()) {
+    const entry = (name: string, type: CandidateEntity['type'], subtype?: string, role?: string): GazetteerEntry => {
+      const words = name.trim().split(/\s+/).map(escapeRegExp);
+      return {
+        name,
+        type,
+        subtype,
+        role,
+        // Whole words only, any whitespace between them (names wrap across lines)
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu'),
+      };
+    };
+
+    this.entries = [
+      ...gazetteer.people.map(person => entry(person.name, 'person', undefined, person.role)),
+      ...gazetteer.locations.map(loc => entry(loc.name, 'location', loc.type)),
+      ...gazetteer.organizations.map(name => entry(name, 'organization')),
+    ];
+  }
+
+  async extract(text: string): Promise<CandidateEntity[]> {
+    const found: CandidateEntity[] = [];
+
+    for (const entry of this.entries) {
+      const match = entry.pattern.exec(text);
+      if (!match) continue;
+
+      const context = text.slice(Math.max(0, match.index - CONTEXT_CHARS), match.index + match[0].length + CONTEXT_CHARS);
+      found.push({
+        name: entry.name,
+        type: entry.type,
+        subtype: entry.subtype,
+        role: entry.role,
+        confidence: 0.95,
+        context: context.replace(/\s+/g, ' ').trim(),
+      });
+    }
+
+    return found;
+  }
+}
@@ -4,7 +4,10 @@
  * Finds connections, clusters, and anomalies
  */
 
-import { EntityDataLoaderService } from './entity-data-loader.service';
+import { EntityDataLoaderService, Entity, EntityConnection } from './entity-data-loader.service';
+import { CommunityDetectionService } from './community-detection.service';
+
+export type ClusterAlgorithm = 'components' | 'louvain';
 
 export interface NetworkCluster {
   id: string;
@@ -13,6 +16,17 @@ export interface NetworkCluster {
   totalConnections: number;
   avgStrength: number;
   documents: string[];
+  // Only set by community detection
+  topMembers?: Array<{ id: string; name: string; internalStrength: number }>;
+  representativeDocuments?: Array<{ id: string; connections: number }>;
+  modularity?: number;
+}
+
+export interface ClusterOptions {
+  algorithm?: ClusterAlgorithm;
+  resolution?: number;        // Louvain resolution (default 1)
+  excludeTopHubs?: number;    // Drop the N highest-degree nodes before clustering
+  excludeIds?: string[];      // Drop specific entities before clustering
 }
 
 export interface Discovery {
@@ -36,22 +50,62 @@ export interface GeographicPattern {
 
 export class GraphBuilderService {
   private entityLoader: EntityDataLoaderService;
+  private communityDetection: CommunityDetectionService;
   private discoveries: Discovery[] = [];
   
   constructor() {
     this.entityLoader = new EntityDataLoaderService();
+    this.communityDetection = new CommunityDetectionService();
   }
   
   /**
    * Discovery #1: Find tight network clusters
    * People who appear together frequently across documents
    */
-  async findNetworkClusters(minStrength = 3, minSize = 3): Promise<NetworkCluster[]> {
-    console.log('🔍 Finding network clusters...');
+  async findNetworkClusters(minStrength = 3, minSize = 3, options: ClusterOptions = {}): Promise<NetworkCluster[]> {
+    console.log(`🔍 Finding network clusters (${options.algorithm || 'components'})...`);
     
     const connections = await this.entityLoader.buildConnectionGraph();
     const entities = await this.entityLoader.loadAllEntities();
     
+    const clusters = options.algorithm === 'louvain'
+      ? this.findCommunities(connections, entities, minStrength, minSize, options)
+      : this.findConnectedComponents(connections, entities, minStrength, minSize);
+    
+    console.log(`✅ Found ${clusters.length} network clusters`);
+    
+    // Generate discoveries from top clusters
+    for (const cluster of clusters.slice(0, 5)) {
+      if (cluster.members.length >= 5) {
+        this.discoveries.push({
+          id: `discovery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          type: 'network_cluster',
+          severity: cluster.members.length >= 10 ? 'critical' : 'high',
+          title: `Network Cluster: ${cluster.members.length} Connected Individuals`,
+          description: `Analysis reveals a tight network of ${cluster.members.length} individuals with ${cluster.totalConnections} co-occurrences across ${cluster.documents.length} documents. Key members: ${cluster.memberNames.slice(0, 5).join(', ')}${cluster.memberNames.length > 5 ? '...' : ''}`,
+          entities: cluster.members,
+          documents: cluster.documents.slice(0, 10),
+          timestamp: new Date(),
+          metadata: {
+            avgStrength: cluster.avgStrength,
+            memberNames: cluster.memberNames,
+          },
+        });
+      }
+    }
+    
+    return clusters;
+  }
+  
+  /**
+   * Plain connected components over edges above minStrength
+   */
+  private findConnectedComponents(
+    connections: EntityConnection[],
+    entities: Entity[],
+    minStrength: number,
+    minSize: number,
+  ): NetworkCluster[] {
     // Build adjacency map
     const adjacency = new Map<string, Map<string, number>>();
     
@@ -132,28 +186,111 @@ export class GraphBuilderService {
       return b.avgStrength - a.avgStrength;
     });
     
-    console.log(`✅ Found ${clusters.length} network clusters`);
+    return clusters;
+  }
+  
+  /**
+   * Modularity-based communities (Louvain), optionally with hub nodes removed
+   * so a single dominant entity doesn't glue every group together
+   */
+  private findCommunities(
+    connections: EntityConnection[],
+    entities: Entity[],
+    minStrength: number,
+    minSize: number,
+    options: ClusterOptions,
+  ): NetworkCluster[] {
+    const entityById = new Map(entities.map(e => [e.id, e]));
+    let edges = connections.filter(c => c.strength >= minStrength);
+    
+    // Hub exclusion by weighted degree
+    const excluded = new Set(options.excludeIds || []);
+    if (options.excludeTopHubs && options.excludeTopHubs > 0) {
+      const degree = new Map<string, number>();
+      for (const conn of edges) {
+        degree.set(conn.from, (degree.get(conn.from) || 0) + conn.strength);
+        degree.set(conn.to, (degree.get(conn.to) || 0) + conn.strength);
+      }
+      Array.from(degree.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, options.excludeTopHubs)
+        .forEach(([id]) => excluded.add(id));
+    }
+    if (excluded.size > 0) {
+      console.log(`   Excluding ${excluded.size} hub nodes: ${Array.from(excluded).slice(0, 5).join(', ')}${excluded.size > 5 ? '...' : ''}`);
+      edges = edges.filter(c => !excluded.has(c.from) && !excluded.has(c.to));
+    }
     
-    // Generate discoveries from top clusters
-    for (const cluster of clusters.slice(0, 5)) {
-      if (cluster.members.length >= 5) {
-        this.discoveries.push({
-          id: `discovery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          type: 'network_cluster',
-          severity: cluster.members.length >= 10 ? 'critical' : 'high',
-          title: `Network Cluster: ${cluster.members.length} Connected Individuals`,
-          description: `Analysis reveals a tight network of ${cluster.members.length} individuals with ${cluster.totalConnections} co-occurrences across ${cluster.documents.length} documents. Key members: ${cluster.memberNames.slice(0, 5).join(', ')}${cluster.memberNames.length > 5 ? '...' : ''}`,
-          entities: cluster.members,
-          documents: cluster.documents.slice(0, 10),
-          timestamp: new Date(),
-          metadata: {
-            avgStrength: cluster.avgStrength,
-            memberNames: cluster.memberNames,
-          },
-        });
+    const { communities, modularity } = this.communityDetection.louvain(
+      edges.map(c => ({ from: c.from, to: c.to, weight: c.strength })),
+      { resolution: options.resolution },
+    );
+    
+    // Group members and internal edges per community
+    const groups = new Map<number, { members: string[]; internal: EntityConnection[] }>();
+    for (const [id, community] of communities) {
+      if (!groups.has(community)) groups.set(community, { members: [], internal: [] });
+      groups.get(community)!.members.push(id);
+    }
+    for (const conn of edges) {
+      const community = communities.get(conn.from);
+      if (community !== undefined && community === communities.get(conn.to)) {
+        groups.get(community)!.internal.push(conn);
       }
     }
     
+    const clusters: NetworkCluster[] = [];
+    
+    for (const { members, internal } of groups.values()) {
+      if (members.length < minSize) continue;
+      
+      // Members ranked by the strength of their ties inside the community
+      const internalStrength = new Map<string, number>();
+      const docCounts = new Map<string, number>();
+      let totalStrength = 0;
+      
+      for (const conn of internal) {
+        internalStrength.set(conn.from, (internalStrength.get(conn.from) || 0) + conn.strength);
+        internalStrength.set(conn.to, (internalStrength.get(conn.to) || 0) + conn.strength);
+        totalStrength += conn.strength;
+        for (const docId of conn.documentIds) {
+          docCounts.set(docId, (docCounts.get(docId) || 0) + 1);
+        }
+      }
+      
+      const rankedMembers = members
+        .map(id => ({ id, name: entityById.get(id)?.name || id, internalStrength: internalStrength.get(id) || 0 }))
+        .sort((a, b) => b.internalStrength - a.internalStrength);
+      
+      // Documents that back the most within-community ties
+      const representativeDocuments = Array.from(docCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([id, count]) => ({ id, connections: count }));
+      
+      clusters.push({
+        id: '',
+        members: rankedMembers.map(m => m.id),
+        memberNames: rankedMembers.map(m => m.name),
+        totalConnections: internal.length,
+        avgStrength: internal.length > 0 ? totalStrength / internal.length : 0,
+        documents: Array.from(docCounts.keys()),
+        topMembers: rankedMembers.slice(0, 10),
+        representativeDocuments,
+        modularity,
+      });
+    }
+    
+    clusters.sort((a, b) => {
+      const sizeScore = b.members.length - a.members.length;
+      if (sizeScore !== 0) return sizeScore;
+      return b.avgStrength - a.avgStrength;
+    });
+    clusters.forEach((cluster, i) => {
+      cluster.id = `community_${i}`;
+    });
+    
+    console.log(`   Modularity: ${modularity.toFixed(3)}`);
     return clusters;
   }
   
@@ -0,0 +1,86 @@
+/**
+ * LLM Extractor
+ * Asks the configured LLM (Claude Haiku by default) for entities in a compact summary of the document
+ * Costs tokens - the ensemble only runs it as a fallback when the local extractors found little
+ */
+
+import path from 'path';
+import { LlmClient, createLlmClient, type LlmConfig } from '@repo/llm/client';
+import { CandidateEntity, EntityExtractor, ExtractionContext } from './entity-extractor.service';
+
+const SUMMARY_CHARS = 2000;
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, '../../data/llm-fixtures');
+
+// Ingestion prefers Anthropic (Claude Haiku) whenever ANTHROPIC_API_KEY is set
+export const INGESTION_LLM_CONFIG: LlmConfig = {
+  preferredProvider: 'anthropic',
+  appTitle: 'Epstein Exposed Ingestion',
+};
+
+interface LlmResponse {
+  people?: Array<{ name?: string; role?: string; context?: string }>;
+  locations?: Array<{ name?: string; type?: string }>;
+  organizations?: Array<{ name?: string }>;
+}
+
+export class LlmExtractor implements EntityExtractor {
+  readonly name = 'llm';
+  readonly description = 'LLM (LLM_PROVIDER) on a document summary';
+  readonly weight = 0.8;
+  private llm: LlmClient | null = null;
+
+  get usage() {
+    return { calls: this.llm?.usage.calls ?? 0, tokens: this.llm?.totalTokens ?? 0 };
+  }
+
+  async extract(text: string, context: ExtractionContext = {}): Promise<CandidateEntity[]> {
+    // Only send a SUMMARY to the model, not the full text
+    const summary = this.createDocumentSummary(text);
+
+    const { data: parsed } = await this.client().extractJson<LlmResponse>([{
+      role: 'user',
+      content: `Analyze this document summary and extract any ADDITIONAL entities not already found. Return ONLY JSON:
+
+Already found: ${context.alreadyFound ?? 0} entities
+Document: ${context.filename ?? 'unknown'} (${context.pageCount ?? '?'} pages)
+
+Summary (first ${SUMMARY_CHARS} chars):
+${summary}
+
+Return JSON with ONLY NEW entities not in the "already found" list:
+{"people": [{"name": "", "role": "", "context": ""}], "locations": [{"name": "", "type": ""}], "organizations": [{"name": ""}]}`
+    }], { maxTokens: 2048 });
+
+    const found: CandidateEntity[] = [];
+
+    for (const person of parsed.people || []) {
+      if (person.name) found.push({ name: person.name, type: 'person', role: person.role, context: person.context, confidence: 0.85 });
+    }
+    for (const loc of parsed.locations || []) {
+      if (loc.name) found.push({ name: loc.name, type: 'location', subtype: loc.type, confidence: 0.85 });
+    }
+    for (const org of parsed.organizations || []) {
+      if (org.name) found.push({ name: org.name, type: 'organization', confidence: 0.85 });
+    }
+
+    return found;
+  }
+
+  /**
+   * Created on first use so dotenv has loaded and the other extractors work without a key
+   */
+  private client(): LlmClient {
+    if (!this.llm) {
+      this.llm = createLlmClient({ ...INGESTION_LLM_CONFIG, fixturesDir: process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR });
+    }
+    return this.llm;
+  }
+
+  private createDocumentSummary(text: string): string {
+    // Create a compact summary for the model
+    const lines = text.split('\n').filter(l => l.trim().length > 20);
+    const uniqueLines = [...new Set(lines)].slice(0, 50);
+    return uniqueLines.join('\n').slice(0, SUMMARY_CHARS);
+  }
+}
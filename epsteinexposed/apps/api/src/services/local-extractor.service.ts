@@ -2,8 +2,11 @@
  * Local Entity Extractor - Zero API calls
  * Extracts entities using regex patterns and heuristics
  * Reduces Claude API usage by 95%+ by handling common patterns locally
+ * Known names and places come from the gazetteer (data/gazetteer.json)
  */
 
+import { Gazetteer, loadGazetteer } from './gazetteer-extractor.service';
+
 export interface LocalExtractedEntities {
   people: Array<{ name: string; confidence: number; context: string }>;
   locations: Array<{ name: string; type: string; confidence: number }>;
@@ -15,26 +18,6 @@ export interface LocalExtractedEntities {
   addresses: Array<{ address: string; confidence: number }>;
 }
 
-// Known Epstein-related names for high-confidence matching
-const KNOWN_NAMES = new Set([
-  'jeffrey epstein', 'ghislaine maxwell', 'les wexner', 'leslie wexner',
-  'alan dershowitz', 'prince andrew', 'bill clinton', 'donald trump',
-  'jean-luc brunel', 'sarah kellen', 'nadia marcinkova', 'lesley groff',
-  'virginia giuffre', 'virginia roberts', 'courtney wild', 'annie farmer',
-  'maria farmer', 'johanna sjoberg', 'haley robson', 'adriana ross',
-  'eva andersson dubin', 'glenn dubin', 'mort zuckerman', 'ehud barak',
-  'bill richardson', 'george mitchell', 'marvin minsky', 'stephen hawking',
-  'kevin spacey', 'chris tucker', 'naomi campbell', 'heidi klum',
-]);
-
-// Known locations
-const KNOWN_LOCATIONS = new Set([
-  'little st. james', 'little saint james', 'epstein island', 'pedophile island',
-  'zorro ranch', 'new mexico ranch', 'palm beach', '358 el brillo way',
-  '9 east 71st street', 'new york mansion', 'paris apartment', 'avenue foch',
-  'teterboro', 'jfk', 'laguardia', 'miami', 'columbus', 'santa fe',
-]);
-
 // Airport codes for flight logs
 const AIRPORT_CODES = new Set([
   'TEB', 'JFK', 'LGA', 'MIA', 'PBI', 'SJU', 'STT', 'EIS', 'SAF', 'ABQ',
@@ -43,6 +26,14 @@ const AIRPORT_CODES = new Set([
 ]);
 
 export class LocalExtractorService {
+  // Lowercased name -> display name / location type
+  private knownNames: Map<string, string>;
+  private knownLocations: Map<string, { name: string; type: string }>;
+
+  constructor(gazetteer: Gazetteer = loadGazetteer()) {
+    this.knownNames = new Map(gazetteer.people.map(person => [person.name.toLowerCase(), person.name]));
+    this.knownLocations = new Map(gazetteer.locations.map(loc => [loc.name.toLowerCase(), loc]));
+  }
   
   extractAll(text: string): LocalExtractedEntities {
     return {
@@ -63,13 +54,13 @@ export class LocalExtractorService {
     const textLower = text.toLowerCase();
     
     // 1. Check for known names (high confidence)
-    for (const knownName of KNOWN_NAMES) {
+    for (const [knownName, displayName] of this.knownNames) {
       if (textLower.includes(knownName) && !seen.has(knownName)) {
         seen.add(knownName);
         const idx = textLower.indexOf(knownName);
         const context = text.slice(Math.max(0, idx - 50), idx + knownName.length + 50);
         people.push({
-          name: this.toTitleCase(knownName),
+          name: displayName,
           confidence: 0.95,
           context: context.trim(),
         });
@@ -98,7 +89,7 @@ export class LocalExtractorService {
         
         people.push({
           name: name.trim(),
-          confidence: KNOWN_NAMES.has(nameLower) ? 0.95 : 0.7,
+          confidence: this.knownNames.has(nameLower) ? 0.95 : 0.7,
           context: context.trim(),
         });
       }
@@ -113,12 +104,12 @@ export class LocalExtractorService {
     const textLower = text.toLowerCase();
     
     // 1. Known locations
-    for (const loc of KNOWN_LOCATIONS) {
+    for (const [loc, known] of this.knownLocations) {
       if (textLower.includes(loc) && !seen.has(loc)) {
         seen.add(loc);
         locations.push({
-          name: this.toTitleCase(loc),
-          type: this.guessLocationType(loc),
+          name: known.name,
+          type: known.type,
           confidence: 0.95,
         });
       }
@@ -309,12 +300,6 @@ export class LocalExtractorService {
   }
   
   // Helper methods
-  private toTitleCase(str: string): string {
-    return str.replace(/\w\S*/g, txt => 
-      txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase()
-    );
-  }
-  
   private isCommonPhrase(name: string): boolean {
     const common = new Set([
       'the court', 'new york', 'united states', 'los angeles', 'san francisco',
@@ -324,14 +309,6 @@ export class LocalExtractorService {
     return common.has(name.toLowerCase());
   }
   
-  private guessLocationType(loc: string): string {
-    if (loc.includes('island') || loc.includes('st.')) return 'island';
-    if (loc.includes('ranch')) return 'property';
-    if (loc.includes('mansion') || loc.includes('apartment')) return 'residence';
-    if (loc.includes('street') || loc.includes('avenue') || loc.includes('way')) return 'address';
-    return 'location';
-  }
-  
   private normalizeDate(match: RegExpExecArray, format: string): string | null {
     const months: Record<string, string> = {
       january: '01', february: '02', march: '03', april: '04',
@@ -0,0 +1,122 @@
+/**
+ * NER Extractor
+ * Offline named-entity recognition with a transformers.js ONNX model (default Xenova/bert-base-NER)
+ * The model is downloaded once into data/models, or read from NER_MODEL_PATH when set - no API calls
+ */
+
+import path from 'path';
+import type { pipeline } from '@huggingface/transformers';
+import { CandidateEntity, EntityExtractor } from './entity-extractor.service';
+
+// BERT models see at most 512 tokens - ~1500 characters of English stays well under that
+const CHUNK_CHARS = 1500;
+const MIN_SCORE = 0.6;
+const CONTEXT_CHARS = 50;
+
+type TokenClassifier = Awaited<ReturnType<typeof pipeline<'token-classification'>>>;
+
+const LABEL_TYPES: Record<string, CandidateEntity['type']> = {
+  PER: 'person',
+  LOC: 'location',
+  ORG: 'organization',
+};
+
+export class NerExtractor implements EntityExtractor {
+  readonly name = 'ner';
+  readonly description = 'Offline transformer NER model (transformers.js)';
+  readonly weight = 0.85;
+  private model: string;
+  private classifier: Promise<TokenClassifier> | null = null;
+
+  constructor(model = process.env.NER_MODEL || 'Xenova/bert-base-NER') {
+    this.model = model;
+  }
+
+  async extract(text: string): Promise<CandidateEntity[]> {
+    const classifier = await this.getClassifier();
+    const found = new Map<string, CandidateEntity>();
+
+    for (const chunk of this.chunk(text)) {
+      const tokens = await classifier(chunk, { aggregation_strategy: 'simple' });
+
+      for (const token of tokens) {
+        const type = LABEL_TYPES[token.entity_group];
+        // Word pieces that failed to merge ("##son") and single letters are noise
+        const name = token.word.replace(/\s+/g, ' ').trim();
+        if (!type || token.score < MIN_SCORE || name.length < 2 || name.startsWith('##')) continue;
+
+        const key = `${type}:${name.toLowerCase()}`;
+        const existing = found.get(key);
+        if (existing && existing.confidence >= token.score) continue;
+
+        const idx = token.start ?? chunk.indexOf(name);
+        const context = idx >= 0
+          ? chunk.slice(Math.max(0, idx - CONTEXT_CHARS), idx + name.length + CONTEXT_CHARS).replace(/\s+/g, ' ').trim()
+          : undefined;
+        found.set(key, { name, type, confidence: token.score, context });
+      }
+    }
+
+    return [...found.values()];
+  }
+
+  async close() {
+    if (!this.classifier) return;
+    const classifier = await this.classifier;
+    this.classifier = null;
+    await classifier.dispose();
+  }
+
+  /**
+   * Split on page, paragraph and line breaks, packing pieces into chunks the model can take
+   */
+  private chunk(text: string): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const piece of text.split(/\f|\n{2,}|\n/)) {
+      const trimmed = piece.trim();
+      if (!trimmed) continue;
+
+      if (current.length + trimmed.length + 1 > CHUNK_CHARS && current) {
+        chunks.push(current);
+        current = '';
+      }
+      // A single oversized line is cut at the limit
+      for (let start = 0; start < trimmed.length; start += CHUNK_CHARS) {
+        const slice = trimmed.slice(start, start + CHUNK_CHARS);
+        if (slice.length === CHUNK_CHARS) {
+          chunks.push(slice);
+        } else {
+          current = current ? `${current}\n${slice}` : slice;
+        }
+      }
+    }
+    if (current) chunks.push(current);
+
+    return chunks;
+  }
+
+  /**
+   * The model is loaded on first use and reused across documents
+   */
+  private getClassifier(): Promise<TokenClassifier> {
+    if (!this.classifier) {
+      this.classifier = (async () => {
+        // transformers.js ships onnxruntime - only load it when NER is actually enabled
+        const { pipeline, env } = await import('@huggingface/transformers');
+        env.cacheDir = path.join(__dirname, '../../data/models');
+        if (process.env.NER_MODEL_PATH) {
+          env.localModelPath = process.env.NER_MODEL_PATH;
+          env.allowRemoteModels = false;
+        }
+        console.log(`   🧠 Loading NER model ${this.model}...`);
+        return pipeline('token-classification', this.model, { dtype: 'q8' });
+      })().catch((error: unknown) => {
+        this.classifier = null;
+        throw error instanceof Error ? error : new Error(`NER model failed to load: ${String(error)}`);
+      });
+    }
+    return this.classifier;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * OCR Service
+ * Local OCR for scanned PDF pages that have no text layer
+ * Pages are rendered with pdf.js and recognised with tesseract.js (WASM) - no API calls
+ */
+
+import { createCanvas } from '@napi-rs/canvas';
+import path from 'path';
+import { createWorker, Worker } from 'tesseract.js';
+
+export interface OcrPageResult {
+  page: number;          // 1-based page number
+  text: string;
+  confidence: number;    // Tesseract mean word confidence, 0-100
+}
+
+// Render at 2x (~144 DPI) - tesseract accuracy drops sharply below ~120 DPI
+const RENDER_SCALE = 2;
+
+export class OcrService {
+  private worker: Promise<Worker> | null = null;
+  private language: string;
+
+  constructor(language = process.env.OCR_LANGUAGE || 'eng') {
+    this.language = language;
+  }
+
+  /**
+   * OCR the given pages of a PDF, in order
+   */
+  async recognizePages(data: Buffer, pageNumbers: number[]): Promise<OcrPageResult[]> {
+    if (pageNumbers.length === 0) return [];
+
+    // pdf.js ships as ES modules only
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdfDocument = await pdfjs.getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+    const worker = await this.getWorker();
+    const results: OcrPageResult[] = [];
+
+    try {
+      for (const pageNumber of pageNumbers) {
+        if (pageNumber < 1 || pageNumber > pdfDocument.numPages) continue;
+
+        const page = await pdfDocument.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        const context = canvas.getContext('2d');
+
+        // Scans often have transparent backgrounds, which tesseract reads as black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+
+        await page.render({
+          canvas: canvas as unknown as HTMLCanvasElement,
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport,
+        }).promise;
+        page.cleanup();
+
+        const { data: recognized } = await worker.recognize(canvas.toBuffer('image/png'));
+        results.push({
+          page: pageNumber,
+          text: recognized.text,
+          confidence: recognized.confidence,
+        });
+      }
+    } finally {
+      await pdfDocument.destroy();
+    }
+
+    return results;
+  }
+
+  /**
+   * The tesseract worker is started on first use and reused across documents
+   */
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      // Language data is downloaded once into data/tessdata; OCR_LANG_PATH points at a local copy for offline use
+      this.worker = createWorker(this.language, undefined, {
+        langPath: process.env.OCR_LANG_PATH,
+        cachePath: path.join(__dirname, '../../data/tessdata'),
+        errorHandler: (error: unknown) => console.error('   ⚠️  OCR worker error:', error),
+      }).catch((error: unknown) => {
+        this.worker = null;
+        throw error instanceof Error ? error : new Error(`OCR worker failed to start: ${String(error)}`);
+      });
+    }
+    return this.worker;
+  }
+
+  async terminate() {
+    if (!this.worker) return;
+    const worker = await this.worker;
+    this.worker = null;
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Regex Extractor
+ * Capitalised-name, "City, ST" and airport-code patterns from LocalExtractorService,
+ * plus organization suffixes (Inc, LLC, Foundation...). No known-name lists - that's the gazetteer's job
+ */
+
+import { CandidateEntity, EntityExtractor } from './entity-extractor.service';
+import { EMPTY_GAZETTEER } from './gazetteer-extractor.service';
+import { LocalExtractorService } from './local-extractor.service';
+
+const ORGANIZATION_PATTERN = /\b((?:[A-Z][\w&'-]*[ \t]+){1,4}(?:Inc|LLC|Ltd|Corp|Corporation|Company|Co|Foundation|Trust|Bank|Group|Partners|Holdings|Associates|University|Department|Bureau|Agency)\b\.?)/g;
+const MAX_ORGANIZATIONS = 50;
+
+export class RegexExtractor implements EntityExtractor {
+  readonly name = 'regex';
+  readonly description = 'Capitalisation and format patterns';
+  readonly weight = 0.6;
+  private patterns = new LocalExtractorService(EMPTY_GAZETTEER);
+
+  async extract(text: string): Promise<CandidateEntity[]> {
+    const local = this.patterns.extractAll(text);
+    const found: CandidateEntity[] = [];
+
+    for (const person of local.people) {
+      found.push({ name: person.name, type: 'person', confidence: person.confidence, context: person.context });
+    }
+    for (const loc of local.locations) {
+      found.push({ name: loc.name, type: 'location', subtype: loc.type, confidence: loc.confidence });
+    }
+
+    const seen = new Set<string>();
+    let match;
+    while ((match = ORGANIZATION_PATTERN.exec(text)) !== null && seen.size < MAX_ORGANIZATIONS) {
+      const name = match[1].replace(/\s+/g, ' ').trim();
+      if (seen.has(name.toLowerCase())) continue;
+      seen.add(name.toLowerCase());
+
+      const context = text.slice(Math.max(0, match.index - 30), match.index + match[0].length + 30);
+      found.push({ name, type: 'organization', confidence: 0.7, context: context.replace(/\s+/g, ' ').trim() });
+    }
+    ORGANIZATION_PATTERN.lastIndex = 0;
+
+    return found;
+  }
+}
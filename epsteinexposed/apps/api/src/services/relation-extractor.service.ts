@@ -0,0 +1,263 @@
+/**
+ * Relation Extractor
+ * Typed, directed relationships between named entities, read from the words between two names
+ * ("X, counsel for Y", "Y's pilot X", "X wired $50,000 to Y") with the span of text as evidence.
+ * Co-occurrence says two names share a PDF; this says why they are linked.
+ * Flight logs and the contact book add their own relations (scripts/parse-flight-logs.ts, parse-black-book.ts)
+ */
+
+export const RELATION_TYPES = ['traveled_with', 'employed_by', 'legal', 'financial_link', 'family', 'contact'] as const;
+
+export type RelationType = typeof RELATION_TYPES[number];
+
+// Directed relations read source → target: employee → employer, attorney → client,
+// payer → payee, contact book owner → contact. The others are symmetric
+export const DIRECTED_RELATIONS: Record<RelationType, boolean> = {
+  traveled_with: false,
+  employed_by: true,
+  legal: true,
+  financial_link: true,
+  family: false,
+  contact: true,
+};
+
+export interface RelationEvidence {
+  page: number | null;    // 1-based, null for tabular sources
+  start?: number;         // Span within the page, from the first name to the end of the second
+  end?: number;
+  text: string;           // The span with some context either side
+  reference?: string;     // Row in a tabular source, e.g. a flight id
+}
+
+export interface ExtractedRelation {
+  type: RelationType;
+  source: string;         // Names as they appear in the text
+  target: string;
+  directed: boolean;
+  confidence: number;
+  cue: string;            // The rule that fired, e.g. "counsel for"
+  evidence: RelationEvidence;
+}
+
+// Relations that don't come from a single document - written next to the per-document entity files
+export interface RelationshipFile {
+  source: string;         // Stands in for the document id, e.g. "flight_logs"
+  generatedAt: string;
+  relationships: ExtractedRelation[];
+}
+
+export interface RelationCandidate {
+  name: string;
+  type: 'person' | 'organization' | 'location';
+}
+
+interface RelationRule {
+  type: RelationType;
+  cue: string;
+  confidence: number;
+  gap: RegExp;            // Must match all of the text between the two names
+  before?: RegExp;        // Tested against the text just before the first name
+  after?: RegExp;         // Tested against the text just after the second name
+  reverse?: boolean;      // The second name is the source ("Y's pilot X")
+  requires: 'people' | 'source-person' | 'any';
+}
+
+interface Mention {
+  key: string;
+  name: string;
+  type: RelationCandidate['type'];
+  start: number;
+  end: number;
+}
+
+const MAX_GAP_CHARS = 60;
+const BEFORE_CHARS = 40;          // Also the window after the second name
+const EVIDENCE_CONTEXT_CHARS = 60;
+const MAX_MENTIONS_PER_NAME = 200;
+const MAX_RELATIONS_PER_DOCUMENT = 500;
+
+const STAFF_TITLES = 'pilot|co-?pilot|flight attendant|assistant|housekeeper|house manager|butler|chef|cook|driver|chauffeur|scheduler|secretary|maid|bodyguard|accountant|bookkeeper|employee';
+const FAMILY_TERMS = 'wife|husband|spouse|ex-wife|ex-husband|brother|sister|daughter|son|mother|father|cousin|niece|nephew';
+const AMOUNT = '\\$\\s?[\\d,.]+(?:\\s*(?:million|thousand|k|m))?';
+
+const RELATION_RULES: RelationRule[] = [
+  // Legal - attorney → client
+  { type: 'legal', cue: 'counsel for', confidence: 0.85, requires: 'source-person', gap: /^,?\s*(?:(?:an?|the)\s+)?(?:attorneys?|counsel|lawyers?)\s+(?:for|to|representing)\s*$/i },
+  { type: 'legal', cue: 'represented', confidence: 0.8, requires: 'source-person', gap: /^,?\s*(?:who\s+)?(?:represented|represents|representing|was\s+representing)\s*$/i },
+  { type: 'legal', cue: "'s attorney", confidence: 0.85, requires: 'source-person', reverse: true, gap: /^['’]s\s+(?:(?:long-?time|former|personal|defen[cs]e)\s+)?(?:attorney|lawyer|counsel)\s*,?\s*$/i },
+  { type: 'legal', cue: "'s attorney", confidence: 0.8, requires: 'source-person', gap: /^\s*,\s*$/, after: /^['’]s\s+(?:(?:long-?time|former|personal|defen[cs]e)\s+)?(?:attorney|lawyer|counsel)\b/i },
+
+  // Employment - employee → employer
+  { type: 'employed_by', cue: 'worked for', confidence: 0.8, requires: 'source-person', gap: /^,?\s*(?:who\s+)?(?:worked|works|was\s+working|had\s+worked)\s+(?:for|under)\s*$/i },
+  { type: 'employed_by', cue: 'employed by', confidence: 0.85, requires: 'source-person', gap: /^,?\s*(?:who\s+)?(?:was|is|had\s+been)\s+(?:employed|hired)\s+by\s*$/i },
+  { type: 'employed_by', cue: 'employee of', confidence: 0.8, requires: 'source-person', gap: new RegExp(`^,?\\s*(?:(?:a|an|the)\\s+)?(?:former\\s+)?(?:${STAFF_TITLES})\\s+(?:of|to|for)\\s*$`, 'i') },
+  { type: 'employed_by', cue: "'s employee", confidence: 0.8, requires: 'source-person', reverse: true, gap: new RegExp(`^['’]s\\s+(?:(?:former|personal|chief|head)\\s+)?(?:${STAFF_TITLES})\\s*,?\\s*$`, 'i') },
+  { type: 'employed_by', cue: "'s employee", confidence: 0.75, requires: 'source-person', gap: /^\s*,\s*$/, after: new RegExp(`^['’]s\\s+(?:(?:former|personal|chief|head)\\s+)?(?:${STAFF_TITLES})\\b`, 'i') },
+  { type: 'employed_by', cue: 'hired', confidence: 0.75, requires: 'source-person', reverse: true, gap: /^\s*(?:hired|employed)\s*$/i },
+
+  // Money - payer → payee
+  { type: 'financial_link', cue: 'paid', confidence: 0.75, requires: 'any', gap: new RegExp(`^\\s*(?:paid|wired|loaned|lent)\\s*(?:${AMOUNT}\\s*(?:to\\s*)?)?$`, 'i') },
+  { type: 'financial_link', cue: 'transferred to', confidence: 0.8, requires: 'any', gap: new RegExp(`^\\s*(?:transferred|sent|gave|donated|wired)\\s+${AMOUNT}\\s+to\\s*$`, 'i') },
+  { type: 'financial_link', cue: 'payment from', confidence: 0.8, requires: 'any', before: /\b(?:payments?|wires?|wire\s+transfers?|transfers?|funds|checks?)\s+from\s*$/i, gap: /^\s*to\s*$/i },
+  { type: 'financial_link', cue: 'received from', confidence: 0.75, requires: 'any', reverse: true, gap: new RegExp(`^\\s*(?:received|accepted)\\s*(?:${AMOUNT}\\s*)?from\\s*$`, 'i') },
+
+  // Family
+  { type: 'family', cue: 'family', confidence: 0.8, requires: 'people', gap: new RegExp(`^['’]s\\s+(?:late\\s+|former\\s+)?(?:${FAMILY_TERMS})\\s*,?\\s*$`, 'i') },
+  { type: 'family', cue: 'family', confidence: 0.75, requires: 'people', gap: new RegExp(`^\\s*(?:and|with)\\s+(?:his|her)\\s+(?:${FAMILY_TERMS})\\s*,?\\s*$`, 'i') },
+  { type: 'family', cue: 'married', confidence: 0.8, requires: 'people', gap: /^\s*(?:married|(?:was|is)\s+married\s+to)\s*$/i },
+
+  // Travel
+  { type: 'traveled_with', cue: 'traveled with', confidence: 0.75, requires: 'people', gap: /^,?\s*(?:who\s+)?(?:flew|traveled|travelled|traveling|travelling|flying|vacationed)\s+(?:with|alongside)\s*$/i },
+  { type: 'traveled_with', cue: 'accompanied', confidence: 0.7, requires: 'people', gap: /^\s*(?:accompanied|was\s+accompanied\s+by)\s*$/i },
+];
+
+// Words that don't occur in the names worth relating - mostly dates, captions and legal boilerplate
+const NON_NAME_WORDS = new Set([
+  'in', 'on', 'at', 'by', 'for', 'of', 'the', 'and', 'also', 'to', 'from', 'with',
+  'page', 'six', 'united', 'states', 'attorney', 'attorneys', 'law', 'firms', 'defendant', 'defendants', 'plaintiff',
+  'client', 'witness', 'jury', 'judge', 'chief', 'tells', 'hac', 'vice', 'labor', 'secretary', 'executive', 'assistant',
+  'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+function titleCase(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s'’-])(\p{L})/gu, (_, prefix: string, letter: string) => prefix + letter.toUpperCase());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function isRelationType(value: unknown): value is RelationType {
+  return typeof value === 'string' && (RELATION_TYPES as readonly string[]).includes(value);
+}
+
+export class RelationExtractorService {
+  /**
+   * Relations between the given names on each page.
+   * Pages are searched separately - a relation never spans a page break
+   */
+  extract(pages: string[], candidates: RelationCandidate[]): ExtractedRelation[] {
+    const patterns = this.buildPatterns(candidates);
+    const relations: ExtractedRelation[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < pages.length && relations.length < MAX_RELATIONS_PER_DOCUMENT; i++) {
+      const page = pages[i] || '';
+      const mentions = this.locate(page, patterns);
+
+      for (let a = 0; a < mentions.length; a++) {
+        const first = mentions[a];
+        for (let b = a + 1; b < mentions.length && mentions[b].start - first.end <= MAX_GAP_CHARS; b++) {
+          const second = mentions[b];
+          if (first.key === second.key) continue;
+
+          const relation = this.match(page, first, second);
+          if (!relation) continue;
+
+          const key = `${relation.type}|${relation.source}|${relation.target}|${i}|${first.start}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          relations.push({
+            ...relation,
+            evidence: {
+              page: i + 1,
+              start: first.start,
+              end: second.end,
+              text: page
+                .slice(Math.max(0, first.start - EVIDENCE_CONTEXT_CHARS), Math.min(page.length, second.end + EVIDENCE_CONTEXT_CHARS))
+                .replace(/\s+/g, ' ')
+                .trim(),
+            },
+          });
+          // Only the nearest name after this one is read
+          break;
+        }
+      }
+    }
+
+    return relations.slice(0, MAX_RELATIONS_PER_DOCUMENT);
+  }
+
+  private buildPatterns(candidates: RelationCandidate[]): Array<{ key: string; name: string; type: RelationCandidate['type']; pattern: RegExp }> {
+    const byKey = new Map<string, RelationCandidate>();
+    for (const candidate of candidates) {
+      const name = candidate.name.replace(/\s+/g, ' ').trim();
+      const key = name.toLowerCase();
+      if (key.length >= 2 && !byKey.has(key) && !this.isNoise(name)) byKey.set(key, { ...candidate, name });
+    }
+
+    return Array.from(byKey, ([key, candidate]) => {
+      // Case matters - names that are also words ("Brown", "Little") shouldn't match them in lower case - but headers and captions are often in capitals
+      const variants = new Set([candidate.name, candidate.name.toUpperCase(), titleCase(candidate.name)]);
+      // Names wrap across lines in OCR'd text, so any whitespace separates words
+      const alternatives = Array.from(variants, variant => variant.split(' ').map(escapeRegExp).join('\\s+'));
+      return {
+        key,
+        name: candidate.name,
+        type: candidate.type,
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu'),
+      };
+    });
+  }
+
+  /**
+   * Extractor noise such as "In October", "Page Six" or "States Attorney" - relations read
+   * from the words around them would be wrong
+   */
+  private isNoise(name: string): boolean {
+    return name.split(' ').some(word => NON_NAME_WORDS.has(word.toLowerCase().replace(/[^a-z]/g, '')));
+  }
+
+  /**
+   * Every mention on the page in reading order. Where names overlap ("Epstein" inside
+   * "Jeffrey Epstein") the longer one wins
+   */
+  private locate(page: string, patterns: ReturnType<RelationExtractorService['buildPatterns']>): Mention[] {
+    const found: Mention[] = [];
+    for (const { key, name, type, pattern } of patterns) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      let count = 0;
+      while ((match = pattern.exec(page)) !== null && count++ < MAX_MENTIONS_PER_NAME) {
+        found.push({ key, name, type, start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const mentions: Mention[] = [];
+    for (const mention of found) {
+      const previous = mentions[mentions.length - 1];
+      if (previous && mention.start < previous.end) continue;
+      mentions.push(mention);
+    }
+    return mentions;
+  }
+
+  private match(page: string, first: Mention, second: Mention): Omit<ExtractedRelation, 'evidence'> | null {
+    const gap = page.slice(first.end, second.start);
+    const before = page.slice(Math.max(0, first.start - BEFORE_CHARS), first.start);
+    const after = page.slice(second.end, second.end + BEFORE_CHARS);
+
+    for (const rule of RELATION_RULES) {
+      if (!rule.gap.test(gap)) continue;
+      if (rule.before && !rule.before.test(before)) continue;
+      if (rule.after && !rule.after.test(after)) continue;
+
+      const [source, target] = rule.reverse ? [second, first] : [first, second];
+      if (rule.requires === 'people' && (source.type !== 'person' || target.type !== 'person')) continue;
+      if (rule.requires === 'source-person' && source.type !== 'person') continue;
+
+      return {
+        type: rule.type,
+        source: source.name,
+        target: target.name,
+        directed: DIRECTED_RELATIONS[rule.type],
+        confidence: rule.confidence,
+        cue: rule.cue,
+      };
+    }
+    return null;
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -21,6 +22,15 @@ function getPdfIndex() {
   }
 }
 
+// OCR confidence recorded at ingestion for scanned documents (see scripts/data-extraction/04-upload-to-supabase.ts)
+function ocrFields(metadata: Record<string, unknown> | null): { ocrConfidence?: number; pageOcrConfidence?: Array<number | null> } {
+  if (!metadata || typeof metadata.ocrConfidence !== 'number') return {};
+  return {
+    ocrConfidence: metadata.ocrConfidence,
+    pageOcrConfidence: Array.isArray(metadata.pageOcrConfidence) ? metadata.pageOcrConfidence as Array<number | null> : undefined,
+  };
+}
+
 // Featured/Special documents with known PDF URLs from DocumentCloud journalist project
 const FEATURED_DOCUMENTS: Record<string, {
   title: string;
@@ -244,6 +254,8 @@ export async function GET(
 
     console.log('[DOC API] Looking for document:', docId);
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    // Titles from filenames and the database can carry a protected person's name
+    const masker = await getProtectedNameMasker();
 
     // Priority 0: Check if this is a featured/special document by slug
     const featuredDoc = FEATURED_DOCUMENTS[docId.toLowerCase()];
@@ -275,7 +287,7 @@ export async function GET(
         console.log('[DOC API] Found in pdf-index.json:', pdfEntry.filename);
         return NextResponse.json({
           id: pdfEntry.id,
-          title: pdfEntry.filename.replace('.pdf', '').replace(/_/g, ' '),
+          title: masker.maskText(pdfEntry.filename.replace('.pdf', '').replace(/_/g, ' ')),
           pdfUrl: pdfEntry.publicUrl,
           source: pdfEntry.source || 'DOJ',
           isRedacted: !pdfEntry.isUnredacted,
@@ -287,12 +299,12 @@ export async function GET(
     }
 
     // Priority 1: Query documents table by UUID id
-    let doc: { id: string; doc_id: string | null; title: string | null; page_count: number | null; pdf_url: string | null } | null = null;
+    let doc: { id: string; doc_id: string | null; title: string | null; page_count: number | null; pdf_url: string | null; metadata: Record<string, unknown> | null } | null = null;
     
     // Try by UUID id first
     const uuidResult = await supabase
       .from('documents')
-      .select('id, doc_id, title, page_count, pdf_url')
+      .select('id, doc_id, title, page_count, pdf_url, metadata')
       .eq('id', docId)
       .single();
     
@@ -302,7 +314,7 @@ export async function GET(
       // Try by doc_id (slug) if UUID lookup failed
       const slugResult = await supabase
         .from('documents')
-        .select('id, doc_id, title, page_count, pdf_url')
+        .select('id, doc_id, title, page_count, pdf_url, metadata')
         .eq('doc_id', docId)
         .single();
       
@@ -312,7 +324,7 @@ export async function GET(
         // Try by title ilike match
         const titleResult = await supabase
           .from('documents')
-          .select('id, doc_id, title, page_count, pdf_url')
+          .select('id, doc_id, title, page_count, pdf_url, metadata')
           .ilike('title', `%${docId.replace(/-/g, ' ')}%`)
           .limit(1)
           .single();
@@ -330,11 +342,12 @@ export async function GET(
       if (doc.pdf_url) {
         return NextResponse.json({
           id: doc.id,
-          title: doc.title || doc.doc_id || docId,
+          title: masker.maskText(doc.title || doc.doc_id || docId),
           pdfUrl: doc.pdf_url,
           source: 'Database PDF URL',
           type: 'pdf',
           pageCount: doc.page_count || 1,
+          ...ocrFields(doc.metadata),
         });
       }
       
@@ -352,11 +365,12 @@ export async function GET(
           console.log('[DOC API] Found in pdf-index.json via doc_id:', pdfEntry.filename);
           return NextResponse.json({
             id: doc.id,
-            title: doc.title || pdfEntry.filename.replace('.pdf', ''),
+            title: masker.maskText(doc.title || pdfEntry.filename.replace('.pdf', '')),
             pdfUrl: pdfEntry.publicUrl,
             source: pdfEntry.source || 'DOJ',
             type: 'pdf',
             pageCount: doc.page_count || 1,
+            ...ocrFields(doc.metadata),
           });
         }
         
@@ -364,11 +378,12 @@ export async function GET(
         const pdfUrl = `${supabaseUrl}/storage/v1/object/public/documents/${doc.doc_id}.pdf`;
         return NextResponse.json({
           id: doc.id,
-          title: doc.title || doc.doc_id,
+          title: masker.maskText(doc.title || doc.doc_id),
           pdfUrl: pdfUrl,
           source: 'Constructed from doc_id',
           type: 'pdf',
           pageCount: doc.page_count || 1,
+          ...ocrFields(doc.metadata),
         });
       }
     }
@@ -388,7 +403,7 @@ export async function GET(
       // Get the actual document
       const { data: actualDoc } = await supabase
         .from('documents')
-        .select('id, doc_id, title, page_count, pdf_url')
+        .select('id, doc_id, title, page_count, pdf_url, metadata')
         .eq('id', actualDocId)
         .single();
 
@@ -406,11 +421,12 @@ export async function GET(
             console.log('[DOC API] Found in pdf-index.json via entity_mentions:', pdfEntry.filename);
             return NextResponse.json({
               id: actualDoc.id,
-              title: actualDoc.title || pdfEntry.filename.replace('.pdf', ''),
+              title: masker.maskText(actualDoc.title || pdfEntry.filename.replace('.pdf', '')),
               pdfUrl: pdfEntry.publicUrl,
               source: pdfEntry.source || 'DOJ',
               type: 'pdf',
               pageCount: actualDoc.page_count || 1,
+              ...ocrFields(actualDoc.metadata),
             });
           }
         }
@@ -419,11 +435,12 @@ export async function GET(
         const pdfUrl = actualDoc.pdf_url || `${supabaseUrl}/storage/v1/object/public/documents/${actualDoc.doc_id || actualDoc.id}.pdf`;
         return NextResponse.json({
           id: actualDoc.id,
-          title: actualDoc.title || actualDoc.doc_id || 'Document',
+          title: masker.maskText(actualDoc.title || actualDoc.doc_id || 'Document'),
           pdfUrl: pdfUrl,
           source: 'Via entity_mentions',
           type: 'pdf',
           pageCount: actualDoc.page_count || 1,
+          ...ocrFields(actualDoc.metadata),
         });
       }
     }
@@ -440,12 +457,13 @@ export async function GET(
       .single();
 
     if (entity) {
+      const entityName = masker.maskName(entity.name, entity.id);
       return NextResponse.json({
         id: entity.id,
-        title: entity.name,
+        title: entityName,
         type: 'entity',
         entityType: entity.type,
-        message: `"${entity.name}" is an entity (${entity.type}), not a document. View related documents in the AI investigator.`,
+        message: `"${entityName}" is an entity (${entity.type}), not a document. View related documents in the AI investigator.`,
       });
     }
 
@@ -457,6 +475,9 @@ export async function GET(
     }, { status: 404 });
 
   } catch (error) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error('[DOC API] Error:', error);
     return NextResponse.json({
       error: 'Server error',
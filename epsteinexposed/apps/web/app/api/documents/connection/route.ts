@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
 
 interface DocumentReference {
   id: string;
@@ -7,9 +8,19 @@ interface DocumentReference {
   path: string;
   pageCount: number;
   dataset: string;
-  mentions: Array<{ entity: string; type: string; context?: string }>;
+  pages?: number[];   // Pages where both entities appear
+  mentions: Array<{ entity: string; type: string; context?: string; page?: number }>;
 }
 
+interface MentionRow {
+  document_id: string;
+  entity_id: string;
+  page_number: number | null;
+  context: string | null;
+}
+
+const MAX_EVIDENCE_DOCUMENTS = 50;
+
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const entity1Name = searchParams.get('entity1') || '';
@@ -20,6 +31,12 @@ export async function GET(req: NextRequest) {
   }
   
   try {
+    // Asking by a protected name gets nothing - results would confirm where they are named
+    const masker = await getProtectedNameMasker();
+    if (masker.isProtected(entity1Name) || masker.isProtected(entity2Name)) {
+      return NextResponse.json({ result: { data: [] } });
+    }
+
     // Find both entities
     const { data: entities, error: entitiesError } = await supabase
       .from('entities')
@@ -31,8 +48,9 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ result: { data: [] } });
     }
     
-    const entity1 = entities[0]!;
-    const entity2 = entities[1]!;
+    // A protected person shows up masked, along with the mention contexts that name them
+    const entity1 = { ...entities[0]!, name: masker.maskName(entities[0]!.name, entities[0]!.id) };
+    const entity2 = { ...entities[1]!, name: masker.maskName(entities[1]!.name, entities[1]!.id) };
     
     // Find the connection between them
     const { data: connection, error: connectionError } = await supabase
@@ -46,7 +64,67 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ result: { data: [] } });
     }
     
-    // Create document references representing the connection
+    // Documents where both names were extracted, with the pages they share
+    const { data: mentionRows } = await supabase
+      .from('entity_mentions')
+      .select('document_id, entity_id, page_number, context')
+      .in('entity_id', [entity1.id, entity2.id])
+      .limit(5000);
+
+    const byDocument = new Map<string, { first: MentionRow[]; second: MentionRow[] }>();
+    for (const row of (mentionRows || []) as MentionRow[]) {
+      if (!byDocument.has(row.document_id)) {
+        byDocument.set(row.document_id, { first: [], second: [] });
+      }
+      const entry = byDocument.get(row.document_id)!;
+      (row.entity_id === entity1.id ? entry.first : entry.second).push(row);
+    }
+
+    const shared = Array.from(byDocument.entries())
+      .filter(([, entry]) => entry.first.length > 0 && entry.second.length > 0)
+      .map(([documentId, entry]) => {
+        const secondPages = new Set(entry.second.map(m => m.page_number).filter((p): p is number => p !== null));
+        const pages = Array.from(new Set(
+          entry.first.map(m => m.page_number).filter((p): p is number => p !== null && secondPages.has(p))
+        )).sort((a, b) => a - b);
+        return { documentId, entry, pages };
+      })
+      .sort((a, b) => b.pages.length - a.pages.length)
+      .slice(0, MAX_EVIDENCE_DOCUMENTS);
+
+    if (shared.length > 0) {
+      const { data: documentRows } = await supabase
+        .from('documents')
+        .select('id, title, page_count')
+        .in('id', shared.map(s => s.documentId));
+      const documentInfo = new Map((documentRows || []).map(d => [d.id, d]));
+
+      // Prefer the mention on the first shared page so the context shows both names together
+      const pick = (rows: MentionRow[], page: number | undefined) =>
+        rows.find(m => page !== undefined && m.page_number === page) || rows[0];
+
+      const evidence: DocumentReference[] = shared.map(({ documentId, entry, pages }) => {
+        const info = documentInfo.get(documentId);
+        const first = pick(entry.first, pages[0]);
+        const second = pick(entry.second, pages[0]);
+        return {
+          id: documentId,
+          filename: masker.maskText(info?.title || documentId),
+          path: `/documents/${documentId}`,
+          pageCount: info?.page_count || 0,
+          dataset: 'DOJ Release',
+          pages,
+          mentions: [
+            { entity: entity1.name, type: entity1.type, context: first?.context ? masker.maskText(first.context) : undefined, page: first?.page_number ?? undefined },
+            { entity: entity2.name, type: entity2.type, context: second?.context ? masker.maskText(second.context) : undefined, page: second?.page_number ?? undefined },
+          ],
+        };
+      });
+
+      return NextResponse.json({ result: { data: evidence } });
+    }
+
+    // No mention rows yet - create document references representing the connection
     const documents: DocumentReference[] = [
       {
         id: `${entity1.id}-${entity2.id}`,
@@ -74,6 +152,9 @@ export async function GET(req: NextRequest) {
     
     return NextResponse.json({ result: { data: documents } });
   } catch (error) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error('[CONNECTION DOCS] Error:', error);
     return NextResponse.json({ result: { data: [] } });
   }
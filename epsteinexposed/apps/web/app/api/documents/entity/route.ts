@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
 
 interface DocumentReference {
   id: string;
@@ -30,6 +31,12 @@ export async function GET(req: NextRequest) {
     if (entityError || !entity) {
       return NextResponse.json({ result: { data: [] } });
     }
+
+    // No document list for a protected person - it would confirm where they are named
+    const masker = await getProtectedNameMasker();
+    if (masker.isProtected(entityName) || masker.isProtected(entity.name, entity.id)) {
+      return NextResponse.json({ result: { data: [] } });
+    }
     
     // Get connections to find related entities (simulating document co-occurrences)
     const { data: connections, error: connectionsError } = await supabase
@@ -73,6 +80,9 @@ export async function GET(req: NextRequest) {
     
     return NextResponse.json({ result: { data: documents } });
   } catch (error) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error('[DOCUMENTS] Error:', error);
     return NextResponse.json({ result: { data: [] } });
   }
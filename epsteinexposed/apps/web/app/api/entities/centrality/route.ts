@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import type { CentralityScores } from '@/lib/types';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+
+const MAX_NAMES = 200;
+
+interface CentralityRow {
+  name: string;
+  centrality: CentralityScores | null;
+}
+
+/**
+ * Stored centrality scores for entities, looked up by name and keyed by lowercased name.
+ *
+ * GET /api/entities/centrality?name=Jeffrey%20Epstein&name=Ghislaine%20Maxwell
+ * Scores are written by scripts/compute-centrality.ts; names without scores are omitted.
+ */
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(req.headers);
+  const rateLimit = checkRateLimit(`graph:${ip}`, RATE_LIMITS.graph);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const names = searchParams.getAll('name').map(n => n.trim()).filter(Boolean).slice(0, MAX_NAMES);
+
+  if (names.length === 0) {
+    return NextResponse.json({ result: { data: {} } });
+  }
+
+  try {
+    // Protected names are omitted like names without scores
+    const masker = await getProtectedNameMasker();
+    const { data, error } = await supabase
+      .from('entities')
+      .select('name, centrality:metadata->centrality')
+      .in('name', names.filter(name => !masker.isProtected(name)));
+
+    if (error) {
+      console.error('[CENTRALITY] Error:', error);
+      throw error;
+    }
+
+    // Duplicate names (same person typed twice) keep the most central entry
+    const scores: Record<string, CentralityScores> = {};
+    for (const row of (data || []) as CentralityRow[]) {
+      if (!row.centrality) continue;
+      const key = row.name.toLowerCase();
+      const existing = scores[key];
+      if (!existing || row.centrality.betweenness > existing.betweenness) {
+        scores[key] = row.centrality;
+      }
+    }
+
+    return NextResponse.json({ result: { data: scores } });
+  } catch (error: unknown) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[CENTRALITY] API Error:', errorMessage);
+    return NextResponse.json({ error: 'Failed to load centrality' }, { status: 500 });
+  }
+}
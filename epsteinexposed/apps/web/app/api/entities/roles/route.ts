@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { escapeLike, supabase } from '@/lib/supabase';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { isEntityRole, rankedRoles, type EntityRole, type EntityRoleProfile } from '@/lib/entity-roles';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+
+const EXAMPLES_PER_ROLE = 2;
+const MAX_ROLES_WITH_EXAMPLES = 4;
+
+interface RoleExample {
+  role: EntityRole;
+  cue: string | null;
+  context: string;
+  documentId: string;
+  page: number | null;
+}
+
+/**
+ * A person's role profile - how often the text around their mentions makes them a defendant,
+ * witness, attorney... - with a couple of example mentions per role.
+ *
+ * GET /api/entities/roles?id=<entity id>  or  ?name=Alan%20Dershowitz
+ * Profiles are written by scripts/classify-roles.ts; `profile` is null until it has run.
+ */
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(req.headers);
+  const rateLimit = checkRateLimit(`graph:${ip}`, RATE_LIMITS.graph);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get('id')?.trim();
+  const name = searchParams.get('name')?.trim();
+
+  if (!id && !name) {
+    return NextResponse.json({ error: 'id or name required' }, { status: 400 });
+  }
+
+  try {
+    // A protected person's roles would say where and how they appear
+    const masker = await getProtectedNameMasker();
+    if (name && masker.isProtected(name)) {
+      return NextResponse.json({ result: { data: null } });
+    }
+
+    let request = supabase
+      .from('entities')
+      .select('id, name, type, roles:metadata->roles')
+      .eq('type', 'person');
+    request = id ? request.eq('id', id) : request.ilike('name', escapeLike(name!));
+    const { data: entities, error } = await request.order('document_count', { ascending: false }).limit(1);
+
+    if (error) {
+      console.error('[ROLES] Error:', error);
+      throw error;
+    }
+
+    const entity = entities?.[0];
+    if (!entity || masker.isProtected(entity.name, entity.id)) {
+      return NextResponse.json({ result: { data: null } });
+    }
+
+    const profile = (entity.roles as EntityRoleProfile | null) || null;
+    const examples: RoleExample[] = [];
+    if (profile) {
+      const roles = rankedRoles(profile).slice(0, MAX_ROLES_WITH_EXAMPLES).map(r => r.role);
+      const { data: mentions } = await supabase
+        .from('entity_mentions')
+        .select('document_id, page_number, context, role, role_cue')
+        .eq('entity_id', entity.id)
+        .in('role', roles)
+        .not('context', 'is', null)
+        .limit(roles.length * 20);
+
+      for (const role of roles) {
+        for (const mention of (mentions || []).filter(m => m.role === role).slice(0, EXAMPLES_PER_ROLE)) {
+          if (!isEntityRole(mention.role)) continue;
+          examples.push({
+            role: mention.role,
+            cue: mention.role_cue,
+            context: masker.maskText(mention.context || ''),
+            documentId: mention.document_id,
+            page: mention.page_number,
+          });
+        }
+      }
+    }
+
+    return NextResponse.json({
+      result: {
+        data: { id: entity.id, name: entity.name, profile, examples },
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[ROLES] API Error:', errorMessage);
+    return NextResponse.json({ error: 'Failed to load roles' }, { status: 500 });
+  }
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import type { CentralityScores } from '@/lib/types';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { isRelationType, type RelationType } from '@/lib/relationships';
+import { connectionWeight, parseEdgeWeighting, type ConnectionWeights } from '@repo/analysis/edge-weighting';
+import {
+  GRAPH_EXPORT_FILES,
+  parseGraphExportFormat,
+  serializeGraph,
+  type ExportEdge,
+  type ExportNode,
+} from '@/lib/graph-export';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_EXPORT_NODES = 5000;
+const MAX_EXPORT_EDGES = 20000;
+// Ids per `in` filter and pairs per `or` filter - both end up in the request URL
+const ENTITY_CHUNK = 200;
+const PAIR_CHUNK = 50;
+const PARALLEL_QUERIES = 4;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ENTITY_COLUMNS = 'id, name, type, document_count, connection_count, centrality:metadata->centrality, role:metadata->roles->>primary, first_seen:metadata->dates->>first, last_seen:metadata->dates->>last';
+
+interface EntityRow {
+  id: string;
+  name: string;
+  type: string;
+  document_count: number | null;
+  connection_count: number | null;
+  centrality?: CentralityScores | null;
+  role?: string | null;
+  first_seen?: string | null;
+  last_seen?: string | null;
+}
+
+interface RequestedEdge {
+  source: string;
+  target: string;
+  relationType: RelationType | null;
+}
+
+// Run `query` over `items` in chunks, a few chunks at a time
+async function inChunks<T, R>(items: T[], size: number, query: (chunk: T[]) => Promise<R[]>): Promise<R[]> {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  const results: R[] = [];
+  for (let i = 0; i < chunks.length; i += PARALLEL_QUERIES) {
+    const batch = await Promise.all(chunks.slice(i, i + PARALLEL_QUERIES).map(query));
+    results.push(...batch.flat());
+  }
+  return results;
+}
+
+/**
+ * Download the graph as shown - the client sends the ids of the nodes and edges left after its filters,
+ * and everything else (counts, centrality, weights, evidence documents) is read here, masked like /api/graph.
+ *
+ * POST /api/graph/export?format=gexf|graphml|nodes-csv|edges-csv|cypher&weighting=cooccurrence|pmi|npmi|jaccard|page|paragraph
+ *   { "nodeIds": ["<entity id>", ...], "edges": [{ "source": "<id>", "target": "<id>", "relationType": "legal" | null }, ...] }
+ *
+ * Edges without relationType are co-occurrence, weighted like /api/graph under `weighting` (default cooccurrence).
+ * Edges whose ends aren't among the nodes are dropped.
+ */
+export async function POST(request: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(request.headers);
+  const rateLimit = checkRateLimit(`graph:${ip}`, RATE_LIMITS.graph);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const format = parseGraphExportFormat(request.nextUrl.searchParams.get('format'));
+  if (!format) {
+    return NextResponse.json({ error: 'format must be gexf, graphml, nodes-csv, edges-csv or cypher' }, { status: 400 });
+  }
+  const weighting = parseEdgeWeighting(request.nextUrl.searchParams.get('weighting'));
+
+  const body = await request.json().catch(() => null);
+  const nodeIds: string[] = Array.isArray(body?.nodeIds)
+    ? Array.from(new Set<string>(body.nodeIds.filter((id: unknown) => typeof id === 'string' && UUID_PATTERN.test(id))))
+    : [];
+  const rawEdges: unknown[] = Array.isArray(body?.edges) ? body.edges : [];
+
+  if (nodeIds.length === 0) {
+    return NextResponse.json({ error: 'nodeIds required' }, { status: 400 });
+  }
+  if (nodeIds.length > MAX_EXPORT_NODES || rawEdges.length > MAX_EXPORT_EDGES) {
+    return NextResponse.json(
+      { error: `Exports are limited to ${MAX_EXPORT_NODES} nodes and ${MAX_EXPORT_EDGES} edges - filter the graph first` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const entities = await inChunks(nodeIds, ENTITY_CHUNK, async (chunk) => {
+      const { data, error } = await supabase.from('entities').select(ENTITY_COLUMNS).in('id', chunk);
+      if (error) {
+        console.error('[GRAPH EXPORT] Entity error:', error);
+        throw new Error(error.message);
+      }
+      return (data as EntityRow[] | null) || [];
+    });
+
+    // Protected persons stay in the export under the masked name, with no role and no document list
+    const masker = await getProtectedNameMasker();
+    const protectedIds = new Set(entities.filter(e => masker.isProtected(e.name || '', e.id)).map(e => e.id));
+    const nodes: ExportNode[] = entities.map(e => ({
+      id: e.id,
+      name: masker.maskName(e.name || 'Unknown', e.id),
+      type: e.type || 'other',
+      role: protectedIds.has(e.id) ? null : e.role || null,
+      documentCount: e.document_count || 0,
+      connectionCount: e.connection_count || 0,
+      centrality: e.centrality || null,
+      firstSeen: e.first_seen || null,
+      lastSeen: e.last_seen || null,
+    }));
+
+    const loaded = new Set(nodes.map(n => n.id));
+    const requested: RequestedEdge[] = rawEdges.flatMap((e) => {
+      const edge = e as { source?: unknown; target?: unknown; relationType?: unknown };
+      if (typeof edge.source !== 'string' || typeof edge.target !== 'string') return [];
+      if (!loaded.has(edge.source) || !loaded.has(edge.target)) return [];
+      return [{ source: edge.source, target: edge.target, relationType: isRelationType(edge.relationType) ? edge.relationType : null }];
+    });
+
+    // Co-occurrence pairs are stored once, lower id first (scripts/build-connections.ts)
+    const cooccurrence = requested.filter(e => e.relationType === null);
+    const connectionRows = await inChunks(cooccurrence, PAIR_CHUNK, async (chunk) => {
+      const pairs = chunk.map(e => {
+        const [a, b] = [e.source, e.target].sort();
+        return `and(entity_a_id.eq.${a},entity_b_id.eq.${b})`;
+      });
+      const { data, error } = await supabase
+        .from('connections')
+        .select('entity_a_id, entity_b_id, strength, document_ids, weights:metadata->weights')
+        .or(pairs.join(','));
+      if (error) {
+        console.error('[GRAPH EXPORT] Connection error:', error);
+        throw new Error(error.message);
+      }
+      return data || [];
+    });
+
+    const typed = requested.filter(e => e.relationType !== null);
+    const relationshipRows = await inChunks(typed, PAIR_CHUNK, async (chunk) => {
+      const triples = chunk.map(e => `and(source_id.eq.${e.source},target_id.eq.${e.target},relation_type.eq.${e.relationType})`);
+      const { data, error } = await supabase
+        .from('entity_relationships')
+        .select('source_id, target_id, relation_type, directed, strength, document_ids')
+        .or(triples.join(','));
+      if (error) {
+        console.error('[GRAPH EXPORT] Relationship error:', error);
+        throw new Error(error.message);
+      }
+      return data || [];
+    });
+
+    const documentIds = (ids: unknown, source: string, target: string) =>
+      protectedIds.has(source) || protectedIds.has(target) || !Array.isArray(ids) ? [] : ids.filter((id): id is string => typeof id === 'string');
+
+    const edges: ExportEdge[] = [
+      ...connectionRows.map(c => ({
+        source: c.entity_a_id,
+        target: c.entity_b_id,
+        weight: connectionWeight(c.strength || 1, c.weights as Partial<ConnectionWeights> | null, weighting),
+        relationType: null,
+        directed: false,
+        documentIds: documentIds(c.document_ids, c.entity_a_id, c.entity_b_id),
+      })),
+      ...relationshipRows
+        .filter(r => isRelationType(r.relation_type))
+        .map(r => ({
+          source: r.source_id,
+          target: r.target_id,
+          weight: r.strength || 1,
+          relationType: r.relation_type as RelationType,
+          directed: Boolean(r.directed),
+          documentIds: documentIds(r.document_ids, r.source_id, r.target_id),
+        })),
+    ];
+
+    console.log('[GRAPH EXPORT]', format, weighting, nodes.length, 'nodes,', edges.length, 'of', requested.length, 'edges');
+
+    const file = GRAPH_EXPORT_FILES[format];
+    return new Response(serializeGraph({ nodes, edges }, format), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="epstein-graph-${new Date().toISOString().slice(0, 10)}.${file.extension}"`,
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[GRAPH EXPORT] Error:', errorMessage);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { escapeLike, supabase } from '@/lib/supabase';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import type { CentralityScores } from '@/lib/types';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { isRelationType, parseRelationTypes, toRelationshipEdge } from '@/lib/relationships';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 200;
+// Over-fetch edges so the type filter still leaves k neighbours
+const CANDIDATE_FACTOR = 4;
+const EDGE_EVIDENCE_LIMIT = 3;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ENTITY_COLUMNS = 'id, name, type, document_count, connection_count, centrality:metadata->centrality, role:metadata->roles->>primary, first_seen:metadata->dates->>first, last_seen:metadata->dates->>last';
+
+interface EntityRow {
+  id: string;
+  name: string;
+  type: string;
+  document_count: number | null;
+  connection_count: number | null;
+  centrality?: CentralityScores | null;
+  role?: string | null;
+  first_seen?: string | null;
+  last_seen?: string | null;
+}
+
+interface NeighborEdge {
+  source: string;
+  target: string;
+  from: string;
+  to: string;
+  weight: number;
+  strength: number;
+}
+
+/**
+ * The top-k neighbours of one entity, for growing the graph outward from a node instead of hoping it
+ * is in the top slice /api/graph loads. Nodes and edges come in the same shape as /api/graph.
+ *
+ * GET /api/graph/neighbors?id=<entity id>  or  ?name=Jean-Luc%20Brunel
+ *   &limit=25                      neighbours to return (max 200), strongest first
+ *   &types=person,organization     neighbour entity types
+ *   &minStrength=2                 shared documents (or, for typed edges, documents stating the relation)
+ *   &relations=all|legal,...       typed relationships instead of co-occurrence - see lib/relationships.ts
+ */
+export async function GET(request: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(request.headers);
+  const rateLimit = checkRateLimit(`graph:${ip}`, RATE_LIMITS.graph);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id')?.trim();
+  const name = searchParams.get('name')?.trim();
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT)) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const minStrength = Math.max(parseInt(searchParams.get('minStrength') || '1') || 1, 1);
+  const types = (searchParams.get('types') || '').split(',').map(t => t.trim()).filter(Boolean);
+  const relationTypes = parseRelationTypes(searchParams.get('relations'));
+
+  if (!id && !name) {
+    return NextResponse.json({ error: 'id or name required' }, { status: 400 });
+  }
+  if (id && !UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: 'Invalid entity id' }, { status: 400 });
+  }
+
+  try {
+    const masker = await getProtectedNameMasker();
+    // Looking a protected person up by name would confirm where they appear
+    if (!id && name && masker.isProtected(name)) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+
+    let centerRequest = supabase.from('entities').select(ENTITY_COLUMNS);
+    centerRequest = id ? centerRequest.eq('id', id) : centerRequest.ilike('name', escapeLike(name!));
+    const { data: centers, error: centerError } = await centerRequest
+      .order('document_count', { ascending: false })
+      .limit(1);
+
+    if (centerError) {
+      console.error('[NEIGHBORS] Entity error:', centerError);
+      throw new Error(centerError.message);
+    }
+
+    const center = centers?.[0] as EntityRow | undefined;
+    if (!center) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+
+    console.log('[NEIGHBORS] Expanding', center.id, 'limit:', limit, 'minStrength:', minStrength, 'types:', types.join(',') || 'all', 'relations:', relationTypes?.join(',') || 'none');
+
+    // Candidate edges touching the centre, strongest first
+    let edges: Array<NeighborEdge | ReturnType<typeof toRelationshipEdge>>;
+    if (relationTypes === null) {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('entity_a_id, entity_b_id, strength')
+        .or(`entity_a_id.eq.${center.id},entity_b_id.eq.${center.id}`)
+        .gte('strength', minStrength)
+        .order('strength', { ascending: false })
+        .limit(limit * CANDIDATE_FACTOR);
+
+      if (error) {
+        console.error('[NEIGHBORS] Connection error:', error);
+        throw new Error(error.message);
+      }
+
+      edges = (data || []).map(c => ({
+        source: c.entity_a_id,
+        target: c.entity_b_id,
+        from: c.entity_a_id,
+        to: c.entity_b_id,
+        weight: c.strength || 1,
+        strength: c.strength || 1,
+      }));
+    } else {
+      const { data, error } = await supabase
+        .from('entity_relationships')
+        .select('source_id, target_id, relation_type, directed, strength, confidence, evidence')
+        .or(`source_id.eq.${center.id},target_id.eq.${center.id}`)
+        .in('relation_type', relationTypes)
+        .gte('strength', minStrength)
+        .order('strength', { ascending: false })
+        .limit(limit * CANDIDATE_FACTOR);
+
+      if (error) {
+        console.error('[NEIGHBORS] Relationship error:', error);
+        throw new Error(error.message);
+      }
+
+      edges = (data || [])
+        .filter(r => isRelationType(r.relation_type))
+        .map(r => toRelationshipEdge(r, text => masker.maskText(text), EDGE_EVIDENCE_LIMIT));
+    }
+
+    // Neighbours in order of their strongest edge
+    const candidateIds = Array.from(new Set(edges.map(e => (e.source === center.id ? e.target : e.source))));
+    let entityRequest = supabase.from('entities').select(ENTITY_COLUMNS).in('id', candidateIds);
+    if (types.length > 0) entityRequest = entityRequest.in('type', types);
+    const { data: entities, error: entityError } = candidateIds.length > 0
+      ? await entityRequest
+      : { data: [], error: null };
+
+    if (entityError) {
+      console.error('[NEIGHBORS] Entity error:', entityError);
+      throw new Error(entityError.message);
+    }
+
+    const entityById = new Map(((entities as EntityRow[] | null) || []).map(e => [e.id, e]));
+    const neighbors = candidateIds.filter(neighborId => entityById.has(neighborId)).slice(0, limit);
+    const kept = new Set(neighbors);
+    const neighborEdges = edges.filter(e => kept.has(e.source === center.id ? e.target : e.source));
+
+    // Same node shape as /api/graph - protected persons stay, under a masked name
+    const toNode = (e: EntityRow) => ({
+      id: e.id,
+      name: masker.maskName(e.name || 'Unknown', e.id),
+      label: masker.maskName(e.name || 'Unknown', e.id),
+      type: e.type || 'other',
+      documentCount: e.document_count || 0,
+      connectionCount: e.connection_count || 0,
+      connections: e.connection_count || 0,
+      centrality: e.centrality || null,
+      role: masker.isProtected(e.name || '', e.id) ? null : e.role || null,
+      firstSeen: e.first_seen || null,
+      lastSeen: e.last_seen || null,
+    });
+
+    const centerNode = toNode(center);
+    const nodes = neighbors.map(neighborId => toNode(entityById.get(neighborId)!));
+
+    console.log('[NEIGHBORS] Returning', nodes.length, 'neighbours,', neighborEdges.length, 'edges');
+
+    return NextResponse.json({
+      center: centerNode,
+      nodes,
+      edges: neighborEdges,
+      result: { data: { center: centerNode, nodes, edges: neighborEdges } },
+      meta: {
+        nodeCount: nodes.length,
+        edgeCount: neighborEdges.length,
+        limit,
+        minStrength,
+        types,
+        relations: relationTypes,
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[NEIGHBORS] Error:', errorMessage);
+    return NextResponse.json({ nodes: [], edges: [], error: errorMessage }, { status: 500 });
+  }
+}
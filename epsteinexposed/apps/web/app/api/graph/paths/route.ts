@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PATH_WEIGHTINGS, type PathWeighting } from '@repo/analysis/paths';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { findEntityPaths } from '@/lib/entity-paths';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_PATHS = 5;
+const MAX_HOPS = 6;
+const EVIDENCE_LIMIT = 10;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function clampInt(value: string | null, fallback: number, min: number, max: number): number {
+  return Math.min(Math.max(parseInt(value || String(fallback)) || fallback, min), max);
+}
+
+/**
+ * How two entities are linked - shortest and k-shortest paths over every connection, not just the
+ * slice the graph view has loaded, with the documents each hop rests on. Masked like /api/graph.
+ *
+ * GET /api/graph/paths?from=<entity id>&to=<entity id>
+ *   &k=3                  paths to return (max 5), cheapest first
+ *   &maxHops=4            longest path to search for (max 6)
+ *   &minStrength=1        ignore connections with fewer shared documents
+ *   &weighting=hops       hops (fewest hops) | strength (strongest links)
+ */
+export async function GET(request: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(request.headers);
+  const rateLimit = checkRateLimit(`graph:${ip}`, RATE_LIMITS.graph);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get('from')?.trim() || '';
+  const to = searchParams.get('to')?.trim() || '';
+  if (!UUID_PATTERN.test(from) || !UUID_PATTERN.test(to)) {
+    return NextResponse.json({ error: 'from and to must be entity ids' }, { status: 400 });
+  }
+
+  const k = clampInt(searchParams.get('k'), 3, 1, MAX_PATHS);
+  const maxHops = clampInt(searchParams.get('maxHops'), 4, 1, MAX_HOPS);
+  const minStrength = clampInt(searchParams.get('minStrength'), 1, 1, Number.MAX_SAFE_INTEGER);
+  const weighting: PathWeighting = PATH_WEIGHTINGS.find(w => w === searchParams.get('weighting')) ?? 'hops';
+
+  try {
+    const masker = await getProtectedNameMasker();
+    const startTime = Date.now();
+    const paths = await findEntityPaths(from, to, { k, maxHops, minStrength, weighting, evidenceLimit: EVIDENCE_LIMIT });
+    console.log('[PATHS]', from, '→', to, 'k:', k, 'maxHops:', maxHops, 'minStrength:', minStrength, weighting, '-', paths.length, 'paths in', Date.now() - startTime, 'ms');
+
+    // Protected persons stay on the path under the masked name, and their hops list no documents
+    return NextResponse.json({
+      from,
+      to,
+      paths: paths.map(path => {
+        const isProtected = path.nodes.map((id, i) => masker.isProtected(path.names[i], id));
+        return {
+          ...path,
+          names: path.names.map((name, i) => masker.maskName(name, path.nodes[i])),
+          edges: path.edges.map((edge, i) => (
+            isProtected[i] || isProtected[i + 1] ? { ...edge, documentCount: 0, documentIds: [] } : edge
+          )),
+        };
+      }),
+    });
+  } catch (err: unknown) {
+    if (err instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[PATHS] Error:', errorMessage);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
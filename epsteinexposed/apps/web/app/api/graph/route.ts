@@ -1,6 +1,10 @@
 import { supabase } from '@/lib/supabase';
 import { NextRequest, NextResponse } from 'next/server';
 import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import type { CentralityScores } from '@/lib/types';
+import { parseEdgeWeighting, connectionWeight, EdgeWeighting, ConnectionWeights } from '@repo/analysis/edge-weighting';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { parseRelationTypes, isRelationType, toRelationshipEdge, type RelationType } from '@/lib/relationships';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 30;
@@ -161,7 +165,7 @@ function correctEntityType(name: string, type: string): string {
   return type;
 }
 
-async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: number = 0) {
+async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: number = 0, weighting: EdgeWeighting = 'cooccurrence') {
   // PRIORITY: Fetch PERSON entities first (victims, perpetrators, high-profile names)
   // Then fill remaining slots with locations/orgs
   const personLimit = Math.floor(nodeLimit * 0.7); // 70% people
@@ -170,7 +174,7 @@ async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: numb
   // Fetch high-profile PEOPLE with most connections (victims, perpetrators, witnesses)
   const { data: peopleEntities, error: peopleError } = await supabase
     .from('entities')
-    .select('id, name, type, document_count, connection_count')
+    .select('id, name, type, document_count, connection_count, centrality:metadata->centrality, role:metadata->roles->>primary, first_seen:metadata->dates->>first, last_seen:metadata->dates->>last')
     .eq('type', 'person')
     .order('connection_count', { ascending: false })
     .range(offset, offset + personLimit - 1);
@@ -183,7 +187,7 @@ async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: numb
   // Fetch top locations/organizations
   const { data: otherEntities, error: otherError } = await supabase
     .from('entities')
-    .select('id, name, type, document_count, connection_count')
+    .select('id, name, type, document_count, connection_count, centrality:metadata->centrality, role:metadata->roles->>primary, first_seen:metadata->dates->>first, last_seen:metadata->dates->>last')
     .in('type', ['location', 'organization'])
     .order('connection_count', { ascending: false })
     .limit(otherLimit);
@@ -212,12 +216,13 @@ async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: numb
   // Get entity IDs
   const entityIds = entities.map(e => e.id);
 
-  // Fetch connections BETWEEN these entities
+  // Fetch connections BETWEEN these entities, strongest first under the chosen weighting
+  const orderColumn = weighting === 'cooccurrence' ? 'strength' : `metadata->weights->${weighting}`;
   const { data: topConnections, error: connError } = await supabase
     .from('connections')
-    .select('entity_a_id, entity_b_id, strength')
+    .select('entity_a_id, entity_b_id, strength, weights:metadata->weights')
     .or(`entity_a_id.in.(${entityIds.join(',')}),entity_b_id.in.(${entityIds.join(',')})`)
-    .order('strength', { ascending: false })
+    .order(orderColumn, { ascending: false, nullsFirst: false })
     .limit(edgeLimit);
 
   if (connError) {
@@ -230,6 +235,31 @@ async function fetchGraphData(edgeLimit: number, nodeLimit: number, offset: numb
   return { topConnections: topConnections || [], entities };
 }
 
+// Evidence spans sent per typed edge - the rest are on the entity pages
+const EDGE_EVIDENCE_LIMIT = 3;
+
+// Typed relationships (sql/entity_relationships.sql) between the loaded entities
+async function fetchTypedRelationships(entityIds: string[], types: RelationType[], edgeLimit: number) {
+  if (entityIds.length === 0 || types.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('entity_relationships')
+    .select('source_id, target_id, relation_type, directed, strength, confidence, evidence')
+    .in('relation_type', types)
+    .in('source_id', entityIds)
+    .in('target_id', entityIds)
+    .order('strength', { ascending: false })
+    .limit(edgeLimit);
+
+  if (error) {
+    console.error('[GRAPH] Relationship error:', error);
+    throw new Error(error.message);
+  }
+
+  console.log('[GRAPH] Got', data?.length || 0, 'typed relationships');
+  return data || [];
+}
+
 export async function GET(request: NextRequest) {
   // Rate limiting
   const ip = getClientIP(request.headers);
@@ -249,15 +279,19 @@ export async function GET(request: NextRequest) {
     const requestedEdgeLimit = Math.min(parseInt(searchParams.get('connectionLimit') || '8000'), 15000);
     // Offset for variety on refresh
     const offset = Math.min(parseInt(searchParams.get('offset') || '0'), 1000);
+    // cooccurrence (default) | pmi | npmi | jaccard | page | paragraph - see @repo/analysis/edge-weighting
+    const weighting = parseEdgeWeighting(searchParams.get('weighting'));
+    // Typed edges instead of co-occurrence: "all" or e.g. traveled_with,employed_by - see lib/relationships.ts
+    const relationTypes = parseRelationTypes(searchParams.get('relations'));
 
-    console.log('[GRAPH] Fetching nodeLimit:', requestedNodeLimit, 'edgeLimit:', requestedEdgeLimit, 'offset:', offset);
+    console.log('[GRAPH] Fetching nodeLimit:', requestedNodeLimit, 'edgeLimit:', requestedEdgeLimit, 'offset:', offset, 'weighting:', weighting, 'relations:', relationTypes?.join(',') || 'none');
 
     let topConnections;
     let entities;
     
     // Try with requested limits first, fall back to smaller if timeout
     try {
-      const result = await fetchGraphData(requestedEdgeLimit, requestedNodeLimit, offset);
+      const result = await fetchGraphData(requestedEdgeLimit, requestedNodeLimit, offset, weighting);
       topConnections = result.topConnections;
       entities = result.entities;
     } catch (firstError) {
@@ -265,7 +299,7 @@ export async function GET(request: NextRequest) {
       
       // Try with medium limits (still substantial)
       try {
-        const result = await fetchGraphData(800, 300, 0);
+        const result = await fetchGraphData(800, 300, 0, weighting);
         topConnections = result.topConnections;
         entities = result.entities;
       } catch (secondError) {
@@ -273,7 +307,7 @@ export async function GET(request: NextRequest) {
         
         // Try with minimum viable limits
         try {
-          const result = await fetchGraphData(400, 150, 0);
+          const result = await fetchGraphData(400, 150, 0, weighting);
           topConnections = result.topConnections;
           entities = result.entities;
         } catch (thirdError) {
@@ -312,7 +346,7 @@ export async function GET(request: NextRequest) {
     };
     
     // Create entity map for quick lookup, filtering out garbage entities
-    type EntityType = { id: string; name: string; type: string; document_count: number; connection_count: number };
+    type EntityType = { id: string; name: string; type: string; document_count: number; connection_count: number; centrality?: CentralityScores | null; role?: string | null; first_seen?: string | null; last_seen?: string | null };
     const entityMap = new Map<string, EntityType>(
       (entities || [])
         .filter(e => !isGarbageEntity(e.name))
@@ -328,26 +362,42 @@ export async function GET(request: NextRequest) {
 
     console.log('[GRAPH] Valid connections:', validConnections.length);
 
-    // Format response
+    // Format response - protected persons stay in the graph, under a masked name
+    const masker = await getProtectedNameMasker();
     const nodes = Array.from(entityMap.values()).map((e: EntityType) => ({
       id: e.id,
-      name: e.name || 'Unknown',
-      label: e.name || 'Unknown',
+      name: masker.maskName(e.name || 'Unknown', e.id),
+      label: masker.maskName(e.name || 'Unknown', e.id),
       type: e.type || 'other',
       documentCount: e.document_count || 0,
       connectionCount: e.connection_count || 0,
       connections: e.connection_count || 0,
+      // Present once scripts/compute-centrality.ts has run
+      centrality: e.centrality || null,
+      // Primary role in the documents (scripts/classify-roles.ts) - not shown for protected persons
+      role: masker.isProtected(e.name || '', e.id) ? null : e.role || null,
+      // First and last dated document it appears in (scripts/compute-entity-dates.ts), for the time filter
+      firstSeen: e.first_seen || null,
+      lastSeen: e.last_seen || null,
     }));
 
-    const edges = validConnections.map(c => ({
+    // `strength` stays the raw co-occurrence count, `weight` follows the requested weighting
+    const cooccurrenceEdges = validConnections.map(c => ({
       source: c.entity_a_id,
       target: c.entity_b_id,
       from: c.entity_a_id,
       to: c.entity_b_id,
-      weight: c.strength || 1,
+      weight: connectionWeight(c.strength || 1, c.weights as Partial<ConnectionWeights> | null, weighting),
       strength: c.strength || 1,
     }));
 
+    // Typed edges read source → target when directed; `strength` counts the documents stating them
+    const edges = relationTypes === null
+      ? cooccurrenceEdges
+      : (await fetchTypedRelationships(Array.from(entityMap.keys()), relationTypes, requestedEdgeLimit))
+          .filter(r => isRelationType(r.relation_type))
+          .map(r => toRelationshipEdge(r, text => masker.maskText(text), EDGE_EVIDENCE_LIMIT));
+
     console.log('[GRAPH] Final:', nodes.length, 'nodes,', edges.length, 'edges');
 
     return NextResponse.json({
@@ -356,11 +406,16 @@ export async function GET(request: NextRequest) {
       result: { data: { nodes, edges } },
       meta: {
         nodeCount: nodes.length,
-        edgeCount: edges.length
+        edgeCount: edges.length,
+        weighting,
+        relations: relationTypes
       }
     });
 
   } catch (err: unknown) {
+    if (err instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
     const errorMessage = err instanceof Error ? err.message : 'Unknown error';
     console.error('[GRAPH] Error:', errorMessage);
     return NextResponse.json({ nodes: [], edges: [], error: errorMessage }, { status: 500 });
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getSession, isSessionId, parseWorkspace, updateWorkspace } from '@/lib/investigation-sessions';
+
+/**
+ * GET /api/investigations/[id]
+ *
+ * Resume a session: the thread and its workspace. Only the owner has the id -
+ * colleagues get the read-only /api/investigations/shared/[shareId].
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = checkRateLimit(`investigations:${getClientIP(req.headers)}`, RATE_LIMITS.default);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const session = await getSession(id);
+    if (!session) {
+      return NextResponse.json({ error: 'Investigation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('[INVESTIGATIONS] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load investigation', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/investigations/[id]
+ *
+ * Save workspace changes (title, selectedEntities, pinnedDocuments, viewport). Messages are
+ * appended by /api/chat/investigate as answers complete.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const rateLimit = checkRateLimit(`investigations:${getClientIP(req.headers)}`, RATE_LIMITS.default);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    if (!isSessionId(id)) {
+      return NextResponse.json({ error: 'Investigation not found' }, { status: 404 });
+    }
+
+    const workspace = parseWorkspace(await req.json().catch(() => null));
+    if (Object.keys(workspace).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const updated = await updateWorkspace(id, workspace);
+    if (!updated) {
+      return NextResponse.json({ error: 'Investigation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[INVESTIGATIONS] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save investigation', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
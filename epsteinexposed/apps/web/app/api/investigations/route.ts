@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { createSession, forkSession, parseWorkspace } from '@/lib/investigation-sessions';
+
+/**
+ * POST /api/investigations
+ *
+ * Start an investigation session. Body: workspace fields (title, selectedEntities, pinnedDocuments, viewport),
+ * or { forkFrom: shareId } to continue a shared investigation as a new session.
+ * Returns the session - its id is the key for continuing it, keep it private.
+ */
+export async function POST(req: NextRequest) {
+  const rateLimit = checkRateLimit(`investigations:${getClientIP(req.headers)}`, RATE_LIMITS.default);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body?.forkFrom !== undefined) {
+      const session = await forkSession(String(body.forkFrom));
+      if (!session) {
+        return NextResponse.json({ error: 'Shared investigation not found' }, { status: 404 });
+      }
+      console.log('[INVESTIGATIONS] Forked', body.forkFrom, 'into', session.id);
+      return NextResponse.json({ session }, { status: 201 });
+    }
+
+    const session = await createSession(parseWorkspace(body));
+    console.log('[INVESTIGATIONS] Created', session.id);
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('[INVESTIGATIONS] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create investigation', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
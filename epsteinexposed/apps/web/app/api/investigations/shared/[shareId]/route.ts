@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+import { getSharedSession, sessionToMarkdown } from '@/lib/investigation-sessions';
+
+/**
+ * GET /api/investigations/shared/[shareId]
+ *
+ * Read-only copy of an investigation for permalinks.
+ * ?format=markdown or ?format=json downloads it as a file instead.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ shareId: string }> }
+) {
+  const rateLimit = checkRateLimit(`investigations:${getClientIP(req.headers)}`, RATE_LIMITS.default);
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  try {
+    const { shareId } = await params;
+    const session = await getSharedSession(shareId);
+    if (!session) {
+      return NextResponse.json({ error: 'Investigation not found' }, { status: 404 });
+    }
+
+    const format = req.nextUrl.searchParams.get('format');
+    const filename = `investigation-${slugify(session.title) || shareId.slice(0, 8)}`;
+
+    if (format === 'markdown') {
+      return new Response(sessionToMarkdown(session), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.md"`,
+        },
+      });
+    }
+    if (format === 'json') {
+      return new Response(JSON.stringify(session, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('[INVESTIGATIONS] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load investigation', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+function slugify(title: string | null): string {
+  return (title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { parseSearchQuery, parseHeadline, SearchQueryError, DocumentSearchResult, PageHit } from '@/lib/document-search';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
+
+const MAX_LIMIT = 50;
+const MAX_PAGES_PER_DOCUMENT = 5;
+
+// search_documents() in sql/document_search.sql
+interface SearchRow {
+  id: string;
+  doc_id: string | null;
+  title: string | null;
+  page_count: number | null;
+  metadata: Record<string, unknown> | null;
+  rank: number;
+  pages: Array<{ page: number | null; headline: string }> | null;
+}
+
+/**
+ * Full-text search over OCR'd document text.
+ *
+ * GET /api/search/documents?query=...&dataset=...&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=20
+ * See lib/document-search.ts for the query syntax.
+ */
+export async function GET(req: NextRequest) {
+  // Rate limiting
+  const ip = getClientIP(req.headers);
+  const rateLimit = checkRateLimit(`search:${ip}`, RATE_LIMITS.search);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please slow down.' },
+      { status: 429, headers: getRateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const query = searchParams.get('query') || '';
+  const dataset = searchParams.get('dataset');
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, MAX_LIMIT);
+
+  if (!query || query.trim().length < 2) {
+    return NextResponse.json({ result: { data: [] } });
+  }
+
+  let parsed;
+  try {
+    parsed = parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    // A protected name gets no results, and snippets are cut from masked text
+    const masker = await getProtectedNameMasker();
+    if (masker.isProtected(query)) {
+      return NextResponse.json({ result: { data: [] } });
+    }
+
+    // Ranked and cut into snippets in the database - document text never leaves it
+    const { data, error } = await supabase.rpc('search_documents', {
+      query_text: parsed.tsQuery,
+      filter_dataset: dataset,
+      date_from: from,
+      date_to: to,
+      match_count: limit,
+      max_pages: MAX_PAGES_PER_DOCUMENT,
+    });
+
+    if (error) {
+      console.error('[DOC SEARCH] Error:', error);
+      throw error;
+    }
+
+    const results: DocumentSearchResult[] = ((data || []) as SearchRow[]).map(doc => {
+      const pages: PageHit[] = (doc.pages || []).map(p => {
+        const snippets = parseHeadline(p.headline, parsed.terms, text => masker.maskText(text));
+        return {
+          page: p.page,
+          hitCount: snippets.reduce((sum, s) => sum + s.highlights.length, 0),
+          snippets,
+        };
+      });
+      const metadata = doc.metadata || {};
+      return {
+        id: doc.id,
+        docId: doc.doc_id || doc.id,
+        title: masker.maskText(doc.title || doc.doc_id || 'Untitled document'),
+        dataset: typeof metadata.dataset === 'string' ? metadata.dataset : null,
+        date: typeof metadata.date === 'string' ? metadata.date : null,
+        pageCount: doc.page_count || pages.length,
+        hitCount: pages.reduce((sum, p) => sum + p.hitCount, 0),
+        pages,
+      };
+    });
+
+    console.log('[DOC SEARCH] Returning', results.length, 'documents for:', query, '→', parsed.tsQuery);
+
+    return NextResponse.json({ result: { data: results } });
+  } catch (error: unknown) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[DOC SEARCH] API Error:', errorMessage);
+    return NextResponse.json({ error: 'Document search failed' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { checkRateLimit, getClientIP, RATE_LIMITS, getRateLimitHeaders } from '@/lib/rate-limit';
+import { getProtectedNameMasker, ProtectedRegistryUnavailableError } from '@/lib/protected-persons';
 
 export async function GET(req: NextRequest) {
   // Rate limiting
@@ -23,6 +24,12 @@ export async function GET(req: NextRequest) {
   }
 
   try {
+    // Searching for a protected name must not confirm it is in the documents
+    const masker = await getProtectedNameMasker();
+    if (masker.isProtected(query)) {
+      return NextResponse.json({ result: { data: [] } });
+    }
+
     // Use the search_entities function from Supabase
     const { data, error } = await supabase
       .rpc('search_entities', { 
@@ -52,7 +59,7 @@ export async function GET(req: NextRequest) {
       documentCount: item.document_count || 0,
       connectionCount: item.connection_count || 0,
       documentIds: [], // We'll fetch specific docs when needed
-    }));
+    })).filter((item: { id: string; name: string }) => !masker.isProtected(item.name, item.id));
 
     console.log('[SEARCH] Returning', results.length, 'results for:', query);
     if (results.length > 0) {
@@ -61,6 +68,9 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({ result: { data: results } });
   } catch (error: unknown) {
+    if (error instanceof ProtectedRegistryUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('[SEARCH] API Error:', errorMessage);
     return NextResponse.json({ error: 'Search failed' }, { status: 500 });
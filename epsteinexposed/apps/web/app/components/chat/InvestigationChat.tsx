@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, FileText, ExternalLink, ChevronUp, ChevronDown, Sparkles } from 'lucide-react';
+import { Send, Loader2, FileText, ExternalLink, ChevronUp, ChevronDown, Sparkles, Square, Link2, Download, Plus, Pin, X, Bot } from 'lucide-react';
+import { readSSE } from '@/lib/sse';
+import type { PinnedDocument, SessionMessage } from '@/lib/investigation-sessions';
+import type { AgentTraceEntry } from '@/lib/investigation-agent';
+import { ToolTrace } from './ToolTrace';
 
 // Strip markdown formatting from text
 function cleanText(text: string): string {
@@ -20,7 +24,9 @@ interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   citations?: Citation[];
+  verification?: Verification;
   suggestions?: string[];
+  toolTrace?: AgentTraceEntry[];   // Agent mode only
   timestamp: Date;
   isStreaming?: boolean;
 }
@@ -30,6 +36,18 @@ interface Citation {
   documentName: string;
   excerpt: string;
   page?: number;
+  quote?: { start: number; end: number };   // Supporting span within the excerpt
+}
+
+// Sentence-by-sentence check of the answer against the retrieved documents (lib/citation-verifier.ts)
+interface Verification {
+  sentences: Array<{
+    start: number;
+    end: number;
+    status: 'supported' | 'unsupported' | 'skipped';
+    citations: number[];
+  }>;
+  unsupportedCount: number;
 }
 
 interface Discovery {
@@ -43,11 +61,18 @@ interface Discovery {
 
 interface InvestigationChatProps {
   selectedEntities?: string[];
-  onViewDocument: (documentId: string) => void;
+  onViewDocument: (documentId: string, page?: number) => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
   autoInvestigate?: boolean;
   onAutoInvestigateComplete?: () => void;
+  // Saved investigation (see useInvestigationSession) - without these the chat works unsaved
+  initialMessages?: SessionMessage[];
+  onEnsureInvestigation?: (title: string) => Promise<string | null>;
+  shareId?: string | null;
+  onNewInvestigation?: () => void;
+  pinnedDocuments?: PinnedDocument[];
+  onTogglePin?: (doc: PinnedDocument) => void;
 }
 
 export function InvestigationChat({ 
@@ -56,15 +81,33 @@ export function InvestigationChat({
   isCollapsed,
   onToggleCollapse,
   autoInvestigate = false,
-  onAutoInvestigateComplete
+  onAutoInvestigateComplete,
+  initialMessages,
+  onEnsureInvestigation,
+  shareId,
+  onNewInvestigation,
+  pinnedDocuments = [],
+  onTogglePin,
 }: InvestigationChatProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<Message[]>(() =>
+    (initialMessages || []).map(msg => ({ ...msg, timestamp: new Date(msg.timestamp) }))
+  );
+  const [linkCopied, setLinkCopied] = useState(false);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [agentMode, setAgentMode] = useState(false);
   const [pendingDiscovery, setPendingDiscovery] = useState<Discovery | null>(null);
   const [hasAutoInvestigated, setHasAutoInvestigated] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const ensureInvestigationRef = useRef(onEnsureInvestigation);
+  useEffect(() => {
+    ensureInvestigationRef.current = onEnsureInvestigation;
+  }, [onEnsureInvestigation]);
+  
+  // Stop any in-flight answer when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
   
   // Auto-scroll to bottom
   useEffect(() => {
@@ -88,11 +131,12 @@ export function InvestigationChat({
         setIsLoading(true);
         
         // Make API call
-        fetch('/api/chat/investigate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ message: query, context: { selectedEntities: entities } }),
-        })
+        Promise.resolve(ensureInvestigationRef.current?.(query) ?? null)
+          .then(investigationId => fetch('/api/chat/investigate', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ message: query, context: { selectedEntities: entities }, investigationId }),
+          }))
           .then(res => res.json())
           .then(data => {
             setMessages(prev => [...prev, {
@@ -100,6 +144,7 @@ export function InvestigationChat({
               role: 'assistant',
               content: data.response,
               citations: data.citations,
+              verification: data.verification,
               timestamp: new Date(),
             }]);
           })
@@ -193,10 +238,29 @@ export function InvestigationChat({
       isStreaming: true,
     }]);
     
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const updateAssistant = (update: Partial<Message>) => {
+      setMessages(prev => prev.map(msg => 
+        msg.id === assistantMessageId ? { ...msg, ...update } : msg
+      ));
+    };
+    const showNoResults = () => {
+      setMessages(prev => [...prev, {
+        id: `msg-${Date.now()}-system`,
+        role: 'system',
+        content: 'No relevant information found in the DOJ documents for this query.',
+        timestamp: new Date(),
+      }]);
+    };
+    let streamed = '';
+    
     try {
+      // The thread is saved server-side once there's an investigation to save it to
+      const investigationId = await onEnsureInvestigation?.(messageContent) ?? null;
       const response = await fetch('/api/chat/investigate', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
         body: JSON.stringify({
           message: messageContent,
           context: {
@@ -204,48 +268,108 @@ export function InvestigationChat({
             conversationHistory: messages.slice(-10),
             useWebSearch: false,
           },
+          stream: true,
+          investigationId,
+          ...(agentMode && { mode: 'agent' }),
         }),
+        signal: controller.signal,
       });
       
       if (!response.ok) throw new Error('Failed to get response');
       
-      const data = await response.json();
+      // Notices and configuration errors still come back as plain JSON
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        const data = await response.json();
+        updateAssistant({
+          content: data.response,
+          citations: data.citations,
+          verification: data.verification,
+          suggestions: data.suggestions,
+          toolTrace: data.toolTrace,
+          isStreaming: false,
+        });
+        if (data.noDocumentResults) showNoResults();
+        return;
+      }
       
-      // Update the streaming message with final content
-      setMessages(prev => prev.map(msg => 
-        msg.id === assistantMessageId 
-          ? {
-              ...msg,
-              content: data.response,
-              citations: data.citations,
-              suggestions: data.suggestions,
-              isStreaming: false,
-            }
-          : msg
-      ));
+      let noDocumentResults = false;
+      const toolTrace: AgentTraceEntry[] = [];
+      await readSSE(response.body, (event, raw) => {
+        const data = JSON.parse(raw);
+        switch (event) {
+          case 'token':
+            streamed += data.text;
+            updateAssistant({ content: streamed });
+            break;
+          case 'tool':
+            toolTrace.push(data);
+            updateAssistant({ toolTrace: [...toolTrace] });
+            break;
+          case 'citations':
+            updateAssistant({ citations: data.citations });
+            break;
+          case 'verification':
+            updateAssistant({ verification: data });
+            break;
+          case 'suggestions':
+            updateAssistant({ suggestions: data.suggestions });
+            break;
+          case 'stats':
+            noDocumentResults = data.noDocumentResults === true;
+            break;
+          case 'done':
+            updateAssistant({ content: data.response, isStreaming: false });
+            break;
+          case 'error':
+            throw new Error(data.error);
+        }
+      });
       
-      // If no results found in docs, show system message
-      if (data.noDocumentResults) {
-        setMessages(prev => [...prev, {
-          id: `msg-${Date.now()}-system`,
-          role: 'system',
-          content: 'No relevant information found in the DOJ documents for this query.',
-          timestamp: new Date(),
-        }]);
-      }
+      updateAssistant({ isStreaming: false });
+      if (noDocumentResults) showNoResults();
       
     } catch (error) {
-      console.error('Chat error:', error);
-      setMessages(prev => prev.map(msg =>
-        msg.id === assistantMessageId
-          ? { ...msg, content: 'Error: Failed to analyze. Please try again.', isStreaming: false }
-          : msg
-      ));
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped it
+        updateAssistant({ content: streamed ? `${streamed}\n\n[Stopped]` : 'Stopped.', isStreaming: false });
+      } else {
+        console.error('Chat error:', error);
+        updateAssistant({
+          content: streamed ? `${streamed}\n\n[Response interrupted]` : 'Error: Failed to analyze. Please try again.',
+          isStreaming: false,
+        });
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   };
   
+  // Stop the answer that's currently streaming
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+  
+  // Read-only permalink for colleagues
+  const handleCopyLink = async () => {
+    if (!shareId) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/investigations/${shareId}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+  
+  const handleNewInvestigation = () => {
+    abortRef.current?.abort();
+    onNewInvestigation?.();
+  };
+  
+  const isPinned = (citation: Citation) =>
+    pinnedDocuments.some(doc => doc.documentId === citation.documentId && doc.page === (citation.page || undefined));
+  
   // Handle discovery acceptance
   const handleAcceptDiscovery = () => {
     if (pendingDiscovery) {
@@ -269,25 +393,84 @@ export function InvestigationChat({
     }
   };
   
+  // Answer text with unsupported sentences underlined and source numbers after supported ones
+  const renderVerifiedText = (message: Message) => {
+    const { content, verification, citations = [] } = message;
+    if (!verification) return content;
+    
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const sentence of verification.sentences) {
+      if (sentence.start > cursor) parts.push(content.slice(cursor, sentence.start));
+      const text = content.slice(sentence.start, sentence.end);
+      
+      if (sentence.status === 'unsupported') {
+        parts.push(
+          <span
+            key={sentence.start}
+            title="Not supported by the retrieved documents"
+            className="underline decoration-dotted decoration-amber-400/70 underline-offset-4"
+          >
+            {text}
+          </span>
+        );
+      } else {
+        parts.push(text);
+        for (const index of sentence.citations) {
+          const citation = citations[index];
+          if (!citation) continue;
+          parts.push(
+            <button
+              key={`${sentence.start}-${index}`}
+              onClick={() => onViewDocument(citation.documentId, citation.page)}
+              title={citation.documentName}
+              className="align-super text-[10px] text-[#00d4ff] hover:underline ml-0.5"
+            >
+              [{index + 1}]
+            </button>
+          );
+        }
+      }
+      cursor = sentence.end;
+    }
+    if (cursor < content.length) parts.push(content.slice(cursor));
+    return parts;
+  };
+  
   // Render message content with citations
   const renderMessageContent = (message: Message) => {
-    if (message.isStreaming) {
+    if (message.isStreaming && !message.content) {
       return (
-        <div className="flex items-center gap-2">
-          <Loader2 className="w-4 h-4 animate-spin text-[#00d4ff]" />
-          <span className="text-[#606070] font-mono text-sm">
-            Searching 11,622 documents...
-          </span>
+        <div>
+          {message.toolTrace && <ToolTrace trace={message.toolTrace} live />}
+          <div className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-[#00d4ff]" />
+            <span className="text-[#606070] font-mono text-sm">
+              {message.toolTrace ? 'Investigating...' : 'Searching 11,622 documents...'}
+            </span>
+          </div>
         </div>
       );
     }
     
     return (
       <div>
+        {message.toolTrace && <ToolTrace trace={message.toolTrace} />}
         <p className="text-[#e0e0e0] leading-relaxed whitespace-pre-wrap">
-          {cleanText(message.content)}
+          {message.verification && !message.isStreaming
+            ? renderVerifiedText(message)
+            : cleanText(message.content)}
+          {message.isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-[#00d4ff] animate-pulse" />
+          )}
         </p>
         
+        {message.verification && message.verification.unsupportedCount > 0 && !message.isStreaming && (
+          <p className="mt-2 text-xs text-amber-400/80">
+            {message.verification.unsupportedCount} statement{message.verification.unsupportedCount > 1 ? 's' : ''} could not be matched to the retrieved documents (underlined)
+          </p>
+        )}
+        
         {/* Citations - Clean collapsible display */}
         {message.citations && message.citations.length > 0 && (
           <details className="mt-3 pt-2 border-t border-[#ffffff08]">
@@ -297,17 +480,43 @@ export function InvestigationChat({
             </summary>
             <div className="mt-2 space-y-1 pl-2 border-l border-[#ffffff10]">
               {message.citations.map((citation, idx) => (
+                <div key={idx} className="flex items-start gap-1">
                 <button
-                  key={idx}
-                  onClick={() => onViewDocument(citation.documentId)}
-                  className="w-full text-left px-2 py-1 rounded hover:bg-[#ffffff08] 
-                           transition-colors group flex items-center gap-2"
+                  onClick={() => onViewDocument(citation.documentId, citation.page)}
+                  className="flex-1 min-w-0 text-left px-2 py-1 rounded hover:bg-[#ffffff08] 
+                           transition-colors group"
                 >
-                  <span className="text-xs text-[#a0a0a0] group-hover:text-[#00d4ff] truncate">
-                    {citation.documentName.replace(/^Entity:\s*/, '')}
+                  <span className="flex items-center gap-2">
+                    <span className="text-xs text-[#606070] font-mono shrink-0">[{idx + 1}]</span>
+                    <span className="text-xs text-[#a0a0a0] group-hover:text-[#00d4ff] truncate">
+                      {citation.documentName.replace(/^Entity:\s*/, '')}
+                    </span>
+                    <ExternalLink className="w-3 h-3 text-[#404050] group-hover:text-[#00d4ff] ml-auto shrink-0" />
                   </span>
-                  <ExternalLink className="w-3 h-3 text-[#404050] group-hover:text-[#00d4ff] ml-auto shrink-0" />
+                  {citation.quote && (
+                    <span className="block mt-1 text-[11px] leading-snug text-[#707080]">
+                      {citation.excerpt.slice(0, citation.quote.start)}
+                      <mark className="bg-[#00d4ff]/15 text-[#c0c0d0]">
+                        {citation.excerpt.slice(citation.quote.start, citation.quote.end)}
+                      </mark>
+                      {citation.excerpt.slice(citation.quote.end)}
+                    </span>
+                  )}
                 </button>
+                {onTogglePin && (
+                  <button
+                    onClick={() => onTogglePin({
+                      documentId: citation.documentId,
+                      title: citation.documentName.replace(/^Entity:\s*/, ''),
+                      ...(citation.page ? { page: citation.page } : {}),
+                    })}
+                    title={isPinned(citation) ? 'Unpin document' : 'Pin document to this investigation'}
+                    className="p-1 mt-0.5 rounded hover:bg-[#ffffff08] shrink-0"
+                  >
+                    <Pin className={`w-3 h-3 ${isPinned(citation) ? 'text-[#ffb800]' : 'text-[#404050] hover:text-[#ffb800]'}`} />
+                  </button>
+                )}
+                </div>
               ))}
             </div>
           </details>
@@ -431,9 +640,51 @@ export function InvestigationChat({
             </span>
           )}
         </div>
-        <button className="p-1 hover:bg-[#ffffff10] rounded">
-          {isCollapsed ? <ChevronUp className="w-4 h-4 text-[#606070]" /> : <ChevronDown className="w-4 h-4 text-[#606070]" />}
-        </button>
+        <div className="flex items-center gap-1">
+          {/* Saved investigation - share a read-only link, export, or start over */}
+          {!isCollapsed && shareId && (
+            <>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleCopyLink(); }}
+                title="Copy read-only link"
+                className="p-1 hover:bg-[#ffffff10] rounded flex items-center gap-1 text-[#606070] hover:text-[#00d4ff]"
+              >
+                <Link2 className="w-4 h-4" />
+                <span className="text-xs font-mono hidden sm:inline">{linkCopied ? 'COPIED' : 'SHARE'}</span>
+              </button>
+              <a
+                href={`/api/investigations/shared/${shareId}?format=markdown`}
+                onClick={(e) => e.stopPropagation()}
+                title="Export as Markdown"
+                className="p-1 hover:bg-[#ffffff10] rounded flex items-center gap-1 text-[#606070] hover:text-[#00d4ff]"
+              >
+                <Download className="w-4 h-4" />
+                <span className="text-xs font-mono hidden sm:inline">MD</span>
+              </a>
+              <a
+                href={`/api/investigations/shared/${shareId}?format=json`}
+                onClick={(e) => e.stopPropagation()}
+                title="Export as JSON"
+                className="p-1 hover:bg-[#ffffff10] rounded text-xs font-mono text-[#606070] hover:text-[#00d4ff] hidden sm:inline"
+              >
+                JSON
+              </a>
+            </>
+          )}
+          {!isCollapsed && onNewInvestigation && messages.length > 0 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); handleNewInvestigation(); }}
+              disabled={isLoading}
+              title="New investigation (this one stays saved)"
+              className="p-1 hover:bg-[#ffffff10] rounded text-[#606070] hover:text-[#ffb800] disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
+          <button className="p-1 hover:bg-[#ffffff10] rounded">
+            {isCollapsed ? <ChevronUp className="w-4 h-4 text-[#606070]" /> : <ChevronDown className="w-4 h-4 text-[#606070]" />}
+          </button>
+        </div>
       </div>
       
       {!isCollapsed && (
@@ -469,6 +720,32 @@ export function InvestigationChat({
             </div>
           )}
           
+          {/* Pinned documents */}
+          {pinnedDocuments.length > 0 && (
+            <div className="mx-4 mt-3 flex flex-wrap items-center gap-1.5 shrink-0">
+              <Pin className="w-3 h-3 text-[#606070]" />
+              {pinnedDocuments.map(doc => (
+                <span
+                  key={`${doc.documentId}-${doc.page ?? ''}`}
+                  className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-[#ffb800]/10 border border-[#ffb800]/20 rounded text-xs"
+                >
+                  <button
+                    onClick={() => onViewDocument(doc.documentId, doc.page)}
+                    className="text-[#ffb800] hover:underline truncate max-w-48"
+                    title={doc.title}
+                  >
+                    {doc.title}{doc.page ? `, p. ${doc.page}` : ''}
+                  </button>
+                  {onTogglePin && (
+                    <button onClick={() => onTogglePin(doc)} title="Unpin" className="p-0.5 hover:bg-[#ffffff10] rounded">
+                      <X className="w-3 h-3 text-[#606070]" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+          
           {/* Messages area */}
           <div className="flex-1 overflow-y-auto px-4 py-3 space-y-4 min-h-0">
             {messages.length === 0 && !pendingDiscovery && (
@@ -495,7 +772,7 @@ export function InvestigationChat({
                     ? 'bg-[#ffb800]/10 border border-[#ffb800]/20 text-[#ffb800]'
                     : 'bg-[#1a1a24] border border-[#ffffff08] text-[#e0e0e0]'}
                 `}>
-                  {msg.role === 'assistant' && !msg.isStreaming && (
+                  {msg.role === 'assistant' && !(msg.isStreaming && !msg.content) && (
                     <span className="text-[#00d4ff] mr-2">&gt;</span>
                   )}
                   {renderMessageContent(msg)}
@@ -521,14 +798,37 @@ export function InvestigationChat({
                          focus:outline-none focus:border-[#00d4ff]/50 resize-none"
                 disabled={isLoading}
               />
+              {/* Agent mode - the assistant researches with tools (search, connections, paths, pages, timeline) before answering */}
               <button
-                onClick={() => sendMessage(input)}
-                disabled={isLoading || !input.trim()}
-                className="px-4 py-2 bg-[#00d4ff] hover:bg-[#00d4ff]/80 disabled:bg-[#333]
-                         disabled:text-[#666] rounded text-black font-mono text-sm transition-colors"
+                onClick={() => setAgentMode(on => !on)}
+                disabled={isLoading}
+                title={agentMode ? 'Agent mode on - the assistant looks things up step by step' : 'Turn on agent mode'}
+                className={`px-2 py-2 rounded font-mono text-xs flex items-center gap-1 border transition-colors disabled:opacity-50
+                  ${agentMode
+                    ? 'bg-[#ffb800]/15 border-[#ffb800]/40 text-[#ffb800]'
+                    : 'border-[#ffffff15] text-[#606070] hover:text-[#a0a0b0]'}`}
               >
-                <Send className="w-4 h-4" />
+                <Bot className="w-4 h-4" />
+                <span className="hidden sm:inline">AGENT</span>
               </button>
+              {messages.some(msg => msg.isStreaming) ? (
+                <button
+                  onClick={handleCancel}
+                  title="Stop generating"
+                  className="px-4 py-2 bg-[#ff3366]/80 hover:bg-[#ff3366] rounded text-black font-mono text-sm transition-colors"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => sendMessage(input)}
+                  disabled={isLoading || !input.trim()}
+                  className="px-4 py-2 bg-[#00d4ff] hover:bg-[#00d4ff]/80 disabled:bg-[#333]
+                           disabled:text-[#666] rounded text-black font-mono text-sm transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         </>
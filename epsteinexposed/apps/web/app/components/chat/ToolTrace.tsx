@@ -0,0 +1,52 @@
+'use client';
+
+import { Wrench } from 'lucide-react';
+import type { AgentTraceEntry } from '@/lib/investigation-agent';
+
+const STATUS_COLORS: Record<AgentTraceEntry['status'], string> = {
+  ok: 'text-[#00d4ff]',
+  error: 'text-[#ff3366]',
+  skipped: 'text-[#606070]',
+};
+
+// Arguments as the model sent them, compact enough for one line
+function formatArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([key, value]) => `${key}: ${typeof value === 'string' ? `"${value}"` : JSON.stringify(value)}`)
+    .join(', ');
+}
+
+interface ToolTraceProps {
+  trace: AgentTraceEntry[];
+  live?: boolean;   // Still running - kept open so calls show up as they finish
+}
+
+/**
+ * The tool calls behind an agent mode answer
+ */
+export function ToolTrace({ trace, live = false }: ToolTraceProps) {
+  if (trace.length === 0) return null;
+  const steps = new Set(trace.map(entry => entry.step)).size;
+
+  return (
+    <details open={live} className="mb-2 text-xs">
+      <summary className="cursor-pointer text-[#606070] hover:text-[#808090] transition-colors flex items-center gap-1">
+        <Wrench className="w-3 h-3" />
+        {trace.length} tool call{trace.length > 1 ? 's' : ''} in {steps} step{steps > 1 ? 's' : ''}
+      </summary>
+      <ol className="mt-2 space-y-1 pl-2 border-l border-[#ffffff10] font-mono">
+        {trace.map((entry, idx) => (
+          <li key={idx} className="px-2">
+            <span className="text-[#404050] mr-2">{entry.step}</span>
+            <span className={STATUS_COLORS[entry.status]}>{entry.tool}</span>
+            <span className="text-[#606070]">({formatArguments(entry.arguments)})</span>
+            <span className="block text-[11px] text-[#707080]">
+              {entry.summary}
+              {entry.durationMs > 0 && <span className="text-[#404050]"> · {(entry.durationMs / 1000).toFixed(1)}s</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
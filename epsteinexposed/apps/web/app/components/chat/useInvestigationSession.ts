@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { InvestigationSession, InvestigationWorkspace } from '@/lib/investigation-sessions';
+
+// The owner's session id stays in this browser - the address bar only ever carries it briefly
+const STORAGE_KEY = 'epstein_investigation_id';
+const URL_PARAM = 'investigation';
+const SAVE_DELAY = 1000;
+
+const EMPTY_WORKSPACE: InvestigationWorkspace = {
+  title: null,
+  selectedEntities: [],
+  pinnedDocuments: [],
+  viewport: null,
+};
+
+interface UseInvestigationSessionOptions {
+  // Called with the loaded session on resume, and with null when a new investigation starts
+  onRestore?: (session: InvestigationSession | null) => void;
+}
+
+/**
+ * Server-side investigation session for the main page: resumes the last one (or ?investigation=<id>),
+ * creates one lazily on the first question, and saves workspace changes as they happen
+ */
+export function useInvestigationSession({ onRestore }: UseInvestigationSessionOptions = {}) {
+  const [session, setSession] = useState<{ id: string; shareId: string } | null>(null);
+  const [restored, setRestored] = useState<InvestigationSession | null>(null);
+  const [restoreKey, setRestoreKey] = useState(0);
+
+  const sessionRef = useRef<{ id: string; shareId: string } | null>(null);
+  const workspaceRef = useRef<InvestigationWorkspace>({ ...EMPTY_WORKSPACE });
+  const pendingRef = useRef<Partial<InvestigationWorkspace>>({});
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const creatingRef = useRef<Promise<string | null> | null>(null);
+  const unavailableRef = useRef(false);
+  const onRestoreRef = useRef(onRestore);
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  const adopt = useCallback((next: { id: string; shareId: string } | null) => {
+    sessionRef.current = next;
+    setSession(next);
+    try {
+      if (next) localStorage.setItem(STORAGE_KEY, next.id);
+      else localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Private mode - the session still works until the tab closes
+    }
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const current = sessionRef.current;
+    const patch = pendingRef.current;
+    if (!current || Object.keys(patch).length === 0) return;
+    pendingRef.current = {};
+
+    try {
+      const res = await fetch(`/api/investigations/${current.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+        keepalive: true,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    } catch (err) {
+      console.error('[INVESTIGATION] Failed to save workspace:', err);
+    }
+  }, []);
+
+  // Resume on load
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const fromUrl = params.get(URL_PARAM);
+    let id: string | null = fromUrl;
+    if (!id) {
+      try {
+        id = localStorage.getItem(STORAGE_KEY);
+      } catch {
+        id = null;
+      }
+    }
+    if (fromUrl) {
+      params.delete(URL_PARAM);
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    }
+    if (!id) return;
+
+    let cancelled = false;
+    fetch(`/api/investigations/${id}`)
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((data: { session: InvestigationSession }) => {
+        if (cancelled) return;
+        const loaded = data.session;
+        console.log('[INVESTIGATION] Resumed', loaded.id, `(${loaded.messages.length} messages)`);
+        workspaceRef.current = {
+          title: loaded.title,
+          selectedEntities: loaded.selectedEntities,
+          pinnedDocuments: loaded.pinnedDocuments,
+          viewport: loaded.viewport,
+        };
+        adopt({ id: loaded.id, shareId: loaded.shareId });
+        setRestored(loaded);
+        setRestoreKey(key => key + 1);
+        onRestoreRef.current?.(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.warn('[INVESTIGATION] Could not resume', id, err);
+        adopt(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [adopt]);
+
+  // Save whatever is pending when the tab closes
+  useEffect(() => {
+    const handleUnload = () => { void flush(); };
+    window.addEventListener('pagehide', handleUnload);
+    return () => window.removeEventListener('pagehide', handleUnload);
+  }, [flush]);
+
+  /**
+   * Record workspace changes - saved after a short pause once a session exists, and used to seed one otherwise
+   */
+  const saveWorkspace = useCallback((patch: Partial<InvestigationWorkspace>) => {
+    const changed: Partial<InvestigationWorkspace> = {};
+    for (const key of Object.keys(patch) as Array<keyof InvestigationWorkspace>) {
+      if (JSON.stringify(patch[key]) !== JSON.stringify(workspaceRef.current[key])) {
+        Object.assign(changed, { [key]: patch[key] });
+      }
+    }
+    if (Object.keys(changed).length === 0) return;
+
+    workspaceRef.current = { ...workspaceRef.current, ...changed };
+    if (!sessionRef.current) return;
+
+    pendingRef.current = { ...pendingRef.current, ...changed };
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => { void flush(); }, SAVE_DELAY);
+  }, [flush]);
+
+  /**
+   * The current session id, creating the session first if there isn't one yet.
+   * Resolves to null when sessions aren't available - the chat then works unsaved.
+   */
+  const ensureSession = useCallback(async (title: string): Promise<string | null> => {
+    if (sessionRef.current) return sessionRef.current.id;
+    if (unavailableRef.current) return null;
+    if (creatingRef.current) return creatingRef.current;
+
+    creatingRef.current = (async () => {
+      try {
+        const res = await fetch('/api/investigations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...workspaceRef.current, title: workspaceRef.current.title || title.slice(0, 120) }),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: { session: InvestigationSession } = await res.json();
+        console.log('[INVESTIGATION] Started', data.session.id);
+        workspaceRef.current.title = data.session.title;
+        adopt({ id: data.session.id, shareId: data.session.shareId });
+        return data.session.id;
+      } catch (err) {
+        console.warn('[INVESTIGATION] Sessions unavailable, continuing unsaved:', err);
+        unavailableRef.current = true;
+        return null;
+      } finally {
+        creatingRef.current = null;
+      }
+    })();
+    return creatingRef.current;
+  }, [adopt]);
+
+  /**
+   * Leave the current investigation (it stays saved) and start with an empty thread
+   */
+  const startNew = useCallback(() => {
+    void flush();
+    workspaceRef.current = { ...EMPTY_WORKSPACE };
+    pendingRef.current = {};
+    adopt(null);
+    setRestored(null);
+    setRestoreKey(key => key + 1);
+    onRestoreRef.current?.(null);
+  }, [adopt, flush]);
+
+  return {
+    investigationId: session?.id ?? null,
+    shareId: session?.shareId ?? null,
+    restored,
+    restoreKey,
+    ensureSession,
+    saveWorkspace,
+    startNew,
+  };
+}
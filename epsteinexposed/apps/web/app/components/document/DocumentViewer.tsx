@@ -86,6 +86,7 @@ function SmartExternalResources({
 interface DocumentViewerProps {
   documentId: string;
   highlightEntities?: string[];
+  initialPage?: number;
   onClose: () => void;
 }
 
@@ -249,11 +250,11 @@ function EntityInfoPanel({
   );
 }
 
-export function DocumentViewer({ documentId, highlightEntities = [], onClose }: DocumentViewerProps) {
+export function DocumentViewer({ documentId, highlightEntities = [], initialPage = 1, onClose }: DocumentViewerProps) {
   const [loading, setLoading] = useState(true);
   const [docData, setDocData] = useState<DocumentData | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialPage);
   const [totalPages, setTotalPages] = useState(1);
   const [zoom, setZoom] = useState(100);
   
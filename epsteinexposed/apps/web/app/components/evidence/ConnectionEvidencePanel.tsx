@@ -9,10 +9,12 @@ interface DocumentReference {
   path: string;
   pageCount: number;
   dataset: string;
+  pages?: number[];
   mentions: Array<{
     entity: string;
     type: string;
     context?: string;
+    page?: number;
   }>;
 }
 
@@ -162,8 +164,22 @@ export function ConnectionEvidencePanel({
                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
-                          Both &quot;{entity1}&quot; and &quot;{entity2}&quot; appear in this document
+                          {doc.pages && doc.pages.length > 0
+                            ? `Both appear together on page${doc.pages.length > 1 ? 's' : ''} ${doc.pages.slice(0, 5).join(', ')}${doc.pages.length > 5 ? '…' : ''}`
+                            : <>Both &quot;{entity1}&quot; and &quot;{entity2}&quot; appear in this document</>}
                         </div>
+                        
+                        {doc.mentions.some(m => m.context) && (
+                          <div className="ml-6 mt-2 space-y-1">
+                            {doc.mentions.filter(m => m.context).map((m, j) => (
+                              <div key={j} className="text-xs text-gray-400 line-clamp-2">
+                                <span className="text-amber-400/80">{m.entity}</span>
+                                {m.page !== undefined && <span className="text-gray-600"> (p. {m.page})</span>}
+                                : &ldquo;{m.context}&rdquo;
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       
                       <div className="flex-shrink-0 ml-4 opacity-0 group-hover:opacity-100 transition-opacity">
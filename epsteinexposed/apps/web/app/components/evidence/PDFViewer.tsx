@@ -7,15 +7,18 @@ interface PDFViewerProps {
   documentId: string;
   filename: string;
   highlightEntities?: string[];
+  initialPage?: number;
   onClose: () => void;
 }
 
-export function PDFViewer({ documentId, filename, highlightEntities = [], onClose }: PDFViewerProps) {
+export function PDFViewer({ documentId, filename, highlightEntities = [], initialPage, onClose }: PDFViewerProps) {
   const [zoom, setZoom] = useState(100);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   
   const pdfUrl = `/api/pdf/${encodeURIComponent(documentId)}`;
+  // Browser PDF viewers honour the #page open parameter
+  const viewerUrl = initialPage && initialPage > 1 ? `${pdfUrl}#page=${initialPage}` : pdfUrl;
   
   return (
     <AnimatePresence>
@@ -140,7 +143,7 @@ export function PDFViewer({ documentId, filename, highlightEntities = [], onClos
             </div>
           ) : (
             <iframe
-              src={pdfUrl}
+              src={viewerUrl}
               className="bg-white rounded shadow-2xl transition-transform"
               style={{ 
                 width: `${zoom}%`,
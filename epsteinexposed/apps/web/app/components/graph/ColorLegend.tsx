@@ -1,5 +1,8 @@
 'use client';
 
+import { useMemo } from 'react';
+import { useGraphStore } from '@/lib/store/graph-store';
+
 const ENTITY_TYPES = [
   { type: 'person', color: '#00D4FF', label: 'People' },
   { type: 'location', color: '#FF6B35', label: 'Locations' },
@@ -8,23 +11,63 @@ const ENTITY_TYPES = [
   { type: 'flight', color: '#10B981', label: 'Flights' },
 ];
 
+// Same scale as the edge colours - 50 shared documents and up draw as the strongest link
+const MAX_STRENGTH_FILTER = 50;
+
+// Legend and graph filters in one - clicking a type hides or shows it
 export function ColorLegend() {
+  const visibleEntityTypes = useGraphStore(state => state.visibleEntityTypes);
+  const toggleEntityType = useGraphStore(state => state.toggleEntityType);
+  const minStrength = useGraphStore(state => state.minStrength);
+  const setMinStrength = useGraphStore(state => state.setMinStrength);
+  const timeRange = useGraphStore(state => state.timeRange);
+  const setTimeRange = useGraphStore(state => state.setTimeRange);
+  const resetFilters = useGraphStore(state => state.resetFilters);
+  const nodes = useGraphStore(state => state.nodes);
+
+  // Years the loaded entities' documents span (scripts/compute-entity-dates.ts)
+  const years = useMemo(() => {
+    const dated = nodes.filter(n => n.firstSeen && n.lastSeen);
+    if (dated.length === 0) return [];
+    const first = Math.min(...dated.map(n => parseInt(n.firstSeen!.slice(0, 4), 10)));
+    const last = Math.max(...dated.map(n => parseInt(n.lastSeen!.slice(0, 4), 10)));
+    return Array.from({ length: last - first + 1 }, (_, i) => String(first + i));
+  }, [nodes]);
+
+  const filtering = ENTITY_TYPES.some(({ type }) => !visibleEntityTypes.has(type)) || minStrength > 1 || timeRange !== null;
+
   return (
     <div className="absolute bottom-52 left-4 right-4 sm:right-auto z-20 bg-[#0a0a0f]/90 backdrop-blur-md border border-[#ffffff15] rounded-lg p-2.5 sm:p-3 max-w-xs">
-      <div className="text-[9px] sm:text-[10px] text-[#606070] font-mono mb-1.5 sm:mb-2 uppercase tracking-wider">Entity Types</div>
+      <div className="flex items-center justify-between mb-1.5 sm:mb-2">
+        <div className="text-[9px] sm:text-[10px] text-[#606070] font-mono uppercase tracking-wider">Entity Types</div>
+        {filtering && (
+          <button onClick={resetFilters} className="text-[9px] sm:text-[10px] text-cyan-400 hover:text-white font-mono">
+            Reset
+          </button>
+        )}
+      </div>
       <div className="space-y-1 sm:space-y-1.5">
-        {ENTITY_TYPES.map(({ type, color, label }) => (
-          <div key={type} className="flex items-center gap-1.5 sm:gap-2">
-            <div 
-              className="w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full shadow-lg flex-shrink-0" 
-              style={{ 
-                backgroundColor: color,
-                boxShadow: `0 0 8px ${color}40`
-              }} 
-            />
-            <span className="text-[11px] sm:text-xs text-gray-300 font-mono">{label}</span>
-          </div>
-        ))}
+        {ENTITY_TYPES.map(({ type, color, label }) => {
+          const shown = visibleEntityTypes.has(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleEntityType(type)}
+              className={`flex items-center gap-1.5 sm:gap-2 transition-opacity ${shown ? '' : 'opacity-40'}`}
+              title={shown ? `Hide ${label.toLowerCase()}` : `Show ${label.toLowerCase()}`}
+            >
+              <div
+                className="w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full shadow-lg flex-shrink-0"
+                style={{
+                  backgroundColor: shown ? color : 'transparent',
+                  border: `1px solid ${color}`,
+                  boxShadow: shown ? `0 0 8px ${color}40` : 'none'
+                }}
+              />
+              <span className={`text-[11px] sm:text-xs text-gray-300 font-mono ${shown ? '' : 'line-through'}`}>{label}</span>
+            </button>
+          );
+        })}
       </div>
       <div className="mt-2 sm:mt-3 pt-1.5 sm:pt-2 border-t border-[#ffffff10]">
         <div className="text-[9px] sm:text-[10px] text-[#606070] font-mono mb-1 uppercase tracking-wider">Connection Strength</div>
@@ -32,7 +75,45 @@ export function ColorLegend() {
           <div className="h-1 w-6 sm:w-8 bg-gradient-to-r from-[#6496FF] to-[#00FFFF] rounded" />
           <span className="text-[9px] sm:text-[10px] text-gray-400">Weak → Strong</span>
         </div>
+        <label className="flex items-center gap-2 mt-1.5">
+          <input
+            type="range"
+            min={1}
+            max={MAX_STRENGTH_FILTER}
+            value={Math.min(minStrength, MAX_STRENGTH_FILTER)}
+            onChange={(e) => setMinStrength(parseInt(e.target.value, 10))}
+            className="flex-1 accent-cyan-400"
+            title="Hide connections weaker than this"
+          />
+          <span className="text-[9px] sm:text-[10px] text-gray-400 font-mono w-12 text-right">≥ {minStrength}</span>
+        </label>
       </div>
+      {years.length > 0 && (
+        <div className="mt-2 sm:mt-3 pt-1.5 sm:pt-2 border-t border-[#ffffff10]">
+          <div className="text-[9px] sm:text-[10px] text-[#606070] font-mono mb-1 uppercase tracking-wider">Appears In Documents</div>
+          <div className="flex items-center gap-1 text-[10px] sm:text-xs font-mono">
+            <select
+              value={timeRange?.start || ''}
+              onChange={(e) => setTimeRange({ start: e.target.value || null, end: timeRange?.end || null })}
+              className="bg-[#1a1a24] border border-[#ffffff15] rounded px-1 py-0.5 text-gray-300"
+              title="From year"
+            >
+              <option value="">Any</option>
+              {years.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+            <span className="text-gray-600">–</span>
+            <select
+              value={timeRange?.end || ''}
+              onChange={(e) => setTimeRange({ start: timeRange?.start || null, end: e.target.value || null })}
+              className="bg-[#1a1a24] border border-[#ffffff15] rounded px-1 py-0.5 text-gray-300"
+              title="To year"
+            >
+              <option value="">Any</option>
+              {years.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,568 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import type { GraphEdge, GraphNode } from '@/lib/types';
+import { pathEdgeKey, type GraphPath } from '@repo/analysis/paths';
+import { bundleEdges } from '@/lib/utils/edge-bundling';
+import { placeLabels, type LabelCandidate } from '@/lib/utils/label-layout';
+import { RELATION_COLORS } from '@/lib/relationships';
+import { useGraphStore } from '@/lib/store/graph-store';
+import { ENTITY_COLORS, PATH_COLOR } from './graph-colors';
+
+// =============================================================================
+// 2D NETWORK VIEW - the same nodes, edges and selection as the 3D scene, drawn flat with WebGL
+// (three.js points and line segments) and labelled on a canvas on top
+// =============================================================================
+
+interface Graph2DViewProps {
+  nodes: GraphNode[];   // Laid out flat - z is ignored
+  edges: GraphEdge[];
+  activePath?: GraphPath | null;
+  onAnalyzeConnection: (entities: string[], nodeData: GraphNode[]) => void;
+}
+
+// World point at the centre of the canvas, and screen pixels per world unit
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const BACKGROUND = '#0a0a0f';
+const SELECTED_COLOR = '#00FFFF';
+const LABEL_FONT = '12px ui-monospace, SFMono-Regular, Menlo, monospace';
+const LABEL_HEIGHT = 18;
+const LABEL_PADDING = 5;
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 40;
+const FIT_PADDING = 40;
+const DRAG_THRESHOLD = 4;
+
+// Round, soft-edged points sized in screen pixels - nodes stay legible at any zoom
+const NODE_VERTEX_SHADER = `
+  attribute vec3 nodeColor;
+  attribute float nodeSize;
+  attribute float nodeAlpha;
+  uniform float pixelRatio;
+  varying vec3 vColor;
+  varying float vAlpha;
+  void main() {
+    vColor = nodeColor;
+    vAlpha = nodeAlpha;
+    gl_PointSize = nodeSize * pixelRatio;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const NODE_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  varying float vAlpha;
+  void main() {
+    float d = length(gl_PointCoord - vec2(0.5));
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(vColor, vAlpha * smoothstep(0.5, 0.42, d));
+  }
+`;
+
+function nodeRadius(node: GraphNode): number {
+  return 3 + (node.size || 1) * 3;
+}
+
+function pointInPolygon(x: number, y: number, polygon: Array<{ x: number; y: number }>): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+export function Graph2DView({ nodes, edges, activePath, onAnalyzeConnection }: Graph2DViewProps) {
+  const selectedIdList = useGraphStore((state) => state.selectedNodeIds);
+  const setSelection = useGraphStore((state) => state.setSelection);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [bundled, setBundled] = useState(true);
+  const [lassoMode, setLassoMode] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const glRef = useRef<{
+    renderer: THREE.WebGLRenderer;
+    scene: THREE.Scene;
+    camera: THREE.OrthographicCamera;
+    edgeLines: THREE.LineSegments;
+    nodePoints: THREE.Points;
+  } | null>(null);
+  const viewRef = useRef<View>({ x: 0, y: 0, scale: 2 });
+  const fittedRef = useRef(false);
+  const frameRef = useRef<number | null>(null);
+  // What the overlay draws - kept in refs so panning redraws without re-rendering React
+  const drawDataRef = useRef<{
+    nodes: GraphNode[];
+    selected: Set<string>;
+    hovered: string | null;
+    neighbours: Set<string>;
+    pathNodes: Set<string>;
+  }>({ nodes: [], selected: new Set(), hovered: null, neighbours: new Set(), pathNodes: new Set() });
+  const lassoRef = useRef<Array<{ x: number; y: number }> | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View; moved: boolean } | null>(null);
+  const labelWidthsRef = useRef<Map<string, number>>(new Map());
+
+  const selected = useMemo(() => new Set(selectedIdList), [selectedIdList]);
+
+  const toScreen = useCallback((x: number, y: number) => {
+    const container = containerRef.current;
+    const view = viewRef.current;
+    const width = container?.clientWidth || 0;
+    const height = container?.clientHeight || 0;
+    return { x: (x - view.x) * view.scale + width / 2, y: (view.y - y) * view.scale + height / 2 };
+  }, []);
+
+  // Labels, selection rings and the lasso, in CSS pixels
+  const drawOverlay = useCallback(() => {
+    const canvas = overlayRef.current;
+    const container = containerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !container || !ctx) return;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const { nodes: drawn, selected: selectedIds, hovered, neighbours, pathNodes } = drawDataRef.current;
+    const onScreen = drawn
+      .map((node) => ({ node, ...toScreen(node.x, node.y), radius: nodeRadius(node) }))
+      .filter((p) => p.x >= -p.radius && p.x <= width + p.radius && p.y >= -p.radius && p.y <= height + p.radius);
+
+    ctx.lineWidth = 2;
+    for (const p of onScreen) {
+      if (!selectedIds.has(p.node.id) && p.node.id !== hovered) continue;
+      ctx.strokeStyle = selectedIds.has(p.node.id) ? SELECTED_COLOR : '#ffffff';
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, p.radius + 3, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Selected, hovered, on the traced path, next to the selection, then the best connected
+    ctx.font = LABEL_FONT;
+    const widths = labelWidthsRef.current;
+    const candidates: LabelCandidate[] = onScreen.map((p) => {
+      const text = p.node.pinned ? `📌 ${p.node.name}` : p.node.name;
+      let textWidth = widths.get(text);
+      if (textWidth === undefined) {
+        textWidth = ctx.measureText(text).width;
+        widths.set(text, textWidth);
+      }
+      const id = p.node.id;
+      const priority = selectedIds.has(id) ? 4e9
+        : id === hovered ? 3e9
+        : pathNodes.has(id) ? 2e9
+        : neighbours.has(id) ? 1e9 + p.node.connectionCount
+        : p.node.connectionCount;
+      return { id, x: p.x, y: p.y, radius: p.radius, width: textWidth + LABEL_PADDING * 2, height: LABEL_HEIGHT, priority };
+    });
+    const byId = new Map(onScreen.map((p) => [p.node.id, p.node]));
+    const labels = placeLabels(candidates, { width, height }, onScreen);
+
+    ctx.textBaseline = 'middle';
+    for (const label of labels) {
+      const node = byId.get(label.id);
+      if (!node) continue;
+      const isSelected = selectedIds.has(label.id);
+      ctx.fillStyle = isSelected ? 'rgba(0,255,255,0.95)' : 'rgba(0,0,0,0.8)';
+      ctx.fillRect(label.x, label.y, label.width, label.height);
+      ctx.fillStyle = isSelected ? '#000000' : '#ffffff';
+      ctx.fillText(node.pinned ? `📌 ${node.name}` : node.name, label.x + LABEL_PADDING, label.y + label.height / 2);
+    }
+
+    const lasso = lassoRef.current;
+    if (lasso && lasso.length > 1) {
+      ctx.setLineDash([6, 4]);
+      ctx.strokeStyle = SELECTED_COLOR;
+      ctx.fillStyle = 'rgba(0,255,255,0.08)';
+      ctx.beginPath();
+      lasso.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }, [toScreen]);
+
+  const draw = useCallback(() => {
+    const gl = glRef.current;
+    const container = containerRef.current;
+    if (!gl || !container) return;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const view = viewRef.current;
+    gl.camera.left = view.x - width / 2 / view.scale;
+    gl.camera.right = view.x + width / 2 / view.scale;
+    gl.camera.top = view.y + height / 2 / view.scale;
+    gl.camera.bottom = view.y - height / 2 / view.scale;
+    gl.camera.updateProjectionMatrix();
+    gl.renderer.render(gl.scene, gl.camera);
+    drawOverlay();
+  }, [drawOverlay]);
+
+  // Panning and zooming only move the camera - one frame at most per animation frame
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      draw();
+    });
+  }, [draw]);
+
+  const fitView = useCallback(() => {
+    const container = containerRef.current;
+    const drawn = drawDataRef.current.nodes;
+    if (!container || drawn.length === 0) return;
+    const xs = drawn.map((n) => n.x);
+    const ys = drawn.map((n) => n.y);
+    const minX = Math.min(...xs);
+    const maxX = Math.max(...xs);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    const scale = Math.min(
+      (container.clientWidth - FIT_PADDING * 2) / Math.max(maxX - minX, 1),
+      (container.clientHeight - FIT_PADDING * 2) / Math.max(maxY - minY, 1)
+    );
+    viewRef.current = {
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+      scale: Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE),
+    };
+    scheduleDraw();
+  }, [scheduleDraw]);
+
+  // WebGL setup, resizing and wheel zoom - once
+  useEffect(() => {
+    const canvas = glCanvasRef.current;
+    const overlay = overlayRef.current;
+    const container = containerRef.current;
+    if (!canvas || !overlay || !container) return;
+
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+    } catch (err) {
+      console.error('[GRAPH 2D] WebGL unavailable:', err);
+      return;
+    }
+    renderer.setClearColor(BACKGROUND);
+    const scene = new THREE.Scene();
+    const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, -10, 10);
+    const edgeLines = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, depthTest: false })
+    );
+    const nodePoints = new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.ShaderMaterial({
+        uniforms: { pixelRatio: { value: window.devicePixelRatio || 1 } },
+        vertexShader: NODE_VERTEX_SHADER,
+        fragmentShader: NODE_FRAGMENT_SHADER,
+        transparent: true,
+        depthTest: false,
+      })
+    );
+    edgeLines.frustumCulled = false;
+    nodePoints.frustumCulled = false;
+    scene.add(edgeLines, nodePoints);
+    glRef.current = { renderer, scene, camera, edgeLines, nodePoints };
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      renderer.setPixelRatio(dpr);
+      renderer.setSize(container.clientWidth, container.clientHeight, false);
+      overlay.width = Math.round(container.clientWidth * dpr);
+      overlay.height = Math.round(container.clientHeight * dpr);
+      draw();
+    };
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    resize();
+
+    // Zoom around the cursor - a native listener, since React's wheel events can't preventDefault
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = overlay.getBoundingClientRect();
+      const mx = e.clientX - rect.left;
+      const my = e.clientY - rect.top;
+      const view = viewRef.current;
+      const wx = view.x + (mx - rect.width / 2) / view.scale;
+      const wy = view.y - (my - rect.height / 2) / view.scale;
+      const scale = Math.min(Math.max(view.scale * Math.exp(-e.deltaY * 0.0015), MIN_SCALE), MAX_SCALE);
+      viewRef.current = { x: wx - (mx - rect.width / 2) / scale, y: wy + (my - rect.height / 2) / scale, scale };
+      scheduleDraw();
+    };
+    overlay.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      overlay.removeEventListener('wheel', handleWheel);
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+      edgeLines.geometry.dispose();
+      (edgeLines.material as THREE.Material).dispose();
+      nodePoints.geometry.dispose();
+      (nodePoints.material as THREE.Material).dispose();
+      renderer.dispose();
+      glRef.current = null;
+    };
+  }, [draw, scheduleDraw]);
+
+  // Rebuild the buffers when the graph, the selection or the highlight changes
+  useEffect(() => {
+    const gl = glRef.current;
+    if (!gl) return;
+
+    const neighbours = new Set<string>();
+    const highlightIds = new Set(selected);
+    if (hoveredId) highlightIds.add(hoveredId);
+    edges.forEach((e) => {
+      if (highlightIds.has(e.source)) neighbours.add(e.target);
+      if (highlightIds.has(e.target)) neighbours.add(e.source);
+    });
+    const pathNodes = new Set(activePath?.nodes || []);
+    const pathEdges = new Set((activePath?.edges || []).map((e) => pathEdgeKey(e.source, e.target)));
+    const dimOthers = highlightIds.size > 0 || pathNodes.size > 0;
+
+    // Edges
+    const positions = new Map(nodes.map((n) => [n.id, { x: n.x, y: n.y }]));
+    const polylines = bundleEdges(positions, edges, bundled ? {} : { strength: 0 });
+    const edgeVertices: number[] = [];
+    const edgeColors: number[] = [];
+    const color = new THREE.Color();
+    edges.forEach((edge, i) => {
+      const line = polylines[i] || [];
+      if (line.length < 2) return;
+      const onPath = pathEdges.has(pathEdgeKey(edge.source, edge.target));
+      const highlighted = highlightIds.has(edge.source) || highlightIds.has(edge.target);
+      const strengthNorm = Math.min(edge.weight / 50, 1);
+      if (onPath) color.set(PATH_COLOR);
+      else if (highlighted) color.set(SELECTED_COLOR);
+      else if (edge.relationType) color.set(RELATION_COLORS[edge.relationType]);
+      else color.setHSL(200 / 360, 0.5 + strengthNorm * 0.5, 0.4 + strengthNorm * 0.3);
+      const alpha = onPath || highlighted ? 0.95 : dimOthers ? 0.08 : 0.2 + strengthNorm * 0.4;
+      for (let j = 0; j < line.length - 1; j++) {
+        const a = line[j]!;
+        const b = line[j + 1]!;
+        edgeVertices.push(a.x, a.y, 0, b.x, b.y, 0);
+        edgeColors.push(color.r, color.g, color.b, alpha, color.r, color.g, color.b, alpha);
+      }
+    });
+    const edgeGeometry = new THREE.BufferGeometry();
+    edgeGeometry.setAttribute('position', new THREE.Float32BufferAttribute(edgeVertices, 3));
+    edgeGeometry.setAttribute('color', new THREE.Float32BufferAttribute(edgeColors, 4));
+    gl.edgeLines.geometry.dispose();
+    gl.edgeLines.geometry = edgeGeometry;
+
+    // Nodes - highlighted ones last so they draw on top
+    const rank = (n: GraphNode) => (selected.has(n.id) ? 3 : n.id === hoveredId || pathNodes.has(n.id) ? 2 : neighbours.has(n.id) ? 1 : 0);
+    const ordered = [...nodes].sort((a, b) => rank(a) - rank(b));
+    const nodeVertices: number[] = [];
+    const nodeColors: number[] = [];
+    const nodeSizes: number[] = [];
+    const nodeAlphas: number[] = [];
+    for (const node of ordered) {
+      const r = rank(node);
+      color.set(selected.has(node.id) ? '#ffffff' : ENTITY_COLORS[node.type] || ENTITY_COLORS.other!);
+      nodeVertices.push(node.x, node.y, 0);
+      nodeColors.push(color.r, color.g, color.b);
+      nodeSizes.push(nodeRadius(node) * 2);
+      nodeAlphas.push(dimOthers && r === 0 ? 0.35 : 1);
+    }
+    const nodeGeometry = new THREE.BufferGeometry();
+    nodeGeometry.setAttribute('position', new THREE.Float32BufferAttribute(nodeVertices, 3));
+    nodeGeometry.setAttribute('nodeColor', new THREE.Float32BufferAttribute(nodeColors, 3));
+    nodeGeometry.setAttribute('nodeSize', new THREE.Float32BufferAttribute(nodeSizes, 1));
+    nodeGeometry.setAttribute('nodeAlpha', new THREE.Float32BufferAttribute(nodeAlphas, 1));
+    gl.nodePoints.geometry.dispose();
+    gl.nodePoints.geometry = nodeGeometry;
+
+    drawDataRef.current = { nodes, selected, hovered: hoveredId, neighbours, pathNodes };
+    if (!fittedRef.current && nodes.length > 0) {
+      fittedRef.current = true;
+      fitView();
+    }
+    scheduleDraw();
+  }, [nodes, edges, selected, hoveredId, bundled, activePath, fitView, scheduleDraw]);
+
+  // The node under a screen point, if any
+  const hitTest = useCallback((x: number, y: number): GraphNode | null => {
+    let best: GraphNode | null = null;
+    let bestDistance = Infinity;
+    for (const node of drawDataRef.current.nodes) {
+      const p = toScreen(node.x, node.y);
+      const distance = Math.hypot(p.x - x, p.y - y);
+      if (distance <= nodeRadius(node) + 3 && distance < bestDistance) {
+        best = node;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }, [toScreen]);
+
+  const localPoint = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = localPoint(e);
+    if (lassoMode || e.shiftKey) {
+      lassoRef.current = [p];
+      return;
+    }
+    dragRef.current = { ...p, view: viewRef.current, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = localPoint(e);
+    if (lassoRef.current) {
+      lassoRef.current.push(p);
+      scheduleDraw();
+      return;
+    }
+    const drag = dragRef.current;
+    if (drag) {
+      if (!drag.moved && Math.hypot(p.x - drag.x, p.y - drag.y) < DRAG_THRESHOLD) return;
+      drag.moved = true;
+      viewRef.current = {
+        ...drag.view,
+        x: drag.view.x - (p.x - drag.x) / drag.view.scale,
+        y: drag.view.y + (p.y - drag.y) / drag.view.scale,
+      };
+      scheduleDraw();
+      return;
+    }
+    const hit = hitTest(p.x, p.y);
+    e.currentTarget.style.cursor = hit ? 'pointer' : lassoMode ? 'crosshair' : 'grab';
+    if ((hit?.id || null) !== hoveredId) setHoveredId(hit?.id || null);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const multi = e.ctrlKey || e.metaKey;
+    const current = useGraphStore.getState().selectedNodeIds;
+
+    // Lasso - everything inside joins the selection with Ctrl/⌘, replaces it otherwise
+    const lasso = lassoRef.current;
+    if (lasso) {
+      lassoRef.current = null;
+      if (lasso.length > 2) {
+        const inside = drawDataRef.current.nodes
+          .filter((node) => {
+            const p = toScreen(node.x, node.y);
+            return pointInPolygon(p.x, p.y, lasso);
+          })
+          .map((node) => node.id);
+        console.log('[GRAPH 2D] Lasso selected', inside.length, 'nodes');
+        setSelection(multi ? [...current, ...inside] : inside);
+      }
+      scheduleDraw();
+      return;
+    }
+
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+
+    // A click - same rules as the 3D scene
+    const p = localPoint(e);
+    const node = hitTest(p.x, p.y);
+    if (!node) return;
+    const next = multi
+      ? current.includes(node.id) ? current.filter((id) => id !== node.id) : [...current, node.id]
+      : current.length === 1 && current[0] === node.id ? [] : [node.id];
+    setSelection(next);
+    if (next.length >= 2) {
+      const byId = new Map(drawDataRef.current.nodes.map((n) => [n.id, n]));
+      const selectedNodes = next.map((id) => byId.get(id)).filter(Boolean) as GraphNode[];
+      setTimeout(() => onAnalyzeConnection(selectedNodes.map((n) => n.name), selectedNodes), 100);
+    }
+  };
+
+  // One PNG of the WebGL canvas and the labels on top, for reports
+  const handleSnapshot = useCallback(() => {
+    const gl = glRef.current;
+    const overlay = overlayRef.current;
+    if (!gl || !overlay) return;
+    draw();
+    const snapshot = document.createElement('canvas');
+    snapshot.width = overlay.width;
+    snapshot.height = overlay.height;
+    const ctx = snapshot.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, snapshot.width, snapshot.height);
+    // Read in the same task as the render, before the WebGL buffer is cleared
+    ctx.drawImage(gl.renderer.domElement, 0, 0, snapshot.width, snapshot.height);
+    ctx.drawImage(overlay, 0, 0);
+    snapshot.toBlob((blob) => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `network-${new Date().toISOString().slice(0, 10)}.png`;
+      link.click();
+      URL.revokeObjectURL(url);
+    }, 'image/png');
+  }, [draw]);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0" style={{ background: BACKGROUND }}>
+      <canvas ref={glCanvasRef} className="absolute inset-0 w-full h-full" />
+      <canvas
+        ref={overlayRef}
+        className="absolute inset-0 w-full h-full touch-none"
+        style={{ cursor: lassoMode ? 'crosshair' : 'grab' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setHoveredId(null)}
+      />
+
+      <div className="absolute bottom-4 right-4 flex items-center gap-2 text-xs font-mono">
+        <button
+          onClick={() => setLassoMode((on) => !on)}
+          className={`bg-black/80 backdrop-blur px-3 py-2 rounded-lg border transition-all ${
+            lassoMode ? 'border-cyan-400 text-black bg-cyan-400' : 'border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20'
+          }`}
+          title="Draw around nodes to select them (or Shift+drag). Ctrl/⌘ adds to the selection"
+        >
+          Lasso
+        </button>
+        <button
+          onClick={() => setBundled((on) => !on)}
+          className={`bg-black/80 backdrop-blur px-3 py-2 rounded-lg border transition-all ${
+            bundled ? 'border-cyan-400 text-cyan-300' : 'border-cyan-500/30 text-gray-400 hover:bg-cyan-500/20'
+          }`}
+          title="Bundle edges between dense clusters"
+        >
+          Bundle
+        </button>
+        <button
+          onClick={fitView}
+          className="bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20"
+          title="Fit the graph to the view"
+        >
+          Fit
+        </button>
+        <button
+          onClick={handleSnapshot}
+          className="bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20"
+          title="Download the view as a PNG"
+        >
+          PNG
+        </button>
+      </div>
+    </div>
+  );
+}
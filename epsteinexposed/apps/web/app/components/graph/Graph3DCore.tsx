@@ -1,38 +1,116 @@
 'use client';
 
 import { useRef, useState, useEffect, useMemo, useCallback } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Html, Line } from '@react-three/drei';
 import * as THREE from 'three';
+import { pathEdgeKey, type GraphPath, type PathWeighting } from '@repo/analysis/paths';
+import { calculateNodeSize } from '@/lib/utils/graph-physics';
+import type { ForceLayoutConfig, LayoutNode, LayoutWorkerRequest, LayoutWorkerResponse, Vec3 } from '@/lib/utils/force-layout';
+import type { CentralityMetric, CentralityScores, GraphEdge, GraphNode } from '@/lib/types';
+import type { GraphViewport } from '@/lib/investigation-sessions';
+import type { EntityPath } from '@/lib/entity-paths';
+import { isEntityRole, ROLE_COLORS, ROLE_LABELS } from '@/lib/entity-roles';
+import { isRelationType, RELATION_COLORS, RELATION_LABELS, RELATION_TYPES, RELATION_VERBS, type RelationType } from '@/lib/relationships';
+import { edgeKey, filterGraph, useGraphStore } from '@/lib/store/graph-store';
+import { GRAPH_EXPORT_FILES, GRAPH_EXPORT_FORMATS, parseGraphExportFormat, type GraphExportFormat } from '@/lib/graph-export';
+import { ENTITY_COLORS, PATH_COLOR } from './graph-colors';
+import { Graph2DView } from './Graph2DView';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface NodeData {
+type NodeSizeMetric = 'connections' | CentralityMetric;
+
+const NODE_SIZE_OPTIONS: Array<{ value: NodeSizeMetric; label: string }> = [
+  { value: 'connections', label: 'Size: connections' },
+  { value: 'betweenness', label: 'Size: betweenness (brokers)' },
+  { value: 'eigenvector', label: 'Size: eigenvector' },
+  { value: 'pageRank', label: 'Size: PageRank' },
+  { value: 'weightedDegree', label: 'Size: weighted degree' },
+];
+
+// calculateNodeSize tops out around 1.8, scene nodes around 3
+const CENTRALITY_SIZE_SCALE = 1.7;
+
+// '' shows co-occurrence edges, anything else asks /api/graph for typed relationships
+type EdgeFilter = '' | 'all' | RelationType;
+
+// Nodes and edges as /api/graph and /api/graph/neighbors return them
+interface RawGraphNode {
   id: string;
-  name: string;
-  label: string;
-  type: string;
-  x: number;
-  y: number;
-  z: number;
-  size: number;
-  connectionCount: number;
-  connections: number;
-  documentCount: number;
-  connectedEntities?: string[];
+  name?: string;
+  label?: string;
+  type?: string;
+  connectionCount?: number;
+  connections?: number;
+  documentCount?: number;
+  document_count?: number;
+  centrality?: CentralityScores | null;
+  role?: unknown;
+  firstSeen?: string | null;
+  lastSeen?: string | null;
 }
 
-interface EdgeData {
-  source: string;
-  target: string;
-  weight: number;
+interface RawGraphEdge {
+  source?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+  entity_a_id?: string;
+  entity_b_id?: string;
+  strength?: number;
+  weight?: number;
+  relationType?: unknown;
+  directed?: boolean;
 }
 
+// Sized against the most connected node already loaded
+function toGraphNode(node: RawGraphNode, [x, y, z]: Vec3, maxConn: number): GraphNode {
+  const connCount = node.connectionCount || node.connections || 1;
+  const connRatio = Math.min(connCount / maxConn, 1);
+  const nodeName = node.label || node.name || 'Unknown';
+  return {
+    id: node.id,
+    name: nodeName,
+    label: nodeName,
+    type: node.type || 'other',
+    x,
+    y,
+    z,
+    size: Math.max(0.5, Math.min(connRatio * 4 + 0.5, 3)),
+    connectionCount: connCount,
+    connections: connCount,
+    documentCount: node.documentCount || node.document_count || 0,
+    centrality: node.centrality || null,
+    role: isEntityRole(node.role) ? node.role : null,
+    firstSeen: node.firstSeen || null,
+    lastSeen: node.lastSeen || null,
+  };
+}
+
+function toGraphEdge(e: RawGraphEdge): GraphEdge {
+  return {
+    source: e.from || e.source || e.entity_a_id || '',
+    target: e.to || e.target || e.entity_b_id || '',
+    weight: e.strength || e.weight || 1,
+    relationType: isRelationType(e.relationType) ? e.relationType : undefined,
+    directed: Boolean(e.directed),
+  };
+}
+
+// Nodes and edges one expansion added to the graph
+interface Expansion {
+  nodeIds: string[];
+  edgeKeys: string[];
+}
+
+// Selection, the loaded graph and its filters live in the graph store (lib/store/graph-store.ts)
 interface Graph3DCoreProps {
-  onNodeSelect?: (node: NodeData | null) => void;
-  onAnalyzeConnection?: (entities: string[], nodeData: NodeData[]) => void;
+  onAnalyzeConnection?: (entities: string[], nodeData: GraphNode[]) => void;
+  viewport?: GraphViewport | null;                       // Camera to restore, e.g. from a saved investigation
+  onViewportChange?: (viewport: GraphViewport) => void;  // After the user pans, zooms or rotates
 }
 
 // =============================================================================
@@ -43,27 +121,12 @@ const CACHE_KEY = 'epstein_graph_cache';
 const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes
 
 interface CachedGraphData {
-  nodes: NodeData[];
-  edges: EdgeData[];
+  nodes: GraphNode[];
+  edges: GraphEdge[];
   timestamp: number;
   offset: number;
 }
 
-// =============================================================================
-// VIBRANT COLOR PALETTE
-// =============================================================================
-
-const ENTITY_COLORS: Record<string, string> = {
-  person: '#00D4FF',
-  location: '#FF6B35',
-  organization: '#9333EA',
-  date: '#FBBF24',
-  flight: '#10B981',
-  phone: '#EC4899',
-  email: '#3B82F6',
-  other: '#6B7280',
-};
-
 // =============================================================================
 // GLOBAL ANIMATION CLOCK COMPONENT
 // =============================================================================
@@ -89,7 +152,7 @@ function AnimatedNode({
   onHover,
   globalTime,
 }: {
-  node: NodeData;
+  node: GraphNode;
   isSelected: boolean;
   isConnected: boolean;
   showLabel: boolean;
@@ -198,9 +261,11 @@ function AnimatedNode({
                 ✓ Selected
               </div>
             )}
+            {node.pinned && <span title="Pinned">📌 </span>}
             {node.name}
             <div className="text-[10px] opacity-80 font-normal mt-0.5">
               {node.documentCount} docs · {node.connectionCount} links
+              {node.role && <span style={{ color: ROLE_COLORS[node.role] }}> · {ROLE_LABELS[node.role]}</span>}
             </div>
           </div>
         </Html>
@@ -234,19 +299,25 @@ function ConnectionLine({
   edge,
   nodeMap,
   isHighlighted,
+  isOnPath = false,
 }: {
-  edge: EdgeData;
-  nodeMap: Map<string, NodeData>;
+  edge: GraphEdge;
+  nodeMap: Map<string, GraphNode>;
   isHighlighted: boolean;
+  isOnPath?: boolean;
 }) {
   const source = nodeMap.get(edge.source);
   const target = nodeMap.get(edge.target);
   if (!source || !target) return null;
 
   const strengthNorm = Math.min(edge.weight / 50, 1);
-  const opacity = isHighlighted ? 0.9 : 0.2 + strengthNorm * 0.4;
-  const lineWidth = isHighlighted ? 3 : 1 + strengthNorm * 1.5;
-  const color = isHighlighted ? '#00FFFF' : `hsl(200, ${50 + strengthNorm * 50}%, ${40 + strengthNorm * 30}%)`;
+  const opacity = isOnPath ? 1 : isHighlighted ? 0.9 : 0.2 + strengthNorm * 0.4;
+  const lineWidth = isOnPath ? 5 : isHighlighted ? 3 : 1 + strengthNorm * 1.5;
+  const color = isOnPath
+    ? PATH_COLOR
+    : isHighlighted ? '#00FFFF'
+    : edge.relationType ? RELATION_COLORS[edge.relationType]
+    : `hsl(200, ${50 + strengthNorm * 50}%, ${40 + strengthNorm * 30}%)`;
 
   return (
     <Line
@@ -269,19 +340,52 @@ function ConnectionLine({
 function GraphScene({
   nodes,
   edges,
-  onNodeSelect,
   onAnalyzeConnection,
+  activePath,
+  viewport,
+  onViewportChange,
 }: {
-  nodes: NodeData[];
-  edges: EdgeData[];
-  onNodeSelect: (node: NodeData | null) => void;
-  onAnalyzeConnection: (entities: string[], nodeData: NodeData[]) => void;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  onAnalyzeConnection: (entities: string[], nodeData: GraphNode[]) => void;
+  activePath?: GraphPath | null;
+  viewport?: GraphViewport | null;
+  onViewportChange?: (viewport: GraphViewport) => void;
 }) {
-  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
+  const selectedIdList = useGraphStore((state) => state.selectedNodeIds);
+  const setSelection = useGraphStore((state) => state.setSelection);
+  const selectedNodeIds = useMemo(() => new Set(selectedIdList), [selectedIdList]);
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const camera = useThree((state) => state.camera);
+
+  // Restore a saved camera - a restored view stays put instead of auto-rotating away
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!viewport || !controls) return;
+    camera.position.set(...viewport.position);
+    controls.target.set(...viewport.target);
+    controls.update();
+  }, [viewport, camera]);
+
+  const handleControlsEnd = useCallback(() => {
+    const controls = controlsRef.current;
+    if (!controls || !onViewportChange) return;
+    onViewportChange({
+      position: camera.position.toArray().map(round) as GraphViewport['position'],
+      target: controls.target.toArray().map(round) as GraphViewport['target'],
+    });
+  }, [camera, onViewportChange]);
+
+  // Nodes and edges on the traced path get their own highlight
+  const pathNodeIds = useMemo(() => new Set(activePath?.nodes || []), [activePath]);
+  const pathEdgeKeys = useMemo(
+    () => new Set((activePath?.edges || []).map((e) => pathEdgeKey(e.source, e.target))),
+    [activePath]
+  );
 
   const nodeMap = useMemo(() => {
-    const map = new Map<string, NodeData>();
+    const map = new Map<string, GraphNode>();
     nodes.forEach((n) => map.set(n.id, n));
     return map;
   }, [nodes]);
@@ -318,68 +422,28 @@ function GraphScene({
   }, [nodes]);
 
   const handleNodeClick = useCallback(
-    (node: NodeData, e: React.MouseEvent) => {
+    (node: GraphNode, e: React.MouseEvent) => {
       const ctrlKey = e.ctrlKey || e.metaKey;
-      
-      setSelectedNodeIds(prev => {
-        const newSet = new Set(prev);
-        
-        if (ctrlKey) {
-          // Multi-select: toggle this node
-          if (newSet.has(node.id)) {
-            newSet.delete(node.id);
-          } else {
-            newSet.add(node.id);
-          }
-        } else {
-          // Single select: clear and select only this
-          if (newSet.size === 1 && newSet.has(node.id)) {
-            newSet.clear(); // Deselect if clicking same node
-          } else {
-            newSet.clear();
-            newSet.add(node.id);
-          }
-        }
-        
-        // Trigger connection analysis when 2+ nodes selected
-        if (newSet.size >= 2) {
-          const selectedNodes = Array.from(newSet).map(id => nodeMap.get(id)).filter(Boolean) as NodeData[];
-          const names = selectedNodes.map(n => n.name);
-          setTimeout(() => onAnalyzeConnection(names, selectedNodes), 100);
-        }
-        
-        // Update single node select for sidebar - include connected entity names
-        if (newSet.size === 1) {
-          const singleId = Array.from(newSet)[0] as string;
-          const selectedNode = nodeMap.get(singleId);
-          if (selectedNode) {
-            // Find all entities connected to this node
-            const connectedEntityNames: string[] = [];
-            edges.forEach(edge => {
-              if (edge.source === singleId) {
-                const targetNode = nodeMap.get(edge.target);
-                if (targetNode) connectedEntityNames.push(targetNode.name);
-              } else if (edge.target === singleId) {
-                const sourceNode = nodeMap.get(edge.source);
-                if (sourceNode) connectedEntityNames.push(sourceNode.name);
-              }
-            });
-            // Pass node with connected entities
-            onNodeSelect({
-              ...selectedNode,
-              connectedEntities: connectedEntityNames
-            });
-          } else {
-            onNodeSelect(null);
-          }
-        } else if (newSet.size === 0) {
-          onNodeSelect(null);
-        }
-        
-        return newSet;
-      });
+      const current = useGraphStore.getState().selectedNodeIds;
+      let next: string[];
+
+      if (ctrlKey) {
+        // Multi-select: toggle this node
+        next = current.includes(node.id) ? current.filter((id) => id !== node.id) : [...current, node.id];
+      } else {
+        // Single select - clicking the only selected node again deselects it
+        next = current.length === 1 && current[0] === node.id ? [] : [node.id];
+      }
+      setSelection(next);
+
+      // Trigger connection analysis when 2+ nodes selected
+      if (next.length >= 2) {
+        const selectedNodes = next.map(id => nodeMap.get(id)).filter(Boolean) as GraphNode[];
+        const names = selectedNodes.map(n => n.name);
+        setTimeout(() => onAnalyzeConnection(names, selectedNodes), 100);
+      }
     },
-    [nodeMap, onNodeSelect, onAnalyzeConnection]
+    [nodeMap, setSelection, onAnalyzeConnection]
   );
 
   const handleNodeHover = useCallback((nodeId: string, hovering: boolean) => {
@@ -401,6 +465,7 @@ function GraphScene({
           key={`${edge.source}-${edge.target}-${i}`}
           edge={edge}
           nodeMap={nodeMap}
+          isOnPath={pathEdgeKeys.has(pathEdgeKey(edge.source, edge.target))}
           isHighlighted={
             selectedNodeIds.has(edge.source) ||
             selectedNodeIds.has(edge.target) ||
@@ -412,8 +477,8 @@ function GraphScene({
         />
       ))}
 
-      {/* Special highlight line between selected nodes */}
-      {selectedNodeIds.size >= 2 && (() => {
+      {/* Special highlight line between selected nodes (hidden while a path is traced) */}
+      {selectedNodeIds.size >= 2 && !activePath && (() => {
         const ids = Array.from(selectedNodeIds) as string[];
         const lines: React.ReactNode[] = [];
         for (let i = 0; i < ids.length; i++) {
@@ -445,11 +510,12 @@ function GraphScene({
           key={node.id}
           node={node}
           isSelected={selectedNodeIds.has(node.id)}
-          isConnected={highlightedNodeIds.has(node.id)}
+          isConnected={highlightedNodeIds.has(node.id) || pathNodeIds.has(node.id)}
           showLabel={
             selectedNodeIds.has(node.id) || 
             hoveredNodeId === node.id || 
-            highlightedNodeIds.has(node.id)
+            highlightedNodeIds.has(node.id) ||
+            pathNodeIds.has(node.id)
           }
           onClick={(e) => handleNodeClick(node, e)}
           onHover={(hovering) => handleNodeHover(node.id, hovering)}
@@ -458,13 +524,15 @@ function GraphScene({
       ))}
 
       <OrbitControls 
+        ref={controlsRef}
         enablePan 
         enableZoom 
         enableRotate 
         minDistance={20} 
         maxDistance={500}
-        autoRotate={selectedNodeIds.size === 0}
+        autoRotate={selectedNodeIds.size === 0 && !viewport}
         autoRotateSpeed={0.3}
+        onEnd={handleControlsEnd}
       />
       
       {/* Fog for depth perception */}
@@ -473,10 +541,18 @@ function GraphScene({
   );
 }
 
-function getCachedGraph(offset: number): CachedGraphData | null {
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function cacheKey(offset: number, edgeFilter: EdgeFilter): string {
+  return edgeFilter ? `${CACHE_KEY}_${offset}_${edgeFilter}` : `${CACHE_KEY}_${offset}`;
+}
+
+function getCachedGraph(offset: number, edgeFilter: EdgeFilter): CachedGraphData | null {
   if (typeof window === 'undefined') return null;
   try {
-    const cached = localStorage.getItem(`${CACHE_KEY}_${offset}`);
+    const cached = localStorage.getItem(cacheKey(offset, edgeFilter));
     if (!cached) return null;
     const data: CachedGraphData = JSON.parse(cached);
     // Check if cache is still valid
@@ -485,18 +561,18 @@ function getCachedGraph(offset: number): CachedGraphData | null {
       return data;
     }
     // Cache expired, remove it
-    localStorage.removeItem(`${CACHE_KEY}_${offset}`);
+    localStorage.removeItem(cacheKey(offset, edgeFilter));
     return null;
   } catch {
     return null;
   }
 }
 
-function setCachedGraph(nodes: NodeData[], edges: EdgeData[], offset: number): void {
+function setCachedGraph(nodes: GraphNode[], edges: GraphEdge[], offset: number, edgeFilter: EdgeFilter): void {
   if (typeof window === 'undefined') return;
   try {
     const data: CachedGraphData = { nodes, edges, timestamp: Date.now(), offset };
-    localStorage.setItem(`${CACHE_KEY}_${offset}`, JSON.stringify(data));
+    localStorage.setItem(cacheKey(offset, edgeFilter), JSON.stringify(data));
     console.log('[GRAPH] Cached', nodes.length, 'nodes,', edges.length, 'edges');
   } catch (e) {
     // localStorage might be full, clear old caches
@@ -510,21 +586,392 @@ function setCachedGraph(nodes: NodeData[], edges: EdgeData[], offset: number): v
   }
 }
 
-export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCoreProps) {
-  const [nodes, setNodes] = useState<NodeData[]>([]);
-  const [edges, setEdges] = useState<EdgeData[]>([]);
+// =============================================================================
+// FORCE-DIRECTED LAYOUT - computed in a Web Worker, cached next to the graph
+// =============================================================================
+
+const LAYOUT_CACHE_EXPIRY = 24 * 60 * 60 * 1000; // A settled layout holds as long as the graph does
+const INCREMENTAL_LAYOUT_ALPHA = 0.3;
+const FLAT_LAYOUT: Partial<ForceLayoutConfig> = { dimensions: 2 };
+const NO_NODES: GraphNode[] = [];
+
+// 3D or the flat 2D view - remembered per browser, 2D by default on phones
+type GraphViewMode = '3d' | '2d';
+const VIEW_MODE_KEY = 'epstein_graph_view';
+
+function getInitialViewMode(): GraphViewMode {
+  if (typeof window === 'undefined') return '3d';
+  const saved = localStorage.getItem(VIEW_MODE_KEY);
+  if (saved === '2d' || saved === '3d') return saved;
+  return window.innerWidth < 640 ? '2d' : '3d';
+}
+
+interface CachedLayout {
+  positions: Record<string, Vec3>;
+  pinned: string[];
+  timestamp: number;
+}
+
+function getCachedLayout(key: string): CachedLayout | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const cached = localStorage.getItem(`${key}_layout`);
+    if (!cached) return null;
+    const data: CachedLayout = JSON.parse(cached);
+    if (Date.now() - data.timestamp < LAYOUT_CACHE_EXPIRY) return data;
+    localStorage.removeItem(`${key}_layout`);
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function setCachedLayout(key: string, positions: Record<string, Vec3>, pinned: string[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const data: CachedLayout = { positions, pinned, timestamp: Date.now() };
+    localStorage.setItem(`${key}_layout`, JSON.stringify(data));
+  } catch {
+    console.warn('[GRAPH] Layout cache write failed');
+  }
+}
+
+/**
+ * Lay the graph out with Barnes–Hut repulsion and weighted springs (lib/utils/force-layout.ts) in a
+ * Web Worker. Nodes start on the sphere - or where a cached layout left them - and move as it settles.
+ * `layoutKey` names the loaded graph in the cache; pinned nodes stay where they are. When nodes are
+ * added to or removed from the same graph, the others start where they are and the layout only warms up
+ */
+function useForceLayout(nodes: GraphNode[], edges: GraphEdge[], layoutKey: string, config?: Partial<ForceLayoutConfig>) {
+  const workerRef = useRef<Worker | null>(null);
+  const layoutKeyRef = useRef(layoutKey);
+  const pinnedRef = useRef<Set<string>>(new Set());
+  // Where the running layout has the nodes, and for which graph
+  const currentRef = useRef<{ key: string; positions: Map<string, Vec3> } | null>(null);
+  const [layout, setLayout] = useState<{ order: string[]; positions: Float32Array } | null>(null);
+  const [settling, setSettling] = useState(false);
+  const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set());
+
+  // Read when new nodes arrive, so a filter change doesn't file the old layout under the new key
+  useEffect(() => {
+    layoutKeyRef.current = layoutKey;
+  }, [layoutKey]);
+
+  useEffect(() => {
+    if (nodes.length === 0 || typeof Worker === 'undefined') return;
+    const key = layoutKeyRef.current;
+    const cached = getCachedLayout(key);
+    const current = currentRef.current?.key === key ? currentRef.current.positions : null;
+    const loaded = new Set(nodes.map((n) => n.id));
+    const pinned = Array.from(current ? pinnedRef.current : cached?.pinned || []).filter((id) => loaded.has(id));
+    let known = 0;
+    const seeded: LayoutNode[] = nodes.map((n) => {
+      const p = current?.get(n.id) || cached?.positions[n.id];
+      if (p) known++;
+      return { id: n.id, x: p ? p[0] : n.x, y: p ? p[1] : n.y, z: p ? p[2] : n.z };
+    });
+    const order = seeded.map((n) => n.id);
+    // Cold when every node has a place already, warm when most do, hot for a new graph
+    const alpha = known === nodes.length ? 0 : known >= nodes.length / 2 ? INCREMENTAL_LAYOUT_ALPHA : 1;
+
+    currentRef.current = { key, positions: new Map(seeded.map((n) => [n.id, [n.x, n.y, n.z]])) };
+    pinnedRef.current = new Set(pinned);
+    setPinnedIds(new Set(pinned));
+    setLayout({ order, positions: Float32Array.from(seeded.flatMap((n) => [n.x, n.y, n.z])) });
+    setSettling(alpha > 0);
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../../../lib/utils/force-layout.worker.ts', import.meta.url));
+    } catch (err) {
+      console.warn('[GRAPH] Layout worker unavailable, keeping the sphere layout:', err);
+      setSettling(false);
+      return;
+    }
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const { type, positions } = event.data;
+      setLayout({ order, positions });
+      currentRef.current = {
+        key,
+        positions: new Map(order.map((id, i) => [id, [positions[i * 3] ?? 0, positions[i * 3 + 1] ?? 0, positions[i * 3 + 2] ?? 0]])),
+      };
+      if (type !== 'end') return;
+      setSettling(false);
+      const settled: Record<string, Vec3> = {};
+      order.forEach((id, i) => {
+        settled[id] = [round(positions[i * 3] ?? 0), round(positions[i * 3 + 1] ?? 0), round(positions[i * 3 + 2] ?? 0)];
+      });
+      setCachedLayout(key, settled, Array.from(pinnedRef.current));
+      console.log('[GRAPH] Layout settled for', order.length, 'nodes');
+    };
+
+    // A cold layout only moves again when a node is pinned or unpinned
+    const start: LayoutWorkerRequest = {
+      type: 'start',
+      nodes: seeded,
+      edges: edges.map((e) => ({ source: e.source, target: e.target, weight: e.weight })),
+      pinned,
+      alpha,
+      config,
+    };
+    worker.postMessage(start);
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [nodes, edges, config]);
+
+  const togglePin = useCallback((id: string) => {
+    const next = new Set(pinnedRef.current);
+    const request: LayoutWorkerRequest = next.has(id) ? { type: 'unpin', id } : { type: 'pin', id };
+    if (request.type === 'pin') next.add(id);
+    else next.delete(id);
+    pinnedRef.current = next;
+    setPinnedIds(next);
+    if (workerRef.current) {
+      workerRef.current.postMessage(request);
+      setSettling(true);
+    }
+  }, []);
+
+  const laidOutNodes = useMemo(() => {
+    if (!layout) return nodes;
+    const index = new Map(layout.order.map((id, i) => [id, i]));
+    return nodes.map((n) => {
+      const i = index.get(n.id);
+      if (i === undefined) return n;
+      return {
+        ...n,
+        x: layout.positions[i * 3] ?? n.x,
+        y: layout.positions[i * 3 + 1] ?? n.y,
+        z: layout.positions[i * 3 + 2] ?? n.z,
+        pinned: pinnedIds.has(n.id),
+      };
+    });
+  }, [nodes, layout, pinnedIds]);
+
+  return { nodes: laidOutNodes, settling, pinnedIds, togglePin };
+}
+
+export function Graph3DCore({ onAnalyzeConnection, viewport, onViewportChange }: Graph3DCoreProps) {
+  const nodes = useGraphStore((state) => state.nodes);
+  const edges = useGraphStore((state) => state.edges);
+  const selectedIds = useGraphStore((state) => state.selectedNodeIds);
+  const visibleEntityTypes = useGraphStore((state) => state.visibleEntityTypes);
+  const timeRange = useGraphStore((state) => state.timeRange);
+  const minStrength = useGraphStore((state) => state.minStrength);
+  const focusRequest = useGraphStore((state) => state.focusRequest);
+  const setGraph = useGraphStore((state) => state.setGraph);
+  const addToGraph = useGraphStore((state) => state.addToGraph);
+  const removeFromGraph = useGraphStore((state) => state.removeFromGraph);
+  const selectNode = useGraphStore((state) => state.selectNode);
+  const clearFocusRequest = useGraphStore((state) => state.clearFocusRequest);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [graphOffset, setGraphOffset] = useState(0);
   const [fromCache, setFromCache] = useState(false);
+  // Traced paths belong to the selection they were traced for - a new selection invalidates them
+  const [pathTrace, setPathTrace] = useState<{ selection: string; paths: EntityPath[] } | null>(null);
+  const [activePathIndex, setActivePathIndex] = useState(0);
+  const [pathMinStrength, setPathMinStrength] = useState(1);
+  const [pathMaxHops, setPathMaxHops] = useState(4);
+  const [tracing, setTracing] = useState(false);
+  const [pathError, setPathError] = useState<string | null>(null);
+  const [pathWeighting, setPathWeighting] = useState<PathWeighting>('hops');
+  const [sizeBy, setSizeBy] = useState<NodeSizeMetric>('connections');
+  const [edgeFilter, setEdgeFilter] = useState<EdgeFilter>('');
+  const [viewMode, setViewMode] = useState<GraphViewMode>(getInitialViewMode);
+  // Each view has its own layout and cache; only the one on screen runs
+  const layout3d = useForceLayout(viewMode === '3d' ? nodes : NO_NODES, edges, cacheKey(graphOffset, edgeFilter));
+  const layout2d = useForceLayout(viewMode === '2d' ? nodes : NO_NODES, edges, `${cacheKey(graphOffset, edgeFilter)}_2d`, FLAT_LAYOUT);
+  const { nodes: laidOutNodes, settling, pinnedIds, togglePin } = viewMode === '2d' ? layout2d : layout3d;
+  // What each expansion added, so collapsing a node takes exactly that away again
+  const [expansions, setExpansions] = useState<Map<string, Expansion>>(new Map());
+  const [expanding, setExpanding] = useState(false);
+  const [expandLimit, setExpandLimit] = useState(25);
+  const [expandType, setExpandType] = useState('');
+  const [expandMinStrength, setExpandMinStrength] = useState(1);
+  const [expandMessage, setExpandMessage] = useState<string | null>(null);
+  const [growName, setGrowName] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const selectionKey = selectedIds.join('|');
+  const pathSearched = pathTrace?.selection === selectionKey;
+  const paths = pathTrace && pathSearched ? pathTrace.paths : [];
+
+  // Relation types present in the loaded edges, for the legend
+  const shownRelationTypes = useMemo(
+    () => RELATION_TYPES.filter((type) => edges.some((e) => e.relationType === type)),
+    [edges]
+  );
+
+  const hasCentrality = useMemo(() => nodes.some((n) => n.centrality), [nodes]);
+
+  // Re-size nodes by the chosen centrality metric, relative to the most central loaded node
+  const sizedNodes = useMemo(() => {
+    if (sizeBy === 'connections' || !hasCentrality) return laidOutNodes;
+    const max = Math.max(...laidOutNodes.map((n) => n.centrality?.[sizeBy] ?? 0));
+    return laidOutNodes.map((n) => ({
+      ...n,
+      size: calculateNodeSize(
+        { strength: 0 },
+        n.connectionCount,
+        max > 0 ? (n.centrality?.[sizeBy] ?? 0) / max : 0
+      ) * CENTRALITY_SIZE_SCALE,
+    }));
+  }, [laidOutNodes, sizeBy, hasCentrality]);
+
+  // The layout runs over everything loaded, so a filter change only hides and shows nodes in place
+  const visible = useMemo(
+    () => filterGraph(sizedNodes, edges, { visibleEntityTypes, timeRange, minStrength }, selectedIds),
+    [sizedNodes, edges, visibleEntityTypes, timeRange, minStrength, selectedIds]
+  );
+  const filtered = visible.nodes.length !== nodes.length || visible.edges.length !== edges.length;
+
+  const nodeNames = useMemo(() => new Map(nodes.map((n) => [n.id, n.name])), [nodes]);
+
+  // Load the top neighbours of an entity - already in the graph, or looked up by name - without
+  // reloading the scene. Neighbours start next to it and the layout pulls them into place.
+  // Resolves to the entity's id, or null when it couldn't be loaded
+  const handleExpand = useCallback(async (target: { id: string } | { name: string }): Promise<string | null> => {
+    setExpanding(true);
+    setExpandMessage(null);
+    try {
+      const params = new URLSearchParams({ limit: String(expandLimit), minStrength: String(expandMinStrength) });
+      if ('id' in target) params.set('id', target.id);
+      else params.set('name', target.name);
+      if (expandType) params.set('types', expandType);
+      if (edgeFilter) params.set('relations', edgeFilter);
+
+      const res = await fetch(`/api/graph/neighbors?${params}`);
+      const data = await res.json();
+      if (!res.ok || data.error) throw new Error(data.error || `API error: ${res.status}`);
+
+      const center = data.center as RawGraphNode;
+      const loaded = new Map(laidOutNodes.map((n) => [n.id, n]));
+      const maxConn = Math.max(1, ...nodes.map((n) => n.connectionCount));
+      const anchor = loaded.get(center.id);
+      const [cx, cy, cz]: Vec3 = anchor
+        ? [anchor.x, anchor.y, anchor.z]
+        : [(Math.random() - 0.5) * 60, (Math.random() - 0.5) * 60, (Math.random() - 0.5) * 60];
+      const near = (): Vec3 => [cx + (Math.random() - 0.5) * 20, cy + (Math.random() - 0.5) * 20, cz + (Math.random() - 0.5) * 20];
+
+      const addedNodes: GraphNode[] = [
+        ...(anchor ? [] : [toGraphNode(center, [cx, cy, cz], maxConn)]),
+        ...(data.nodes as RawGraphNode[]).filter((n) => !loaded.has(n.id)).map((n) => toGraphNode(n, near(), maxConn)),
+      ];
+      const knownEdges = new Set(edges.map(edgeKey));
+      const addedEdges = (data.edges as RawGraphEdge[]).map(toGraphEdge).filter((e) => !knownEdges.has(edgeKey(e)));
+
+      console.log('[GRAPH] Expanded', center.id, '+', addedNodes.length, 'nodes,', addedEdges.length, 'edges');
+      addToGraph(addedNodes, addedEdges);
+      setExpansions((prev) => {
+        const previous = prev.get(center.id);
+        return new Map(prev).set(center.id, {
+          nodeIds: [...(previous?.nodeIds || []), ...addedNodes.map((n) => n.id)],
+          edgeKeys: [...(previous?.edgeKeys || []), ...addedEdges.map(edgeKey)],
+        });
+      });
+      if (addedNodes.length === 0 && addedEdges.length === 0) {
+        setExpandMessage('No further neighbours with these filters.');
+      } else if (!anchor) {
+        setExpandMessage(`Added ${center.name || 'entity'} and ${addedNodes.length - 1} neighbours.`);
+      }
+      return center.id;
+    } catch (err) {
+      console.error('[GRAPH] Expand error:', err);
+      setExpandMessage(err instanceof Error ? err.message : 'Expansion failed');
+      return null;
+    } finally {
+      setExpanding(false);
+    }
+  }, [laidOutNodes, nodes, edges, expandLimit, expandMinStrength, expandType, edgeFilter, addToGraph]);
+
+  // An entity picked elsewhere (search) - select it here, growing the graph to it if it isn't loaded
+  useEffect(() => {
+    if (!focusRequest || loading) return;
+    clearFocusRequest();
+    const wanted = focusRequest.name.toLowerCase();
+    const match = nodes.find((n) => n.name.toLowerCase() === wanted);
+    if (match) {
+      selectNode(match.id);
+      return;
+    }
+    handleExpand({ name: focusRequest.name }).then((id) => {
+      if (id) selectNode(id);
+    });
+  }, [focusRequest, loading, nodes, handleExpand, selectNode, clearFocusRequest]);
+
+  // Take an expansion back out. Nodes that are selected or expanded themselves stay
+  const handleCollapse = useCallback((centerId: string) => {
+    const expansion = expansions.get(centerId);
+    if (!expansion) return;
+    const remaining = new Map(expansions);
+    remaining.delete(centerId);
+    const removedNodes = expansion.nodeIds.filter((id) => !remaining.has(id) && !selectedIds.includes(id));
+    removeFromGraph(removedNodes, expansion.edgeKeys);
+    setExpansions(remaining);
+    setExpandMessage(null);
+  }, [expansions, selectedIds, removeFromGraph]);
+
+  // Drop expanded nodes left hanging by a single edge, unless selected, pinned or expanded themselves
+  const handlePrune = useCallback(() => {
+    const degree = new Map<string, number>();
+    edges.forEach((e) => {
+      degree.set(e.source, (degree.get(e.source) || 0) + 1);
+      degree.set(e.target, (degree.get(e.target) || 0) + 1);
+    });
+    const added = Array.from(expansions.values()).flatMap((x) => x.nodeIds);
+    const pruned = new Set(added.filter((id) =>
+      (degree.get(id) || 0) <= 1 && !expansions.has(id) && !selectedIds.includes(id) && !pinnedIds.has(id)
+    ));
+    setExpandMessage(`Pruned ${pruned.size} leaf ${pruned.size === 1 ? 'node' : 'nodes'}.`);
+    if (pruned.size === 0) return;
+    removeFromGraph(Array.from(pruned));
+    setExpansions((prev) => new Map(Array.from(prev, ([id, x]) => [id, { ...x, nodeIds: x.nodeIds.filter((n) => !pruned.has(n)) }])));
+  }, [edges, expansions, selectedIds, pinnedIds, removeFromGraph]);
+
+  // Paths run server-side over every connection - most links pass through entities that aren't loaded
+  const handleTracePaths = useCallback(async () => {
+    const [from, to] = selectedIds;
+    if (!from || !to) return;
+    setTracing(true);
+    setPathError(null);
+    try {
+      const params = new URLSearchParams({
+        from,
+        to,
+        k: '5',
+        maxHops: String(pathMaxHops),
+        minStrength: String(pathMinStrength),
+        weighting: pathWeighting,
+      });
+      const response = await fetch(`/api/graph/paths?${params}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || `HTTP ${response.status}`);
+      const found: EntityPath[] = data?.paths || [];
+      console.log('[GRAPH] Traced', found.length, 'paths between', from, 'and', to);
+      setPathTrace({ selection: selectionKey, paths: found });
+      setActivePathIndex(0);
+    } catch (err) {
+      console.error('[GRAPH] Path trace failed:', err);
+      setPathError(err instanceof Error ? err.message : 'Path trace failed');
+    } finally {
+      setTracing(false);
+    }
+  }, [selectedIds, selectionKey, pathMaxHops, pathMinStrength, pathWeighting]);
 
   useEffect(() => {
     async function loadGraph() {
       // Try to load from cache first for instant display
-      const cached = getCachedGraph(graphOffset);
+      const cached = getCachedGraph(graphOffset, edgeFilter);
       if (cached) {
-        setNodes(cached.nodes);
-        setEdges(cached.edges);
+        setGraph(cached.nodes, cached.edges);
+        setExpansions(new Map());
         setLoading(false);
         setFromCache(true);
         // Still fetch fresh data in background
@@ -540,7 +987,8 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
       
       try {
         // Request 2000 nodes and 8000 connections for a DENSE, impressive graph
-        const res = await fetch(`/api/graph?nodeLimit=350&connectionLimit=1500&offset=${offset}`);
+        const relations = edgeFilter ? `&relations=${edgeFilter}` : '';
+        const res = await fetch(`/api/graph?nodeLimit=350&connectionLimit=1500&offset=${offset}${relations}`);
         
         if (!res.ok) {
           console.error('[GRAPH] API returned status:', res.status);
@@ -573,49 +1021,34 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
 
         console.log('[GRAPH] Received:', rawNodes.length, 'nodes,', rawEdges.length, 'edges');
 
-        // SIMPLE SPHERE POSITIONING (more reliable)
-        const maxConn = Math.max(...rawNodes.map((n: any) => n.connectionCount || n.connections || 1));
+        // Sphere positions seed the force layout (useForceLayout), which takes over from here
+        const maxConn = Math.max(...rawNodes.map((n: RawGraphNode) => n.connectionCount || n.connections || 1));
         
-        const positionedNodes: NodeData[] = rawNodes.map((node: any, i: number) => {
+        const positionedNodes: GraphNode[] = rawNodes.map((node: RawGraphNode, i: number) => {
           const total = rawNodes.length;
           const phi = Math.acos(-1 + (2 * i + 1) / total);
           const theta = Math.sqrt(total * Math.PI) * phi;
           
-          const connCount = node.connectionCount || node.connections || 1;
-          const connRatio = connCount / maxConn;
+          const connRatio = (node.connectionCount || node.connections || 1) / maxConn;
           const radius = 80 + (1 - connRatio) * 40; // More connected = closer to center
           
-          const nodeName = node.label || node.name || 'Unknown';
-          
-          return {
-            id: node.id,
-            name: nodeName,
-            label: nodeName,
-            type: node.type || 'other',
-            x: radius * Math.cos(theta) * Math.sin(phi),
-            y: radius * Math.sin(theta) * Math.sin(phi),
-            z: radius * Math.cos(phi),
-            size: Math.max(0.5, Math.min(connRatio * 4 + 0.5, 3)),
-            connectionCount: connCount,
-            connections: connCount,
-            documentCount: node.documentCount || node.document_count || 0,
-          };
+          return toGraphNode(node, [
+            radius * Math.cos(theta) * Math.sin(phi),
+            radius * Math.sin(theta) * Math.sin(phi),
+            radius * Math.cos(phi),
+          ], maxConn);
         });
 
-        const mappedEdges: EdgeData[] = rawEdges.map((e: any) => ({
-          source: e.from || e.source || e.entity_a_id,
-          target: e.to || e.target || e.entity_b_id,
-          weight: e.strength || e.weight || 1,
-        }));
+        const mappedEdges: GraphEdge[] = rawEdges.map(toGraphEdge);
 
         console.log('[GRAPH] Positioned:', positionedNodes.length, 'nodes,', mappedEdges.length, 'edges');
-        setNodes(positionedNodes);
-        setEdges(mappedEdges);
+        setGraph(positionedNodes, mappedEdges);
+        setExpansions(new Map());
         setLoading(false);
         setFromCache(false);
         
         // Cache the data for instant subsequent loads
-        setCachedGraph(positionedNodes, mappedEdges, offset);
+        setCachedGraph(positionedNodes, mappedEdges, offset, edgeFilter);
       } catch (err: any) {
         console.error('[GRAPH] Load error:', err);
         setError(err.message);
@@ -623,7 +1056,47 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
       }
     }
     loadGraph();
-  }, [graphOffset]);
+  }, [graphOffset, edgeFilter, setGraph]);
+
+  // Download what is on screen - /api/graph/export fills in counts, weights and evidence documents
+  const handleExport = async (format: GraphExportFormat) => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const response = await fetch(`/api/graph/export?format=${format}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          nodeIds: visible.nodes.map((n) => n.id),
+          edges: visible.edges.map((e) => ({ source: e.source, target: e.target, relationType: e.relationType ?? null })),
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `HTTP ${response.status}`);
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `epstein-graph-${new Date().toISOString().slice(0, 10)}.${GRAPH_EXPORT_FILES[format].extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('[GRAPH] Export failed:', err);
+      setExportError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleViewModeChange = (mode: GraphViewMode) => {
+    setViewMode(mode);
+    try {
+      localStorage.setItem(VIEW_MODE_KEY, mode);
+    } catch {
+      // Not remembered - the toggle still works
+    }
+  };
 
   // Refresh with new offset to get different entities
   const handleRefreshGraph = () => {
@@ -660,22 +1133,300 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
 
   return (
     <div className="w-full h-full relative">
-      <Canvas camera={{ position: [0, 0, 180], fov: 60 }} style={{ background: '#0a0a0f' }}>
-        <GraphScene 
-          nodes={nodes} 
-          edges={edges} 
-          onNodeSelect={onNodeSelect || (() => {})} 
+      {viewMode === '2d' ? (
+        <Graph2DView
+          nodes={visible.nodes}
+          edges={visible.edges}
           onAnalyzeConnection={onAnalyzeConnection || (() => {})}
+          activePath={paths[activePathIndex] || null}
         />
-      </Canvas>
+      ) : (
+        <Canvas camera={{ position: [0, 0, 180], fov: 60 }} style={{ background: '#0a0a0f' }}>
+          <GraphScene 
+            nodes={visible.nodes} 
+            edges={visible.edges} 
+            onAnalyzeConnection={onAnalyzeConnection || (() => {})}
+            activePath={paths[activePathIndex] || null}
+            viewport={viewport}
+            onViewportChange={onViewportChange}
+          />
+        </Canvas>
+      )}
+
+      {/* Neighbourhood - grow the graph from a name, or expand / collapse the selected node */}
+      {selectedIds.length !== 2 && (
+        <div className="absolute top-16 right-4 w-80 bg-black/90 backdrop-blur border border-cyan-500/30 rounded-lg p-3 text-xs font-mono">
+          <h3 className="text-cyan-400 font-bold mb-2">NEIGHBOURHOOD</h3>
+
+          <form
+            className="flex items-center gap-2 mb-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (growName.trim()) handleExpand({ name: growName.trim() });
+            }}
+          >
+            <input
+              value={growName}
+              onChange={(e) => setGrowName(e.target.value)}
+              placeholder="Grow from a name..."
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white"
+            />
+            <button
+              type="submit"
+              disabled={expanding || !growName.trim()}
+              className="px-2 py-1 rounded bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 hover:bg-cyan-500/30 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </form>
+
+          <div className="flex items-center gap-2 mb-2">
+            <select
+              value={expandLimit}
+              onChange={(e) => setExpandLimit(parseInt(e.target.value, 10))}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+              title="Neighbours per expansion"
+            >
+              {[10, 25, 50, 100].map((k) => (
+                <option key={k} value={k}>Top {k}</option>
+              ))}
+            </select>
+            <select
+              value={expandType}
+              onChange={(e) => setExpandType(e.target.value)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+            >
+              <option value="">All types</option>
+              <option value="person">People</option>
+              <option value="organization">Organizations</option>
+              <option value="location">Locations</option>
+            </select>
+            <label className="text-gray-400 flex items-center gap-1">
+              Min
+              <input
+                type="number"
+                min={1}
+                value={expandMinStrength}
+                onChange={(e) => setExpandMinStrength(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="w-12 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+                title="Minimum edge strength"
+              />
+            </label>
+          </div>
+
+          {selectedIds.length === 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400 truncate flex-1">{nodeNames.get(selectedIds[0] as string)}</span>
+              <button
+                onClick={() => handleExpand({ id: selectedIds[0] as string })}
+                disabled={expanding}
+                className="px-2 py-1 rounded bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 hover:bg-cyan-500/30 disabled:opacity-40"
+              >
+                {expanding ? 'Loading…' : 'Expand'}
+              </button>
+              {expansions.has(selectedIds[0] as string) && (
+                <button
+                  onClick={() => handleCollapse(selectedIds[0] as string)}
+                  className="px-2 py-1 rounded bg-gray-800 border border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  Collapse
+                </button>
+              )}
+            </div>
+          )}
+
+          {expansions.size > 0 && (
+            <button
+              onClick={handlePrune}
+              className="mt-2 text-gray-400 hover:text-white underline"
+              title="Remove expanded nodes that hang off a single edge"
+            >
+              Prune leaves
+            </button>
+          )}
+
+          {expandMessage && <p className="mt-2 text-gray-500">{expandMessage}</p>}
+        </div>
+      )}
+
+      {/* Path Tracer - shown when exactly two entities are selected */}
+      {selectedIds.length === 2 && (
+        <div className="absolute top-16 right-4 w-80 max-h-[60vh] overflow-y-auto bg-black/90 backdrop-blur border border-yellow-500/30 rounded-lg p-3 text-xs font-mono">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-yellow-400 font-bold">PATH TRACER</h3>
+            <span className="text-gray-500 truncate ml-2">
+              {nodeNames.get(selectedIds[0] as string)} → {nodeNames.get(selectedIds[1] as string)}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2 mb-2">
+            <label className="text-gray-400 flex items-center gap-1">
+              Min strength
+              <input
+                type="number"
+                min={1}
+                value={pathMinStrength}
+                onChange={(e) => setPathMinStrength(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="w-12 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+              />
+            </label>
+            <label className="text-gray-400 flex items-center gap-1">
+              Max hops
+              <input
+                type="number"
+                min={1}
+                max={6}
+                value={pathMaxHops}
+                onChange={(e) => setPathMaxHops(Math.min(6, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                className="w-10 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+              />
+            </label>
+            <select
+              value={pathWeighting}
+              onChange={(e) => setPathWeighting(e.target.value as PathWeighting)}
+              className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-white"
+            >
+              <option value="hops">Fewest hops</option>
+              <option value="strength">Strongest links</option>
+            </select>
+            <button
+              onClick={handleTracePaths}
+              disabled={tracing}
+              className="ml-auto px-2 py-1 rounded bg-yellow-500/20 border border-yellow-500/40 text-yellow-300 hover:bg-yellow-500/30 disabled:opacity-50"
+            >
+              {tracing ? 'Tracing…' : 'Trace'}
+            </button>
+          </div>
+
+          {pathError && <p className="text-red-400">{pathError}</p>}
+          {pathSearched && !pathError && paths.length === 0 && (
+            <p className="text-gray-500">No path of {pathMaxHops} hops or fewer between these entities.</p>
+          )}
+
+          {paths.map((path, i) => (
+            <div
+              key={path.nodes.join('>')}
+              className={`mt-2 p-2 rounded border cursor-pointer ${
+                i === activePathIndex ? 'border-yellow-500/60 bg-yellow-500/10' : 'border-gray-800 hover:border-gray-600'
+              }`}
+              onClick={() => setActivePathIndex(i)}
+            >
+              <div className="text-gray-400 mb-1">
+                Path {i + 1} · {path.edges.length} {path.edges.length === 1 ? 'hop' : 'hops'} · weakest link {path.weakestLink}
+              </div>
+              {path.edges.map((edge, j) => {
+                const fromId = path.nodes[j] as string;
+                const toId = path.nodes[j + 1] as string;
+                const fromName = path.names[j] || nodeNames.get(fromId) || fromId;
+                const toName = path.names[j + 1] || nodeNames.get(toId) || toId;
+                return (
+                  <div key={`${fromId}-${toId}`} className="mb-1">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        const hopNodes = nodes.filter((n) => n.id === fromId || n.id === toId);
+                        onAnalyzeConnection?.([fromName, toName], hopNodes);
+                      }}
+                      className="block w-full text-left text-white hover:text-yellow-300"
+                      title="Investigate the evidence for this hop"
+                    >
+                      {fromName} → {toName}
+                      <span className="text-gray-500"> ({edge.weight} shared docs)</span>
+                      {(!nodeNames.has(fromId) || !nodeNames.has(toId)) && <span className="text-gray-600"> · not loaded</span>}
+                    </button>
+                    {edge.documentIds.length > 0 && (
+                      <div className="pl-2 text-[10px] text-gray-500 flex flex-wrap gap-x-2">
+                        {edge.documentIds.map((docId) => (
+                          <a
+                            key={docId}
+                            href={`/documents/${encodeURIComponent(docId)}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="hover:text-yellow-300 underline decoration-dotted"
+                          >
+                            {docId}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
 
       <div className="absolute top-4 right-4 flex items-center gap-2">
         <div className="bg-black/80 backdrop-blur px-4 py-2 rounded-lg border border-cyan-500/30 text-sm font-mono">
-          <span className="text-cyan-400 font-bold">{nodes.length.toLocaleString()}</span>
+          <span className="text-cyan-400 font-bold">{visible.nodes.length.toLocaleString()}</span>
+          {filtered && <span className="text-gray-500">/{nodes.length.toLocaleString()}</span>}
           <span className="text-gray-400"> entities • </span>
-          <span className="text-purple-400 font-bold">{edges.length.toLocaleString()}</span>
+          <span className="text-purple-400 font-bold">{visible.edges.length.toLocaleString()}</span>
+          {filtered && <span className="text-gray-500">/{edges.length.toLocaleString()}</span>}
           <span className="text-gray-400"> connections</span>
+          {settling && <span className="text-yellow-400 animate-pulse"> • laying out…</span>}
+          {exportError && <span className="text-red-400" title={exportError}> • export failed</span>}
         </div>
+        {selectedIds.length === 1 && (
+          <button
+            onClick={() => togglePin(selectedIds[0] as string)}
+            className="bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 hover:border-cyan-400 transition-all text-sm font-mono"
+            title="Pinned nodes stay put while the layout settles around them"
+          >
+            📌 {pinnedIds.has(selectedIds[0] as string) ? 'Unpin' : 'Pin'}
+          </button>
+        )}
+        {hasCentrality && (
+          <select
+            value={sizeBy}
+            onChange={(e) => setSizeBy(e.target.value as NodeSizeMetric)}
+            className="bg-black/80 backdrop-blur px-2 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 text-sm font-mono"
+            title="Node sizing"
+          >
+            {NODE_SIZE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )}
+        <select
+          value={edgeFilter}
+          onChange={(e) => {
+            setLoading(true);
+            setEdgeFilter(e.target.value as EdgeFilter);
+          }}
+          className="bg-black/80 backdrop-blur px-2 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 text-sm font-mono"
+          title="Which edges to show"
+        >
+          <option value="">Edges: co-occurrence</option>
+          <option value="all">Edges: all relationships</option>
+          {RELATION_TYPES.map((type) => (
+            <option key={type} value={type}>Edges: {RELATION_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value=""
+          disabled={exporting || visible.nodes.length === 0}
+          onChange={(e) => {
+            const format = parseGraphExportFormat(e.target.value);
+            if (format) handleExport(format);
+          }}
+          className="bg-black/80 backdrop-blur px-2 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 text-sm font-mono disabled:opacity-50"
+          title="Download the graph as shown, with the filters applied"
+        >
+          <option value="">{exporting ? 'Exporting…' : 'Export'}</option>
+          {GRAPH_EXPORT_FORMATS.map((format) => (
+            <option key={format} value={format}>{GRAPH_EXPORT_FILES[format].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => handleViewModeChange(viewMode === '3d' ? '2d' : '3d')}
+          className="bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 hover:border-cyan-400 transition-all text-sm font-mono"
+          title={viewMode === '3d' ? 'Flat 2D network - labels, lasso selection, PNG export' : 'Back to the 3D scene'}
+        >
+          {viewMode === '3d' ? '2D' : '3D'}
+        </button>
         <button
           onClick={handleRefreshGraph}
           className="bg-black/80 backdrop-blur px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 hover:border-cyan-400 transition-all text-sm font-mono flex items-center gap-2"
@@ -688,6 +1439,19 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
         </button>
       </div>
 
+      {/* Relationship legend - directed types read from the first entity to the second */}
+      {shownRelationTypes.length > 0 && (
+        <div className="absolute top-4 left-4 bg-black/80 backdrop-blur border border-cyan-500/30 rounded-lg px-3 py-2 text-xs font-mono space-y-1">
+          {shownRelationTypes.map((type) => (
+            <div key={type} className="flex items-center gap-2">
+              <span className="inline-block w-4 h-0.5" style={{ background: RELATION_COLORS[type] }} />
+              <span className="text-gray-300">{RELATION_LABELS[type]}</span>
+              <span className="text-gray-500">A {RELATION_VERBS[type]} B</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Command Center - How to Use - Mobile Responsive */}
       <div className="absolute bottom-96 left-4 right-4 md:right-auto bg-black/90 backdrop-blur border border-cyan-500/30 rounded-lg p-3 md:p-4 max-w-sm">
         <div className="flex items-center gap-2 mb-2 md:mb-3 pb-2 border-b border-cyan-500/20">
@@ -730,6 +1494,14 @@ export function Graph3DCore({ onNodeSelect, onAnalyzeConnection }: Graph3DCorePr
               <span className="text-gray-400 hidden sm:inline"> (top right) to see different entities</span>
             </div>
           </div>
+          
+          <div className="flex items-start gap-2">
+            <span className="text-pink-400 font-bold flex-shrink-0">5.</span>
+            <div>
+              <span className="text-white font-semibold">Expand</span>
+              <span className="text-gray-400 hidden sm:inline"> a node, or grow from any name, to load its neighbourhood</span>
+            </div>
+          </div>
         </div>
 
         <div className="mt-2 md:mt-3 pt-2 md:pt-3 border-t border-cyan-500/20 text-xs">
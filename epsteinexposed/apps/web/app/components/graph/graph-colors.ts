@@ -0,0 +1,14 @@
+// Shared by the 3D scene and the 2D view
+
+export const PATH_COLOR = '#FFD700';
+
+export const ENTITY_COLORS: Record<string, string> = {
+  person: '#00D4FF',
+  location: '#FF6B35',
+  organization: '#9333EA',
+  date: '#FBBF24',
+  flight: '#10B981',
+  phone: '#EC4899',
+  email: '#3B82F6',
+  other: '#6B7280',
+};
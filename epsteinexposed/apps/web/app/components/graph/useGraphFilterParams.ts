@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+import { shallow } from 'zustand/shallow';
+import { GRAPH_ENTITY_TYPES, useGraphStore } from '@/lib/store/graph-store';
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+function parseDate(value: string | null): string | null {
+  return value && DATE_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * Keep the graph filters in the URL, so a filtered view can be shared or reloaded:
+ * /?types=person,organization&minStrength=3&from=1999&to=2005
+ *
+ * Read once on load, then rewritten (replaceState, no history entries) whenever a filter changes.
+ * Parameters at their defaults are left out
+ */
+export function useGraphFilterParams() {
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const store = useGraphStore.getState();
+
+    const types = params.get('types');
+    if (types !== null) {
+      store.setVisibleEntityTypes(new Set(
+        types.split(',').map(t => t.trim()).filter(t => (GRAPH_ENTITY_TYPES as readonly string[]).includes(t))
+      ));
+    }
+    const minStrength = parseInt(params.get('minStrength') || '', 10);
+    if (minStrength > 1) store.setMinStrength(minStrength);
+    store.setTimeRange({ start: parseDate(params.get('from')), end: parseDate(params.get('to')) });
+
+    return useGraphStore.subscribe(
+      state => [state.visibleEntityTypes, state.timeRange, state.minStrength] as const,
+      ([visibleEntityTypes, timeRange, strength]) => {
+        const next = new URLSearchParams(window.location.search);
+        const allTypes = GRAPH_ENTITY_TYPES.every(t => visibleEntityTypes.has(t));
+        if (allTypes) next.delete('types');
+        else next.set('types', GRAPH_ENTITY_TYPES.filter(t => visibleEntityTypes.has(t)).join(','));
+        if (strength > 1) next.set('minStrength', String(strength));
+        else next.delete('minStrength');
+        if (timeRange?.start) next.set('from', timeRange.start);
+        else next.delete('from');
+        if (timeRange?.end) next.set('to', timeRange.end);
+        else next.delete('to');
+
+        const query = next.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+      },
+      { equalityFn: shallow }
+    );
+  }, []);
+}
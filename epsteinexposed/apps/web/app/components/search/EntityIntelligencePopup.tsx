@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Send, Loader2, FileText, Users, MapPin, Calendar, Plane, ExternalLink, Sparkles } from 'lucide-react';
+import { rankedRoles, ROLE_COLORS, ROLE_LABELS, type EntityRoleProfile } from '@/lib/entity-roles';
 
 interface EntityInfo {
   id: string;
@@ -54,6 +55,7 @@ export function EntityIntelligencePopup({ entity, onClose, onViewDocument }: Ent
   const [isLoading, setIsLoading] = useState(false);
   const [entityDetails, setEntityDetails] = useState<any>(null);
   const [loadingDetails, setLoadingDetails] = useState(true);
+  const [roleProfile, setRoleProfile] = useState<EntityRoleProfile | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -70,6 +72,21 @@ export function EntityIntelligencePopup({ entity, onClose, onViewDocument }: Ent
     }
   }, [entity]);
 
+  // Role profile - how the documents cast this person (attorney, witness, passenger...)
+  useEffect(() => {
+    setRoleProfile(null);
+    if (!entity || entity.type !== 'person') return;
+
+    let cancelled = false;
+    fetch(`/api/entities/roles?id=${encodeURIComponent(entity.id)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled) setRoleProfile(data?.result?.data?.profile || null);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [entity]);
+
   // Load comprehensive entity intelligence
   const loadEntityIntelligence = async () => {
     if (!entity) return;
@@ -233,6 +250,20 @@ export function EntityIntelligencePopup({ entity, onClose, onViewDocument }: Ent
                       {entity.occurrences || 0} documents
                     </span>
                   </div>
+                  {roleProfile && rankedRoles(roleProfile).length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                      {rankedRoles(roleProfile).slice(0, 4).map(({ role, count }) => (
+                        <span
+                          key={role}
+                          className="px-2 py-0.5 bg-black/30 rounded text-xs text-white/90"
+                          style={{ borderLeft: `3px solid ${ROLE_COLORS[role]}` }}
+                          title={`${ROLE_LABELS[role]} in ${count} of ${roleProfile.mentions} mentions`}
+                        >
+                          {ROLE_LABELS[role]} · {count}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
               <button
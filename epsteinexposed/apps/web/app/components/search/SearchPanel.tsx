@@ -1,9 +1,13 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { EntityIntelligencePopup } from './EntityIntelligencePopup';
 import { mergeEntities, MergedEntity } from '@/lib/entity-normalization';
+import type { DocumentSearchResult, SearchSnippet } from '@/lib/document-search';
+import { useGraphStore } from '@/lib/store/graph-store';
+
+type SearchMode = 'entities' | 'documents';
 
 interface SearchResult {
   id: string;
@@ -28,8 +32,27 @@ function mergedToSearchResult(merged: MergedEntity): SearchResult {
   };
 }
 
+// Render a snippet with its highlighted ranges wrapped in <mark>
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  
+  snippet.highlights.forEach((h, i) => {
+    if (h.start > cursor) parts.push(snippet.text.slice(cursor, h.start));
+    parts.push(
+      <mark key={i} className="bg-cyan-500/30 text-cyan-200 rounded px-0.5">
+        {snippet.text.slice(h.start, h.end)}
+      </mark>
+    );
+    cursor = h.end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+  
+  return <>{parts}</>;
+}
+
 interface SearchPanelProps {
-  onViewDocument?: (documentId: string) => void;
+  onViewDocument?: (documentId: string, page?: number) => void;
 }
 
 export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
@@ -38,15 +61,62 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
   const [loading, setLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const [selectedEntity, setSelectedEntity] = useState<SearchResult | null>(null);
+  const [mode, setMode] = useState<SearchMode>('entities');
+  const [documentResults, setDocumentResults] = useState<DocumentSearchResult[]>([]);
+  const [documentError, setDocumentError] = useState<string | null>(null);
+  const [dataset, setDataset] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  
+  // Picking an entity selects it in the graph; results mark what the graph has loaded and selected
+  const focusEntity = useGraphStore(state => state.focusEntity);
+  const graphNodes = useGraphStore(state => state.nodes);
+  const selectedNodeIds = useGraphStore(state => state.selectedNodeIds);
+  const graphStatus = useMemo(() => {
+    const selected = new Set(selectedNodeIds);
+    const status = new Map<string, 'selected' | 'loaded'>();
+    for (const node of graphNodes) {
+      const name = node.name.toLowerCase();
+      if (selected.has(node.id)) status.set(name, 'selected');
+      else if (!status.has(name)) status.set(name, 'loaded');
+    }
+    return status;
+  }, [graphNodes, selectedNodeIds]);
+  
+  const handleDocumentSearch = useCallback(async (searchQuery: string) => {
+    const params = new URLSearchParams({ query: searchQuery, limit: '20' });
+    if (dataset) params.set('dataset', dataset);
+    if (dateFrom) params.set('from', dateFrom);
+    if (dateTo) params.set('to', dateTo);
+    
+    const response = await fetch(`/api/search/documents?${params.toString()}`);
+    const data = await response.json();
+    
+    if (!response.ok) {
+      setDocumentResults([]);
+      setDocumentError(data.error || 'Document search failed');
+      return;
+    }
+    
+    setDocumentError(null);
+    setDocumentResults((data.result?.data || []) as DocumentSearchResult[]);
+  }, [dataset, dateFrom, dateTo]);
   
   const handleSearch = useCallback(async (searchQuery: string) => {
     if (!searchQuery.trim()) {
       setResults([]);
+      setDocumentResults([]);
+      setDocumentError(null);
       return;
     }
     
     setLoading(true);
     try {
+      if (mode === 'documents') {
+        await handleDocumentSearch(searchQuery);
+        return;
+      }
+      
       const response = await fetch(
         `/api/search?query=${encodeURIComponent(searchQuery)}&limit=50`
       );
@@ -71,7 +141,18 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [mode, handleDocumentSearch]);
+  
+  // Re-run the current query when switching modes or changing filters - handleSearch changes with them,
+  // while typing is left to the debounce below
+  const queryRef = useRef(query);
+  useEffect(() => {
+    queryRef.current = query;
+  }, [query]);
+
+  useEffect(() => {
+    if (queryRef.current.trim()) handleSearch(queryRef.current);
+  }, [handleSearch]);
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -144,7 +225,7 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
                     type="text"
                     value={query}
                     onChange={handleInputChange}
-                    placeholder="Search 96,322 people, 4,296 locations, 51 flights..."
+                    placeholder={mode === 'documents' ? 'Search the text of every document...' : 'Search 96,322 people, 4,296 locations, 51 flights...'}
                     className="flex-1 bg-transparent text-white text-lg outline-none placeholder-gray-500"
                     autoFocus
                   />
@@ -152,11 +233,117 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
                     <div className="w-5 h-5 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin" />
                   )}
                 </div>
+                
+                {/* Mode Toggle */}
+                <div className="flex items-center gap-2 mt-3 text-xs">
+                  {(['entities', 'documents'] as SearchMode[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-3 py-1 rounded-full border transition-colors ${
+                        mode === m
+                          ? 'border-cyan-500/60 bg-cyan-500/20 text-cyan-300'
+                          : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                      }`}
+                    >
+                      {m === 'entities' ? 'Entities' : 'Document text'}
+                    </button>
+                  ))}
+                  {mode === 'documents' && (
+                    <span className="ml-auto text-gray-500">
+                      &quot;phrase&quot; · AND / OR / -exclude · prefix*
+                    </span>
+                  )}
+                </div>
+                
+                {/* Document Filters */}
+                {mode === 'documents' && (
+                  <div className="flex items-center gap-2 mt-2 text-xs">
+                    <input
+                      type="text"
+                      value={dataset}
+                      onChange={(e) => setDataset(e.target.value)}
+                      placeholder="Dataset"
+                      className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none focus:border-cyan-500/50"
+                    />
+                    <input
+                      type="date"
+                      value={dateFrom}
+                      onChange={(e) => setDateFrom(e.target.value)}
+                      className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none focus:border-cyan-500/50"
+                      title="From date"
+                    />
+                    <span className="text-gray-600">–</span>
+                    <input
+                      type="date"
+                      value={dateTo}
+                      onChange={(e) => setDateTo(e.target.value)}
+                      className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none focus:border-cyan-500/50"
+                      title="To date"
+                    />
+                  </div>
+                )}
               </div>
               
               {/* Results */}
               <div className="max-h-96 overflow-y-auto">
-                {results.length > 0 ? (
+                {mode === 'documents' && documentError ? (
+                  <div className="p-8 text-center text-red-400 text-sm">
+                    {documentError}
+                  </div>
+                ) : mode === 'documents' && documentResults.length > 0 ? (
+                  <div className="p-2">
+                    {documentResults.map((doc) => (
+                      <div key={doc.id} className="p-3 hover:bg-gray-800/60 rounded-lg transition-colors">
+                        <div
+                          className="flex items-center justify-between cursor-pointer"
+                          onClick={() => {
+                            onViewDocument?.(doc.docId, doc.pages[0]?.page ?? undefined);
+                            setIsOpen(false);
+                          }}
+                        >
+                          <div className="min-w-0">
+                            <div className="text-white font-medium truncate">{doc.title}</div>
+                            <div className="text-xs text-gray-500">
+                              {doc.hitCount} {doc.hitCount === 1 ? 'hit' : 'hits'}
+                              {doc.dataset && <> • {doc.dataset}</>}
+                              {doc.date && <> • {doc.date}</>}
+                              {doc.pageCount > 0 && <> • {doc.pageCount} pages</>}
+                            </div>
+                          </div>
+                          <svg className="w-4 h-4 text-gray-600 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                          </svg>
+                        </div>
+                        {doc.pages.map((pageHit, i) => (
+                          <div
+                            key={`${pageHit.page ?? 'doc'}-${i}`}
+                            className="mt-2 pl-3 border-l border-cyan-500/30 cursor-pointer hover:border-cyan-400"
+                            onClick={() => {
+                              onViewDocument?.(doc.docId, pageHit.page ?? undefined);
+                              setIsOpen(false);
+                            }}
+                          >
+                            {pageHit.page !== null && (
+                              <div className="text-[10px] uppercase tracking-wide text-cyan-500/80">
+                                Page {pageHit.page}
+                              </div>
+                            )}
+                            {pageHit.snippets.map((snippet, j) => (
+                              <div key={j} className="text-xs text-gray-400 leading-relaxed">
+                                <HighlightedSnippet snippet={snippet} />
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ) : mode === 'documents' && query && !loading ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No documents contain &quot;{query}&quot;
+                  </div>
+                ) : mode === 'entities' && results.length > 0 ? (
                   <div className="p-2">
                     {results.map((result) => (
                       <div
@@ -164,6 +351,7 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
                         className="p-3 hover:bg-gray-800 rounded-lg cursor-pointer transition-colors"
                         onClick={() => {
                           setSelectedEntity(result);
+                          focusEntity(result.name);
                           setIsOpen(false);
                         }}
                       >
@@ -179,6 +367,11 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
                               <div className="text-white font-medium">{result.name}</div>
                               <div className="text-xs text-gray-500">
                                 {result.type} • {result.occurrences || 0} documents
+                                {graphStatus.get(result.name.toLowerCase()) === 'selected' ? (
+                                  <span className="text-cyan-400"> • selected in graph</span>
+                                ) : graphStatus.has(result.name.toLowerCase()) ? (
+                                  <span className="text-gray-400"> • in graph</span>
+                                ) : null}
                               </div>
                             </div>
                           </div>
@@ -194,7 +387,7 @@ export function SearchPanel({ onViewDocument }: SearchPanelProps = {}) {
                       </div>
                     ))}
                   </div>
-                ) : query && !loading ? (
+                ) : mode === 'entities' && query && !loading ? (
                   <div className="p-8 text-center text-gray-500">
                     No results found for &quot;{query}&quot;
                   </div>
@@ -1,10 +1,36 @@
 'use client';
 
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { HIGH_PROFILE_PEOPLE, KEY_ORGANIZATIONS, KEY_LOCATIONS, EntitySEO } from '@/lib/seo-entities';
+import type { CentralityMetric, CentralityScores } from '@/lib/types';
 
-function EntityCard({ entity }: { entity: EntitySEO }) {
+type SortOption = 'featured' | 'documents' | 'connections' | CentralityMetric;
+
+const SORT_OPTIONS: Array<{ value: SortOption; label: string; needsCentrality?: boolean }> = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'documents', label: 'Most documents' },
+  { value: 'connections', label: 'Most connections' },
+  { value: 'betweenness', label: 'Broker score (betweenness)', needsCentrality: true },
+  { value: 'eigenvector', label: 'Eigenvector centrality', needsCentrality: true },
+  { value: 'pageRank', label: 'PageRank', needsCentrality: true },
+  { value: 'weightedDegree', label: 'Weighted degree', needsCentrality: true },
+];
+
+const ALL_ENTITIES = [...HIGH_PROFILE_PEOPLE, ...KEY_ORGANIZATIONS, ...KEY_LOCATIONS];
+
+function isCentralityMetric(sort: SortOption): sort is CentralityMetric {
+  return sort !== 'featured' && sort !== 'documents' && sort !== 'connections';
+}
+
+function formatScore(metric: CentralityMetric, value: number): string {
+  if (metric === 'weightedDegree') return Math.round(value).toLocaleString();
+  if (metric === 'pageRank') return `${(value * 100).toFixed(2)}%`;
+  return value.toFixed(3);
+}
+
+function EntityCard({ entity, centrality, metric }: { entity: EntitySEO; centrality?: CentralityScores; metric?: CentralityMetric }) {
   const typeColors: Record<string, string> = {
     person: '#00D4FF',
     organization: '#9333EA',
@@ -43,6 +69,11 @@ function EntityCard({ entity }: { entity: EntitySEO }) {
                 {entity.metadata.flightLogAppearances} flights
               </span>
             )}
+            {metric && centrality && (
+              <span className="text-yellow-400" title={SORT_OPTIONS.find(o => o.value === metric)?.label}>
+                {formatScore(metric, centrality[metric])}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -51,6 +82,36 @@ function EntityCard({ entity }: { entity: EntitySEO }) {
 }
 
 export default function EntitiesPage() {
+  const [sortBy, setSortBy] = useState<SortOption>('featured');
+  const [centrality, setCentrality] = useState<Record<string, CentralityScores>>({});
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    for (const entity of ALL_ENTITIES) params.append('name', entity.name);
+
+    fetch(`/api/entities/centrality?${params.toString()}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setCentrality(data?.result?.data || {}))
+      .catch(err => console.error('[ENTITIES] Centrality load error:', err));
+  }, []);
+
+  const hasCentrality = Object.keys(centrality).length > 0;
+  const metric = isCentralityMetric(sortBy) ? sortBy : undefined;
+  const scoresFor = (entity: EntitySEO) => centrality[entity.name.toLowerCase()];
+
+  const [people, organizations, locations] = useMemo(() => {
+    const sortValue = (entity: EntitySEO): number => {
+      if (sortBy === 'documents') return entity.metadata.documentCount || 0;
+      if (sortBy === 'connections') return entity.metadata.connectionCount || 0;
+      if (isCentralityMetric(sortBy)) return centrality[entity.name.toLowerCase()]?.[sortBy] ?? -1;
+      return 0;
+    };
+    // Array.prototype.sort is stable, so "featured" keeps the curated order
+    const sorted = (list: EntitySEO[]) =>
+      sortBy === 'featured' ? list : [...list].sort((a, b) => sortValue(b) - sortValue(a));
+    return [sorted(HIGH_PROFILE_PEOPLE), sorted(KEY_ORGANIZATIONS), sorted(KEY_LOCATIONS)];
+  }, [sortBy, centrality]);
+
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white">
       {/* Header */}
@@ -101,6 +162,21 @@ export default function EntitiesPage() {
 
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-6 py-8">
+        {/* Sort */}
+        <div className="flex items-center justify-end gap-2 mb-8 text-sm">
+          <label htmlFor="entity-sort" className="text-gray-400">Sort by</label>
+          <select
+            id="entity-sort"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SortOption)}
+            className="bg-[#12121a] border border-[#ffffff20] rounded-lg px-3 py-2 text-white focus:border-cyan-500/50 outline-none"
+          >
+            {SORT_OPTIONS.filter(o => !o.needsCentrality || hasCentrality).map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* High-Profile People */}
         <section className="mb-12">
           <div className="flex items-center gap-3 mb-6">
@@ -109,8 +185,8 @@ export default function EntitiesPage() {
             <span className="text-gray-500 text-sm">({HIGH_PROFILE_PEOPLE.length})</span>
           </div>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {HIGH_PROFILE_PEOPLE.map(entity => (
-              <EntityCard key={entity.id} entity={entity} />
+            {people.map(entity => (
+              <EntityCard key={entity.id} entity={entity} centrality={scoresFor(entity)} metric={metric} />
             ))}
           </div>
         </section>
@@ -123,8 +199,8 @@ export default function EntitiesPage() {
             <span className="text-gray-500 text-sm">({KEY_ORGANIZATIONS.length})</span>
           </div>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {KEY_ORGANIZATIONS.map(entity => (
-              <EntityCard key={entity.id} entity={entity} />
+            {organizations.map(entity => (
+              <EntityCard key={entity.id} entity={entity} centrality={scoresFor(entity)} metric={metric} />
             ))}
           </div>
         </section>
@@ -137,8 +213,8 @@ export default function EntitiesPage() {
             <span className="text-gray-500 text-sm">({KEY_LOCATIONS.length})</span>
           </div>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {KEY_LOCATIONS.map(entity => (
-              <EntityCard key={entity.id} entity={entity} />
+            {locations.map(entity => (
+              <EntityCard key={entity.id} entity={entity} centrality={scoresFor(entity)} metric={metric} />
             ))}
           </div>
         </section>
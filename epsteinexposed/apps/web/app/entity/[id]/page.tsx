@@ -5,6 +5,12 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { ALL_SEO_ENTITIES, EntitySEO, generateEntityJsonLd } from '@/lib/seo-entities';
+import { rankedRoles, ROLE_COLORS, ROLE_LABELS, type EntityRole, type EntityRoleProfile } from '@/lib/entity-roles';
+
+interface EntityRoles {
+  profile: EntityRoleProfile | null;
+  examples: Array<{ role: EntityRole; cue: string | null; context: string; documentId: string; page: number | null }>;
+}
 
 export default function EntityPage() {
   const params = useParams();
@@ -16,6 +22,16 @@ export default function EntityPage() {
     setEntity(found || null);
   }, [entityId]);
 
+  // Roles in the documents, from the classified mention contexts
+  const [roles, setRoles] = useState<EntityRoles | null>(null);
+  useEffect(() => {
+    if (!entity || entity.type !== 'person') return;
+    fetch(`/api/entities/roles?name=${encodeURIComponent(entity.name)}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setRoles(data?.result?.data || null))
+      .catch(() => setRoles(null));
+  }, [entity]);
+
   if (!entity) {
     return (
       <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center">
@@ -179,6 +195,40 @@ export default function EntityPage() {
             )}
           </div>
 
+          {/* Roles in Documents */}
+          {roles?.profile && rankedRoles(roles.profile).length > 0 && (
+            <div className="mt-8 bg-[#12121a] border border-[#ffffff10] rounded-lg p-6">
+              <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+                <span className="text-cyan-400">⚖</span> Roles in Documents
+              </h2>
+              <p className="text-gray-500 text-xs mb-4">
+                From the text around {roles.profile.classified} of {roles.profile.mentions} mentions
+              </p>
+              <div className="space-y-3">
+                {rankedRoles(roles.profile).map(({ role, count, share }) => (
+                  <div key={role}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span style={{ color: ROLE_COLORS[role] }}>{ROLE_LABELS[role]}</span>
+                      <span className="text-gray-400 font-mono">{count}</span>
+                    </div>
+                    <div className="h-1.5 bg-[#ffffff10] rounded">
+                      <div className="h-full rounded" style={{ width: `${Math.round(share * 100)}%`, backgroundColor: ROLE_COLORS[role] }} />
+                    </div>
+                    {roles.examples.filter(e => e.role === role).map((example, i) => (
+                      <Link
+                        key={i}
+                        href={`/documents/${example.documentId}`}
+                        className="block mt-2 text-gray-400 text-xs italic hover:text-cyan-400 transition-colors truncate"
+                      >
+                        “{example.context.trim()}”{example.cue ? ` - ${example.cue}` : ''}
+                      </Link>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Sources */}
           {entity.sources && entity.sources.length > 0 && (
             <div className="mt-8 bg-[#12121a] border border-[#ffffff10] rounded-lg p-6">
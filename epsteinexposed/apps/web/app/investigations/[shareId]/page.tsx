@@ -0,0 +1,261 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, AlertCircle, Download, FileText, GitFork, Pin } from 'lucide-react'
+import type { SessionMessage, SharedInvestigation } from '@/lib/investigation-sessions'
+import { ToolTrace } from '../../components/chat/ToolTrace'
+
+// Read-only view of a shared investigation - colleagues can read, export, or fork it into their own workspace
+export default function SharedInvestigationPage() {
+  const params = useParams()
+  const router = useRouter()
+  const shareId = String(params.shareId)
+  const [investigation, setInvestigation] = useState<SharedInvestigation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [forking, setForking] = useState(false)
+
+  useEffect(() => {
+    async function loadInvestigation() {
+      try {
+        const res = await fetch(`/api/investigations/shared/${shareId}`)
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+        setInvestigation(data.session)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInvestigation()
+  }, [shareId])
+
+  // Copy the thread into a new session of the reader's own and open it on the main page
+  const handleFork = async () => {
+    setForking(true)
+    try {
+      const res = await fetch('/api/investigations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ forkFrom: shareId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`)
+      router.push(`/?investigation=${data.session.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setForking(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-[#0a0a0f]">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-cyan-400 font-mono">Loading investigation...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!investigation) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-[#0a0a0f]">
+        <div className="text-center max-w-md px-6">
+          <AlertCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-red-400 mb-2">Investigation Not Available</h1>
+          <p className="text-gray-400 mb-4">{error || 'Investigation not found'}</p>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-cyan-400 hover:text-cyan-300 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Investigation
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f]">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-800 flex items-center justify-between gap-4 bg-[#12121a] sticky top-0 z-10">
+        <div className="flex items-center gap-4 min-w-0">
+          <Link
+            href="/"
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Back to Investigation"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-400" />
+          </Link>
+          <div className="min-w-0">
+            <h1 className="text-lg font-bold text-white truncate">{investigation.title || 'Untitled investigation'}</h1>
+            <p className="text-xs text-gray-500 font-mono mt-1">
+              READ-ONLY · {investigation.messages.length} messages · updated {new Date(investigation.updatedAt).toLocaleString()}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <a
+            href={`/api/investigations/shared/${shareId}?format=markdown`}
+            className="flex items-center gap-2 px-3 py-2 hover:bg-white/10 text-gray-400 rounded-lg transition-colors text-sm"
+            title="Export as Markdown"
+          >
+            <Download className="w-4 h-4" />
+            Markdown
+          </a>
+          <a
+            href={`/api/investigations/shared/${shareId}?format=json`}
+            className="px-3 py-2 hover:bg-white/10 text-gray-400 rounded-lg transition-colors text-sm"
+            title="Export as JSON"
+          >
+            JSON
+          </a>
+          <button
+            onClick={handleFork}
+            disabled={forking}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white rounded-lg transition-colors text-sm"
+            title="Copy this thread into your own workspace and keep investigating"
+          >
+            <GitFork className="w-4 h-4" />
+            {forking ? 'Copying...' : 'Continue Investigating'}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {/* Workspace */}
+        {(investigation.selectedEntities.length > 0 || investigation.pinnedDocuments.length > 0) && (
+          <div className="space-y-3 p-4 bg-[#12121a] border border-[#ffffff10] rounded-lg">
+            {investigation.selectedEntities.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-[#606070] font-mono mr-1">ENTITIES</span>
+                {investigation.selectedEntities.map(name => (
+                  <span key={name} className="px-2 py-0.5 bg-[#00d4ff]/10 text-[#00d4ff] text-xs rounded">{name}</span>
+                ))}
+              </div>
+            )}
+            {investigation.pinnedDocuments.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Pin className="w-3 h-3 text-[#606070] mr-1" />
+                {investigation.pinnedDocuments.map(doc => (
+                  <Link
+                    key={`${doc.documentId}-${doc.page ?? ''}`}
+                    href={`/documents/${doc.documentId}`}
+                    className="px-2 py-0.5 bg-[#ffb800]/10 text-[#ffb800] text-xs rounded hover:underline"
+                  >
+                    {doc.title}{doc.page ? `, p. ${doc.page}` : ''}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Thread */}
+        {investigation.messages.map(message => (
+          <MessageView key={message.id} message={message} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function MessageView({ message }: { message: SessionMessage }) {
+  if (message.role === 'user') {
+    return (
+      <div className="ml-8 p-3 rounded-lg text-sm bg-[#00d4ff]/10 border border-[#00d4ff]/20 text-[#e0e0e0]">
+        {message.content}
+      </div>
+    )
+  }
+  if (message.role === 'system') {
+    return (
+      <div className="mx-4 p-3 rounded-lg text-sm bg-[#ffb800]/10 border border-[#ffb800]/20 text-[#ffb800]">
+        {message.content}
+      </div>
+    )
+  }
+
+  const unsupported = message.verification?.unsupportedCount ?? 0
+  return (
+    <div className="mr-8 p-3 rounded-lg text-sm bg-[#1a1a24] border border-[#ffffff08] text-[#e0e0e0]">
+      {message.toolTrace && <ToolTrace trace={message.toolTrace} />}
+      <p className="leading-relaxed whitespace-pre-wrap">{renderVerifiedText(message)}</p>
+
+      {unsupported > 0 && (
+        <p className="mt-2 text-xs text-amber-400/80">
+          {unsupported} statement{unsupported > 1 ? 's' : ''} could not be matched to the retrieved documents (underlined)
+        </p>
+      )}
+
+      {message.citations && message.citations.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-[#ffffff08] space-y-2">
+          <p className="text-xs text-[#606070] flex items-center gap-1">
+            <FileText className="w-3 h-3" />
+            Sources
+          </p>
+          {message.citations.map((citation, idx) => (
+            <Link key={idx} href={`/documents/${citation.documentId}`} className="block px-2 py-1 rounded hover:bg-[#ffffff08] group">
+              <span className="text-xs text-[#a0a0a0] group-hover:text-[#00d4ff]">
+                <span className="text-[#606070] font-mono mr-2">[{idx + 1}]</span>
+                {citation.documentName}{citation.page ? `, p. ${citation.page}` : ''}
+              </span>
+              <span className="block mt-1 text-[11px] leading-snug text-[#707080]">
+                {citation.excerpt.slice(0, citation.quote.start)}
+                <mark className="bg-[#00d4ff]/15 text-[#c0c0d0]">
+                  {citation.excerpt.slice(citation.quote.start, citation.quote.end)}
+                </mark>
+                {citation.excerpt.slice(citation.quote.end)}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Answer text with unsupported sentences underlined and source numbers after supported ones
+function renderVerifiedText(message: SessionMessage) {
+  const { content, verification } = message
+  if (!verification) return content
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const sentence of verification.sentences) {
+    if (sentence.start > cursor) parts.push(content.slice(cursor, sentence.start))
+    const text = content.slice(sentence.start, sentence.end)
+    if (sentence.status === 'unsupported') {
+      parts.push(
+        <span
+          key={sentence.start}
+          title="Not supported by the retrieved documents"
+          className="underline decoration-dotted decoration-amber-400/70 underline-offset-4"
+        >
+          {text}
+        </span>
+      )
+    } else {
+      parts.push(text)
+      if (sentence.citations.length > 0) {
+        parts.push(
+          <sup key={`${sentence.start}-refs`} className="text-[10px] text-[#00d4ff] ml-0.5">
+            {sentence.citations.map(index => `[${index + 1}]`).join('')}
+          </sup>
+        )
+      }
+    }
+    cursor = sentence.end
+  }
+  if (cursor < content.length) parts.push(content.slice(cursor))
+  return parts
+}
@@ -1,11 +1,16 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { SourceBadges } from './components/ui/SourceBadges';
 import { Footer } from './components/layout/Footer';
 import { ColorLegend } from './components/graph/ColorLegend';
 import UnredactedBanner from './components/UnredactedBanner';
+import { useInvestigationSession } from './components/chat/useInvestigationSession';
+import { useGraphFilterParams } from './components/graph/useGraphFilterParams';
+import type { GraphViewport, InvestigationSession, PinnedDocument } from '@/lib/investigation-sessions';
+import type { GraphNode } from '@/lib/types';
+import { useGraphStore } from '@/lib/store/graph-store';
 import './styles/design-system.css';
 
 // Dynamic imports for heavy components - improves initial load
@@ -90,44 +95,83 @@ const DocumentViewer = dynamic(
 interface ViewingDocument {
   id: string;
   highlightEntities: string[];
-}
-
-interface NodeData {
-  id: string;
-  label: string;
-  name?: string;
-  type: string;
-  documentCount?: number;
-  connections?: number;
-  connectionCount?: number;
-  connectedEntities?: string[]; // Names of connected entities
+  page?: number;
 }
 
 export default function Home() {
   const [chatCollapsed, setChatCollapsed] = useState(true); // Start collapsed
-  const [selectedEntity, setSelectedEntity] = useState<NodeData | null>(null);
   const [selectedEntities, setSelectedEntities] = useState<string[]>([]);
   const [viewingDocument, setViewingDocument] = useState<ViewingDocument | null>(null);
   const [showTimeline, setShowTimeline] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [autoInvestigate, setAutoInvestigate] = useState(false);
+  const [pinnedDocuments, setPinnedDocuments] = useState<PinnedDocument[]>([]);
+  const [restoredViewport, setRestoredViewport] = useState<GraphViewport | null>(null);
   
   // Keyboard shortcuts hook
   const shortcuts = useKeyboardShortcuts();
+  useGraphFilterParams();
   
-  const handleNodeSelect = useCallback((node: NodeData | null) => {
-    setSelectedEntity(node);
-    if (node) {
-      setSelectedEntities([node.label]);
-    } else {
-      setSelectedEntities([]);
-    }
+  // The graph selection lives in the graph store - the entity panel shows it when it is a single node
+  const graphNodes = useGraphStore(state => state.nodes);
+  const graphEdges = useGraphStore(state => state.edges);
+  const selectedNodeIds = useGraphStore(state => state.selectedNodeIds);
+  const clearSelection = useGraphStore(state => state.clearSelection);
+  const selectedEntity = useMemo(() => {
+    if (selectedNodeIds.length !== 1) return null;
+    const id = selectedNodeIds[0];
+    const node = graphNodes.find(n => n.id === id);
+    if (!node) return null;
+    const names = new Map(graphNodes.map(n => [n.id, n.name]));
+    const connectedEntities = graphEdges
+      .filter(e => e.source === id || e.target === id)
+      .map(e => names.get(e.source === id ? e.target : e.source))
+      .filter((name): name is string => Boolean(name));
+    return { ...node, connectedEntities };
+  }, [selectedNodeIds, graphNodes, graphEdges]);
+  
+  // Chat context follows the graph selection as it changes
+  useEffect(() => {
+    return useGraphStore.subscribe(
+      state => state.selectedNodeIds,
+      ids => {
+        const { nodes } = useGraphStore.getState();
+        setSelectedEntities(ids.map(id => nodes.find(n => n.id === id)?.label).filter((name): name is string => Boolean(name)));
+      }
+    );
   }, []);
   
-  const handleAnalyzeConnection = useCallback((entities: string[], _nodeData?: NodeData[]) => {
+  // Saved investigation - the chat thread plus this workspace, resumed on the next visit
+  const handleRestore = useCallback((session: InvestigationSession | null) => {
+    clearSelection();
+    setSelectedEntities(session?.selectedEntities || []);
+    setPinnedDocuments(session?.pinnedDocuments || []);
+    setRestoredViewport(session?.viewport || null);
+    if (session && session.messages.length > 0) setChatCollapsed(false);
+  }, [clearSelection]);
+  const investigation = useInvestigationSession({ onRestore: handleRestore });
+  const { saveWorkspace } = investigation;
+  
+  useEffect(() => {
+    saveWorkspace({ selectedEntities });
+  }, [selectedEntities, saveWorkspace]);
+  
+  const handleTogglePin = useCallback((doc: PinnedDocument) => {
+    const isSame = (d: PinnedDocument) => d.documentId === doc.documentId && d.page === doc.page;
+    const pinned = pinnedDocuments.some(isSame)
+      ? pinnedDocuments.filter(d => !isSame(d))
+      : [...pinnedDocuments, doc];
+    setPinnedDocuments(pinned);
+    saveWorkspace({ pinnedDocuments: pinned });
+  }, [pinnedDocuments, saveWorkspace]);
+  
+  const handleViewportChange = useCallback((viewport: GraphViewport) => {
+    saveWorkspace({ viewport });
+  }, [saveWorkspace]);
+  
+  const handleAnalyzeConnection = useCallback((entities: string[], _nodeData?: GraphNode[]) => {
     console.log('[PAGE] Analyze connection requested for:', entities);
     setSelectedEntities(entities);
-    setSelectedEntity(null);
     setChatCollapsed(false);
     
     // Auto-send investigation request to AI
@@ -138,11 +182,12 @@ export default function Home() {
     }
   }, []);
   
-  const handleViewDocument = useCallback((documentId: string) => {
-    console.log('[PAGE] View document:', documentId);
+  const handleViewDocument = useCallback((documentId: string, page?: number) => {
+    console.log('[PAGE] View document:', documentId, page ? `page ${page}` : '');
     setViewingDocument({
       id: documentId,
       highlightEntities: selectedEntities,
+      page,
     });
   }, [selectedEntities]);
   
@@ -240,7 +285,11 @@ export default function Home() {
         )}
         
         <div className={`relative transition-all duration-300 ease-out ${chatCollapsed ? 'flex-1' : 'h-[75%]'} ${viewingDocument ? 'invisible' : ''} z-0`}>
-          <Graph3DCore onNodeSelect={handleNodeSelect} onAnalyzeConnection={handleAnalyzeConnection} />
+          <Graph3DCore
+            onAnalyzeConnection={handleAnalyzeConnection}
+            viewport={restoredViewport}
+            onViewportChange={handleViewportChange}
+          />
           
           {selectedEntity && (
             <div className="absolute top-4 right-4 w-80 max-h-[calc(100%-32px)] overflow-auto bg-[#12121a]/95 backdrop-blur-sm border border-[#ffffff15] rounded-lg shadow-xl">
@@ -262,7 +311,7 @@ export default function Home() {
                       </svg>
                     </button>
                     {/* Close button */}
-                    <button onClick={() => setSelectedEntity(null)} className="p-1 hover:bg-[#ffffff10] rounded">
+                    <button onClick={clearSelection} className="p-1 hover:bg-[#ffffff10] rounded">
                       <svg className="w-4 h-4 text-[#606070]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                       </svg>
@@ -332,6 +381,13 @@ export default function Home() {
         <ColorLegend />
         
         <InvestigationChat
+          key={investigation.restoreKey}
+          initialMessages={investigation.restored?.messages}
+          onEnsureInvestigation={investigation.ensureSession}
+          shareId={investigation.shareId}
+          onNewInvestigation={investigation.startNew}
+          pinnedDocuments={pinnedDocuments}
+          onTogglePin={handleTogglePin}
           selectedEntities={selectedEntities}
           onViewDocument={handleViewDocument}
           isCollapsed={chatCollapsed}
@@ -345,6 +401,7 @@ export default function Home() {
         <DocumentViewer
           documentId={viewingDocument.id}
           highlightEntities={viewingDocument.highlightEntities}
+          initialPage={viewingDocument.page}
           onClose={handleCloseDocument}
         />
       )}
@@ -0,0 +1,400 @@
+// Typed tools for the investigation agent
+// Arguments are validated with zod before anything touches the database. Document text a tool
+// returns is registered as a citation source and numbered [n], so the final answer can be
+// verified against exactly what the model read.
+
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import { retrievePassages } from '@/lib/passage-retrieval';
+import { splitPages } from '@/lib/document-search';
+import { isGarbageEntity } from '@/lib/entity-normalization';
+import { formatRoleProfile, type EntityRoleProfile } from '@/lib/entity-roles';
+import { KEY_TIMELINE_EVENTS } from '@/lib/web-search';
+import { findEntityPaths } from '@/lib/entity-paths';
+import type { CitationSource } from '@/lib/citation-verifier';
+import type { LlmToolDefinition } from '@repo/llm/client';
+
+export interface AgentToolResult {
+  content: string;   // What the model reads
+  summary: string;   // One line for the tool trace in the UI
+}
+
+// Bad arguments, unknown entities or documents - reported back to the model so it can correct itself
+export class AgentToolError extends Error {}
+
+const PAGE_TEXT_LIMIT = 4000;
+const PATH_EVIDENCE_LIMIT = 3;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Numbered citation sources for one agent run - the same passage read twice keeps its number
+ */
+export class SourceRegistry {
+  private sources: CitationSource[] = [];
+  private refs = new Map<string, number>();
+
+  add(source: Omit<CitationSource, 'ref'>): number {
+    const key = `${source.docId}:${source.page ?? ''}:${source.text.slice(0, 100)}`;
+    const existing = this.refs.get(key);
+    if (existing) return existing;
+
+    const ref = this.sources.length + 1;
+    this.sources.push({ ...source, ref });
+    this.refs.set(key, ref);
+    return ref;
+  }
+
+  list(): CitationSource[] {
+    return [...this.sources];
+  }
+}
+
+interface AgentTool {
+  name: string;
+  description: string;
+  schema: z.ZodType;
+  run(args: unknown, sources: SourceRegistry): Promise<AgentToolResult>;
+}
+
+function defineTool<S extends z.ZodType>(
+  name: string,
+  description: string,
+  schema: S,
+  run: (args: z.infer<S>, sources: SourceRegistry) => Promise<AgentToolResult>
+): AgentTool {
+  return { name, description, schema, run: (args, sources) => run(args as z.infer<S>, sources) };
+}
+
+// =============================================================================
+// LOOKUPS
+// =============================================================================
+
+interface EntityRow {
+  id: string;
+  name: string;
+  type: string | null;
+  document_count: number | null;
+  connection_count: number | null;
+  roles?: EntityRoleProfile | null;
+}
+
+// Wildcards and PostgREST separators would change what an ilike pattern means
+function likePattern(text: string): string {
+  return text.replace(/[%_,()\\]/g, ' ').trim();
+}
+
+/**
+ * The entity a name refers to - an exact match if there is one, otherwise the best-documented partial match
+ */
+async function resolveEntity(name: string): Promise<EntityRow> {
+  const pattern = likePattern(name);
+  if (pattern.length < 2) throw new AgentToolError(`"${name}" is not a usable entity name`);
+
+  const { data: exact } = await supabase
+    .from('entities')
+    .select('id, name, type, document_count, connection_count')
+    .ilike('name', pattern)
+    .order('document_count', { ascending: false })
+    .limit(1);
+  if (exact?.[0]) return exact[0] as EntityRow;
+
+  const { data: partial } = await supabase
+    .from('entities')
+    .select('id, name, type, document_count, connection_count')
+    .ilike('name', `%${pattern}%`)
+    .order('document_count', { ascending: false })
+    .limit(5);
+  const match = ((partial || []) as EntityRow[]).find(e => !isGarbageEntity(e.name));
+  if (!match) throw new AgentToolError(`No entity named "${name}" - try search_entities first`);
+  return match;
+}
+
+async function entityNames(ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+  const { data } = await supabase.from('entities').select('id, name').in('id', ids);
+  return new Map((data || []).map(e => [e.id as string, e.name as string]));
+}
+
+interface DocumentRow {
+  id: string;
+  doc_id: string | null;
+  title: string | null;
+  page_count: number | null;
+  content: string | null;
+}
+
+// Documents are referred to by row id or by PDF id, and the model sees both
+async function findDocument(documentId: string): Promise<DocumentRow> {
+  const { data } = await supabase
+    .from('documents')
+    .select('id, doc_id, title, page_count, content')
+    .eq(UUID_PATTERN.test(documentId) ? 'id' : 'doc_id', documentId)
+    .limit(1);
+  const doc = data?.[0] as DocumentRow | undefined;
+  if (!doc) throw new AgentToolError(`No document with id "${documentId}"`);
+  return doc;
+}
+
+async function resolveDocumentIds(documentIds: string[]): Promise<string[]> {
+  const rowIds = documentIds.filter(id => UUID_PATTERN.test(id));
+  const pdfIds = documentIds.filter(id => !UUID_PATTERN.test(id));
+  if (pdfIds.length === 0) return rowIds;
+
+  const { data } = await supabase.from('documents').select('id').in('doc_id', pdfIds);
+  return [...rowIds, ...(data || []).map(d => d.id as string)];
+}
+
+// =============================================================================
+// TOOLS
+// =============================================================================
+
+const searchEntities = defineTool(
+  'search_entities',
+  'Find people, organizations and locations in the document database by name. Returns exact names, types, document counts and, for people, their roles in the documents.',
+  z.object({
+    query: z.string().min(2).max(100).describe('Full or partial name'),
+    type: z.string().max(30).optional().describe('Entity type, e.g. person, organization, location'),
+    limit: z.number().int().min(1).max(20).default(10),
+  }),
+  async ({ query, type, limit }) => {
+    let request = supabase
+      .from('entities')
+      .select('id, name, type, document_count, connection_count, roles:metadata->roles')
+      .ilike('name', `%${likePattern(query)}%`);
+    if (type) request = request.eq('type', type.toLowerCase());
+
+    const { data, error } = await request.order('document_count', { ascending: false }).limit(limit * 2);
+    if (error) throw new Error(error.message);
+
+    const entities = ((data || []) as EntityRow[]).filter(e => !isGarbageEntity(e.name)).slice(0, limit);
+    if (entities.length === 0) {
+      return { content: `No entities match "${query}".`, summary: 'No matches' };
+    }
+    return {
+      content: entities.map(e =>
+        `• ${e.name} (${e.type || 'unknown'}) - ${e.document_count ?? 0} documents, ${e.connection_count ?? 0} connections` +
+        (e.roles?.classified ? `; roles: ${formatRoleProfile(e.roles)}` : '')
+      ).join('\n'),
+      summary: `${entities.length} entities: ${entities.slice(0, 3).map(e => e.name).join(', ')}${entities.length > 3 ? '...' : ''}`,
+    };
+  }
+);
+
+const searchDocuments = defineTool(
+  'search_documents',
+  'Full-text and semantic search over document passages. Returns numbered passages [n] you can cite.',
+  z.object({
+    query: z.string().min(3).max(300).describe('What to look for - names, places, events, phrases'),
+    documentIds: z.array(z.string()).max(20).optional().describe('Only search these documents'),
+    limit: z.number().int().min(1).max(10).default(5),
+  }),
+  async ({ query, documentIds, limit }, sources) => {
+    const passages = await retrievePassages(query, {
+      limit,
+      documentIds: documentIds?.length ? await resolveDocumentIds(documentIds) : undefined,
+    });
+    if (passages.length === 0) {
+      return { content: `No passages match "${query}".`, summary: 'No passages' };
+    }
+
+    return {
+      content: passages.map(p => {
+        const ref = sources.add({ docId: p.docId, title: p.title, page: p.page ?? undefined, text: p.text });
+        return `[${ref}] ${p.title}${p.page ? `, p. ${p.page}` : ''} (document ${p.docId}):\n"${p.text}"`;
+      }).join('\n\n'),
+      summary: `${passages.length} passages from ${new Set(passages.map(p => p.docId)).size} documents`,
+    };
+  }
+);
+
+const getConnections = defineTool(
+  'get_connections',
+  'Entities that appear in the same documents as the given entity, strongest first. Strength is the number of shared documents; NPMI (0-1) is association corrected for document length.',
+  z.object({
+    entity: z.string().min(2).max(100).describe('Entity name'),
+    limit: z.number().int().min(1).max(25).default(10),
+  }),
+  async ({ entity, limit }) => {
+    const resolved = await resolveEntity(entity);
+    const { data, error } = await supabase
+      .from('connections')
+      .select('entity_a_id, entity_b_id, strength, connection_type, npmi:metadata->weights->npmi')
+      .or(`entity_a_id.eq.${resolved.id},entity_b_id.eq.${resolved.id}`)
+      .order('strength', { ascending: false })
+      .limit(limit * 2);
+    if (error) throw new Error(error.message);
+
+    const rows = data || [];
+    const names = await entityNames(rows.map(c => (c.entity_a_id === resolved.id ? c.entity_b_id : c.entity_a_id)));
+    const connections = rows
+      .map(c => ({
+        name: names.get(c.entity_a_id === resolved.id ? c.entity_b_id : c.entity_a_id),
+        strength: c.strength || 1,
+        npmi: typeof c.npmi === 'number' ? c.npmi : null,
+      }))
+      .filter((c): c is { name: string; strength: number; npmi: number | null } => !!c.name && !isGarbageEntity(c.name))
+      .slice(0, limit);
+
+    if (connections.length === 0) {
+      return { content: `${resolved.name} has no recorded connections.`, summary: `${resolved.name}: no connections` };
+    }
+    return {
+      content: `Connections of ${resolved.name}:\n${connections.map(c =>
+        `• ${c.name} - ${c.strength} shared documents${c.npmi !== null ? `, NPMI ${c.npmi.toFixed(2)}` : ''}`
+      ).join('\n')}`,
+      summary: `${resolved.name}: ${connections.length} connections`,
+    };
+  }
+);
+
+const findPaths = defineTool(
+  'find_paths',
+  'Shortest chains of co-occurrence linking two entities, e.g. A → B → C, with documents behind each hop. Useful when two entities have no direct connection.',
+  z.object({
+    from: z.string().min(2).max(100),
+    to: z.string().min(2).max(100),
+    maxHops: z.number().int().min(1).max(4).default(3),
+  }),
+  async ({ from, to, maxHops }) => {
+    const [source, target] = await Promise.all([resolveEntity(from), resolveEntity(to)]);
+    if (source.id === target.id) throw new AgentToolError(`"${from}" and "${to}" are the same entity`);
+
+    const paths = await findEntityPaths(source.id, target.id, { k: 3, maxHops, weighting: 'hops', evidenceLimit: PATH_EVIDENCE_LIMIT });
+    if (paths.length === 0) {
+      return {
+        content: `No path of ${maxHops} hops or fewer links ${source.name} and ${target.name}.`,
+        summary: 'No path found',
+      };
+    }
+
+    const usable = paths.filter(p => !p.names.some(name => isGarbageEntity(name)));
+    if (usable.length === 0) {
+      return { content: `No clean path links ${source.name} and ${target.name}.`, summary: 'No path found' };
+    }
+    // Each hop's documents, so the model can open them rather than take the link on trust
+    return {
+      content: `Paths from ${source.name} to ${target.name}:\n${usable.map((p, i) => [
+        `${i + 1}. ${p.names.join(' → ')} (weakest link: ${p.weakestLink} shared documents)`,
+        ...p.edges.map((edge, j) =>
+          `   ${p.names[j]} → ${p.names[j + 1]}: ${edge.weight} shared documents${edge.documentIds.length ? ` - ${edge.documentIds.join(', ')}` : ''}`
+        ),
+      ].join('\n')).join('\n')}`,
+      summary: `${usable.length} path${usable.length > 1 ? 's' : ''}, shortest ${usable[0]?.edges.length} hops`,
+    };
+  }
+);
+
+const openDocumentPage = defineTool(
+  'open_document_page',
+  'Read the text of one page of a document. Returns a numbered passage [n] you can cite.',
+  z.object({
+    documentId: z.string().min(1).max(200).describe('Document id as shown in search results'),
+    page: z.number().int().min(1).default(1),
+  }),
+  async ({ documentId, page }, sources) => {
+    const doc = await findDocument(documentId);
+    const pages = splitPages(doc.content || '');
+    const text = pages[page - 1]?.trim();
+    if (!text) {
+      throw new AgentToolError(`${doc.title || documentId} has ${pages.length} page${pages.length === 1 ? '' : 's'} of text, not page ${page}`);
+    }
+
+    const title = doc.title || doc.doc_id || 'DOJ Document';
+    const excerpt = text.length > PAGE_TEXT_LIMIT ? `${text.slice(0, PAGE_TEXT_LIMIT)}...` : text;
+    const ref = sources.add({ docId: doc.doc_id || doc.id, title, page, text: excerpt });
+    return {
+      content: `[${ref}] ${title}, p. ${page} of ${doc.page_count || pages.length}:\n"${excerpt}"`,
+      summary: `${title}, p. ${page}`,
+    };
+  }
+);
+
+const timelineQuery = defineTool(
+  'timeline_query',
+  'Dated documents in chronological order, optionally only those mentioning an entity, plus key case milestones. Dates are ISO (YYYY or YYYY-MM-DD).',
+  z.object({
+    entity: z.string().min(2).max(100).optional(),
+    from: z.string().regex(/^\d{4}(-\d{2}){0,2}$/).optional(),
+    to: z.string().regex(/^\d{4}(-\d{2}){0,2}$/).optional(),
+    limit: z.number().int().min(1).max(20).default(10),
+  }),
+  async ({ entity, from, to, limit }) => {
+    const resolved = entity ? await resolveEntity(entity) : null;
+
+    let request = supabase
+      .from('documents')
+      .select('id, doc_id, title, date:metadata->>date')
+      .not('metadata->>date', 'is', null);
+    if (resolved) {
+      const { data: mentions } = await supabase
+        .from('entity_mentions')
+        .select('document_id')
+        .eq('entity_id', resolved.id)
+        .limit(500);
+      request = request.in('id', [...new Set((mentions || []).map(m => m.document_id as string))]);
+    }
+    if (from) request = request.gte('metadata->>date', from);
+    // A year or month as the end of the range includes the dates inside it
+    if (to) request = request.lte('metadata->>date', to.length < 10 ? `${to}-99` : to);
+
+    const { data, error } = await request.order('metadata->>date', { ascending: true }).limit(limit);
+    if (error) throw new Error(error.message);
+    const documents = data || [];
+
+    // Milestones are background, not document evidence - labelled so they aren't cited as documents
+    const milestones = KEY_TIMELINE_EVENTS.filter(event =>
+      (!from || event.date >= from.slice(0, event.date.length)) &&
+      (!to || event.date.slice(0, to.length) <= to) &&
+      (!resolved || event.entities.some(e =>
+        e.toLowerCase().includes(resolved.name.toLowerCase()) || resolved.name.toLowerCase().includes(e.toLowerCase())
+      ))
+    );
+
+    const sections: string[] = [];
+    if (documents.length > 0) {
+      sections.push(`Dated documents${resolved ? ` mentioning ${resolved.name}` : ''}:\n${documents.map(d =>
+        `• ${d.date}: ${d.title || d.doc_id || 'Untitled document'} (document ${d.doc_id || d.id})`
+      ).join('\n')}`);
+    }
+    if (milestones.length > 0) {
+      sections.push(`Case milestones (public record, not from the documents):\n${milestones.map(e =>
+        `• ${e.date}: ${e.description} [${e.source}]`
+      ).join('\n')}`);
+    }
+
+    return {
+      content: sections.join('\n\n') || 'No dated documents or milestones in that range.',
+      summary: `${documents.length} dated documents, ${milestones.length} milestones`,
+    };
+  }
+);
+
+const TOOLS: AgentTool[] = [searchEntities, searchDocuments, getConnections, findPaths, openDocumentPage, timelineQuery];
+const TOOLS_BY_NAME = new Map(TOOLS.map(tool => [tool.name, tool]));
+
+/**
+ * Tool definitions in the shape the LLM client sends to providers
+ */
+export function getAgentToolDefinitions(): LlmToolDefinition[] {
+  return TOOLS.map(tool => {
+    const parameters = z.toJSONSchema(tool.schema, { io: 'input' }) as Record<string, unknown>;
+    delete parameters.$schema;
+    return { name: tool.name, description: tool.description, parameters };
+  });
+}
+
+/**
+ * Validate the arguments and run a tool. Throws AgentToolError for unknown tools and invalid arguments.
+ */
+export async function runAgentTool(name: string, args: unknown, sources: SourceRegistry): Promise<AgentToolResult> {
+  const tool = TOOLS_BY_NAME.get(name);
+  if (!tool) throw new AgentToolError(`Unknown tool "${name}". Available: ${TOOLS.map(t => t.name).join(', ')}`);
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    throw new AgentToolError(`Invalid arguments for ${name}: ${parsed.error.issues.map(i =>
+      `${i.path.join('.') || 'arguments'} ${i.message}`
+    ).join('; ')}`);
+  }
+  return tool.run(parsed.data, sources);
+}
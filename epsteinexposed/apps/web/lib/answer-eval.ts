@@ -0,0 +1,312 @@
+// Answer-quality evaluation for the investigation chat
+// Golden questions carry a frozen snapshot of the evidence the route would retrieve, so an answer
+// can be generated (or replayed from fixtures) and scored without the database. Run it with
+// scripts/eval-chat.ts; reports from two prompt versions are compared with diffReports().
+
+import { verifyCitations, type VerificationResult } from '@/lib/citation-verifier';
+import { isGarbageEntity } from '@/lib/entity-normalization';
+import {
+  buildAnswerMessages,
+  buildSuggestions,
+  formatConnectionsContext,
+  formatPassageContext,
+  stripMarkdown,
+  type ChatConnection,
+  type ChatPassage,
+} from '@/lib/investigation-prompt';
+import type { LlmClient } from '@repo/llm/client';
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  selectedEntities?: string[];
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  passages: ChatPassage[];           // Retrieved passages, in rank order
+  connections?: ChatConnection[];
+  expectedEntities?: string[];       // Should be named in a good answer
+  expectedDocuments?: string[];      // docIds a good answer cites
+  notes?: string;
+}
+
+export interface AnswerScores {
+  citationPrecision: number | null;  // Share of the model's references that point at a supporting passage
+  documentRecall: number | null;     // Share of expected documents the verified citations include
+  entityRecall: number | null;       // Share of expected entities named in the answer
+  unsupportedRate: number | null;    // Share of checkable sentences no passage supports
+  fabricatedReferences: number;      // References to documents that weren't retrieved
+  garbageLeaks: string[];            // Extraction-noise entity names (isGarbageEntity) shown to the user
+}
+
+export interface QuestionResult {
+  id: string;
+  status: 'scored' | 'missing_fixture' | 'error';
+  error?: string;
+  answer?: string;
+  suggestions?: string[];
+  scores?: AnswerScores;
+}
+
+export interface EvalSummary {
+  scored: number;
+  missing: number;
+  errors: number;
+  citationPrecision: number | null;  // Means over the questions where the score applies
+  documentRecall: number | null;
+  entityRecall: number | null;
+  unsupportedRate: number | null;
+  fabricatedReferences: number;      // Totals
+  garbageLeaks: number;
+}
+
+export interface EvalReport {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+  summary: EvalSummary;
+  questions: QuestionResult[];
+}
+
+type RateMetric = 'citationPrecision' | 'documentRecall' | 'entityRecall' | 'unsupportedRate';
+type CountMetric = 'fabricatedReferences' | 'garbageLeaks';
+
+// Which way is better, and how far a rate may move before it counts as a change
+const METRICS: Array<{ key: RateMetric | CountMetric; label: string; higherIsBetter: boolean; tolerance: number }> = [
+  { key: 'citationPrecision', label: 'Citation precision', higherIsBetter: true, tolerance: 0.02 },
+  { key: 'documentRecall', label: 'Document recall', higherIsBetter: true, tolerance: 0.02 },
+  { key: 'entityRecall', label: 'Entity recall', higherIsBetter: true, tolerance: 0.02 },
+  { key: 'unsupportedRate', label: 'Unsupported-claim rate', higherIsBetter: false, tolerance: 0.02 },
+  { key: 'fabricatedReferences', label: 'Fabricated references', higherIsBetter: false, tolerance: 0 },
+  { key: 'garbageLeaks', label: 'Garbage-entity leaks', higherIsBetter: false, tolerance: 0 },
+];
+
+/**
+ * The context the route would build from this evidence - the same formatters, without the
+ * layers that need the database or the web (entity profiles, news, Wikipedia)
+ */
+export function buildEvalContext(question: GoldenQuestion): string {
+  const focus = question.selectedEntities?.length ? `\n\nFOCUS: ${question.selectedEntities.join(' and ')}` : '';
+  return `${formatConnectionsContext(question.connections || [])}${formatPassageContext(question.passages)}${focus}`.trim();
+}
+
+/**
+ * Answer one golden question with the chat prompt and score the answer
+ */
+export async function runGoldenQuestion(llm: LlmClient, question: GoldenQuestion): Promise<QuestionResult> {
+  const { messages, options } = buildAnswerMessages({
+    history: question.history || [],
+    context: buildEvalContext(question),
+    question: question.question,
+  });
+
+  let text: string;
+  try {
+    // Fixtures are named by question - scripts/eval-chat.ts keeps one set per prompt version
+    text = (await llm.chat(messages, { ...options, fixtureKey: question.id })).text;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { id: question.id, status: message.startsWith('No LLM fixture') ? 'missing_fixture' : 'error', error: message };
+  }
+
+  const verification = verifyCitations(
+    stripMarkdown(text || 'No response generated'),
+    question.passages.map((p, i) => ({ docId: p.docId, title: p.title, page: p.page ?? undefined, text: p.text, ref: i + 1 }))
+  );
+  const suggestions = buildSuggestions(question.question, question.selectedEntities || [], question.connections || [], question.passages.length);
+
+  return {
+    id: question.id,
+    status: 'scored',
+    answer: verification.text,
+    suggestions,
+    scores: scoreAnswer(question, verification, suggestions),
+  };
+}
+
+/**
+ * Score a verified answer against the question's expectations
+ */
+export function scoreAnswer(question: GoldenQuestion, verification: VerificationResult, suggestions: string[]): AnswerScores {
+  const answer = verification.text;
+
+  const referenced = verification.sentences.filter(s => s.referenced);
+  const references = referenced.length + verification.removedReferences.length;
+  const checkable = verification.sentences.filter(s => s.status !== 'skipped');
+
+  const expectedDocuments = question.expectedDocuments || [];
+  const citedDocuments = new Set(verification.citations.map(c => c.documentId));
+  const expectedEntities = question.expectedEntities || [];
+  const answerLower = answer.toLowerCase();
+
+  return {
+    citationPrecision: references > 0 ? referenced.filter(s => !s.mismatched).length / references : null,
+    documentRecall: expectedDocuments.length > 0
+      ? expectedDocuments.filter(id => citedDocuments.has(id)).length / expectedDocuments.length
+      : null,
+    entityRecall: expectedEntities.length > 0
+      ? expectedEntities.filter(name => answerLower.includes(name.toLowerCase())).length / expectedEntities.length
+      : null,
+    unsupportedRate: checkable.length > 0 ? verification.unsupportedCount / checkable.length : null,
+    fabricatedReferences: verification.removedReferences.length,
+    garbageLeaks: findGarbageLeaks(question, [answer, ...suggestions]),
+  };
+}
+
+// Garbage names from the evidence that reach the reader. A capitalised "On" or "Page" opening a
+// sentence is ordinary prose, so only mid-sentence occurrences count.
+function findGarbageLeaks(question: GoldenQuestion, texts: string[]): string[] {
+  const candidates = new Set([
+    ...(question.selectedEntities || []),
+    ...(question.connections || []).flatMap(c => [c.entityA, c.entityB]),
+  ].filter(isGarbageEntity));
+
+  return [...candidates].filter(name => {
+    const pattern = new RegExp(`(?<![.!?:\\n]\\s*|^\\s*)\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+    return texts.some(text => pattern.test(text));
+  });
+}
+
+function mean(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((v): v is number => typeof v === 'number');
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null;
+}
+
+export function summarizeResults(results: QuestionResult[]): EvalSummary {
+  const scores = results.flatMap(r => (r.scores ? [r.scores] : []));
+  return {
+    scored: scores.length,
+    missing: results.filter(r => r.status === 'missing_fixture').length,
+    errors: results.filter(r => r.status === 'error').length,
+    citationPrecision: mean(scores.map(s => s.citationPrecision)),
+    documentRecall: mean(scores.map(s => s.documentRecall)),
+    entityRecall: mean(scores.map(s => s.entityRecall)),
+    unsupportedRate: mean(scores.map(s => s.unsupportedRate)),
+    fabricatedReferences: scores.reduce((sum, s) => sum + s.fabricatedReferences, 0),
+    garbageLeaks: scores.reduce((sum, s) => sum + s.garbageLeaks.length, 0),
+  };
+}
+
+// =============================================================================
+// COMPARING PROMPT VERSIONS
+// =============================================================================
+
+export type ChangeDirection = 'better' | 'worse' | 'same';
+
+export interface MetricChange {
+  label: string;
+  count: boolean;               // A total rather than a rate
+  base: number | null;
+  head: number | null;
+  direction: ChangeDirection;
+}
+
+export interface QuestionChange {
+  id: string;
+  metrics: MetricChange[];      // Only the metrics that moved
+  baseAnswer?: string;
+  headAnswer?: string;
+}
+
+export interface EvalDiff {
+  basePromptVersion: string;
+  headPromptVersion: string;
+  summary: MetricChange[];
+  questions: QuestionChange[];
+  notCompared: string[];        // Questions not scored in both reports
+  regressed: boolean;
+}
+
+function compare(base: number | null, head: number | null, higherIsBetter: boolean, tolerance: number): ChangeDirection {
+  if (base === null || head === null) return 'same';
+  const delta = head - base;
+  if (Math.abs(delta) <= tolerance) return 'same';
+  return (delta > 0) === higherIsBetter ? 'better' : 'worse';
+}
+
+function isRate(key: RateMetric | CountMetric): key is RateMetric {
+  return key !== 'fabricatedReferences' && key !== 'garbageLeaks';
+}
+
+function metricValue(scores: AnswerScores | EvalSummary, key: RateMetric | CountMetric): number | null {
+  const value = scores[key];
+  return Array.isArray(value) ? value.length : value;
+}
+
+/**
+ * What changed between two eval reports - head is the prompt under review
+ */
+export function diffReports(base: EvalReport, head: EvalReport): EvalDiff {
+  const summary = METRICS.map(({ key, label, higherIsBetter, tolerance }) => {
+    const baseValue = metricValue(base.summary, key);
+    const headValue = metricValue(head.summary, key);
+    return { label, count: !isRate(key), base: baseValue, head: headValue, direction: compare(baseValue, headValue, higherIsBetter, tolerance) };
+  });
+
+  const baseById = new Map(base.questions.map(q => [q.id, q]));
+  const questions: QuestionChange[] = [];
+  const notCompared: string[] = [];
+  for (const headResult of head.questions) {
+    const baseResult = baseById.get(headResult.id);
+    if (!baseResult?.scores || !headResult.scores) {
+      notCompared.push(headResult.id);
+      continue;
+    }
+    const metrics = METRICS.flatMap(({ key, label, higherIsBetter, tolerance }) => {
+      const baseValue = metricValue(baseResult.scores as AnswerScores, key);
+      const headValue = metricValue(headResult.scores as AnswerScores, key);
+      const direction = compare(baseValue, headValue, higherIsBetter, tolerance);
+      return direction === 'same' ? [] : [{ label, count: !isRate(key), base: baseValue, head: headValue, direction }];
+    });
+    if (metrics.length > 0) {
+      questions.push({ id: headResult.id, metrics, baseAnswer: baseResult.answer, headAnswer: headResult.answer });
+    }
+  }
+  notCompared.push(...base.questions.filter(q => !head.questions.some(h => h.id === q.id)).map(q => q.id));
+
+  return {
+    basePromptVersion: base.promptVersion,
+    headPromptVersion: head.promptVersion,
+    summary,
+    questions,
+    notCompared,
+    regressed: summary.some(m => m.direction === 'worse'),
+  };
+}
+
+function formatValue(metric: MetricChange, value: number | null): string {
+  if (value === null) return 'n/a';
+  return metric.count ? String(value) : `${(value * 100).toFixed(1)}%`;
+}
+
+const DIRECTION_MARKS: Record<ChangeDirection, string> = { better: '▲ better', worse: '▼ worse', same: '' };
+
+/**
+ * Markdown report for a diff - fits in a PR comment
+ */
+export function formatDiffMarkdown(diff: EvalDiff): string {
+  const lines = [
+    `# Chat answer quality: ${diff.basePromptVersion} → ${diff.headPromptVersion}`,
+    '',
+    diff.regressed ? '**Regressed** on at least one metric.' : 'No regressions.',
+    '',
+    '| Metric | Base | Head | |',
+    '| --- | --- | --- | --- |',
+    ...diff.summary.map(m => `| ${m.label} | ${formatValue(m, m.base)} | ${formatValue(m, m.head)} | ${DIRECTION_MARKS[m.direction]} |`),
+    '',
+  ];
+
+  if (diff.questions.length > 0) {
+    lines.push('## Changed questions', '');
+    for (const question of diff.questions) {
+      lines.push(`### ${question.id}`, '');
+      for (const m of question.metrics) {
+        lines.push(`- ${m.label}: ${formatValue(m, m.base)} → ${formatValue(m, m.head)} (${m.direction})`);
+      }
+      lines.push('', '<details><summary>Answers</summary>', '', '**Base:**', '', question.baseAnswer || '', '', '**Head:**', '', question.headAnswer || '', '', '</details>', '');
+    }
+  }
+  if (diff.notCompared.length > 0) {
+    lines.push(`Not scored in both reports: ${diff.notCompared.join(', ')}`, '');
+  }
+  return lines.join('\n');
+}
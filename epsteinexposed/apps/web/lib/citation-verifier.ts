@@ -0,0 +1,347 @@
+// Post-generation citation check for chat answers
+// Every sentence of an answer is matched against the source text the model was given. Sentences
+// without a supporting span are flagged, references to documents that weren't retrieved are
+// removed, and each citation carries the page and the quoted span so the UI can show the evidence.
+
+export interface CitationSource {
+  docId: string;
+  title: string;
+  page?: number;
+  text: string;
+  ref?: number;          // Passage number as numbered in the prompt ([1], [2], ...)
+}
+
+export interface QuoteSpan {
+  start: number;         // Offsets into the citation excerpt
+  end: number;
+}
+
+export interface VerifiedCitation {
+  documentId: string;
+  documentName: string;
+  excerpt: string;
+  page?: number;
+  quote: QuoteSpan;
+  sentences: number[];   // Indexes of the answer sentences this span supports
+}
+
+export type SentenceStatus = 'supported' | 'unsupported' | 'skipped';
+
+export interface SentenceVerification {
+  index: number;
+  start: number;         // Offsets into the verified answer text
+  end: number;
+  status: SentenceStatus;
+  support: number;       // 0-1, share of the sentence's content words found in the best span
+  citations: number[];   // Indexes into VerificationResult.citations
+  referenced: boolean;   // The model cited a retrieved document for it
+  mismatched: boolean;   // Cited a retrieved document that doesn't support it
+}
+
+export interface VerificationResult {
+  text: string;                  // Answer with fabricated references removed
+  sentences: SentenceVerification[];
+  citations: VerifiedCitation[];
+  unsupportedCount: number;
+  removedReferences: string[];   // Reference markers that matched no retrieved document
+}
+
+// A sentence counts as supported when this share of its content words (names and numbers count double)
+// appears in one span of a source, and every number in it does
+const SUPPORT_THRESHOLD = 0.6;
+const MIN_CLAIM_WORDS = 3;
+const SPAN_SENTENCES = 3;
+const EXCERPT_RADIUS = 120;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'has', 'have', 'had', 'do', 'does', 'did', 'this', 'that',
+  'these', 'those', 'it', 'its', 'he', 'she', 'they', 'them', 'his', 'her', 'their', 'him', 'who', 'whom',
+  'which', 'what', 'when', 'where', 'while', 'also', 'not', 'no', 'so', 'than', 'then', 'there', 'into', 'about',
+  'after', 'before', 'during', 'over', 'under', 'between', 'both', 'all', 'any', 'some', 'such', 'can', 'could',
+  'would', 'should', 'may', 'might', 'will', 'shall', 'one', 'per', 'according', 'document', 'documents', 'page',
+]);
+
+// Abbreviations that end in a period without ending the sentence
+const ABBREVIATIONS = /(?:\b(?:Mr|Mrs|Ms|Dr|Jr|Sr|St|Inc|Co|Corp|Ltd|No|Nos|vs?|pp?|Gov|Sen|Rep|Hon|Atty|Dept|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)|\b[A-Z]|U\.S|U\.K)\.$/;
+
+// Sentences that talk about the search, or attribute a claim to an outside source ("Per NYT, ..."),
+// rather than make a claim about the documents
+const META_SENTENCE = /^(?:(?:per|according to) (?!the (?:documents?|records?|files?|passages?|deposition|flight logs?)\b)|our (?:documents|database|indexed)|the (?:documents|passages) (?:do not|don't|does not|doesn't)|no (?:documents|passages|records)|i (?:could not|couldn't|can't|cannot)|want to learn more|you (?:can|could|may|might))/i;
+
+const REFERENCE_PATTERN = /\s?\[([^\]\n]{1,160})\]/g;
+const QUOTE_PATTERN = /["“]([^"”]{12,300})["”]/g;
+
+interface Token {
+  stem: string;
+  key: boolean;          // Number or capitalised name
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+type Reference =
+  | { kind: 'source'; sources: number[] }
+  | { kind: 'fabricated' }
+  | { kind: 'other' };
+
+function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) return word;
+  return word.replace(/(?:ings?|edly|ed|es|s|ly)$/, '') || word;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+  let match: RegExpExecArray | null;
+  let first = true;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0].replace(/['’]s$/, '');
+    const lower = word.toLowerCase();
+    const isNumber = /\d/.test(word);
+    // The first word of a sentence is capitalised anyway
+    const isName = !first && /^\p{Lu}/u.test(word);
+    first = false;
+    if (STOPWORDS.has(lower) && !isNumber) continue;
+    if (lower.length < 2 && !isNumber) continue;
+    tokens.push({ stem: stem(lower), key: isNumber || isName });
+  }
+  return tokens;
+}
+
+function normalizeForQuote(text: string): string {
+  return text.toLowerCase().replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Sentence spans, skipping breaks after common abbreviations and initials
+ */
+export function splitSentences(text: string): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+  const boundary = /([.!?]["”')\]]*)\s+|\n+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + (match[1]?.length ?? 0);
+    if (match[1] && ABBREVIATIONS.test(text.slice(Math.max(start, end - 6), end))) continue;
+    const next = text.slice(boundary.lastIndex, boundary.lastIndex + 1);
+    // "p. 12", "No. 3" and lowercase continuations are not new sentences
+    if (match[1] && next && /[a-z0-9]/.test(next)) continue;
+    pushSpan(text, spans, start, end);
+    start = boundary.lastIndex;
+  }
+  pushSpan(text, spans, start, text.length);
+  return spans;
+}
+
+function pushSpan(text: string, spans: Span[], start: number, end: number) {
+  let s = start;
+  let e = end;
+  while (s < e && /\s/.test(text.charAt(s))) s++;
+  while (e > s && /\s/.test(text.charAt(e - 1))) e--;
+  if (e > s) spans.push({ start: s, end: e });
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Work out what a [bracketed] marker refers to
+ */
+function resolveReference(marker: string, sources: CitationSource[]): Reference {
+  const inner = marker.trim();
+
+  if (/^(?:\d+\s*,\s*)*\d+$/.test(inner)) {
+    const numbers = inner.split(',').map(n => parseInt(n, 10));
+    const matched = sources.flatMap((s, i) => (s.ref !== undefined && numbers.includes(s.ref) ? [i] : []));
+    return matched.length > 0 ? { kind: 'source', sources: matched } : { kind: 'fabricated' };
+  }
+
+  const docRef = inner.match(/^DOC-(.+)$/i);
+  if (docRef?.[1]) {
+    const id = docRef[1].trim().toLowerCase();
+    const matched = sources.flatMap((s, i) => (s.docId.toLowerCase() === id ? [i] : []));
+    return matched.length > 0 ? { kind: 'source', sources: matched } : { kind: 'fabricated' };
+  }
+
+  const parts = inner.match(/^(.*?)(?:,?\s*(?:p|pp|page)\.?\s*(\d+)(?:\s*[-–]\s*\d+)?)?$/i);
+  const title = normalizeTitle(parts?.[1] ?? inner);
+  const page = parts?.[2] ? parseInt(parts[2], 10) : undefined;
+  if (title.length >= 4) {
+    const byTitle = sources.flatMap((s, i) => {
+      const sourceTitle = normalizeTitle(s.title);
+      const sourceId = normalizeTitle(s.docId);
+      return sourceTitle.includes(title) || (sourceTitle.length >= 4 && title.includes(sourceTitle)) || sourceId === title ? [i] : [];
+    });
+    if (byTitle.length > 0) {
+      const onPage = page !== undefined ? byTitle.filter(i => sources[i]?.page === page) : [];
+      return { kind: 'source', sources: onPage.length > 0 ? onPage : byTitle };
+    }
+  }
+
+  // Only markers shaped like a document citation count as fabricated - "[redacted]" is just text
+  const looksLikeCitation = page !== undefined || /\b(?:doc|document|exhibit|deposition|transcript|filing|report|log|case)\b/i.test(inner);
+  return looksLikeCitation ? { kind: 'fabricated' } : { kind: 'other' };
+}
+
+interface SourceIndex {
+  source: CitationSource;
+  spans: Array<Span & { tokens: Set<string> }>;
+  normalized: string;
+}
+
+function indexSource(source: CitationSource): SourceIndex {
+  const sentences = splitSentences(source.text);
+  const spans: SourceIndex['spans'] = [];
+  sentences.forEach((sentence, i) => {
+    // Claims often combine neighbouring sentences of the source - windows of one to three
+    for (let size = 1; size <= SPAN_SENTENCES; size++) {
+      const last = sentences[i + size - 1];
+      if (!last) break;
+      spans.push({
+        start: sentence.start,
+        end: last.end,
+        tokens: new Set(tokenize(source.text.slice(sentence.start, last.end)).map(t => t.stem)),
+      });
+    }
+  });
+  return { source, spans, normalized: normalizeForQuote(source.text) };
+}
+
+/**
+ * Best supporting span for a claim in one source
+ */
+function bestSpan(claim: Token[], quotes: string[], index: SourceIndex): { span: Span; support: number } | null {
+  // A quoted phrase either appears in the source or the claim isn't supported by it
+  for (const quote of quotes) {
+    if (!index.normalized.includes(quote)) return null;
+  }
+
+  const totalWeight = claim.reduce((sum, t) => sum + (t.key ? 2 : 1), 0);
+  let best: { span: Span; support: number } | null = null;
+
+  for (const span of index.spans) {
+    let weight = 0;
+    let missingNumber = false;
+    for (const token of claim) {
+      if (span.tokens.has(token.stem)) weight += token.key ? 2 : 1;
+      else if (/\d/.test(token.stem)) missingNumber = true;
+    }
+    const support = missingNumber ? Math.min(weight / totalWeight, SUPPORT_THRESHOLD - 0.01) : weight / totalWeight;
+    // Prefer the shorter span on ties - single sentences come before pairs
+    if (!best || support > best.support + 1e-9) best = { span, support };
+  }
+  return best;
+}
+
+function excerptAround(text: string, span: Span): { excerpt: string; quote: QuoteSpan } {
+  const start = Math.max(0, span.start - EXCERPT_RADIUS);
+  const end = Math.min(text.length, span.end + EXCERPT_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    excerpt: prefix + text.slice(start, end) + suffix,
+    quote: { start: prefix.length + span.start - start, end: prefix.length + span.end - start },
+  };
+}
+
+/**
+ * Check an answer against the sources it was generated from
+ */
+export function verifyCitations(answer: string, sources: CitationSource[]): VerificationResult {
+  // Drop references to documents that weren't retrieved before splitting, so offsets match the returned text
+  const removedReferences: string[] = [];
+  const text = answer
+    .replace(REFERENCE_PATTERN, (marker, inner: string) => {
+      if (resolveReference(inner, sources).kind !== 'fabricated') return marker;
+      removedReferences.push(inner.trim());
+      return '';
+    })
+    .replace(/[ \t]+([.,;:!?])/g, '$1');
+
+  const indexes = sources.map(indexSource);
+  const citations: VerifiedCitation[] = [];
+  const citationKeys = new Map<string, number>();
+  const sentences: SentenceVerification[] = [];
+
+  for (const span of splitSentences(text)) {
+    const raw = text.slice(span.start, span.end);
+    const index = sentences.length;
+
+    const cited = new Set<number>();
+    for (const match of raw.matchAll(REFERENCE_PATTERN)) {
+      const reference = resolveReference(match[1] ?? '', sources);
+      if (reference.kind === 'source') reference.sources.forEach(i => cited.add(i));
+    }
+
+    const claimText = raw.replace(REFERENCE_PATTERN, ' ');
+    const claim = tokenize(claimText);
+    const quotes = [...claimText.matchAll(QUOTE_PATTERN)]
+      .map(m => normalizeForQuote(m[1] ?? ''))
+      .filter(q => q.split(' ').length >= 3);
+
+    if (claim.length < MIN_CLAIM_WORDS || /\?\s*$/.test(claimText.trim()) || /:\s*$/.test(claimText.trim()) || META_SENTENCE.test(claimText.trim())) {
+      sentences.push({ index, start: span.start, end: span.end, status: 'skipped', support: 0, citations: [], referenced: cited.size > 0, mismatched: false });
+      continue;
+    }
+
+    // Score every source - cited ones first, so they win ties
+    const order = [...cited, ...indexes.map((_, i) => i).filter(i => !cited.has(i))];
+    let best: { source: number; span: Span; support: number } | null = null;
+    for (const i of order) {
+      const sourceIndex = indexes[i];
+      if (!sourceIndex) continue;
+      const found = bestSpan(claim, quotes, sourceIndex);
+      if (found && (!best || found.support > best.support + 1e-9)) best = { source: i, ...found };
+    }
+
+    const supported = best !== null && best.support >= SUPPORT_THRESHOLD;
+    const sentence: SentenceVerification = {
+      index,
+      start: span.start,
+      end: span.end,
+      status: supported ? 'supported' : 'unsupported',
+      support: best ? Math.round(best.support * 100) / 100 : 0,
+      citations: [],
+      referenced: cited.size > 0,
+      mismatched: cited.size > 0 && (!supported || !cited.has(best?.source ?? -1)),
+    };
+
+    if (supported && best) {
+      const source = sources[best.source];
+      if (source) {
+        const key = `${best.source}:${best.span.start}:${best.span.end}`;
+        let citationIndex = citationKeys.get(key);
+        if (citationIndex === undefined) {
+          const { excerpt, quote } = excerptAround(source.text, best.span);
+          citationIndex = citations.length;
+          citations.push({
+            documentId: source.docId,
+            documentName: source.title + (source.page ? `, page ${source.page}` : ''),
+            excerpt,
+            page: source.page,
+            quote,
+            sentences: [],
+          });
+          citationKeys.set(key, citationIndex);
+        }
+        citations[citationIndex]?.sentences.push(index);
+        sentence.citations.push(citationIndex);
+      }
+    }
+
+    sentences.push(sentence);
+  }
+
+  return {
+    text,
+    sentences,
+    citations,
+    unsupportedCount: sentences.filter(s => s.status === 'unsupported').length,
+    removedReferences,
+  };
+}
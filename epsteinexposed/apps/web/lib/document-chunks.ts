@@ -0,0 +1,101 @@
+// Document chunking for semantic search - pages are split into overlapping passages
+// that scripts/embed-documents.ts embeds into the document_chunks table (sql/document_chunks.sql)
+
+import { splitPages } from '@/lib/document-search';
+
+export interface DocumentChunk {
+  index: number;
+  page: number | null;   // null when the stored text has no page breaks
+  charStart: number;     // Offset within the page
+  text: string;
+  tokenCount: number;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+  pageCount?: number | null;   // documents.page_count, for text stored without page breaks
+}
+
+// ~1000 characters is 200-250 tokens - small enough to be specific, large enough to carry a fact with its context
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP_CHARS = 150;
+const MIN_CHUNK_CHARS = 40;
+
+/**
+ * Split document text into overlapping chunks, page by page, breaking at paragraphs,
+ * then sentences, then whitespace
+ */
+export function chunkDocument(content: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlap = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+  const pages = splitPages(content);
+  const hasPageBreaks = pages.length > 1;
+  const chunks: DocumentChunk[] = [];
+
+  pages.forEach((pageText, pageIndex) => {
+    const page = hasPageBreaks ? pageIndex + 1 : (options.pageCount ?? 1) <= 1 ? 1 : null;
+    let start = skipWhitespace(pageText, 0);
+
+    while (start < pageText.length) {
+      let end = Math.min(pageText.length, start + maxChars);
+      if (end < pageText.length) end = findBreak(pageText, start, end);
+
+      const text = pageText.slice(start, end).replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+      if (text.length >= MIN_CHUNK_CHARS) {
+        chunks.push({
+          index: chunks.length,
+          page,
+          charStart: start,
+          text,
+          tokenCount: text.split(/\s+/).length,
+        });
+      }
+
+      if (end >= pageText.length) break;
+      // Step back for the overlap, but always move forward
+      const next = findOverlapStart(pageText, Math.max(start + 1, end - overlap), end);
+      start = next > start ? next : end;
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Best break point in (start, end] - paragraph, then sentence, then any whitespace
+ */
+function findBreak(text: string, start: number, end: number): number {
+  const window = text.slice(start, end);
+  const minimum = Math.floor(window.length / 2);
+
+  const paragraph = window.lastIndexOf('\n\n');
+  if (paragraph > minimum) return start + paragraph;
+
+  const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'), window.lastIndexOf('? '), window.lastIndexOf('! '));
+  if (sentence > minimum) return start + sentence + 1;
+
+  const space = window.search(/\s\S*$/);
+  if (space > minimum) return start + space;
+
+  return end;
+}
+
+/**
+ * Where the next chunk starts within the overlap - a sentence start if there is one, else a word start
+ */
+function findOverlapStart(text: string, from: number, end: number): number {
+  const sentence = /[.!?]\s+|\n\s*/.exec(text.slice(from, end));
+  if (sentence && from + sentence.index + sentence[0].length < end) {
+    return from + sentence.index + sentence[0].length;
+  }
+  let i = from;
+  while (i > 0 && !/\s/.test(text.charAt(i - 1))) i--;
+  return skipWhitespace(text, i);
+}
+
+function skipWhitespace(text: string, position: number): number {
+  let i = position;
+  while (i < text.length && /\s/.test(text.charAt(i))) i++;
+  return i;
+}
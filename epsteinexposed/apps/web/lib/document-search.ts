@@ -0,0 +1,270 @@
+// Document full-text search helpers - query parsing, page splitting and snippet highlighting
+// Queries are translated to Postgres tsquery syntax so the heavy lifting happens in the database
+
+export interface SearchTerm {
+  words: string[];    // Lowercased words (more than one for phrases)
+  phrase: boolean;
+  prefix: boolean;
+}
+
+export interface ParsedSearchQuery {
+  tsQuery: string;       // Postgres to_tsquery() expression
+  terms: SearchTerm[];   // Positive terms, used for highlighting
+}
+
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SnippetHighlight[];
+}
+
+export interface PageHit {
+  page: number | null;   // null when the stored text has no page breaks
+  hitCount: number;
+  snippets: SearchSnippet[];
+}
+
+export interface DocumentSearchResult {
+  id: string;
+  docId: string;
+  title: string;
+  dataset: string | null;
+  date: string | null;
+  pageCount: number;
+  hitCount: number;
+  pages: PageHit[];
+}
+
+export class SearchQueryError extends Error {}
+
+// Pages in documents.content are separated by form feeds (pdftotext / pdf-parse page breaks)
+const PAGE_SEPARATOR = '\f';
+
+type Token =
+  | { kind: 'word'; value: string; prefix: boolean }
+  | { kind: 'phrase'; words: string[] }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' };
+
+/**
+ * Split a word into tsquery-safe lexemes (letters and digits only)
+ */
+function cleanWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /"([^"]*)"?|(\()|(\))|(-)?([^\s()"]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, phrase, lparen, rparen, minus, word] = match;
+
+    if (phrase !== undefined) {
+      const words = cleanWords(phrase);
+      if (words.length > 0) tokens.push({ kind: 'phrase', words });
+    } else if (lparen) {
+      tokens.push({ kind: 'lparen' });
+    } else if (rparen) {
+      tokens.push({ kind: 'rparen' });
+    } else if (word) {
+      if (!minus && (word === 'AND' || word === '&&')) {
+        tokens.push({ kind: 'and' });
+        continue;
+      }
+      if (!minus && (word === 'OR' || word === '||' || word === '|')) {
+        tokens.push({ kind: 'or' });
+        continue;
+      }
+      if (!minus && word === 'NOT') {
+        tokens.push({ kind: 'not' });
+        continue;
+      }
+
+      const prefix = word.endsWith('*');
+      const words = cleanWords(word);
+      if (words.length === 0) continue;
+
+      if (minus) tokens.push({ kind: 'not' });
+      const [first] = words;
+      if (words.length === 1 && first) {
+        tokens.push({ kind: 'word', value: first, prefix });
+      } else {
+        // Hyphenated or dotted words ("st.james", "co-pilot") behave like phrases
+        tokens.push({ kind: 'phrase', words });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a user query into a tsquery expression.
+ *
+ * Supported syntax:
+ *   "exact phrase"        words must appear next to each other
+ *   term*                 prefix match
+ *   a AND b / a b         both terms (AND is implicit)
+ *   a OR b                either term
+ *   NOT a / -a            exclude term
+ *   ( ... )               grouping
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const tokens = tokenize(query);
+  const terms: SearchTerm[] = [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  // or := and ( OR and )*
+  const parseOr = (negated: boolean): string | null => {
+    const parts: string[] = [];
+    const first = parseAnd(negated);
+    if (first) parts.push(first);
+
+    while (peek()?.kind === 'or') {
+      pos++;
+      const next = parseAnd(negated);
+      if (next) parts.push(next);
+    }
+
+    if (parts.length === 0) return null;
+    return parts.length === 1 ? parts[0] ?? null : `(${parts.join(' | ')})`;
+  };
+
+  // and := unary ( AND? unary )*
+  const parseAnd = (negated: boolean): string | null => {
+    const parts: string[] = [];
+
+    let token: Token | undefined;
+    while ((token = peek()) !== undefined) {
+      if (token.kind === 'or' || token.kind === 'rparen') break;
+      if (token.kind === 'and') {
+        pos++;
+        continue;
+      }
+      const part = parseUnary(negated);
+      if (part) parts.push(part);
+    }
+
+    if (parts.length === 0) return null;
+    return parts.length === 1 ? parts[0] ?? null : `(${parts.join(' & ')})`;
+  };
+
+  // unary := NOT unary | ( or ) | word | phrase
+  const parseUnary = (negated: boolean): string | null => {
+    const token = tokens[pos++];
+    if (!token) return null;
+
+    switch (token.kind) {
+      case 'not': {
+        const operand = parseUnary(!negated);
+        return operand ? `!${operand}` : null;
+      }
+      case 'lparen': {
+        const inner = parseOr(negated);
+        if (peek()?.kind === 'rparen') pos++;
+        return inner;
+      }
+      case 'word':
+        if (!negated) terms.push({ words: [token.value], phrase: false, prefix: token.prefix });
+        return token.prefix ? `${token.value}:*` : token.value;
+      case 'phrase':
+        if (!negated) terms.push({ words: token.words, phrase: token.words.length > 1, prefix: false });
+        return token.words.length === 1 ? token.words[0] ?? null : `(${token.words.join(' <-> ')})`;
+      default:
+        // Stray closing paren
+        return null;
+    }
+  };
+
+  let tsQuery: string | null = null;
+  while (pos < tokens.length) {
+    const part = parseOr(false);
+    if (part) tsQuery = tsQuery ? `${tsQuery} & ${part}` : part;
+    // Skip an unmatched ")" so the rest of the query still parses
+    if (peek()?.kind === 'rparen') pos++;
+  }
+
+  if (!tsQuery || terms.length === 0) {
+    throw new SearchQueryError('Query must contain at least one search term that is not excluded');
+  }
+
+  return { tsQuery, terms };
+}
+
+/**
+ * Very small suffix stripper so highlighting roughly follows Postgres' english stemming
+ * ("flights" should highlight "flight", "flew" won't - close enough for snippets)
+ */
+function stemForHighlight(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(ing|ed|es|s)$/, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Regex matching any of the positive terms in raw document text
+ */
+export function buildHighlightPattern(terms: SearchTerm[]): RegExp {
+  const alternatives = terms.map(term => {
+    if (term.phrase) {
+      return term.words.map(escapeRegExp).join('[^\\p{L}\\p{N}]+');
+    }
+    const word = term.words[0] ?? '';
+    const stem = term.prefix ? word : stemForHighlight(word);
+    return `${escapeRegExp(stem)}[\\p{L}\\p{N}]*`;
+  });
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+export function splitPages(content: string): string[] {
+  return content.split(PAGE_SEPARATOR);
+}
+
+/**
+ * Snippets from a search_documents() headline (sql/document_search.sql): fragments are separated by
+ * form feeds and matches wrapped in <mark></mark>. Postgres' highlights are kept unless masking changed
+ * the text, in which case the masked text is highlighted again here
+ */
+export function parseHeadline(headline: string, terms: SearchTerm[], mask: (text: string) => string = text => text): SearchSnippet[] {
+  return headline
+    .split(PAGE_SEPARATOR)
+    .filter(fragment => fragment.trim().length > 0)
+    .map(fragment => {
+      let text = '…';
+      const highlights: SnippetHighlight[] = [];
+      let markStart = 0;
+      for (const part of fragment.split(/(<mark>|<\/mark>)/)) {
+        if (part === '<mark>') {
+          markStart = text.length;
+        } else if (part === '</mark>') {
+          highlights.push({ start: markStart, end: text.length });
+        } else {
+          text += part.replace(/\s+/g, ' ');
+        }
+      }
+      text += '…';
+
+      const masked = mask(text);
+      if (masked === text) return { text, highlights };
+
+      const pattern = buildHighlightPattern(terms);
+      return {
+        text: masked,
+        highlights: Array.from(masked.matchAll(pattern), m => ({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length })),
+      };
+    });
+}
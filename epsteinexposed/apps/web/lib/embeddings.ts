@@ -0,0 +1,118 @@
+/**
+ * Text embeddings for semantic document search
+ *
+ * Providers (EMBEDDING_PROVIDER):
+ *   local              transformers.js in-process, no API calls (default) - EMBEDDING_MODEL, default Xenova/all-MiniLM-L6-v2
+ *   openai-compatible  Any /embeddings endpoint, e.g. Ollama or OpenAI (EMBEDDING_BASE_URL, optional EMBEDDING_API_KEY)
+ *
+ * Chunks and queries have to be embedded by the same model. The indexer stores the model
+ * name on every chunk and retrieval only compares against chunks from the query's model.
+ * Server-only: the local provider loads onnxruntime.
+ */
+
+import path from 'path';
+import type { pipeline } from '@huggingface/transformers';
+
+export type EmbeddingProviderName = 'local' | 'openai-compatible';
+
+export interface Embedder {
+  readonly provider: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Must match the vector column in sql/document_chunks.sql
+export const EMBEDDING_DIMENSIONS = 384;
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  local: 'Xenova/all-MiniLM-L6-v2',
+  'openai-compatible': 'all-minilm',
+};
+
+type FeatureExtractor = Awaited<ReturnType<typeof pipeline<'feature-extraction'>>>;
+
+class LocalEmbedder implements Embedder {
+  readonly provider = 'local';
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  /**
+   * Loaded on first use and kept for the life of the process
+   */
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const { pipeline, env } = await import('@huggingface/transformers');
+        env.cacheDir = process.env.EMBEDDING_CACHE_DIR || path.join(process.cwd(), '.cache', 'models');
+        if (process.env.EMBEDDING_MODEL_PATH) {
+          env.localModelPath = process.env.EMBEDDING_MODEL_PATH;
+          env.allowRemoteModels = false;
+        }
+        console.log(`[EMBED] Loading embedding model ${this.model}`);
+        return pipeline('feature-extraction', this.model, { dtype: 'q8' });
+      })().catch((error: unknown) => {
+        this.extractor = null;
+        throw error instanceof Error ? error : new Error(`Embedding model failed to load: ${String(error)}`);
+      });
+    }
+    return this.extractor;
+  }
+}
+
+class OpenAiCompatibleEmbedder implements Embedder {
+  readonly provider = 'openai-compatible';
+
+  constructor(readonly model: string, private baseUrl: string, private apiKey?: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding API error: ${response.status} - ${(await response.text()).slice(0, 500)}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ index: number; embedding: number[] }> };
+    return (data.data || [])
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+let cached: Embedder | null = null;
+
+export function createEmbedder(): Embedder {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'local') as EmbeddingProviderName;
+  if (!(provider in DEFAULT_MODELS)) throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}"`);
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider];
+
+  if (provider === 'openai-compatible') {
+    const baseUrl = process.env.EMBEDDING_BASE_URL;
+    if (!baseUrl) throw new Error('EMBEDDING_BASE_URL is not set');
+    return new OpenAiCompatibleEmbedder(model, baseUrl, process.env.EMBEDDING_API_KEY);
+  }
+  return new LocalEmbedder(model);
+}
+
+/**
+ * Shared embedder for route handlers, so the local model loads once per server
+ */
+export function getEmbedder(): Embedder {
+  if (!cached) cached = createEmbedder();
+  return cached;
+}
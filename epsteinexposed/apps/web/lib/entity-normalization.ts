@@ -321,3 +321,20 @@ export function getEntityDocumentLinks(entity: MergedEntity): Array<{
   
   return links.slice(0, 5); // Return top 5 most relevant
 }
+
+// PDF parsing errors and UI elements that were extracted as entities
+const GARBAGE_ENTITY_PATTERNS = [
+  /^(Normal|Dear|Edit|Online|Network|Manual|Single|Double|Triple)$/i,
+  /^(Login|Logout|Sign|Email|Help|Only|Mode|View|Click|Button)$/i,
+  /^(Page|Next|Previous|Back|Forward|Home|Menu|Settings)$/i,
+  /^(Submit|Cancel|Save|Delete|Update|Refresh|Load|Search)$/i,
+  /^(Yes|No|OK|Cancel|Close|Open|Start|Stop|Exit)$/i,
+  /^(On|Off|True|False|Enable|Disable|Show|Hide)$/i,
+];
+
+/**
+ * Whether an entity name is extraction noise rather than a person, organization or place
+ */
+export function isGarbageEntity(name: string): boolean {
+  return GARBAGE_ENTITY_PATTERNS.some(pattern => pattern.test(name));
+}
@@ -0,0 +1,121 @@
+// Paths between entities over the whole connections table, with the shared documents behind each hop.
+// The graph view only has a few hundred entities loaded, so tracing there misses most links.
+// The search is @repo/analysis/paths, the same one the API's PathFinderService runs
+
+import { PathGraph, pathEdgeKey, type GraphPath, type PathEdge, type PathOptions } from '@repo/analysis/paths';
+import { supabase } from '@/lib/supabase';
+
+export interface PathHop extends PathEdge {
+  documentCount: number;
+  documentIds: string[];   // Evidence documents for this hop, capped at evidenceLimit
+}
+
+export interface EntityPath extends GraphPath<PathHop> {
+  names: string[];         // Display names of `nodes`, in order
+}
+
+export interface EntityPathOptions extends PathOptions {
+  evidenceLimit?: number;
+}
+
+const PAGE_SIZE = 1000;
+const PAIR_CHUNK = 50;
+// Connections change only when scripts/build-connections.ts runs
+const CACHE_TTL_MS = 10 * 60_000;
+
+let cached: { graph: PathGraph; loadedAt: number } | null = null;
+let loading: Promise<PathGraph> | null = null;
+
+async function fetchGraph(): Promise<PathGraph> {
+  const startTime = Date.now();
+  const edges: PathEdge[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('connections')
+      .select('entity_a_id, entity_b_id, strength')
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      if (row.entity_a_id && row.entity_b_id) {
+        edges.push({ source: row.entity_a_id, target: row.entity_b_id, weight: row.strength || 1 });
+      }
+    }
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  const graph = new PathGraph(edges);
+  cached = { graph, loadedAt: Date.now() };
+  console.log(`[PATHS] Loaded ${edges.length} connections over ${graph.size} entities in ${Date.now() - startTime}ms`);
+  return graph;
+}
+
+/**
+ * The connection graph, cached for a few minutes per server instance
+ */
+async function getPathGraph(): Promise<PathGraph> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.graph;
+  if (!loading) {
+    loading = fetchGraph().finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+/**
+ * Shared document ids of each pair - only the hops on the paths found, so the cached graph stays small
+ */
+async function hopEvidence(pairs: Array<[string, string]>, limit: number): Promise<Map<string, { documentCount: number; documentIds: string[] }>> {
+  const evidence = new Map<string, { documentCount: number; documentIds: string[] }>();
+  for (let i = 0; i < pairs.length; i += PAIR_CHUNK) {
+    // Pairs are stored once, lower id first (scripts/build-connections.ts)
+    const filters = pairs.slice(i, i + PAIR_CHUNK).map(([a, b]) => {
+      const [low, high] = a < b ? [a, b] : [b, a];
+      return `and(entity_a_id.eq.${low},entity_b_id.eq.${high})`;
+    });
+    const { data, error } = await supabase
+      .from('connections')
+      .select('entity_a_id, entity_b_id, document_ids')
+      .or(filters.join(','));
+    if (error) throw new Error(error.message);
+
+    for (const row of data || []) {
+      const ids = Array.isArray(row.document_ids) ? row.document_ids.filter((id: unknown): id is string => typeof id === 'string') : [];
+      evidence.set(pathEdgeKey(row.entity_a_id, row.entity_b_id), { documentCount: ids.length, documentIds: ids.slice(0, limit) });
+    }
+  }
+  return evidence;
+}
+
+/**
+ * Up to k paths of at most maxHops from one entity to another, cheapest first, with each hop's documents
+ */
+export async function findEntityPaths(fromId: string, toId: string, options: EntityPathOptions = {}): Promise<EntityPath[]> {
+  const { evidenceLimit = 10, ...pathOptions } = options;
+  const graph = await getPathGraph();
+  const paths = graph.findPaths(fromId, toId, pathOptions);
+  if (paths.length === 0) return [];
+
+  const pairs = new Map<string, [string, string]>();
+  for (const path of paths) {
+    for (const edge of path.edges) pairs.set(pathEdgeKey(edge.source, edge.target), [edge.source, edge.target]);
+  }
+  const nodeIds = Array.from(new Set(paths.flatMap(p => p.nodes)));
+  const [evidence, { data: entities }] = await Promise.all([
+    hopEvidence(Array.from(pairs.values()), evidenceLimit),
+    supabase.from('entities').select('id, name').in('id', nodeIds),
+  ]);
+  const names = new Map((entities || []).map(e => [e.id as string, e.name as string]));
+
+  return paths.map(path => ({
+    ...path,
+    names: path.nodes.map(id => names.get(id) || 'Unknown'),
+    edges: path.edges.map(edge => ({
+      ...edge,
+      ...(evidence.get(pathEdgeKey(edge.source, edge.target)) || { documentCount: 0, documentIds: [] }),
+    })),
+  }));
+}
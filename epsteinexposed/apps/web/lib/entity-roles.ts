@@ -0,0 +1,41 @@
+// Entity roles - a person's role in each document (defendant, witness, victim, attorney, staff,
+// investigator, passenger), inferred from the text around the mention by @repo/analysis/roles, the
+// classifier the API's ingestion uses too. scripts/classify-roles.ts stores the profile in entities.metadata.roles
+
+import type { EntityRole, RoleProfile } from '@repo/analysis/roles';
+
+export {
+  ENTITY_ROLES,
+  buildRoleProfile,
+  classifyMentionRole,
+  formatRoleProfile,
+  isEntityRole,
+  rankedRoles,
+  type DocumentHints,
+  type EntityRole,
+  type RoleClassification,
+} from '@repo/analysis/roles';
+
+export interface EntityRoleProfile extends RoleProfile {
+  computedAt?: string;
+}
+
+export const ROLE_LABELS: Record<EntityRole, string> = {
+  defendant: 'Defendant',
+  witness: 'Witness',
+  victim: 'Victim',
+  attorney: 'Attorney',
+  staff: 'Staff',
+  investigator: 'Investigator',
+  passenger: 'Passenger',
+};
+
+export const ROLE_COLORS: Record<EntityRole, string> = {
+  defendant: '#ff3366',
+  witness: '#00d4ff',
+  victim: '#fbbf24',
+  attorney: '#9333ea',
+  staff: '#10b981',
+  investigator: '#3b82f6',
+  passenger: '#ff6b35',
+};
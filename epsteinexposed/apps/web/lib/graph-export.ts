@@ -0,0 +1,261 @@
+// Graph export - the graph as shown, written for Gephi (GEXF, GraphML, node / edge CSV) and Neo4j (Cypher)
+
+import type { CentralityScores } from '@/lib/types';
+import type { RelationType } from '@/lib/relationships';
+
+export const GRAPH_EXPORT_FORMATS = ['gexf', 'graphml', 'nodes-csv', 'edges-csv', 'cypher'] as const;
+
+export type GraphExportFormat = typeof GRAPH_EXPORT_FORMATS[number];
+
+export const GRAPH_EXPORT_FILES: Record<GraphExportFormat, { label: string; extension: string; contentType: string }> = {
+  gexf: { label: 'GEXF (Gephi)', extension: 'gexf', contentType: 'application/gexf+xml; charset=utf-8' },
+  graphml: { label: 'GraphML', extension: 'graphml', contentType: 'application/graphml+xml; charset=utf-8' },
+  'nodes-csv': { label: 'Nodes CSV', extension: 'nodes.csv', contentType: 'text/csv; charset=utf-8' },
+  'edges-csv': { label: 'Edges CSV', extension: 'edges.csv', contentType: 'text/csv; charset=utf-8' },
+  cypher: { label: 'Neo4j Cypher', extension: 'cypher', contentType: 'text/plain; charset=utf-8' },
+};
+
+export function parseGraphExportFormat(value: string | null): GraphExportFormat | null {
+  return GRAPH_EXPORT_FORMATS.find(f => f === value) ?? null;
+}
+
+export interface ExportNode {
+  id: string;
+  name: string;
+  type: string;
+  role: string | null;
+  documentCount: number;
+  connectionCount: number;
+  centrality: CentralityScores | null;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  weight: number;                   // Shared documents, or documents stating the relationship
+  relationType: RelationType | null; // null for co-occurrence
+  directed: boolean;
+  documentIds: string[];            // The documents the edge rests on
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+interface Attribute<T> {
+  id: string;
+  type: 'string' | 'integer' | 'double' | 'boolean';
+  value: (item: T) => string | number | boolean | null;
+}
+
+// Missing values are left out of XML and empty in CSV
+const NODE_ATTRIBUTES: Attribute<ExportNode>[] = [
+  { id: 'type', type: 'string', value: n => n.type },
+  { id: 'role', type: 'string', value: n => n.role },
+  { id: 'documentCount', type: 'integer', value: n => n.documentCount },
+  { id: 'connectionCount', type: 'integer', value: n => n.connectionCount },
+  { id: 'weightedDegree', type: 'double', value: n => n.centrality?.weightedDegree ?? null },
+  { id: 'betweenness', type: 'double', value: n => n.centrality?.betweenness ?? null },
+  { id: 'eigenvector', type: 'double', value: n => n.centrality?.eigenvector ?? null },
+  { id: 'pageRank', type: 'double', value: n => n.centrality?.pageRank ?? null },
+  { id: 'firstSeen', type: 'string', value: n => n.firstSeen },
+  { id: 'lastSeen', type: 'string', value: n => n.lastSeen },
+];
+
+const EDGE_ATTRIBUTES: Attribute<ExportEdge>[] = [
+  { id: 'relationType', type: 'string', value: e => e.relationType ?? 'cooccurrence' },
+  { id: 'documentCount', type: 'integer', value: e => e.documentIds.length },
+  { id: 'documentIds', type: 'string', value: e => e.documentIds.join(';') },
+];
+
+export function serializeGraph(graph: ExportGraph, format: GraphExportFormat): string {
+  switch (format) {
+    case 'gexf': return toGexf(graph);
+    case 'graphml': return toGraphML(graph);
+    case 'nodes-csv': return nodesToCsv(graph.nodes);
+    case 'edges-csv': return edgesToCsv(graph.edges);
+    case 'cypher': return toCypher(graph);
+  }
+}
+
+// XML 1.0 has no place for control characters other than tab and newlines, even escaped
+function xml(value: string | number | boolean): string {
+  return Array.from(String(value))
+    .filter(c => c >= ' ' || c === '\t' || c === '\n' || c === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function present(value: string | number | boolean | null): value is string | number | boolean {
+  return value !== null && value !== '';
+}
+
+/**
+ * GEXF 1.3 - Gephi's own format. Edges are undirected unless the relationship reads one way
+ */
+function toGexf({ nodes, edges }: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Epstein Exposed</creator>',
+    `    <description>${nodes.length} entities, ${edges.length} connections</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="undirected" mode="static">',
+    '    <attributes class="node">',
+    ...NODE_ATTRIBUTES.map(a => `      <attribute id="${a.id}" title="${a.id}" type="${a.type}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...EDGE_ATTRIBUTES.map(a => `      <attribute id="${a.id}" title="${a.id}" type="${a.type}"/>`),
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  const attvalues = <T,>(attributes: Attribute<T>[], item: T) => {
+    const values = attributes.flatMap(a => {
+      const value = a.value(item);
+      return present(value) ? [`          <attvalue for="${a.id}" value="${xml(value)}"/>`] : [];
+    });
+    return values.length > 0 ? ['        <attvalues>', ...values, '        </attvalues>'] : [];
+  };
+
+  for (const node of nodes) {
+    lines.push(`      <node id="${xml(node.id)}" label="${xml(node.name)}">`, ...attvalues(NODE_ATTRIBUTES, node), '      </node>');
+  }
+  lines.push('    </nodes>', '    <edges>');
+  edges.forEach((edge, i) => {
+    const type = edge.directed ? ' type="directed"' : '';
+    lines.push(
+      `      <edge id="e${i}" source="${xml(edge.source)}" target="${xml(edge.target)}" weight="${edge.weight}"${type}>`,
+      ...attvalues(EDGE_ATTRIBUTES, edge),
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
+
+/**
+ * GraphML - for yEd, Cytoscape, NetworkX and igraph. Directed relationships are marked per edge
+ */
+function toGraphML({ nodes, edges }: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    ...NODE_ATTRIBUTES.map(a => `  <key id="n_${a.id}" for="node" attr.name="${a.id}" attr.type="${a.type === 'integer' ? 'int' : a.type}"/>`),
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    ...EDGE_ATTRIBUTES.map(a => `  <key id="e_${a.id}" for="edge" attr.name="${a.id}" attr.type="${a.type === 'integer' ? 'int' : a.type}"/>`),
+    '  <graph id="G" edgedefault="undirected">',
+  ];
+
+  const data = <T,>(attributes: Attribute<T>[], prefix: string, item: T) => attributes.flatMap(a => {
+    const value = a.value(item);
+    return present(value) ? [`      <data key="${prefix}${a.id}">${xml(value)}</data>`] : [];
+  });
+
+  for (const node of nodes) {
+    lines.push(
+      `    <node id="${xml(node.id)}">`,
+      `      <data key="label">${xml(node.name)}</data>`,
+      ...data(NODE_ATTRIBUTES, 'n_', node),
+      '    </node>'
+    );
+  }
+  edges.forEach((edge, i) => {
+    const directed = edge.directed ? ' directed="true"' : '';
+    lines.push(
+      `    <edge id="e${i}" source="${xml(edge.source)}" target="${xml(edge.target)}"${directed}>`,
+      `      <data key="weight">${edge.weight}</data>`,
+      ...data(EDGE_ATTRIBUTES, 'e_', edge),
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  // Spreadsheets run text starting with = + - @ as a formula - a leading ' keeps it text (numbers stay numbers)
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(header: string[], rows: Array<Array<string | number | boolean | null>>): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Id / Label and Source / Target / Type / Weight are the columns Gephi's spreadsheet import recognises
+function nodesToCsv(nodes: ExportNode[]): string {
+  return csvRows(
+    ['Id', 'Label', ...NODE_ATTRIBUTES.map(a => a.id)],
+    nodes.map(n => [n.id, n.name, ...NODE_ATTRIBUTES.map(a => a.value(n))])
+  );
+}
+
+function edgesToCsv(edges: ExportEdge[]): string {
+  return csvRows(
+    ['Source', 'Target', 'Type', 'Weight', ...EDGE_ATTRIBUTES.map(a => a.id)],
+    edges.map(e => [e.source, e.target, e.directed ? 'Directed' : 'Undirected', e.weight, ...EDGE_ATTRIBUTES.map(a => a.value(e))])
+  );
+}
+
+function cypherValue(value: string | number | boolean | string[]): string {
+  if (Array.isArray(value)) return `[${value.map(cypherValue).join(', ')}]`;
+  if (typeof value !== 'string') return String(value);
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+}
+
+function cypherMap(properties: Record<string, string | number | boolean | string[] | null>): string {
+  const entries = Object.entries(properties).filter(([, v]) => v !== null && v !== '');
+  return `{${entries.map(([k, v]) => `${k}: ${cypherValue(v!)}`).join(', ')}}`;
+}
+
+// Labels and relationship types can't be quoted in every Neo4j version - keep them to letters
+function cypherName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_]/g, '_').replace(/^[^A-Za-z]+/, '') || 'Other';
+}
+
+/**
+ * Neo4j Cypher - one CREATE per entity as :Entity plus its type (:Person, :Location...), then one
+ * MATCH ... CREATE per connection. Co-occurrence becomes :CO_OCCURS_WITH, typed relationships their
+ * type in capitals. Neo4j relationships always have a direction; `directed: false` marks the ones that don't
+ */
+function toCypher({ nodes, edges }: ExportGraph): string {
+  const lines = [
+    `// Epstein Exposed graph export - ${nodes.length} entities, ${edges.length} connections`,
+    '// Run in cypher-shell or Neo4j Browser with multi-statement queries enabled',
+    'CREATE CONSTRAINT entity_id IF NOT EXISTS FOR (e:Entity) REQUIRE e.id IS UNIQUE;',
+    '',
+  ];
+
+  for (const node of nodes) {
+    const label = cypherName(node.type.charAt(0).toUpperCase() + node.type.slice(1));
+    const properties = Object.fromEntries(NODE_ATTRIBUTES.map(a => [a.id, a.value(node)]));
+    lines.push(`CREATE (:Entity:${label} ${cypherMap({ id: node.id, name: node.name, ...properties })});`);
+  }
+  lines.push('');
+
+  for (const edge of edges) {
+    const type = cypherName((edge.relationType ?? 'co_occurs_with').toUpperCase());
+    const properties = cypherMap({
+      weight: edge.weight,
+      directed: edge.directed,
+      documentCount: edge.documentIds.length,
+      documentIds: edge.documentIds,
+    });
+    lines.push(
+      `MATCH (a:Entity {id: ${cypherValue(edge.source)}}), (b:Entity {id: ${cypherValue(edge.target)}}) CREATE (a)-[:${type} ${properties}]->(b);`
+    );
+  }
+  lines.push('');
+  return lines.join('\n');
+}
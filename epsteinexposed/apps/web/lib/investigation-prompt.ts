@@ -0,0 +1,279 @@
+// Prompt assembly for the investigation chat
+// Shared by the chat route and the answer-quality eval (scripts/eval-chat.ts), so the eval scores
+// exactly the prompt users get. PROMPT_VERSION changes whenever the prompt text does.
+
+import * as crypto from 'crypto';
+import { isGarbageEntity } from '@/lib/entity-normalization';
+import type { LlmChatOptions, LlmConfig, LlmMessage } from '@repo/llm/client';
+
+export interface ChatConnection {
+  entityA: string;
+  entityB: string;
+  strength: number;
+  npmi: number | null;
+  type?: string;
+}
+
+export interface ChatPassage {
+  docId: string;
+  title: string;
+  page?: number | null;
+  text: string;
+}
+
+// System prompt optimized for factual, educational analysis - NO REDUNDANCY
+export const SYSTEM_PROMPT = `You are an elite intelligence analyst investigating the Epstein network.
+
+CRITICAL - NO REDUNDANCY:
+1. NEVER repeat information you've already stated in this conversation
+2. If you mentioned "21 documents" once, DO NOT mention it again - the user got it
+3. Each response must provide NEW information, not rehash old facts
+4. Be CONCISE like ChatGPT - users don't want walls of repeated text
+5. If asked a follow-up, ONLY answer the NEW question with NEW information
+6. Skip sections you've already covered - no repeated "Confidence Levels" or "Want to Learn More?"
+
+CONVERSATION AWARENESS:
+- Review the conversation history before responding
+- If stats were given in message 1, don't repeat them in message 2
+- For follow-ups, provide ONLY the new insight requested
+- Keep responses focused and direct - aim for 150-300 words on follow-ups
+
+DATA SOURCE TRANSPARENCY:
+1. Our database contains a SUBSET of Epstein documents
+2. Report counts ONCE with "In our indexed database..."
+3. Don't re-state database counts in every response
+
+RESPONSE STYLE:
+- First message: Full briefing with WHO/WHAT/WHERE/WHEN/WHY
+- Follow-up messages: Direct answer to the question only, with NEW info
+- Be conversational, not repetitive
+- Prioritize NEW facts from web sources over repeating database stats
+
+GROUNDING IN DOCUMENT PASSAGES:
+1. DOCUMENT PASSAGES are verbatim text from the files - base every claim about what the documents say on them
+2. Cite the passage you used as [Document title, p. N] right after the claim
+3. Use quotation marks only for words that appear verbatim in a passage
+4. If no passage supports an answer, say so - do not infer events from entity co-occurrence counts alone
+5. Every sentence is checked against the passages - unsupported claims are flagged to the reader
+
+FACTS OVER SPECULATION:
+1. Clearly separate: DATABASE FACTS vs PUBLIC KNOWLEDGE vs AI ANALYSIS
+2. If uncertain, say "Our documents don't show..." and move on
+3. When citing, use actual document names
+4. For follow-ups, search for NEW angles - don't rehash
+
+EDUCATIONAL BUT CONCISE:
+- WHO: Brief identification (one sentence)
+- WHAT: Key facts (bullet points)
+- WHY it matters: One paragraph max
+- Skip sections already covered in previous messages
+
+EXTERNAL SOURCES:
+- Use web search results to provide NEW information not in our database
+- Cite news articles briefly: "Per NYT, [fact]"
+- Don't repeat the same external sources across multiple messages
+
+FOLLOW-UP RESPONSES (after first message):
+- Answer ONLY the specific question asked
+- NO "WHO/WHAT/WHERE/WHEN/WHY" structure - just direct answer
+- NO repeated confidence levels or database stats
+- NO "Want to Learn More?" if already shown
+- Target 100-200 words max for follow-ups
+- Bring in NEW facts from web searches, not rehashed database info
+
+FIRST MESSAGE ONLY:
+- Full briefing with WHO/WHAT/CONNECTIONS/CONTEXT
+- Database stats (mention ONCE)
+- "Want to Learn More?" suggestions
+
+Remember: Users will leave if they see the same information repeated. Each message must add value with NEW insights.`;
+
+// The follow-up instruction is part of the prompt too, so it counts towards the version
+const FOLLOW_UP_INSTRUCTION = 'IMPORTANT: This is message #{n} in the conversation. DO NOT repeat any information from previous messages. Give a CONCISE, DIRECT answer (100-200 words max) with NEW information only. Skip all sections you\'ve already covered.';
+
+// LLM settings for the chat and its eval - OpenRouter unless only Anthropic has a key
+export const INVESTIGATION_LLM_CONFIG: LlmConfig = {
+  preferredProvider: 'openrouter',
+  appTitle: 'Epstein Exposed Investigation',
+};
+
+export const PROMPT_VERSION = crypto
+  .createHash('sha256')
+  .update(`${SYSTEM_PROMPT}\n${FOLLOW_UP_INSTRUCTION}`)
+  .digest('hex')
+  .slice(0, 12);
+
+/**
+ * The messages for one answer - system prompt, recent history, and the question with its context
+ */
+export function buildAnswerMessages({ history, context, question }: {
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+  context: string;
+  question: string;
+}): { messages: LlmMessage[]; options: LlmChatOptions } {
+  // Detect if this is a follow-up message (conversation has history)
+  const isFollowUp = history.length > 0;
+  const followUpInstruction = isFollowUp
+    ? `\n\n${FOLLOW_UP_INSTRUCTION.replace('{n}', String(history.length + 1))}`
+    : '';
+
+  return {
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...history.slice(-5).map(m => ({ role: m.role, content: m.content })),
+      {
+        role: 'user',
+        content: context
+          ? `Context from database:\n${context}\n\nUser question: ${question}${followUpInstruction}`
+          : question + followUpInstruction
+      }
+    ],
+    options: {
+      maxTokens: isFollowUp ? 350 : 600, // Shorter responses for follow-ups
+      temperature: 0.3,
+    },
+  };
+}
+
+// Convert connection weight to semantic label.
+// NPMI measures association independent of document length, so a long filing naming
+// everyone doesn't make every pair "undeniably connected". Raw strength is the fallback
+// for connections built before weights were stored.
+function getInvolvementLevel(strength: number, npmi: number | null): string {
+  if (npmi !== null) {
+    if (npmi >= 0.6 && strength >= 10) return 'Undeniably Connected (Alleged)';
+    if (npmi >= 0.45 && strength >= 5) return 'Very Connected';
+    if (npmi >= 0.3) return 'Connected';
+    if (npmi >= 0.15) return 'Somewhat Connected';
+    if (npmi > 0) return 'Low Connection';
+    return 'Very Low Connection';
+  }
+  if (strength >= 1000) return 'Undeniably Connected (Alleged)';
+  if (strength >= 500) return 'Very Connected';
+  if (strength >= 200) return 'Connected';
+  if (strength >= 100) return 'Somewhat Connected';
+  if (strength >= 50) return 'Low Connection';
+  return 'Very Low Connection';
+}
+
+/**
+ * KEY CONNECTIONS section - the top 15 pairs with their involvement level
+ */
+export function formatConnectionsContext(connections: ChatConnection[]): string {
+  if (connections.length === 0) return '';
+  return `\n\nKEY CONNECTIONS:\n${connections.slice(0, 15).map(c =>
+    `${c.entityA} ↔ ${c.entityB} [${getInvolvementLevel(c.strength, c.npmi)}]`
+  ).join('\n')}`;
+}
+
+/**
+ * DOCUMENT PASSAGES section - numbered so the model can cite document and page
+ */
+export function formatPassageContext(passages: ChatPassage[]): string {
+  if (passages.length === 0) return '';
+  return `\n\nDOCUMENT PASSAGES (most relevant to the question first):\n${passages.map((p, i) =>
+    `[${i + 1}] ${p.title}${p.page ? `, p. ${p.page}` : ''} (document ${p.docId}):\n"${p.text}"`
+  ).join('\n\n')}`;
+}
+
+// Strip any markdown that slips through
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*/g, '')
+    .replace(/\*/g, '')
+    .replace(/^#+\s/gm, '')
+    .replace(/^[-•]\s/gm, '')
+    .replace(/^\d+\.\s/gm, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Helper: Format date entities properly (fix "On Aug" -> "August 2019" or "Events in August")
+const formatEntityName = (name: string): string => {
+  // Fix date entities that start with "On"
+  if (name.startsWith('On ')) {
+    const datePart = name.substring(3);
+    // If it's just a month, make it more readable
+    if (['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'].includes(datePart)) {
+      return `Events in ${datePart}`;
+    }
+    return `Date: ${datePart}`;
+  }
+  return name;
+};
+
+// Generate CONTEXTUAL follow-up suggestions based on the conversation
+export function buildSuggestions(
+  message: string,
+  selectedEntities: string[],
+  connections: ChatConnection[],
+  documentCount: number
+): string[] {
+  const suggestions: string[] = [];
+  
+  // Extract entities mentioned in the response for contextual suggestions
+  const mentionedEntities = new Set<string>();
+  connections.forEach(c => {
+    // Filter out garbage entities before adding
+    if (c.entityA && !isGarbageEntity(c.entityA)) {
+      mentionedEntities.add(formatEntityName(c.entityA));
+    }
+    if (c.entityB && !isGarbageEntity(c.entityB)) {
+      mentionedEntities.add(formatEntityName(c.entityB));
+    }
+  });
+  
+  // Remove already-selected entities to suggest NEW ones
+  const newEntities = Array.from(mentionedEntities).filter(e => !selectedEntities.includes(e));
+  
+  
+  // Build contextual suggestions based on what was discussed
+  const userQuery = message.toLowerCase();
+  
+  if (userQuery.includes('role') || userQuery.includes('who is')) {
+    // User asked about role - suggest connections and documents
+    if (newEntities.length > 0) {
+      suggestions.push(`What documents connect ${selectedEntities[0] || 'them'} to ${newEntities[0]}?`);
+    }
+    suggestions.push(`Show me the strongest connections in this network`);
+    if (documentCount > 0) {
+      suggestions.push(`What other names appear in these documents?`);
+    }
+  } else if (userQuery.includes('connection') || userQuery.includes('related')) {
+    // User asked about connections - suggest deeper investigation
+    if (newEntities.length > 0) {
+      suggestions.push(`Investigate ${newEntities[0]}'s involvement`);
+    }
+    suggestions.push(`What locations are associated with these individuals?`);
+    suggestions.push(`Are there any flight records mentioning them?`);
+  } else if (userQuery.includes('document') || userQuery.includes('evidence')) {
+    // User asked about documents - suggest entity exploration
+    suggestions.push(`Who else appears in these same documents?`);
+    if (newEntities.length > 0) {
+      suggestions.push(`What is ${newEntities[0]}'s connection to Epstein?`);
+    }
+    suggestions.push(`Search for court filings related to this`);
+  } else {
+    // Default contextual suggestions
+    if (newEntities.length > 0) {
+      suggestions.push(`Tell me about ${newEntities[0]}`);
+    }
+    if (newEntities.length > 1) {
+      suggestions.push(`How is ${newEntities[1]} connected?`);
+    }
+    if (connections.length > 0) {
+      suggestions.push(`What documents support these connections?`);
+    } else {
+      suggestions.push(`Search for related court documents`);
+    }
+  }
+  
+  // Always add a web search option if not already suggested
+  if (!suggestions.some(s => s.toLowerCase().includes('search'))) {
+    const searchEntity = selectedEntities[0] || newEntities[0] || 'this topic';
+    suggestions.push(`Search the web for recent news about ${searchEntity}`);
+  }
+
+  return suggestions.slice(0, 3);
+}
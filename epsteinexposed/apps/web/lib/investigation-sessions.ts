@@ -0,0 +1,385 @@
+// Investigation sessions - a chat thread plus the workspace it was asked in (selected entities,
+// pinned documents, graph viewport), stored in Supabase (sql/investigation_sessions.sql).
+// The session id is the owner's key; the share id opens a read-only copy.
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getProtectedNameMasker, type ProtectedNameMasker } from '@/lib/protected-persons';
+import type { VerificationResult, VerifiedCitation } from '@/lib/citation-verifier';
+import type { AgentTraceEntry } from '@/lib/investigation-agent';
+
+export interface GraphViewport {
+  position: [number, number, number];   // Camera position
+  target: [number, number, number];     // Orbit controls target
+}
+
+export interface PinnedDocument {
+  documentId: string;
+  title: string;
+  page?: number;
+}
+
+export type AnswerVerification = Omit<VerificationResult, 'text' | 'citations'>;
+
+export interface SessionMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  citations?: VerifiedCitation[];
+  verification?: AnswerVerification;
+  suggestions?: string[];
+  toolTrace?: AgentTraceEntry[];   // Agent mode answers only
+  timestamp: string;
+}
+
+export type NewSessionMessage = Omit<SessionMessage, 'id' | 'timestamp'>;
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface InvestigationWorkspace {
+  title: string | null;
+  selectedEntities: string[];
+  pinnedDocuments: PinnedDocument[];
+  viewport: GraphViewport | null;
+}
+
+export interface InvestigationSession extends InvestigationWorkspace {
+  id: string;
+  shareId: string;
+  forkedFrom: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+}
+
+// What a permalink shows - everything but the key that allows continuing the thread
+export type SharedInvestigation = Omit<InvestigationSession, 'id' | 'forkedFrom'>;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_SELECTED_ENTITIES = 50;
+const MAX_PINNED_DOCUMENTS = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SESSION_COLUMNS = 'id, share_id, title, selected_entities, pinned_documents, viewport, forked_from, created_at, updated_at';
+
+interface SessionRow {
+  id: string;
+  share_id: string;
+  title: string | null;
+  selected_entities: string[] | null;
+  pinned_documents: PinnedDocument[] | null;
+  viewport: GraphViewport | null;
+  forked_from: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  id: number;
+  role: SessionMessage['role'];
+  content: string;
+  citations: VerifiedCitation[] | null;
+  verification: AnswerVerification | null;
+  suggestions: string[] | null;
+  tool_trace: AgentTraceEntry[] | null;
+  created_at: string;
+}
+
+export function isSessionId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Create a session, optionally seeded with messages (forks copy the original thread)
+ */
+export async function createSession(
+  workspace: Partial<InvestigationWorkspace> = {},
+  messages: NewSessionMessage[] = [],
+  forkedFrom: string | null = null
+): Promise<InvestigationSession> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('investigation_sessions')
+    .insert({
+      title: workspace.title ?? null,
+      selected_entities: workspace.selectedEntities ?? [],
+      pinned_documents: workspace.pinnedDocuments ?? [],
+      viewport: workspace.viewport ?? null,
+      forked_from: forkedFrom,
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error || !data) throw new Error(`Failed to create investigation session: ${error?.message}`);
+
+  const session = toSession(data as SessionRow, []);
+  if (messages.length > 0) {
+    session.messages = await appendMessages(session.id, messages);
+  }
+  return session;
+}
+
+/**
+ * Start a new session from a shared one - the recipient continues the thread without touching the original
+ */
+export async function forkSession(shareId: string): Promise<InvestigationSession | null> {
+  if (!isSessionId(shareId)) return null;
+  const loaded = await loadSession('share_id', shareId);
+  if (!loaded) return null;
+  const original = { ...loaded, ...maskShared(loaded, await getProtectedNameMasker()) };
+
+  return createSession(
+    {
+      title: original.title,
+      selectedEntities: original.selectedEntities,
+      pinnedDocuments: original.pinnedDocuments,
+      viewport: original.viewport,
+    },
+    original.messages.map(m => ({
+      role: m.role,
+      content: m.content,
+      citations: m.citations,
+      verification: m.verification,
+      suggestions: m.suggestions,
+      toolTrace: m.toolTrace,
+    })),
+    original.id
+  );
+}
+
+/**
+ * Load a session by its id (the owner's key)
+ */
+export async function getSession(id: string): Promise<InvestigationSession | null> {
+  if (!isSessionId(id)) return null;
+  return loadSession('id', id);
+}
+
+/**
+ * Load the read-only copy behind a permalink, with protected persons masked
+ */
+export async function getSharedSession(shareId: string): Promise<SharedInvestigation | null> {
+  if (!isSessionId(shareId)) return null;
+  const session = await loadSession('share_id', shareId);
+  if (!session) return null;
+  return {
+    shareId: session.shareId,
+    viewport: session.viewport,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    ...maskShared(session, await getProtectedNameMasker()),
+  };
+}
+
+/**
+ * The workspace fields come from the client as typed, so they are masked on the way out to anyone else.
+ * Messages were masked when saved - masked again for names added to the registry since
+ */
+function maskShared(session: InvestigationSession, masker: ProtectedNameMasker) {
+  return {
+    title: session.title === null ? null : masker.maskText(session.title),
+    selectedEntities: session.selectedEntities.map(name => masker.maskName(masker.maskText(name))),
+    pinnedDocuments: session.pinnedDocuments.map(doc => ({ ...doc, title: masker.maskText(doc.title) })),
+    messages: masker.mask(session.messages),
+  };
+}
+
+async function loadSession(column: 'id' | 'share_id', value: string): Promise<InvestigationSession | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('investigation_sessions')
+    .select(SESSION_COLUMNS)
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load investigation session: ${error.message}`);
+  if (!data) return null;
+
+  const row = data as SessionRow;
+  const { data: messages, error: messagesError } = await supabase
+    .from('investigation_messages')
+    .select('id, role, content, citations, verification, suggestions, tool_trace, created_at')
+    .eq('session_id', row.id)
+    .order('id');
+
+  if (messagesError) throw new Error(`Failed to load investigation messages: ${messagesError.message}`);
+  return toSession(row, (messages || []) as MessageRow[]);
+}
+
+/**
+ * Save workspace changes - only the fields present in the patch are written
+ */
+export async function updateWorkspace(id: string, patch: Partial<InvestigationWorkspace>): Promise<boolean> {
+  if (!isSessionId(id)) return false;
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (patch.title !== undefined) update.title = patch.title;
+  if (patch.selectedEntities !== undefined) update.selected_entities = patch.selectedEntities;
+  if (patch.pinnedDocuments !== undefined) update.pinned_documents = patch.pinnedDocuments;
+  if (patch.viewport !== undefined) update.viewport = patch.viewport;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('investigation_sessions')
+    .update(update)
+    .eq('id', id)
+    .select('id');
+
+  if (error) throw new Error(`Failed to update investigation session: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+/**
+ * Append messages to a session's thread, in order
+ */
+export async function appendMessages(id: string, messages: NewSessionMessage[]): Promise<SessionMessage[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('investigation_messages')
+    .insert(messages.map(m => ({
+      session_id: id,
+      role: m.role,
+      content: m.content,
+      citations: m.citations ?? null,
+      verification: m.verification ?? null,
+      suggestions: m.suggestions ?? null,
+      tool_trace: m.toolTrace ?? null,
+    })))
+    .select('id, role, content, citations, verification, suggestions, tool_trace, created_at');
+
+  if (error) throw new Error(`Failed to save investigation messages: ${error.message}`);
+  return ((data || []) as MessageRow[]).sort((a, b) => a.id - b.id).map(toMessage);
+}
+
+/**
+ * The last few user and assistant turns, oldest first - the chat's conversation history
+ */
+export async function getRecentMessages(id: string, limit: number): Promise<ConversationTurn[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('investigation_messages')
+    .select('role, content')
+    .eq('session_id', id)
+    .in('role', ['user', 'assistant'])
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load investigation messages: ${error.message}`);
+  return ((data || []) as ConversationTurn[]).reverse();
+}
+
+/**
+ * Validate workspace fields sent by the client, dropping anything malformed
+ */
+export function parseWorkspace(body: unknown): Partial<InvestigationWorkspace> {
+  if (!body || typeof body !== 'object') return {};
+  const input = body as Record<string, unknown>;
+  const workspace: Partial<InvestigationWorkspace> = {};
+
+  if (input.title === null || typeof input.title === 'string') {
+    workspace.title = typeof input.title === 'string' ? input.title.trim().slice(0, MAX_TITLE_LENGTH) || null : null;
+  }
+  if (Array.isArray(input.selectedEntities)) {
+    workspace.selectedEntities = input.selectedEntities
+      .filter((e): e is string => typeof e === 'string' && e.trim().length > 0)
+      .slice(0, MAX_SELECTED_ENTITIES);
+  }
+  if (Array.isArray(input.pinnedDocuments)) {
+    workspace.pinnedDocuments = input.pinnedDocuments
+      .filter((d): d is PinnedDocument =>
+        !!d && typeof d === 'object' &&
+        typeof (d as PinnedDocument).documentId === 'string' &&
+        typeof (d as PinnedDocument).title === 'string' &&
+        ((d as PinnedDocument).page === undefined || Number.isInteger((d as PinnedDocument).page)))
+      .slice(0, MAX_PINNED_DOCUMENTS)
+      .map(d => ({ documentId: d.documentId, title: d.title.slice(0, MAX_TITLE_LENGTH), ...(d.page ? { page: d.page } : {}) }));
+  }
+  if (input.viewport === null) {
+    workspace.viewport = null;
+  } else if (isViewport(input.viewport)) {
+    workspace.viewport = { position: input.viewport.position, target: input.viewport.target };
+  }
+
+  return workspace;
+}
+
+function isViewport(value: unknown): value is GraphViewport {
+  const isVector = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+  return !!value && typeof value === 'object' &&
+    isVector((value as GraphViewport).position) && isVector((value as GraphViewport).target);
+}
+
+/**
+ * Markdown export of a thread with its sources, for notes and hand-offs
+ */
+export function sessionToMarkdown(session: SharedInvestigation): string {
+  const lines: string[] = [`# ${session.title || 'Untitled investigation'}`, ''];
+  lines.push(`Started ${formatDate(session.createdAt)} · last updated ${formatDate(session.updatedAt)}`, '');
+
+  if (session.selectedEntities.length > 0) {
+    lines.push(`**Entities:** ${session.selectedEntities.join(', ')}`, '');
+  }
+  if (session.pinnedDocuments.length > 0) {
+    lines.push('**Pinned documents:**', '');
+    for (const doc of session.pinnedDocuments) {
+      lines.push(`- ${doc.title}${doc.page ? `, p. ${doc.page}` : ''} (${doc.documentId})`);
+    }
+    lines.push('');
+  }
+
+  for (const message of session.messages) {
+    lines.push('---', '');
+    const speaker = message.role === 'user' ? 'Question' : message.role === 'assistant' ? 'Answer' : 'Note';
+    lines.push(`**${speaker}** (${formatDate(message.timestamp)})`, '', message.content, '');
+
+    if (message.toolTrace && message.toolTrace.length > 0) {
+      lines.push(`Research steps: ${message.toolTrace.filter(t => t.status === 'ok').map(t => t.tool).join(', ') || 'none succeeded'}`, '');
+    }
+    const unsupported = message.verification?.unsupportedCount ?? 0;
+    if (unsupported > 0) {
+      lines.push(`> ${unsupported} statement${unsupported > 1 ? 's' : ''} could not be matched to the retrieved documents.`, '');
+    }
+    if (message.citations && message.citations.length > 0) {
+      lines.push('Sources:', '');
+      message.citations.forEach((citation, i) => {
+        const quote = citation.excerpt.slice(citation.quote.start, citation.quote.end).replace(/\s+/g, ' ').trim();
+        lines.push(`${i + 1}. ${citation.documentName}${citation.page ? `, p. ${citation.page}` : ''} (${citation.documentId}) - "${quote}"`);
+      });
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function toSession(row: SessionRow, messages: MessageRow[]): InvestigationSession {
+  return {
+    id: row.id,
+    shareId: row.share_id,
+    title: row.title,
+    selectedEntities: row.selected_entities || [],
+    pinnedDocuments: row.pinned_documents || [],
+    viewport: row.viewport,
+    forkedFrom: row.forked_from,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messages: messages.map(toMessage),
+  };
+}
+
+function toMessage(row: MessageRow): SessionMessage {
+  return {
+    id: String(row.id),
+    role: row.role,
+    content: row.content,
+    ...(row.citations ? { citations: row.citations } : {}),
+    ...(row.verification ? { verification: row.verification } : {}),
+    ...(row.suggestions ? { suggestions: row.suggestions } : {}),
+    ...(row.tool_trace ? { toolTrace: row.tool_trace } : {}),
+    timestamp: row.created_at,
+  };
+}
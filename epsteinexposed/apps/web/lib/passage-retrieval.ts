@@ -0,0 +1,90 @@
+// Hybrid passage retrieval for the investigation chat
+// match_document_chunks() (sql/document_chunks.sql) fuses BM25 and vector rankings of document chunks
+
+import { supabase } from '@/lib/supabase';
+import { getEmbedder } from '@/lib/embeddings';
+
+export interface RetrievedPassage {
+  chunkId: number;
+  documentId: string;    // documents.id
+  docId: string;         // PDF id for viewer links
+  title: string;
+  page: number | null;
+  text: string;
+  score: number;         // Reciprocal rank fusion score
+  bm25: number | null;   // null when only the vector search found it
+  similarity: number | null;
+}
+
+export interface RetrieveOptions {
+  limit?: number;
+  documentIds?: string[];
+}
+
+interface MatchRow {
+  id: number;
+  document_id: string;
+  chunk_index: number;
+  page_number: number | null;
+  content: string;
+  bm25: number | null;
+  similarity: number | null;
+  score: number;
+}
+
+/**
+ * Hybrid BM25 + vector search over document chunks.
+ * Falls back to BM25 alone when the query can't be embedded (model unavailable, endpoint down).
+ */
+export async function retrievePassages(query: string, options: RetrieveOptions = {}): Promise<RetrievedPassage[]> {
+  const limit = options.limit ?? 8;
+  if (query.trim().length < 3) return [];
+
+  let queryEmbedding: number[] | null = null;
+  let embeddingModel: string | null = null;
+  try {
+    const embedder = getEmbedder();
+    [queryEmbedding = null] = await embedder.embed([query]);
+    embeddingModel = embedder.model;
+  } catch (err) {
+    console.error('[RAG] Query embedding failed, using BM25 only:', err);
+  }
+
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_text: query,
+    query_embedding: queryEmbedding,
+    embedding_model: embeddingModel,
+    match_count: limit,
+    filter_document_ids: options.documentIds?.length ? options.documentIds : null,
+  });
+
+  if (error) {
+    console.error('[RAG] match_document_chunks failed:', error.message);
+    return [];
+  }
+
+  const rows = (data || []) as MatchRow[];
+  if (rows.length === 0) return [];
+
+  // Titles and PDF ids for citing the passages
+  const { data: docs } = await supabase
+    .from('documents')
+    .select('id, doc_id, title')
+    .in('id', [...new Set(rows.map(r => r.document_id))]);
+  const docInfo = new Map((docs || []).map(d => [d.id as string, d as { id: string; doc_id: string | null; title: string | null }]));
+
+  return rows.map(row => {
+    const doc = docInfo.get(row.document_id);
+    return {
+      chunkId: row.id,
+      documentId: row.document_id,
+      docId: doc?.doc_id || row.document_id,
+      title: doc?.title || doc?.doc_id || row.document_id,
+      page: row.page_number,
+      text: row.content,
+      score: row.score,
+      bm25: row.bm25,
+      similarity: row.similarity,
+    };
+  });
+}
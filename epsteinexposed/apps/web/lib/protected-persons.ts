@@ -0,0 +1,216 @@
+// Protected persons - victims, minors, Jane Does and people named only in victim statements.
+// The registry lives in Supabase (sql/protected_persons.sql, service role only) so the names never
+// ship with the code. Every public route masks them unless they are already public in a court caption.
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+
+export type ProtectedRole = 'victim' | 'minor' | 'jane_doe' | 'victim_statement';
+
+export interface ProtectedPerson {
+  name: string;
+  aliases: string[];
+  role: ProtectedRole;
+  entityId: string | null;
+  entityName: string | null;    // The linked entity's name - masked in text like the registry name
+  publicInCaption: boolean;
+  captionSource: string | null;
+}
+
+interface ProtectedPersonRow {
+  name: string;
+  aliases: string[] | null;
+  role: ProtectedRole;
+  entity_id: string | null;
+  public_in_caption: boolean;
+  caption_source: string | null;
+}
+
+export interface StreamMasker {
+  push(text: string): string;   // Masked text that is safe to send - a possible name at the end is held back
+  flush(): string;              // Whatever is still held back, masked
+}
+
+// Never says which role - "minor" next to a graph node would already be a disclosure
+export const PROTECTED_LABEL = '[Protected person]';
+
+const CACHE_TTL_MS = 5 * 60_000;
+
+/**
+ * The registry has never loaded on this instance. Routes answer 503 - serving names unmasked is not an option
+ */
+export class ProtectedRegistryUnavailableError extends Error {
+  constructor() {
+    super('Protected person registry unavailable');
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Masks the names in the registry that aren't public in a court caption
+ */
+export class ProtectedNameMasker {
+  private names = new Set<string>();
+  private entityIds = new Set<string>();
+  private pattern: RegExp | null = null;
+  private holdback = 0;
+
+  constructor(persons: ProtectedPerson[]) {
+    const forms: string[] = [];
+    for (const person of persons) {
+      if (person.publicInCaption) continue;
+      if (person.entityId) this.entityIds.add(person.entityId);
+      // The graph's spelling of the name can differ from the registry's, and text should be masked either way
+      for (const form of [person.name, ...person.aliases, ...(person.entityName ? [person.entityName] : [])]) {
+        const normalized = normalizeName(form);
+        if (normalized.length < 2 || this.names.has(normalized)) continue;
+        this.names.add(normalized);
+        forms.push(normalized);
+      }
+    }
+    if (forms.length === 0) return;
+
+    // Longest first so "Jane Mary Doe" wins over "Jane Doe"; whole words, any whitespace (names wrap across lines)
+    const alternatives = forms
+      .sort((a, b) => b.length - a.length)
+      .map(form => form.split(' ').map(escapeRegExp).join('\\s+'));
+    this.pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    // Room for a name split by extra whitespace or a line break
+    this.holdback = (forms[0]?.length ?? 0) + 16;
+  }
+
+  get active(): boolean {
+    return this.pattern !== null || this.entityIds.size > 0;
+  }
+
+  /**
+   * True for a registered entity, or a name that is or contains a protected name
+   */
+  isProtected(name: string | null | undefined, entityId?: string | null): boolean {
+    if (entityId && this.entityIds.has(entityId)) return true;
+    if (!name || !this.pattern) return false;
+    if (this.names.has(normalizeName(name))) return true;
+    this.pattern.lastIndex = 0;
+    return this.pattern.test(name);
+  }
+
+  /**
+   * An entity's display name - the whole name is replaced, not just the protected part
+   */
+  maskName(name: string, entityId?: string | null): string {
+    return this.isProtected(name, entityId) ? PROTECTED_LABEL : name;
+  }
+
+  maskText(text: string): string {
+    if (!this.pattern || !text) return text;
+    return text.replace(this.pattern, PROTECTED_LABEL);
+  }
+
+  /**
+   * Mask every string inside a JSON-like value (citations, tool traces...)
+   */
+  mask<T>(value: T): T {
+    if (!this.pattern) return value;
+    if (typeof value === 'string') return this.maskText(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.mask(item)) as T;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, this.mask(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Mask streamed tokens - a name can arrive split across chunks, so the tail is held back until it can't be one
+   */
+  stream(): StreamMasker {
+    let pending = '';
+    return {
+      push: (text: string) => {
+        if (!this.pattern) return text;
+        pending = this.maskText(pending + text);
+        const safe = Math.max(0, pending.length - this.holdback);
+        const out = pending.slice(0, safe);
+        pending = pending.slice(safe);
+        return out;
+      },
+      flush: () => {
+        const out = this.maskText(pending);
+        pending = '';
+        return out;
+      },
+    };
+  }
+}
+
+let cached: { masker: ProtectedNameMasker; loadedAt: number } | null = null;
+let loading: Promise<ProtectedNameMasker> | null = null;
+
+async function fetchRegistry(): Promise<ProtectedNameMasker> {
+  try {
+    const admin = getSupabaseAdmin();
+    const { data, error } = await admin
+      .from('protected_persons')
+      .select('name, aliases, role, entity_id, public_in_caption, caption_source');
+    if (error) throw new Error(error.message);
+    const rows = (data || []) as ProtectedPersonRow[];
+
+    const entityIds = Array.from(new Set(rows.flatMap(row => (row.entity_id ? [row.entity_id] : []))));
+    const entityNames = new Map<string, string>();
+    if (entityIds.length > 0) {
+      const { data: entities, error: entityError } = await admin
+        .from('entities')
+        .select('id, name')
+        .in('id', entityIds);
+      if (entityError) throw new Error(entityError.message);
+      for (const entity of (entities || []) as Array<{ id: string; name: string | null }>) {
+        if (entity.name) entityNames.set(entity.id, entity.name);
+      }
+    }
+
+    const persons = rows.map(row => ({
+      name: row.name,
+      aliases: row.aliases || [],
+      role: row.role,
+      entityId: row.entity_id,
+      entityName: row.entity_id ? entityNames.get(row.entity_id) ?? null : null,
+      publicInCaption: row.public_in_caption,
+      captionSource: row.caption_source,
+    }));
+    const masker = new ProtectedNameMasker(persons);
+    cached = { masker, loadedAt: Date.now() };
+    console.log(`[PROTECTED] Loaded ${persons.length} registry entries, ${persons.filter(p => !p.publicInCaption).length} masked`);
+    return masker;
+  } catch (error) {
+    if (cached) {
+      // Keep masking with the last copy rather than showing names; retry after the next TTL
+      console.error('[PROTECTED] Registry reload failed, keeping the previous copy:', error);
+      cached.loadedAt = Date.now();
+      return cached.masker;
+    }
+    // Fail closed - the next request tries again
+    console.error('[PROTECTED] Registry unavailable - refusing to serve until it loads:', error);
+    throw new ProtectedRegistryUnavailableError();
+  }
+}
+
+/**
+ * The registry as a masker, cached for a few minutes per server instance.
+ * Throws ProtectedRegistryUnavailableError until it has loaded once
+ */
+export async function getProtectedNameMasker(): Promise<ProtectedNameMasker> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.masker;
+  if (!loading) {
+    loading = fetchRegistry().finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
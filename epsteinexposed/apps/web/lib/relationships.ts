@@ -0,0 +1,103 @@
+// Typed relationships - directed edges with evidence spans, extracted by the API
+// (relation-extractor.service.ts, parse-flight-logs.ts, parse-black-book.ts) and uploaded to
+// entity_relationships by scripts/build-connections.ts. Same vocabulary as the API
+
+export const RELATION_TYPES = ['traveled_with', 'employed_by', 'legal', 'financial_link', 'family', 'contact'] as const;
+
+export type RelationType = typeof RELATION_TYPES[number];
+
+// Directed relations read source → target: employee → employer, attorney → client,
+// payer → payee, contact book owner → contact
+export const DIRECTED_RELATIONS: Record<RelationType, boolean> = {
+  traveled_with: false,
+  employed_by: true,
+  legal: true,
+  financial_link: true,
+  family: false,
+  contact: true,
+};
+
+export const RELATION_LABELS: Record<RelationType, string> = {
+  traveled_with: 'Traveled with',
+  employed_by: 'Employed by',
+  legal: 'Legal counsel',
+  financial_link: 'Financial',
+  family: 'Family',
+  contact: 'Contact book',
+};
+
+// How a directed edge reads from its source, e.g. "Larry Visoski works for Jeffrey Epstein"
+export const RELATION_VERBS: Record<RelationType, string> = {
+  traveled_with: 'traveled with',
+  employed_by: 'works for',
+  legal: 'counsel for',
+  financial_link: 'paid',
+  family: 'family of',
+  contact: 'has in contact book',
+};
+
+export const RELATION_COLORS: Record<RelationType, string> = {
+  traveled_with: '#ff6b35',
+  employed_by: '#10b981',
+  legal: '#9333ea',
+  financial_link: '#fbbf24',
+  family: '#ec4899',
+  contact: '#3b82f6',
+};
+
+export interface RelationEvidence {
+  documentId: string;     // Document id, or "flight_logs" / "black_book" for the parsed exports
+  cue: string;            // The rule that fired, e.g. "counsel for"
+  page: number | null;
+  start?: number;         // Character span on the page
+  end?: number;
+  reference?: string;     // Flight id or contact id for the parsed exports
+  text: string;
+}
+
+export function isRelationType(value: unknown): value is RelationType {
+  return typeof value === 'string' && (RELATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a `relations` query param - "all" or a comma list of types. Unknown types are dropped,
+ * and null means the param was absent (co-occurrence edges only)
+ */
+export function parseRelationTypes(param: string | null): RelationType[] | null {
+  if (param === null || param.trim() === '') return null;
+  if (param.trim() === 'all') return [...RELATION_TYPES];
+  return param.split(',').map(t => t.trim()).filter(isRelationType);
+}
+
+// A row of entity_relationships as the graph routes select it
+export interface RelationshipRow {
+  source_id: string;
+  target_id: string;
+  relation_type: string;
+  directed: boolean | null;
+  strength: number | null;
+  confidence: number | null;
+  evidence: unknown;
+}
+
+/**
+ * A typed graph edge in the shape /api/graph returns - evidence trimmed to `evidenceLimit` spans
+ * and passed through `maskText` so protected names don't leak through the quoted text
+ */
+export function toRelationshipEdge(row: RelationshipRow, maskText: (text: string) => string, evidenceLimit = 3) {
+  return {
+    source: row.source_id,
+    target: row.target_id,
+    from: row.source_id,
+    to: row.target_id,
+    weight: row.strength || 1,
+    strength: row.strength || 1,
+    relationType: row.relation_type as RelationType,
+    directed: Boolean(row.directed),
+    confidence: row.confidence,
+    evidence: ((row.evidence as RelationEvidence[] | null) || []).slice(0, evidenceLimit).map(e => ({
+      ...e,
+      text: maskText(e.text || ''),
+    })),
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Server-sent events helpers
+ * Used by streaming route handlers to write events, and by the browser to parse them
+ * (readSSE lives in @repo/llm, whose providers parse upstream streams with it)
+ */
+
+export { readSSE } from '@repo/llm/sse';
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode one event - data is sent as a single JSON line
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
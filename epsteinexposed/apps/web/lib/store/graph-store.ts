@@ -2,135 +2,200 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { Entity, Connection, Anomaly, SystemMetrics, AgentStatus } from '../types';
+import type { GraphNode, GraphEdge, Anomaly, SystemMetrics, AgentStatus } from '../types';
+
+// Node types the graph draws - anything else is shown as 'other'
+export const GRAPH_ENTITY_TYPES = ['person', 'location', 'organization', 'date', 'flight', 'phone', 'email', 'other'] as const;
+
+// Dates compare as strings, as the documents give them (YYYY, YYYY-MM or YYYY-MM-DD)
+export interface GraphTimeRange {
+  start: string | null;
+  end: string | null;
+}
+
+export interface GraphFilters {
+  visibleEntityTypes: Set<string>;
+  timeRange: GraphTimeRange | null;
+  minStrength: number;
+}
+
+// Typed edges between the same pair are separate edges
+export function edgeKey(e: GraphEdge): string {
+  return `${e.source}|${e.target}|${e.relationType || ''}`;
+}
+
+/**
+ * The part of the graph the filters let through. Edges need both ends visible and at least
+ * `minStrength`; with a strength filter on, nodes left without an edge go too. Nodes with no dated
+ * document are hidden while a time range is set. Selected nodes always stay
+ */
+export function filterGraph(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  filters: GraphFilters,
+  selectedNodeIds: string[] = []
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const { visibleEntityTypes, timeRange, minStrength } = filters;
+  const selected = new Set(selectedNodeIds);
+  // A year or month as the end of the range includes the dates inside it
+  const end = timeRange?.end ? (timeRange.end.length < 10 ? `${timeRange.end}-99` : timeRange.end) : null;
+  const start = timeRange?.start || null;
+
+  const passes = nodes.filter(node => {
+    if (selected.has(node.id)) return true;
+    const type = (GRAPH_ENTITY_TYPES as readonly string[]).includes(node.type) ? node.type : 'other';
+    if (!visibleEntityTypes.has(type)) return false;
+    if (start || end) {
+      if (!node.firstSeen || !node.lastSeen) return false;
+      if (start && node.lastSeen < start) return false;
+      if (end && node.firstSeen > end) return false;
+    }
+    return true;
+  });
+
+  const visible = new Set(passes.map(n => n.id));
+  const filteredEdges = edges.filter(e => e.weight >= minStrength && visible.has(e.source) && visible.has(e.target));
+  if (minStrength <= 1) return { nodes: passes, edges: filteredEdges };
+
+  const linked = new Set(filteredEdges.flatMap(e => [e.source, e.target]));
+  return { nodes: passes.filter(n => linked.has(n.id) || selected.has(n.id)), edges: filteredEdges };
+}
 
 interface GraphState {
-  // Data
-  nodes: Entity[];
-  connections: Connection[];
+  // Data - the loaded graph, before filtering
+  nodes: GraphNode[];
+  edges: GraphEdge[];
   anomalies: Anomaly[];
-  
+
   // Selection
-  selectedNodeId: string | null;
+  selectedNodeIds: string[];
   hoveredNodeId: string | null;
-  
+  focusRequest: { name: string; requestedAt: number } | null; // An entity picked outside the graph, e.g. in search
+
   // Filters
   visibleEntityTypes: Set<string>;
-  timeRange: { start: Date; end: Date } | null;
+  timeRange: GraphTimeRange | null;
   minStrength: number;
-  
+
   // UI State
   isLoading: boolean;
   error: string | null;
-  
+
   // System metrics
   metrics: SystemMetrics | null;
   agents: AgentStatus[];
-  
+
   // Actions
-  setNodes: (nodes: Entity[]) => void;
-  addNode: (node: Entity) => void;
-  updateNode: (nodeId: string, updates: Partial<Entity>) => void;
-  removeNode: (nodeId: string) => void;
-  
-  setConnections: (connections: Connection[]) => void;
-  addConnection: (connection: Connection) => void;
-  updateConnectionStrength: (connectionId: string, strength: number) => void;
-  
+  setGraph: (nodes: GraphNode[], edges: GraphEdge[]) => void;
+  addToGraph: (nodes: GraphNode[], edges: GraphEdge[]) => void;
+  removeFromGraph: (nodeIds: string[], edgeKeys?: string[]) => void;
+
   addAnomaly: (anomaly: Anomaly) => void;
   clearAnomalies: () => void;
-  
+
   selectNode: (nodeId: string | null) => void;
+  toggleNodeSelection: (nodeId: string) => void;
+  setSelection: (nodeIds: string[]) => void;
+  clearSelection: () => void;
   hoverNode: (nodeId: string | null) => void;
-  
+  focusEntity: (name: string) => void;
+  clearFocusRequest: () => void;
+
   setVisibleEntityTypes: (types: Set<string>) => void;
   toggleEntityType: (type: string) => void;
-  setTimeRange: (range: { start: Date; end: Date } | null) => void;
+  setTimeRange: (range: GraphTimeRange | null) => void;
   setMinStrength: (strength: number) => void;
-  
+  resetFilters: () => void;
+
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
-  
+
   updateMetrics: (metrics: SystemMetrics) => void;
   updateAgentStatus: (agent: AgentStatus) => void;
-  
+
   // Computed
-  getSelectedNode: () => Entity | null;
-  getNodeConnections: (nodeId: string) => Connection[];
-  getFilteredNodes: () => Entity[];
+  getSelectedNode: () => GraphNode | null;
+  getNodeEdges: (nodeId: string) => GraphEdge[];
+  getFilteredGraph: () => { nodes: GraphNode[]; edges: GraphEdge[] };
 }
 
 export const useGraphStore = create<GraphState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     nodes: [],
-    connections: [],
+    edges: [],
     anomalies: [],
-    selectedNodeId: null,
+    selectedNodeIds: [],
     hoveredNodeId: null,
-    visibleEntityTypes: new Set(['person', 'location', 'event', 'document', 'flight', 'transaction']),
+    focusRequest: null,
+    visibleEntityTypes: new Set(GRAPH_ENTITY_TYPES),
     timeRange: null,
-    minStrength: 0,
+    minStrength: 1,
     isLoading: true,
     error: null,
     metrics: null,
     agents: [],
 
-    // Node actions
-    setNodes: (nodes) => set({ nodes, isLoading: false }),
-    
-    addNode: (node) => set((state) => {
-      // Check if node already exists
-      if (state.nodes.some(n => n.id === node.id)) {
-        return state;
-      }
-      return { nodes: [...state.nodes, node] };
+    // Graph actions - a fresh load keeps the selection only where the node is still there
+    setGraph: (nodes, edges) => set((state) => {
+      const loaded = new Set(nodes.map(n => n.id));
+      return {
+        nodes,
+        edges,
+        selectedNodeIds: state.selectedNodeIds.filter(id => loaded.has(id)),
+        isLoading: false,
+      };
     }),
-    
-    updateNode: (nodeId, updates) => set((state) => ({
-      nodes: state.nodes.map(n => 
-        n.id === nodeId ? { ...n, ...updates, updatedAt: new Date() } : n
-      )
-    })),
-    
-    removeNode: (nodeId) => set((state) => ({
-      nodes: state.nodes.filter(n => n.id !== nodeId),
-      connections: state.connections.filter(
-        c => c.sourceId !== nodeId && c.targetId !== nodeId
-      ),
-      selectedNodeId: state.selectedNodeId === nodeId ? null : state.selectedNodeId
-    })),
 
-    // Connection actions
-    setConnections: (connections) => set({ connections }),
-    
-    addConnection: (connection) => set((state) => {
-      if (state.connections.some(c => c.id === connection.id)) {
-        return state;
-      }
-      return { connections: [...state.connections, { ...connection, isNew: true }] };
+    addToGraph: (nodes, edges) => set((state) => {
+      const knownNodes = new Set(state.nodes.map(n => n.id));
+      const knownEdges = new Set(state.edges.map(edgeKey));
+      return {
+        nodes: [...state.nodes, ...nodes.filter(n => !knownNodes.has(n.id))],
+        edges: [...state.edges, ...edges.filter(e => !knownEdges.has(edgeKey(e)))],
+      };
+    }),
+
+    // Drops the nodes, every edge touching them and any edges listed by key
+    removeFromGraph: (nodeIds, edgeKeys = []) => set((state) => {
+      const removedNodes = new Set(nodeIds);
+      const removedEdges = new Set(edgeKeys);
+      return {
+        nodes: state.nodes.filter(n => !removedNodes.has(n.id)),
+        edges: state.edges.filter(e =>
+          !removedEdges.has(edgeKey(e)) && !removedNodes.has(e.source) && !removedNodes.has(e.target)
+        ),
+        selectedNodeIds: state.selectedNodeIds.filter(id => !removedNodes.has(id)),
+      };
     }),
-    
-    updateConnectionStrength: (connectionId, strength) => set((state) => ({
-      connections: state.connections.map(c =>
-        c.id === connectionId ? { ...c, strength } : c
-      )
-    })),
 
     // Anomaly actions
     addAnomaly: (anomaly) => set((state) => ({
       anomalies: [anomaly, ...state.anomalies].slice(0, 100) // Keep last 100
     })),
-    
+
     clearAnomalies: () => set({ anomalies: [] }),
 
     // Selection actions
-    selectNode: (nodeId) => set({ selectedNodeId: nodeId }),
+    selectNode: (nodeId) => set({ selectedNodeIds: nodeId ? [nodeId] : [] }),
+
+    toggleNodeSelection: (nodeId) => set((state) => ({
+      selectedNodeIds: state.selectedNodeIds.includes(nodeId)
+        ? state.selectedNodeIds.filter(id => id !== nodeId)
+        : [...state.selectedNodeIds, nodeId]
+    })),
+
+    setSelection: (nodeIds) => set({ selectedNodeIds: Array.from(new Set(nodeIds)) }),
+    clearSelection: () => set({ selectedNodeIds: [] }),
     hoverNode: (nodeId) => set({ hoveredNodeId: nodeId }),
 
+    // The graph selects the entity, loading it with its neighbours when it isn't in the graph yet
+    focusEntity: (name) => set({ focusRequest: { name, requestedAt: Date.now() } }),
+    clearFocusRequest: () => set({ focusRequest: null }),
+
     // Filter actions
     setVisibleEntityTypes: (types) => set({ visibleEntityTypes: types }),
-    
+
     toggleEntityType: (type) => set((state) => {
       const newTypes = new Set(state.visibleEntityTypes);
       if (newTypes.has(type)) {
@@ -140,9 +205,11 @@ export const useGraphStore = create<GraphState>()(
       }
       return { visibleEntityTypes: newTypes };
     }),
-    
-    setTimeRange: (range) => set({ timeRange: range }),
-    setMinStrength: (strength) => set({ minStrength: strength }),
+
+    setTimeRange: (range) => set({ timeRange: range && (range.start || range.end) ? range : null }),
+    setMinStrength: (strength) => set({ minStrength: Math.max(1, strength) }),
+
+    resetFilters: () => set({ visibleEntityTypes: new Set(GRAPH_ENTITY_TYPES), timeRange: null, minStrength: 1 }),
 
     // UI state
     setLoading: (loading) => set({ isLoading: loading }),
@@ -150,7 +217,7 @@ export const useGraphStore = create<GraphState>()(
 
     // System state
     updateMetrics: (metrics) => set({ metrics }),
-    
+
     updateAgentStatus: (agent) => set((state) => {
       const existingIndex = state.agents.findIndex(a => a.id === agent.id);
       if (existingIndex >= 0) {
@@ -164,35 +231,20 @@ export const useGraphStore = create<GraphState>()(
     // Computed getters
     getSelectedNode: () => {
       const state = get();
-      return state.nodes.find(n => n.id === state.selectedNodeId) || null;
+      if (state.selectedNodeIds.length !== 1) return null;
+      return state.nodes.find(n => n.id === state.selectedNodeIds[0]) || null;
     },
-    
-    getNodeConnections: (nodeId) => {
+
+    getNodeEdges: (nodeId) => {
       const state = get();
-      return state.connections.filter(
-        c => c.sourceId === nodeId || c.targetId === nodeId
+      return state.edges.filter(
+        e => e.source === nodeId || e.target === nodeId
       );
     },
-    
-    getFilteredNodes: () => {
+
+    getFilteredGraph: () => {
       const state = get();
-      return state.nodes.filter(node => {
-        // Filter by entity type
-        if (!state.visibleEntityTypes.has(node.type)) return false;
-        
-        // Filter by strength
-        if (node.strength < state.minStrength) return false;
-        
-        // Filter by time range
-        if (state.timeRange) {
-          const nodeDate = node.metadata.firstAppearance || node.createdAt;
-          if (nodeDate < state.timeRange.start || nodeDate > state.timeRange.end) {
-            return false;
-          }
-        }
-        
-        return true;
-      });
+      return filterGraph(state.nodes, state.edges, state, state.selectedNodeIds);
     },
   }))
 );
@@ -20,6 +20,11 @@ export function getSupabaseAdmin() {
   });
 }
 
+// Matches text literally in an ilike() pattern - %, _ and \ are wildcards or escapes there
+export function escapeLike(text: string): string {
+  return text.replace(/[%_\\]/g, '\\$&');
+}
+
 // Type definitions for our database tables
 export interface Entity {
   id: string;
@@ -49,6 +54,7 @@ export interface EntityMention {
   entity_id: string;
   document_id: string;
   page_number: number | null;
+  char_offset: number | null;
   context: string | null;
   confidence: number;
   created_at: string;
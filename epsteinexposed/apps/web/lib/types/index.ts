@@ -1,5 +1,8 @@
 // Core entity types for the investigation platform
 
+import type { EntityRole, EntityRoleProfile } from '@/lib/entity-roles';
+import type { RelationType } from '@/lib/relationships';
+
 export type EntityType = 'person' | 'location' | 'event' | 'document' | 'flight' | 'transaction';
 
 export type AnomalySeverity = 'low' | 'medium' | 'high' | 'critical';
@@ -32,6 +35,9 @@ export interface EntityMetadata {
   firstAppearance?: Date;
   lastAppearance?: Date;
   suspicionScore?: number;
+  centrality?: CentralityScores;
+  roles?: EntityRoleProfile; // Written by scripts/classify-roles.ts
+  dates?: EntityDateRange;
   // Type-specific metadata
   role?: string; // for persons
   coordinates?: { lat: number; lng: number }; // for locations
@@ -41,6 +47,53 @@ export interface EntityMetadata {
   currency?: string;
 }
 
+// Written to entities.metadata.centrality by scripts/compute-centrality.ts
+export interface CentralityScores {
+  weightedDegree: number; // sum of connection strengths
+  betweenness: number; // 0-1, share of shortest paths through the entity (brokers)
+  eigenvector: number; // 0-1, connected to well-connected entities
+  pageRank: number; // random-walk importance, sums to 1 over the graph
+}
+
+export type CentralityMetric = keyof CentralityScores;
+
+// Written to entities.metadata.dates by scripts/compute-entity-dates.ts - dates as the documents give them,
+// YYYY, YYYY-MM or YYYY-MM-DD
+export interface EntityDateRange {
+  first: string; // Earliest dated document mentioning the entity
+  last: string;
+  dated: number; // Dated documents it appears in
+}
+
+// A node of the 3D graph as /api/graph and /api/graph/neighbors deliver it, placed in the scene
+export interface GraphNode {
+  id: string;
+  name: string;
+  label: string;
+  type: string;
+  x: number;
+  y: number;
+  z: number;
+  size: number;
+  connectionCount: number;
+  connections: number;
+  documentCount: number;
+  centrality?: CentralityScores | null;
+  role?: EntityRole | null;
+  firstSeen?: string | null;
+  lastSeen?: string | null;
+  connectedEntities?: string[];
+  pinned?: boolean;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+  relationType?: RelationType;   // Typed edges only - co-occurrence edges have none
+  directed?: boolean;            // Typed edges read source → target
+}
+
 export interface FlightDetails {
   origin: string;
   destination: string;
@@ -69,7 +122,8 @@ export type ConnectionType =
   | 'present_at'
   | 'financial_link'
   | 'family'
-  | 'legal';
+  | 'legal'
+  | 'contact';
 
 export interface Anomaly {
   id: string;
@@ -96,7 +150,8 @@ export interface Document {
   thumbnailUrl?: string;
   pdfUrl?: string;
   processedAt?: Date;
-  ocrConfidence?: number;
+  ocrConfidence?: number;                     // Mean OCR confidence (0-100) over scanned pages
+  pageOcrConfidence?: Array<number | null>;   // Per page, null where the PDF had a text layer
 }
 
 export type DocumentType = 
@@ -0,0 +1,87 @@
+// Edge bundling for the 2D graph - nodes are grouped into grid cells, and an edge between two dense cells
+// bends through both cells' centres. Edges between the same pair of clusters share their control points,
+// so they draw as one bundle instead of a fan of crossing lines. Everything else stays straight
+
+export interface BundlePoint {
+  x: number;
+  y: number;
+}
+
+export interface BundleOptions {
+  cells: number;          // Grid cells across the layout's larger side
+  minClusterSize: number; // Nodes a cell needs to count as dense
+  strength: number;       // 0 straight, 1 every bundled edge passes through the cluster centres
+  segments: number;       // Line segments per bundled edge
+}
+
+export const DEFAULT_BUNDLING: BundleOptions = {
+  cells: 10,
+  minClusterSize: 6,
+  strength: 0.8,
+  segments: 12,
+};
+
+/**
+ * A polyline per edge, in the order given. Straight edges are just their two ends; bundled ones are a
+ * cubic Bézier from the source through both cluster centres (pulled by `strength`) to the target
+ */
+export function bundleEdges(
+  positions: Map<string, BundlePoint>,
+  edges: Array<{ source: string; target: string }>,
+  options: Partial<BundleOptions> = {}
+): BundlePoint[][] {
+  const { cells, minClusterSize, strength, segments } = { ...DEFAULT_BUNDLING, ...options };
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of positions.values()) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const cellSize = Math.max(maxX - minX, maxY - minY, 1) / cells;
+  const cellOf = (p: BundlePoint) => `${Math.floor((p.x - minX) / cellSize)},${Math.floor((p.y - minY) / cellSize)}`;
+
+  // Centre of mass of each cell
+  const clusters = new Map<string, { x: number; y: number; count: number }>();
+  for (const p of positions.values()) {
+    const key = cellOf(p);
+    const cluster = clusters.get(key) || { x: 0, y: 0, count: 0 };
+    cluster.x += p.x;
+    cluster.y += p.y;
+    cluster.count++;
+    clusters.set(key, cluster);
+  }
+
+  const dense = (key: string) => {
+    const cluster = clusters.get(key);
+    return cluster && cluster.count >= minClusterSize ? { x: cluster.x / cluster.count, y: cluster.y / cluster.count } : null;
+  };
+
+  return edges.map((edge) => {
+    const a = positions.get(edge.source);
+    const b = positions.get(edge.target);
+    if (!a || !b) return [];
+    const cellA = cellOf(a);
+    const cellB = cellOf(b);
+    const centreA = cellA === cellB ? null : dense(cellA);
+    const centreB = cellA === cellB ? null : dense(cellB);
+    if (!centreA || !centreB || strength <= 0) return [a, b];
+
+    const c1 = { x: a.x + (centreA.x - a.x) * strength, y: a.y + (centreA.y - a.y) * strength };
+    const c2 = { x: b.x + (centreB.x - b.x) * strength, y: b.y + (centreB.y - b.y) * strength };
+    const points: BundlePoint[] = [];
+    for (let i = 0; i <= segments; i++) {
+      const t = i / segments;
+      const u = 1 - t;
+      points.push({
+        x: u * u * u * a.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * b.x,
+        y: u * u * u * a.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * b.y,
+      });
+    }
+    return points;
+  });
+}
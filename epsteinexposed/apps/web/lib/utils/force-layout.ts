@@ -0,0 +1,298 @@
+// Force-directed 3D layout - Barnes–Hut repulsion over an octree, springs along edges weighted by
+// GraphEdge.weight, and a weak pull toward the origin. Runs off the main thread in force-layout.worker.ts.
+// With `dimensions: 2` every node stays on z = 0, for the flat view
+
+export type Vec3 = [number, number, number];
+
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface ForceLayoutConfig {
+  repulsion: number;       // Charge between every pair of nodes
+  theta: number;           // Barnes–Hut opening angle - lower is more exact and slower
+  springLength: number;    // Rest length of the weakest edge, the strongest pull to half of it
+  springStrength: number;
+  gravity: number;         // Pull toward the origin, keeps disconnected nodes in view
+  velocityDecay: number;
+  alphaDecay: number;      // Cooling per step - about 300 steps from alpha 1 to alphaMin
+  alphaMin: number;
+  dimensions: 2 | 3;
+}
+
+// Tuned for the graph's default 350 nodes - they settle within a radius of about 120,
+// the same scale as the sphere they start from
+export const DEFAULT_FORCE_LAYOUT: ForceLayoutConfig = {
+  repulsion: 10,
+  theta: 0.9,
+  springLength: 10,
+  springStrength: 1,
+  gravity: 0.15,
+  velocityDecay: 0.4,
+  alphaDecay: 1 - Math.pow(0.001, 1 / 300),
+  alphaMin: 0.001,
+  dimensions: 3,
+};
+
+// Messages between the graph and force-layout.worker.ts
+export type LayoutWorkerRequest =
+  | { type: 'start'; nodes: LayoutNode[]; edges: LayoutEdge[]; pinned: string[]; alpha: number; config?: Partial<ForceLayoutConfig> }
+  | { type: 'pin'; id: string }                      // Fixed where it is now
+  | { type: 'unpin'; id: string }
+  | { type: 'stop' };
+
+export type LayoutWorkerResponse =
+  | { type: 'tick'; positions: Float32Array; alpha: number }     // x, y, z per node, in start order
+  | { type: 'end'; positions: Float32Array; alpha: number };
+
+const MAX_TREE_DEPTH = 24;   // Coincident nodes share a leaf instead of splitting forever
+const MIN_DISTANCE2 = 1;
+
+interface Cell {
+  x: number;                 // Centre of the cube
+  y: number;
+  z: number;
+  half: number;
+  mass: number;
+  mx: number;                // Sum of the positions inside - divided by mass for the centre of mass
+  my: number;
+  mz: number;
+  body: number;              // The node in a leaf, -1 for an empty leaf or an inner cell
+  children: Array<Cell | undefined> | null;
+}
+
+function createCell(x: number, y: number, z: number, half: number): Cell {
+  return { x, y, z, half, mass: 0, mx: 0, my: 0, mz: 0, body: -1, children: null };
+}
+
+export class ForceLayout {
+  private readonly ids: string[];
+  private readonly positions: Float64Array;
+  private readonly velocities: Float64Array;
+  private readonly pinned: Uint8Array;
+  private readonly links: Array<{ source: number; target: number; length: number; strength: number; bias: number }> = [];
+  private readonly config: ForceLayoutConfig;
+  private alpha: number;
+
+  constructor(nodes: LayoutNode[], edges: LayoutEdge[], config: Partial<ForceLayoutConfig> = {}, alpha = 1) {
+    this.config = { ...DEFAULT_FORCE_LAYOUT, ...config };
+    this.alpha = alpha;
+    this.ids = nodes.map(n => n.id);
+    this.positions = new Float64Array(nodes.length * 3);
+    this.velocities = new Float64Array(nodes.length * 3);
+    this.pinned = new Uint8Array(nodes.length);
+    nodes.forEach((n, i) => {
+      this.positions[i * 3] = n.x;
+      this.positions[i * 3 + 1] = n.y;
+      this.positions[i * 3 + 2] = this.config.dimensions === 2 ? 0 : n.z;
+    });
+
+    const index = new Map(this.ids.map((id, i) => [id, i]));
+    const degree = new Uint32Array(nodes.length);
+    const resolved: Array<{ source: number; target: number; weight: number }> = [];
+    for (const edge of edges) {
+      const source = index.get(edge.source);
+      const target = index.get(edge.target);
+      if (source === undefined || target === undefined || source === target) continue;
+      resolved.push({ source, target, weight: Math.max(edge.weight || 1, 1) });
+      degree[source]!++;
+      degree[target]!++;
+    }
+
+    // Log-scaled so a handful of huge co-occurrence counts don't flatten everything else
+    const maxWeight = Math.log1p(Math.max(1, ...resolved.map(l => l.weight)));
+    for (const { source, target, weight } of resolved) {
+      const norm = Math.log1p(weight) / maxWeight;
+      const sourceDegree = degree[source] ?? 1;
+      const targetDegree = degree[target] ?? 1;
+      this.links.push({
+        source,
+        target,
+        length: this.config.springLength * (1 - norm * 0.5),
+        // Springs on hubs are weaker, or every hub would swallow its neighbourhood
+        strength: (this.config.springStrength * (0.3 + norm * 0.7)) / Math.min(sourceDegree, targetDegree),
+        bias: sourceDegree / (sourceDegree + targetDegree),
+      });
+    }
+  }
+
+  get settled(): boolean {
+    return this.alpha < this.config.alphaMin;
+  }
+
+  get currentAlpha(): number {
+    return this.alpha;
+  }
+
+  /** Restart cooling from `alpha` - after pinning or unpinning, the rest of the graph adjusts */
+  reheat(alpha: number): void {
+    this.alpha = Math.max(this.alpha, alpha);
+  }
+
+  /** Fix a node where it is - the rest of the layout arranges itself around it */
+  pin(id: string): void {
+    const i = this.ids.indexOf(id);
+    if (i === -1) return;
+    this.pinned[i] = 1;
+    this.velocities.fill(0, i * 3, i * 3 + 3);
+  }
+
+  unpin(id: string): void {
+    const i = this.ids.indexOf(id);
+    if (i !== -1) this.pinned[i] = 0;
+  }
+
+  /** x, y, z per node, in the order the nodes were given */
+  snapshot(): Float32Array {
+    return Float32Array.from(this.positions);
+  }
+
+  /** One simulation step. Returns the alpha it ran at */
+  step(): number {
+    if (this.settled) return this.alpha;
+    const { repulsion, theta, gravity, velocityDecay, alphaDecay, dimensions } = this.config;
+    this.alpha += -this.alpha * alphaDecay;
+    const alpha = this.alpha;
+    const pos = this.positions;
+    const vel = this.velocities;
+
+    // Springs, d3-style: correct the pair's distance toward the rest length, more on the smaller end
+    for (const link of this.links) {
+      const s = link.source * 3;
+      const t = link.target * 3;
+      let dx = pos[t]! + vel[t]! - pos[s]! - vel[s]!;
+      let dy = pos[t + 1]! + vel[t + 1]! - pos[s + 1]! - vel[s + 1]!;
+      let dz = pos[t + 2]! + vel[t + 2]! - pos[s + 2]! - vel[s + 2]!;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1e-6;
+      const k = ((distance - link.length) / distance) * alpha * link.strength;
+      dx *= k;
+      dy *= k;
+      dz *= k;
+      vel[t] = vel[t]! - dx * link.bias;
+      vel[t + 1] = vel[t + 1]! - dy * link.bias;
+      vel[t + 2] = vel[t + 2]! - dz * link.bias;
+      vel[s] = vel[s]! + dx * (1 - link.bias);
+      vel[s + 1] = vel[s + 1]! + dy * (1 - link.bias);
+      vel[s + 2] = vel[s + 2]! + dz * (1 - link.bias);
+    }
+
+    // Repulsion - distant groups of nodes act as one mass at their centre
+    const root = this.buildOctree();
+    const theta2 = theta * theta;
+    const stack: Cell[] = [];
+    for (let i = 0; i < this.ids.length; i++) {
+      const px = pos[i * 3]!;
+      const py = pos[i * 3 + 1]!;
+      const pz = pos[i * 3 + 2]!;
+      stack.push(root);
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        if (cell.mass === 0 || (cell.children === null && cell.body === i)) continue;
+        const dx = cell.mx / cell.mass - px;
+        const dy = cell.my / cell.mass - py;
+        const dz = cell.mz / cell.mass - pz;
+        let d2 = dx * dx + dy * dy + dz * dz;
+        const width = cell.half * 2;
+        if (cell.children === null || (width * width) / d2 < theta2) {
+          if (d2 === 0) continue;
+          if (d2 < MIN_DISTANCE2) d2 = Math.sqrt(MIN_DISTANCE2 * d2);
+          const w = (repulsion * cell.mass * alpha) / d2;
+          vel[i * 3] = vel[i * 3]! - dx * w;
+          vel[i * 3 + 1] = vel[i * 3 + 1]! - dy * w;
+          vel[i * 3 + 2] = vel[i * 3 + 2]! - dz * w;
+        } else {
+          for (const child of cell.children) {
+            if (child) stack.push(child);
+          }
+        }
+      }
+    }
+
+    for (let i = 0; i < this.ids.length; i++) {
+      const o = i * 3;
+      if (this.pinned[i]) {
+        vel[o] = vel[o + 1] = vel[o + 2] = 0;
+        continue;
+      }
+      for (let axis = 0; axis < dimensions; axis++) {
+        const v = (vel[o + axis]! - pos[o + axis]! * gravity * alpha) * (1 - velocityDecay);
+        vel[o + axis] = v;
+        pos[o + axis] = pos[o + axis]! + v;
+      }
+    }
+
+    return alpha;
+  }
+
+  private buildOctree(): Cell {
+    const pos = this.positions;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < pos.length; i++) {
+      min = Math.min(min, pos[i]!);
+      max = Math.max(max, pos[i]!);
+    }
+    const half = Math.max((max - min) / 2, 1) + 1e-6;
+    const centre = (min + max) / 2;
+    const root = createCell(centre, centre, centre, half);
+    for (let i = 0; i < this.ids.length; i++) {
+      this.insert(root, i, 0);
+    }
+    return root;
+  }
+
+  private insert(cell: Cell, i: number, depth: number): void {
+    const pos = this.positions;
+    const px = pos[i * 3]!;
+    const py = pos[i * 3 + 1]!;
+    const pz = pos[i * 3 + 2]!;
+    cell.mass++;
+    cell.mx += px;
+    cell.my += py;
+    cell.mz += pz;
+
+    if (cell.children === null) {
+      if (cell.mass === 1) {
+        cell.body = i;
+        return;
+      }
+      if (depth >= MAX_TREE_DEPTH) return;
+      // Split the leaf and push its node down
+      const existing = cell.body;
+      cell.body = -1;
+      cell.children = new Array<Cell | undefined>(8);
+      this.insertChild(cell, existing, depth);
+    }
+    this.insertChild(cell, i, depth);
+  }
+
+  private insertChild(cell: Cell, i: number, depth: number): void {
+    const pos = this.positions;
+    const px = pos[i * 3]!;
+    const py = pos[i * 3 + 1]!;
+    const pz = pos[i * 3 + 2]!;
+    const octant = (px >= cell.x ? 1 : 0) | (py >= cell.y ? 2 : 0) | (pz >= cell.z ? 4 : 0);
+    const children = cell.children!;
+    let child = children[octant];
+    if (!child) {
+      const half = cell.half / 2;
+      child = createCell(
+        cell.x + (octant & 1 ? half : -half),
+        cell.y + (octant & 2 ? half : -half),
+        cell.z + (octant & 4 ? half : -half),
+        half
+      );
+      children[octant] = child;
+    }
+    this.insert(child, i, depth + 1);
+  }
+}
@@ -0,0 +1,62 @@
+import { ForceLayout, type LayoutWorkerRequest, type LayoutWorkerResponse } from './force-layout';
+
+// Runs the force layout in slices so pin / unpin messages get in between, posting positions after each
+const SLICE_MS = 30;
+const PIN_REHEAT_ALPHA = 0.3;
+
+let layout: ForceLayout | null = null;
+let running = false;
+
+function post(message: LayoutWorkerResponse) {
+  self.postMessage(message, { transfer: [message.positions.buffer] });
+}
+
+function run() {
+  if (!layout) {
+    running = false;
+    return;
+  }
+  const started = performance.now();
+  let alpha = layout.currentAlpha;
+  while (!layout.settled && performance.now() - started < SLICE_MS) {
+    alpha = layout.step();
+  }
+
+  if (layout.settled) {
+    running = false;
+    post({ type: 'end', positions: layout.snapshot(), alpha });
+    return;
+  }
+  post({ type: 'tick', positions: layout.snapshot(), alpha });
+  setTimeout(run, 0);
+}
+
+function ensureRunning() {
+  if (running) return;
+  running = true;
+  setTimeout(run, 0);
+}
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      layout = new ForceLayout(message.nodes, message.edges, message.config, message.alpha);
+      for (const id of message.pinned) layout.pin(id);
+      ensureRunning();
+      break;
+    case 'pin':
+      layout?.pin(message.id);
+      layout?.reheat(PIN_REHEAT_ALPHA);
+      ensureRunning();
+      break;
+    case 'unpin':
+      layout?.unpin(message.id);
+      layout?.reheat(PIN_REHEAT_ALPHA);
+      ensureRunning();
+      break;
+    case 'stop':
+      layout = null;
+      break;
+  }
+};
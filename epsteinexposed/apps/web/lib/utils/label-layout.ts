@@ -0,0 +1,96 @@
+// Label placement for the 2D graph - greedy, most important label first. A label tries the four sides of
+// its node and is dropped when every side would overlap a label or node already placed
+
+export interface LabelCandidate {
+  id: string;
+  x: number;          // Screen position of the node centre
+  y: number;
+  radius: number;     // Node radius on screen - labels sit just outside it
+  width: number;      // Measured text box
+  height: number;
+  priority: number;   // Higher is placed first
+}
+
+export interface PlacedLabel {
+  id: string;
+  x: number;          // Top-left of the text box
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const CELL_SIZE = 64;
+const GAP = 3;
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+// Boxes bucketed by the grid cells they cover, so a candidate is only tested against its neighbourhood
+class BoxGrid {
+  private readonly cells = new Map<string, Box[]>();
+
+  private keys(box: Box): string[] {
+    const keys: string[] = [];
+    for (let cx = Math.floor(box.x / CELL_SIZE); cx <= Math.floor((box.x + box.width) / CELL_SIZE); cx++) {
+      for (let cy = Math.floor(box.y / CELL_SIZE); cy <= Math.floor((box.y + box.height) / CELL_SIZE); cy++) {
+        keys.push(`${cx},${cy}`);
+      }
+    }
+    return keys;
+  }
+
+  collides(box: Box): boolean {
+    return this.keys(box).some((key) => (this.cells.get(key) || []).some((other) => overlaps(box, other)));
+  }
+
+  add(box: Box): void {
+    for (const key of this.keys(box)) {
+      const cell = this.cells.get(key);
+      if (cell) cell.push(box);
+      else this.cells.set(key, [box]);
+    }
+  }
+}
+
+/**
+ * Place as many labels as fit without overlapping each other or the nodes in `obstacles`
+ * (screen-space circles). Labels outside the viewport are skipped
+ */
+export function placeLabels(
+  candidates: LabelCandidate[],
+  viewport: { width: number; height: number },
+  obstacles: Array<{ x: number; y: number; radius: number }> = []
+): PlacedLabel[] {
+  const grid = new BoxGrid();
+  for (const o of obstacles) {
+    grid.add({ x: o.x - o.radius, y: o.y - o.radius, width: o.radius * 2, height: o.radius * 2 });
+  }
+
+  const placed: PlacedLabel[] = [];
+  const ordered = [...candidates].sort((a, b) => b.priority - a.priority);
+  for (const c of ordered) {
+    const offset = c.radius + GAP;
+    // Right, left, above, below
+    const options: Box[] = [
+      { x: c.x + offset, y: c.y - c.height / 2, width: c.width, height: c.height },
+      { x: c.x - offset - c.width, y: c.y - c.height / 2, width: c.width, height: c.height },
+      { x: c.x - c.width / 2, y: c.y - offset - c.height, width: c.width, height: c.height },
+      { x: c.x - c.width / 2, y: c.y + offset, width: c.width, height: c.height },
+    ];
+    const box = options.find((b) =>
+      b.x >= 0 && b.y >= 0 && b.x + b.width <= viewport.width && b.y + b.height <= viewport.height && !grid.collides(b)
+    );
+    if (!box) continue;
+    grid.add(box);
+    placed.push({ id: c.id, ...box });
+  }
+  return placed;
+}
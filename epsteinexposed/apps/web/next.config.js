@@ -20,6 +20,9 @@ const nextConfig = {
     optimizePackageImports: ['three', '@react-three/fiber', '@react-three/drei', 'framer-motion', 'lucide-react'],
   },
   
+  // transformers.js loads onnxruntime's native binding - keep it out of the server bundle
+  serverExternalPackages: ['@huggingface/transformers'],
+  
   // Empty turbopack config to silence warning (Next.js 16 uses Turbopack by default)
   turbopack: {},
   
@@ -3,6 +3,14 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import {
+  locateMentions,
+  sharedLocations,
+  weighConnection,
+  type ConnectionWeights,
+  type MentionLocations,
+} from '@repo/analysis/edge-weighting';
+import { DIRECTED_RELATIONS, isRelationType, type RelationEvidence, type RelationType } from '../lib/relationships';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -34,6 +42,31 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// A typed relation as the API writes it into entity files (relation-extractor.service.ts)
+interface FileRelation {
+  type: string;
+  source: string;
+  target: string;
+  confidence?: number;
+  cue?: string;
+  evidence?: Omit<RelationEvidence, 'documentId' | 'cue'>;
+}
+
+interface AggregatedRelation {
+  source_id: string;
+  target_id: string;
+  relation_type: RelationType;
+  directed: boolean;
+  strength: number;
+  confidence: number;
+  document_ids: string[];
+  evidence: RelationEvidence[];
+}
+
+const MAX_RELATION_EVIDENCE = 10;
+// Shared documents kept per connection for exports - `strength` still counts them all
+const MAX_CONNECTION_DOCUMENTS = 100;
+
 async function buildConnections() {
   console.log('🔗 Building connections from document co-occurrences...\n');
   
@@ -63,6 +96,12 @@ async function buildConnections() {
   
   // Map: documentId -> array of entity originalIds
   const docToEntities = new Map<string, string[]>();
+  // Map: documentId -> pages / paragraphs mentioning each entity
+  const docToLocations = new Map<string, Map<string, MentionLocations>>();
+  // Map: documentId -> the document's own id, as typed relations record it
+  const docToSourceId = new Map<string, string>();
+  // Typed relations, with the document (or parsed export) they came from
+  const fileRelations: Array<{ documentId: string; relation: FileRelation }> = [];
   
   // Read all JSON files and extract document mentions
   const files = await fs.readdir(entitiesPath);
@@ -76,6 +115,15 @@ async function buildConnections() {
       const data = JSON.parse(content);
       const entityId = file.replace('.json', '');
       
+      if (Array.isArray(data.relationships)) {
+        const documentId = data.document?.id || data.source || entityId;
+        for (const relation of data.relationships) {
+          fileRelations.push({ documentId, relation });
+        }
+      }
+      // Flight log / contact book exports only carry relationships
+      if (!data.document && !data.entities) continue;
+      
       // The JSON structure has a "document" object with "filename"
       // Each entity file represents entities extracted from ONE document
       // So the document ID is the filename itself
@@ -93,15 +141,19 @@ async function buildConnections() {
         if (!docToEntities.has(docId)) {
           docToEntities.set(docId, []);
         }
+        docToSourceId.set(docId, data.document?.id || docId);
         
         // Add all entities from this document
         const entityNames: string[] = [];
+        const displayNames = new Map<string, string>();
         
         // Extract people
         if (data.entities?.people && Array.isArray(data.entities.people)) {
           for (const person of data.entities.people) {
             if (person.name) {
-              entityNames.push(`person_${person.name.toLowerCase().replace(/\s+/g, '_')}`);
+              const key = `person_${person.name.toLowerCase().replace(/\s+/g, '_')}`;
+              entityNames.push(key);
+              displayNames.set(key, person.name);
             }
           }
         }
@@ -110,7 +162,9 @@ async function buildConnections() {
         if (data.entities?.locations && Array.isArray(data.entities.locations)) {
           for (const loc of data.entities.locations) {
             if (loc.name) {
-              entityNames.push(`location_${loc.name.toLowerCase().replace(/\s+/g, '_')}`);
+              const key = `location_${loc.name.toLowerCase().replace(/\s+/g, '_')}`;
+              entityNames.push(key);
+              displayNames.set(key, loc.name);
             }
           }
         }
@@ -119,13 +173,26 @@ async function buildConnections() {
         if (data.entities?.organizations && Array.isArray(data.entities.organizations)) {
           for (const org of data.entities.organizations) {
             if (org.name) {
-              entityNames.push(`org_${org.name.toLowerCase().replace(/\s+/g, '_')}`);
+              const key = `org_${org.name.toLowerCase().replace(/\s+/g, '_')}`;
+              entityNames.push(key);
+              displayNames.set(key, org.name);
             }
           }
         }
         
         // Add all entity names to this document
         docToEntities.get(docId)!.push(...entityNames);
+        
+        // Locate mentions in the text for page / paragraph proximity weights
+        if (typeof data.document?.text === 'string') {
+          const locations = docToLocations.get(docId) || new Map<string, MentionLocations>();
+          const found = locateMentions(data.document.text, data.document.pageCount || 0, Array.from(displayNames.values()));
+          for (const [key, name] of displayNames) {
+            const value = found.get(name);
+            if (value) locations.set(key, value);
+          }
+          docToLocations.set(docId, locations);
+        }
       }
       
     } catch {
@@ -184,8 +251,23 @@ async function buildConnections() {
   // Build connections from co-occurrences
   console.log('🔗 Building connections...');
   const connectionStrength = new Map<string, number>();
+  const connectionProximity = new Map<string, { page: number; paragraph: number }>();
+  const connectionDocuments = new Map<string, string[]>();
+  // Documents mentioning each entity, for PMI / NPMI / Jaccard
+  const documentFrequency = new Map<string, number>();
   
-  for (const [, entityIds] of docToEntities) {
+  for (const [docId, entityIds] of docToEntities) {
+    const locations = docToLocations.get(docId);
+    
+    const uuidsInDoc = new Set<string>();
+    for (const entityId of entityIds) {
+      const uuid = nameToUuid.get(entityId);
+      if (uuid) uuidsInDoc.add(uuid);
+    }
+    for (const uuid of uuidsInDoc) {
+      documentFrequency.set(uuid, (documentFrequency.get(uuid) || 0) + 1);
+    }
+    
     // Create connections between all entities in the same document
     for (let i = 0; i < entityIds.length; i++) {
       for (let j = i + 1; j < entityIds.length; j++) {
@@ -202,6 +284,20 @@ async function buildConnections() {
           // Create consistent key (sorted to avoid duplicates)
           const key = [uuid1, uuid2].sort().join('|');
           connectionStrength.set(key, (connectionStrength.get(key) || 0) + 1);
+          const documents = connectionDocuments.get(key) || [];
+          const sourceId = docToSourceId.get(docId) || docId;
+          if (documents.length < MAX_CONNECTION_DOCUMENTS && !documents.includes(sourceId)) documents.push(sourceId);
+          connectionDocuments.set(key, documents);
+          
+          const a = locations?.get(entityId1);
+          const b = locations?.get(entityId2);
+          if (a && b) {
+            const proximity = connectionProximity.get(key) || { page: 0, paragraph: 0 };
+            const { pageHits, paragraphHits } = sharedLocations(a, b);
+            proximity.page += pageHits;
+            proximity.paragraph += paragraphHits;
+            connectionProximity.set(key, proximity);
+          }
         }
       }
     }
@@ -216,17 +312,34 @@ async function buildConnections() {
     entity_b_id: string;
     strength: number;
     connection_type: string;
+    document_ids: string[];
+    metadata: { weights: ConnectionWeights };
   }> = [];
   let inserted = 0;
+  const totalDocuments = docToEntities.size;
   
   for (const [key, strength] of connectionStrength) {
     const [uuid1, uuid2] = key.split('|');
     if (uuid1 && uuid2) {
+      // Raw counts favour long filings that name everyone - store association and proximity weights too
+      const proximity = connectionProximity.get(key) || { page: 0, paragraph: 0 };
+      
       connections.push({
         entity_a_id: uuid1,
         entity_b_id: uuid2,
         strength: strength,
-        connection_type: 'co_occurrence'
+        connection_type: 'co_occurrence',
+        document_ids: connectionDocuments.get(key) || [],
+        metadata: {
+          weights: weighConnection({
+            cooccurrence: strength,
+            pageHits: proximity.page,
+            paragraphHits: proximity.paragraph,
+            fromDocuments: documentFrequency.get(uuid1) || 0,
+            toDocuments: documentFrequency.get(uuid2) || 0,
+            totalDocuments,
+          }),
+        },
       });
     }
     
@@ -254,6 +367,84 @@ async function buildConnections() {
   }
   
   console.log(`\n\n✅ COMPLETE: Inserted ${inserted} connections into Supabase!`);
+  
+  await uploadRelationships(fileRelations, nameToUuid);
+}
+
+// Typed relations, one row per entity pair and type. Undirected pairs are keyed in uuid order
+async function uploadRelationships(
+  fileRelations: Array<{ documentId: string; relation: FileRelation }>,
+  nameToUuid: Map<string, string>
+) {
+  console.log(`\n🧭 Aggregating ${fileRelations.length} typed relations...`);
+  const aggregated = new Map<string, AggregatedRelation>();
+  // What each relationship's strength counts: documents, or flights / contact entries for the parsed exports
+  const supportingUnits = new Map<string, Set<string>>();
+  let unmatched = 0;
+  
+  for (const { documentId, relation } of fileRelations) {
+    if (!isRelationType(relation.type) || !relation.source || !relation.target) continue;
+    let sourceId = nameToUuid.get(relation.source.toLowerCase().replace(/\s+/g, '_'));
+    let targetId = nameToUuid.get(relation.target.toLowerCase().replace(/\s+/g, '_'));
+    if (!sourceId || !targetId) {
+      unmatched++;
+      continue;
+    }
+    if (sourceId === targetId) continue;
+    
+    const directed = DIRECTED_RELATIONS[relation.type];
+    if (!directed && sourceId > targetId) [sourceId, targetId] = [targetId, sourceId];
+    
+    const key = `${sourceId}|${targetId}|${relation.type}`;
+    const row = aggregated.get(key) || {
+      source_id: sourceId,
+      target_id: targetId,
+      relation_type: relation.type,
+      directed,
+      strength: 0,
+      confidence: 0,
+      document_ids: [],
+      evidence: [],
+    };
+    if (!row.document_ids.includes(documentId)) row.document_ids.push(documentId);
+    const units = supportingUnits.get(key) || new Set<string>();
+    units.add(relation.evidence?.reference ? `${documentId}:${relation.evidence.reference}` : documentId);
+    supportingUnits.set(key, units);
+    row.strength = units.size;
+    row.confidence = Math.max(row.confidence, relation.confidence ?? 0.5);
+    if (relation.evidence?.text && row.evidence.length < MAX_RELATION_EVIDENCE) {
+      row.evidence.push({ documentId, cue: relation.cue || relation.type, ...relation.evidence });
+    }
+    aggregated.set(key, row);
+  }
+  
+  const byType: Partial<Record<RelationType, number>> = {};
+  for (const row of aggregated.values()) {
+    byType[row.relation_type] = (byType[row.relation_type] || 0) + 1;
+  }
+  console.log(`📊 ${aggregated.size} typed relationships (${unmatched} relations named entities not in Supabase)`);
+  for (const [type, count] of Object.entries(byType).sort((a, b) => b[1] - a[1])) {
+    console.log(`   ${type.padEnd(15)} ${count}`);
+  }
+  
+  console.log('📤 Inserting relationships into Supabase...');
+  const rows = Array.from(aggregated.values()).map(row => ({ ...row, updated_at: new Date().toISOString() }));
+  let inserted = 0;
+  for (let i = 0; i < rows.length; i += 500) {
+    const batch = rows.slice(i, i + 500);
+    const { error } = await supabase
+      .from('entity_relationships')
+      .upsert(batch, { onConflict: 'source_id,target_id,relation_type' });
+    
+    if (error) {
+      console.error('Batch error:', error.message);
+    } else {
+      inserted += batch.length;
+      process.stdout.write(`\r  Inserted: ${inserted} relationships`);
+    }
+  }
+  
+  console.log(`\n\n✅ COMPLETE: Inserted ${inserted} typed relationships into Supabase!`);
 }
 
 buildConnections().catch(console.error);
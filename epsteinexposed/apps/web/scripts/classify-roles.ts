@@ -0,0 +1,201 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { buildRoleProfile, classifyMentionRole, formatRoleProfile, type DocumentHints, type EntityRole } from '../lib/entity-roles';
+
+/**
+ * Classify each person mention's role (defendant, witness, attorney...) from its context and store
+ * entity_mentions.role plus a per-entity profile in entities.metadata.roles.
+ *
+ * Usage: pnpm classify:roles [--dry-run]
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+async function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  try {
+    const envContent = await fs.readFile(envPath, 'utf-8');
+    for (const line of envContent.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load .env.local:', err);
+    process.exit(1);
+  }
+}
+
+await loadEnv();
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const ENTITY_PAGE_SIZE = 500;
+const ENTITY_BATCH = 50;        // Entities whose mentions are fetched together
+const MENTION_PAGE_SIZE = 1000;
+const UPDATE_BATCH = 200;       // Mention ids per update
+const UPDATE_CONCURRENCY = 20;
+
+const dryRun = process.argv.includes('--dry-run');
+
+interface MentionRow {
+  id: string;
+  entity_id: string;
+  document_id: string;
+  context: string | null;
+  role: string | null;
+  role_cue: string | null;
+}
+
+const documentHints = new Map<string, DocumentHints>();
+
+async function fetchMentions(entityIds: string[]): Promise<MentionRow[]> {
+  const rows: MentionRow[] = [];
+  for (let from = 0; ; from += MENTION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('entity_mentions')
+      .select('id, entity_id, document_id, context, role, role_cue')
+      .in('entity_id', entityIds)
+      .order('id')
+      .range(from, from + MENTION_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching mentions:', error.message);
+      process.exit(1);
+    }
+    rows.push(...((data || []) as MentionRow[]));
+    if (!data || data.length < MENTION_PAGE_SIZE) return rows;
+  }
+}
+
+// Title and dataset - a flight log with no other cue makes a passenger
+async function loadDocumentHints(documentIds: string[]) {
+  const missing = [...new Set(documentIds)].filter(id => !documentHints.has(id));
+  for (let i = 0; i < missing.length; i += UPDATE_BATCH) {
+    const { data } = await supabase
+      .from('documents')
+      .select('id, title, dataset:metadata->>dataset')
+      .in('id', missing.slice(i, i + UPDATE_BATCH));
+    for (const doc of data || []) {
+      documentHints.set(doc.id, { title: doc.title, dataset: doc.dataset as string | null });
+    }
+  }
+}
+
+// One update per role and cue rather than one per mention
+async function storeMentionRoles(changes: Map<string, string[]>) {
+  const updates: Array<{ role: string | null; cue: string | null; ids: string[] }> = [];
+  for (const [key, ids] of changes) {
+    const [role, cue] = key.split('|');
+    for (let i = 0; i < ids.length; i += UPDATE_BATCH) {
+      updates.push({ role: role || null, cue: cue || null, ids: ids.slice(i, i + UPDATE_BATCH) });
+    }
+  }
+
+  for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+    await Promise.all(updates.slice(i, i + UPDATE_CONCURRENCY).map(async update => {
+      const { error } = await supabase
+        .from('entity_mentions')
+        .update({ role: update.role, role_cue: update.cue })
+        .in('id', update.ids);
+      if (error) console.error(`\nMention update error (${update.role}):`, error.message);
+    }));
+  }
+}
+
+async function classifyRoles() {
+  console.log(`🏷️  Classifying person roles from mention contexts${dryRun ? ' (dry run)' : ''}...\n`);
+  const startTime = Date.now();
+  const totals: Partial<Record<EntityRole, number>> = {};
+  let entitiesSeen = 0;
+  let profiled = 0;
+  let mentionsChanged = 0;
+
+  for (let page = 0; ; page++) {
+    const { data: entities, error } = await supabase
+      .from('entities')
+      .select('id, name, metadata')
+      .eq('type', 'person')
+      .order('id')
+      .range(page * ENTITY_PAGE_SIZE, (page + 1) * ENTITY_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching entities:', error.message);
+      process.exit(1);
+    }
+    if (!entities || entities.length === 0) break;
+
+    for (let i = 0; i < entities.length; i += ENTITY_BATCH) {
+      const batch = entities.slice(i, i + ENTITY_BATCH);
+      const mentions = await fetchMentions(batch.map(e => e.id));
+      await loadDocumentHints(mentions.map(m => m.document_id));
+
+      const byEntity = new Map<string, MentionRow[]>();
+      for (const mention of mentions) {
+        if (!byEntity.has(mention.entity_id)) byEntity.set(mention.entity_id, []);
+        byEntity.get(mention.entity_id)!.push(mention);
+      }
+
+      const changes = new Map<string, string[]>();
+      await Promise.all(batch.map(async entity => {
+        const rows = byEntity.get(entity.id) || [];
+        const roles = rows.map(row => {
+          const classified = row.context
+            ? classifyMentionRole(entity.name, row.context, documentHints.get(row.document_id))
+            : null;
+          const role = classified?.role ?? null;
+          const cue = classified?.cue ?? null;
+          if (role !== row.role || cue !== row.role_cue) {
+            const key = `${role || ''}|${cue || ''}`;
+            if (!changes.has(key)) changes.set(key, []);
+            changes.get(key)!.push(row.id);
+          }
+          return role;
+        });
+
+        const metadata = (entity.metadata && typeof entity.metadata === 'object' ? entity.metadata : {}) as Record<string, unknown>;
+        const profile = buildRoleProfile(roles);
+        if (profile.primary) {
+          totals[profile.primary] = (totals[profile.primary] || 0) + 1;
+          if (dryRun) console.log(`  ${entity.name}: ${formatRoleProfile(profile)}`);
+        }
+        if (dryRun || (rows.length === 0 && !metadata.roles)) return;
+
+        const { error: updateError } = await supabase
+          .from('entities')
+          .update({ metadata: { ...metadata, roles: rows.length > 0 ? { ...profile, computedAt: new Date().toISOString() } : undefined } })
+          .eq('id', entity.id);
+        if (updateError) {
+          console.error(`\nUpdate error for ${entity.id}:`, updateError.message);
+        } else {
+          profiled++;
+        }
+      }));
+
+      mentionsChanged += [...changes.values()].reduce((sum, ids) => sum + ids.length, 0);
+      if (!dryRun) await storeMentionRoles(changes);
+      entitiesSeen += batch.length;
+      if (!dryRun) process.stdout.write(`\r  Entities: ${entitiesSeen}, profiles stored: ${profiled}, mentions relabelled: ${mentionsChanged}`);
+    }
+  }
+
+  console.log('\n\n📊 Primary roles:');
+  for (const [role, count] of Object.entries(totals).sort((a, b) => b[1] - a[1])) {
+    console.log(`   ${role.padEnd(13)} ${count}`);
+  }
+  console.log(`\n✅ COMPLETE: ${entitiesSeen} people, ${mentionsChanged} mentions ${dryRun ? 'would change' : 'relabelled'} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+}
+
+classifyRoles().catch(console.error);
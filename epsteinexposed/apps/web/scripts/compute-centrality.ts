@@ -0,0 +1,148 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { computeCentrality as computeScores, type CentralityScores } from '@repo/analysis/centrality';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+async function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  try {
+    const envContent = await fs.readFile(envPath, 'utf-8');
+    for (const line of envContent.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load .env.local:', err);
+    process.exit(1);
+  }
+}
+
+await loadEnv();
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Scores for the site's graph. entities.metadata.centrality is what the web app shows; the API's
+// `pnpm centrality:compute` ranks its own entity index into SQLite - see packages/analysis/README.md
+
+// Betweenness is sampled from this many source entities (--samples=N, --exact for all)
+const DEFAULT_SAMPLES = 500;
+const PAGE_SIZE = 1000;
+const UPDATE_CONCURRENCY = 20;
+
+async function fetchConnections(): Promise<Array<{ a: string; b: string; strength: number }>> {
+  console.log('📥 Fetching connections from Supabase...');
+  const connections: Array<{ a: string; b: string; strength: number }> = [];
+  let page = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('connections')
+      .select('entity_a_id, entity_b_id, strength')
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching connections:', error.message);
+      process.exit(1);
+    }
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      if (row.entity_a_id && row.entity_b_id && row.entity_a_id !== row.entity_b_id) {
+        connections.push({ a: row.entity_a_id, b: row.entity_b_id, strength: row.strength || 1 });
+      }
+    }
+
+    page++;
+    process.stdout.write(`\r  Fetched: ${connections.length} connections`);
+  }
+
+  console.log(`\n✅ Loaded ${connections.length} connections\n`);
+  return connections;
+}
+
+async function storeScores(scores: Map<string, CentralityScores>) {
+  console.log('📤 Writing centrality to entities.metadata...');
+  const computedAt = new Date().toISOString();
+  let updated = 0;
+  let page = 0;
+
+  // Walk every entity so ones that dropped out of the graph get their old scores cleared
+  while (true) {
+    const { data: entities, error } = await supabase
+      .from('entities')
+      .select('id, metadata')
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching entities:', error.message);
+      process.exit(1);
+    }
+    if (!entities || entities.length === 0) break;
+
+    for (let i = 0; i < entities.length; i += UPDATE_CONCURRENCY) {
+      await Promise.all(entities.slice(i, i + UPDATE_CONCURRENCY).map(async entity => {
+        const metadata = (entity.metadata && typeof entity.metadata === 'object' ? entity.metadata : {}) as Record<string, unknown>;
+        const score = scores.get(entity.id);
+        if (!score && !metadata.centrality) return;
+
+        const { error: updateError } = await supabase
+          .from('entities')
+          .update({ metadata: { ...metadata, centrality: score ? { ...score, computedAt } : undefined } })
+          .eq('id', entity.id);
+
+        if (updateError) {
+          console.error(`\nUpdate error for ${entity.id}:`, updateError.message);
+        } else {
+          updated++;
+        }
+      }));
+    }
+
+    page++;
+    process.stdout.write(`\r  Updated: ${updated} entities`);
+  }
+
+  console.log();
+  return updated;
+}
+
+async function computeCentrality() {
+  console.log('🧮 Computing centrality metrics over the connections table...\n');
+  const startTime = Date.now();
+
+  const exact = process.argv.includes('--exact');
+  const samplesArg = process.argv.find(arg => arg.startsWith('--samples='));
+  const samples = exact ? 0 : samplesArg ? parseInt(samplesArg.split('=')[1] || '', 10) || DEFAULT_SAMPLES : DEFAULT_SAMPLES;
+
+  const connections = await fetchConnections();
+  console.log(`🔍 Betweenness (${samples === 0 ? 'exact' : `${samples} sampled sources`}), eigenvector and PageRank...`);
+  const scores = computeScores(connections.map(c => ({ from: c.a, to: c.b, weight: c.strength })), {
+    betweennessSamples: samples,
+    onBetweennessProgress: (done, total) => {
+      if (done % 25 === 0 || done === total) process.stdout.write(`\r  Betweenness: ${done}/${total} sources`);
+    },
+  });
+  console.log(`\n📊 Graph: ${scores.size} entities, ${connections.length} connections`);
+
+  const updated = await storeScores(scores);
+
+  console.log(`\n✅ COMPLETE: Stored centrality for ${updated} entities in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+}
+
+computeCentrality().catch(console.error);
@@ -0,0 +1,179 @@
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import type { EntityDateRange } from '../lib/types';
+
+/**
+ * Store the first and last dated document each entity appears in as entities.metadata.dates,
+ * for the graph's time range filter. Documents without metadata.date are skipped.
+ *
+ * Usage: pnpm compute:dates [--dry-run]
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+async function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  try {
+    const envContent = await fs.readFile(envPath, 'utf-8');
+    for (const line of envContent.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load .env.local:', err);
+    process.exit(1);
+  }
+}
+
+await loadEnv();
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const PAGE_SIZE = 1000;
+const ENTITY_BATCH = 50;        // Entities whose mentions are fetched together
+const UPDATE_CONCURRENCY = 20;
+
+// YYYY, YYYY-MM or YYYY-MM-DD at the start of metadata.date - anything else can't be placed in time
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?/;
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function loadDocumentDates(): Promise<Map<string, string>> {
+  const dates = new Map<string, string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, date:metadata->>date')
+      .not('metadata->>date', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching documents:', error.message);
+      process.exit(1);
+    }
+    for (const doc of data || []) {
+      const match = typeof doc.date === 'string' ? doc.date.match(DATE_PATTERN) : null;
+      if (match) dates.set(doc.id, match[0]);
+    }
+    if (!data || data.length < PAGE_SIZE) return dates;
+  }
+}
+
+async function fetchMentions(entityIds: string[]): Promise<Array<{ entity_id: string; document_id: string }>> {
+  const rows: Array<{ entity_id: string; document_id: string }> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('entity_mentions')
+      .select('entity_id, document_id')
+      .in('entity_id', entityIds)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching mentions:', error.message);
+      process.exit(1);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function dateRange(documentIds: Iterable<string>, documentDates: Map<string, string>): EntityDateRange | null {
+  let first: string | null = null;
+  let last: string | null = null;
+  let dated = 0;
+  for (const id of documentIds) {
+    const date = documentDates.get(id);
+    if (!date) continue;
+    dated++;
+    if (first === null || date < first) first = date;
+    if (last === null || date > last) last = date;
+  }
+  return first && last ? { first, last, dated } : null;
+}
+
+async function computeEntityDates() {
+  console.log(`📅 Dating entities by the documents they appear in${dryRun ? ' (dry run)' : ''}...\n`);
+  const startTime = Date.now();
+
+  const documentDates = await loadDocumentDates();
+  console.log(`📄 ${documentDates.size} dated documents\n`);
+  if (documentDates.size === 0) {
+    console.log('⚠️  No document has metadata.date - nothing to compute');
+    return;
+  }
+
+  let entitiesSeen = 0;
+  let dated = 0;
+  let updated = 0;
+
+  for (let page = 0; ; page++) {
+    const { data: entities, error } = await supabase
+      .from('entities')
+      .select('id, name, metadata')
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('\n❌ Error fetching entities:', error.message);
+      process.exit(1);
+    }
+    if (!entities || entities.length === 0) break;
+
+    for (let i = 0; i < entities.length; i += ENTITY_BATCH) {
+      const batch = entities.slice(i, i + ENTITY_BATCH);
+      const byEntity = new Map<string, Set<string>>();
+      for (const mention of await fetchMentions(batch.map(e => e.id))) {
+        if (!byEntity.has(mention.entity_id)) byEntity.set(mention.entity_id, new Set());
+        byEntity.get(mention.entity_id)!.add(mention.document_id);
+      }
+
+      const changes = batch.flatMap(entity => {
+        const range = dateRange(byEntity.get(entity.id) || [], documentDates);
+        if (range) dated++;
+        const metadata = (entity.metadata && typeof entity.metadata === 'object' ? entity.metadata : {}) as Record<string, unknown>;
+        const current = metadata.dates as EntityDateRange | undefined;
+        if (current?.first === range?.first && current?.last === range?.last && current?.dated === range?.dated) return [];
+        if (dryRun && range) console.log(`  ${entity.name}: ${range.first} → ${range.last} (${range.dated} documents)`);
+        return [{ id: entity.id, metadata: { ...metadata, dates: range || undefined } }];
+      });
+
+      if (!dryRun) {
+        for (let j = 0; j < changes.length; j += UPDATE_CONCURRENCY) {
+          await Promise.all(changes.slice(j, j + UPDATE_CONCURRENCY).map(async change => {
+            const { error: updateError } = await supabase
+              .from('entities')
+              .update({ metadata: change.metadata })
+              .eq('id', change.id);
+            if (updateError) {
+              console.error(`\nUpdate error for ${change.id}:`, updateError.message);
+            } else {
+              updated++;
+            }
+          }));
+        }
+      }
+
+      entitiesSeen += batch.length;
+      if (!dryRun) process.stdout.write(`\r  Entities: ${entitiesSeen}, dated: ${dated}, updated: ${updated}`);
+    }
+  }
+
+  console.log(`\n\n✅ COMPLETE: ${dated} of ${entitiesSeen} entities dated${dryRun ? '' : `, ${updated} updated`} in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+}
+
+computeEntityDates().catch(console.error);
@@ -0,0 +1,179 @@
+import { createClient } from '@supabase/supabase-js';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { chunkDocument } from '../lib/document-chunks';
+import { createEmbedder, EMBEDDING_DIMENSIONS } from '../lib/embeddings';
+
+/**
+ * Chunk documents.content and embed the chunks into document_chunks for the chat's passage retrieval.
+ * Needs the table and functions from sql/document_chunks.sql.
+ *
+ *   pnpm embed:documents                 Embed new and changed documents
+ *   pnpm embed:documents --force         Re-embed everything (e.g. after changing EMBEDDING_MODEL)
+ *   pnpm embed:documents --limit 100     Stop after 100 documents
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables from .env.local
+async function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  try {
+    const envContent = await fs.readFile(envPath, 'utf-8');
+    for (const line of envContent.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to load .env.local:', err);
+    process.exit(1);
+  }
+}
+
+await loadEnv();
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const DOCUMENT_PAGE_SIZE = 50;
+const EMBED_BATCH_SIZE = 32;
+const INSERT_BATCH_SIZE = 200;
+
+const args = process.argv.slice(2);
+const force = args.includes('--force');
+const limitArg = args.indexOf('--limit');
+const limit = limitArg >= 0 ? parseInt(args[limitArg + 1] || '', 10) || Infinity : Infinity;
+
+interface DocumentRow {
+  id: string;
+  page_count: number | null;
+  content: string | null;
+}
+
+interface ChunkRow {
+  document_id: string;
+  chunk_index: number;
+  page_number: number | null;
+  char_start: number;
+  content: string;
+  token_count: number;
+  content_hash: string;
+  embedding_model: string;
+  embedding: number[];
+}
+
+async function embedDocuments() {
+  const embedder = createEmbedder();
+  console.log(`🧠 Embedding model: ${embedder.model} (${embedder.provider})${force ? ' - forcing re-embed' : ''}\n`);
+
+  let offset = 0;
+  let processed = 0;
+  let skipped = 0;
+  let chunksWritten = 0;
+  let failed = 0;
+
+  while (processed + skipped < limit) {
+    const { data: documents, error } = await supabase
+      .from('documents')
+      .select('id, page_count, content')
+      .not('content', 'is', null)
+      .order('id')
+      .range(offset, offset + DOCUMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching documents:', error.message);
+      break;
+    }
+    if (!documents || documents.length === 0) break;
+    offset += documents.length;
+
+    // Documents whose current text is already embedded with this model are skipped
+    const { data: existing } = await supabase
+      .from('document_chunks')
+      .select('document_id, content_hash, embedding_model')
+      .in('document_id', documents.map(d => d.id))
+      .eq('chunk_index', 0);
+    const embedded = new Map((existing || []).map(e => [e.document_id, `${e.content_hash}|${e.embedding_model}`]));
+
+    for (const doc of documents as DocumentRow[]) {
+      if (processed + skipped >= limit) break;
+
+      const content = doc.content || '';
+      const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+      if (!force && embedded.get(doc.id) === `${contentHash}|${embedder.model}`) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const chunks = chunkDocument(content, { pageCount: doc.page_count });
+        const rows: ChunkRow[] = [];
+
+        for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+          const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+          const vectors = await embedder.embed(batch.map(c => c.text));
+
+          batch.forEach((chunk, j) => {
+            const embedding = vectors[j];
+            if (!embedding || embedding.length !== EMBEDDING_DIMENSIONS) {
+              throw new Error(`Expected ${EMBEDDING_DIMENSIONS}-dimension embeddings from ${embedder.model}, got ${embedding?.length ?? 'none'}`);
+            }
+            rows.push({
+              document_id: doc.id,
+              chunk_index: chunk.index,
+              page_number: chunk.page,
+              char_start: chunk.charStart,
+              content: chunk.text,
+              token_count: chunk.tokenCount,
+              content_hash: contentHash,
+              embedding_model: embedder.model,
+              embedding,
+            });
+          });
+        }
+
+        // Replace the document's chunks - the chunk count changes when the text does
+        const { error: deleteError } = await supabase.from('document_chunks').delete().eq('document_id', doc.id);
+        if (deleteError) throw new Error(deleteError.message);
+
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+          const { error: insertError } = await supabase.from('document_chunks').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+          if (insertError) throw new Error(insertError.message);
+        }
+
+        processed++;
+        chunksWritten += rows.length;
+        process.stdout.write(`\r  Embedded: ${processed} documents, ${chunksWritten} chunks (${skipped} unchanged)`);
+      } catch (err) {
+        failed++;
+        console.error(`\n❌ ${doc.id}: ${err instanceof Error ? err.message : err}`);
+        // A model that won't load fails every document - stop instead of spamming
+        if (processed === 0 && failed >= 3) {
+          console.error('Giving up after 3 failures.');
+          process.exit(1);
+        }
+      }
+    }
+  }
+
+  if (processed > 0) {
+    console.log('\n\n📊 Refreshing BM25 statistics...');
+    const { error } = await supabase.rpc('refresh_document_chunk_stats');
+    if (error) console.error('Failed to refresh statistics:', error.message);
+  }
+
+  console.log(`\n✅ COMPLETE: ${processed} documents embedded (${chunksWritten} chunks), ${skipped} unchanged, ${failed} failed`);
+}
+
+embedDocuments().catch(console.error);
@@ -0,0 +1,163 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+import { createLlmClient } from '@repo/llm/client';
+import { INVESTIGATION_LLM_CONFIG, PROMPT_VERSION } from '../lib/investigation-prompt';
+import {
+  diffReports,
+  formatDiffMarkdown,
+  runGoldenQuestion,
+  summarizeResults,
+  type EvalReport,
+  type GoldenQuestion,
+  type QuestionResult,
+} from '../lib/answer-eval';
+
+/**
+ * Answer-quality regression check for the investigation chat prompt.
+ * Answers the golden questions in eval/golden-questions.json and scores citation precision,
+ * unsupported claims and garbage-entity leaks. Offline by default - answers replay from
+ * eval/llm-fixtures/<promptVersion>/<question id>.json, recorded once per prompt version with --live.
+ * Exits 1 when nothing could be scored, so a prompt change without recorded answers can't pass.
+ *
+ *   pnpm eval:chat                            Replay and write eval/reports/<promptVersion>.json
+ *   pnpm eval:chat --live                     Answer with the configured LLM and record fixtures for replays
+ *   pnpm eval:chat --baseline <report.json>   Compare with an earlier report - exits 1 on a regression
+ *   pnpm eval:chat --only <id>                Just one question
+ *   pnpm eval:chat diff <base.json> <head.json> [--markdown <file>]
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const EVAL_DIR = path.join(__dirname, '..', 'eval');
+// One fixture set per prompt version, so every version's answers stay replayable for diffs
+const FIXTURES_DIR = path.join(EVAL_DIR, 'llm-fixtures', PROMPT_VERSION);
+const REPORTS_DIR = path.join(EVAL_DIR, 'reports');
+
+// Load environment variables from .env.local - only --live needs them
+async function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  try {
+    const envContent = await fs.readFile(envPath, 'utf-8');
+    for (const line of envContent.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        if (key && valueParts.length > 0) {
+          process.env[key.trim()] = valueParts.join('=').trim();
+        }
+      }
+    }
+  } catch {
+    // No .env.local - fine for replays
+  }
+}
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+async function readReport(file: string): Promise<EvalReport> {
+  return JSON.parse(await fs.readFile(file, 'utf-8')) as EvalReport;
+}
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+async function printDiff(base: EvalReport, head: EvalReport): Promise<boolean> {
+  const diff = diffReports(base, head);
+  const markdown = formatDiffMarkdown(diff);
+  console.log(`\n${markdown}`);
+
+  const markdownFile = option('--markdown');
+  if (markdownFile) {
+    await fs.writeFile(markdownFile, markdown);
+    console.log(`📝 Diff written to ${markdownFile}`);
+  }
+  return diff.regressed;
+}
+
+async function runEval() {
+  const live = args.includes('--live');
+  const only = option('--only');
+  if (live) {
+    await loadEnv();
+  } else {
+    // Replays must not quietly score placeholder answers
+    process.env.LLM_REPLAY_STRICT = '1';
+  }
+  const llm = createLlmClient(live
+    ? { ...INVESTIGATION_LLM_CONFIG, fixturesDir: FIXTURES_DIR, record: true }
+    : { ...INVESTIGATION_LLM_CONFIG, provider: 'replay', fixturesDir: FIXTURES_DIR });
+
+  const { questions } = JSON.parse(await fs.readFile(path.join(EVAL_DIR, 'golden-questions.json'), 'utf-8')) as { questions: GoldenQuestion[] };
+  const selected = only ? questions.filter(q => q.id === only) : questions;
+  if (selected.length === 0) {
+    console.error(`❌ No golden question "${only}"`);
+    process.exit(1);
+  }
+
+  console.log(`🧪 Prompt ${PROMPT_VERSION} - ${selected.length} questions, ${live ? `live (${llm.providerName}/${llm.model}, recording)` : 'replaying fixtures'}\n`);
+
+  const results: QuestionResult[] = [];
+  for (const question of selected) {
+    const result = await runGoldenQuestion(llm, question);
+    results.push(result);
+    if (result.scores) {
+      const s = result.scores;
+      console.log(`  ✅ ${question.id}: precision ${percent(s.citationPrecision)}, unsupported ${percent(s.unsupportedRate)}, fabricated ${s.fabricatedReferences}, leaks ${s.garbageLeaks.length ? s.garbageLeaks.join(', ') : 0}`);
+    } else if (result.status === 'missing_fixture') {
+      console.log(`  ⏭️  ${question.id}: no recorded answer for this prompt (run with --live to record)`);
+    } else {
+      console.log(`  ❌ ${question.id}: ${result.error}`);
+    }
+  }
+
+  const report: EvalReport = {
+    promptVersion: PROMPT_VERSION,
+    provider: llm.providerName,
+    model: llm.model,
+    createdAt: new Date().toISOString(),
+    summary: summarizeResults(results),
+    questions: results,
+  };
+
+  const out = option('--out') || path.join(REPORTS_DIR, `${PROMPT_VERSION}.json`);
+  await fs.mkdir(path.dirname(out), { recursive: true });
+  await fs.writeFile(out, JSON.stringify(report, null, 2));
+
+  const { summary } = report;
+  console.log(`\n📊 ${summary.scored} scored, ${summary.missing} without fixtures, ${summary.errors} failed`);
+  console.log(`   Citation precision ${percent(summary.citationPrecision)} · document recall ${percent(summary.documentRecall)} · entity recall ${percent(summary.entityRecall)}`);
+  console.log(`   Unsupported-claim rate ${percent(summary.unsupportedRate)} · fabricated references ${summary.fabricatedReferences} · garbage leaks ${summary.garbageLeaks}`);
+  console.log(`💾 Report: ${path.relative(process.cwd(), out)}`);
+
+  const baseline = option('--baseline');
+  if (baseline && await printDiff(await readReport(baseline), report)) {
+    process.exit(1);
+  }
+  if (summary.scored === 0) {
+    console.error(`\n❌ Nothing was scored - record answers for prompt ${PROMPT_VERSION} with --live`);
+    process.exit(1);
+  }
+  if (summary.errors > 0) process.exit(1);
+}
+
+async function runDiff() {
+  const [, baseFile, headFile] = args;
+  if (!baseFile || !headFile) {
+    console.error('Usage: pnpm eval:chat diff <base.json> <head.json> [--markdown <file>]');
+    process.exit(1);
+  }
+  if (await printDiff(await readReport(baseFile), await readReport(headFile))) {
+    process.exit(1);
+  }
+}
+
+(args[0] === 'diff' ? runDiff() : runEval()).catch(err => {
+  console.error('❌ Eval failed:', err);
+  process.exit(1);
+});
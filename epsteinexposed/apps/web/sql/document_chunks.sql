@@ -0,0 +1,117 @@
+-- Semantic document search: chunked document text with embeddings, and hybrid BM25 + vector retrieval.
+-- Run once in the Supabase SQL editor, then `pnpm embed:documents` to fill the table.
+
+create extension if not exists vector;
+
+create table if not exists document_chunks (
+  id bigserial primary key,
+  document_id text not null references documents(id) on delete cascade,
+  chunk_index integer not null,
+  page_number integer,                    -- null when the stored text has no page breaks
+  char_start integer not null,            -- offset of the chunk within its page
+  content text not null,
+  token_count integer not null,           -- word count, the document length in BM25
+  content_hash text not null,             -- hash of the whole document text, to skip unchanged documents
+  embedding_model text not null,
+  embedding vector(384) not null,         -- keep in step with EMBEDDING_DIMENSIONS in lib/embeddings.ts
+  tsv tsvector generated always as (to_tsvector('english', content)) stored,
+  unique (document_id, chunk_index)
+);
+
+create index if not exists document_chunks_embedding on document_chunks using hnsw (embedding vector_cosine_ops);
+create index if not exists document_chunks_tsv on document_chunks using gin (tsv);
+create index if not exists document_chunks_document on document_chunks (document_id);
+
+-- Corpus statistics for BM25 - refreshed by the indexer after each run.
+-- Schema-qualified because refreshes run with a restricted search_path.
+create materialized view if not exists document_chunk_lexemes as
+  select word as lexeme, ndoc from ts_stat('select tsv from public.document_chunks');
+create unique index if not exists document_chunk_lexemes_lexeme on document_chunk_lexemes (lexeme);
+
+create materialized view if not exists document_chunk_stats as
+  select count(*)::float8 as chunk_count, coalesce(avg(token_count), 1)::float8 as avg_tokens from document_chunks;
+
+create or replace function refresh_document_chunk_stats() returns void
+language sql security definer set search_path = public as $$
+  refresh materialized view document_chunk_lexemes;
+  refresh materialized view document_chunk_stats;
+$$;
+
+-- Hybrid retrieval: BM25 over any query lexeme and cosine similarity over embeddings,
+-- fused with reciprocal rank fusion. Pass a null embedding for lexical-only search.
+create or replace function match_document_chunks(
+  query_text text,
+  query_embedding vector(384),
+  embedding_model text,
+  match_count integer default 8,
+  filter_document_ids text[] default null
+)
+returns table (
+  id bigint,
+  document_id text,
+  chunk_index integer,
+  page_number integer,
+  content text,
+  bm25 float8,
+  similarity float8,
+  score float8
+)
+language sql stable as $$
+  with
+  params as (
+    select 1.2::float8 as k1, 0.75::float8 as b, 60::float8 as rrf_k, greatest(match_count * 5, 50) as pool
+  ),
+  query_lexemes as (
+    select distinct lexeme from unnest(to_tsvector('english', query_text))
+  ),
+  query_tsquery as (
+    select string_agg(quote_literal(lexeme), ' | ')::tsquery as q from query_lexemes
+  ),
+  lexical as (
+    select c.id,
+      sum(
+        ln(1 + (s.chunk_count - l.ndoc + 0.5) / (l.ndoc + 0.5))
+        * (cardinality(t.positions) * (p.k1 + 1))
+        / (cardinality(t.positions) + p.k1 * (1 - p.b + p.b * c.token_count / s.avg_tokens))
+      ) as bm25
+    from document_chunks c
+    cross join query_tsquery q
+    cross join params p
+    cross join document_chunk_stats s
+    cross join lateral unnest(c.tsv) t
+    join query_lexemes ql on ql.lexeme = t.lexeme
+    join document_chunk_lexemes l on l.lexeme = t.lexeme
+    where c.tsv @@ q.q
+      and (filter_document_ids is null or c.document_id = any(filter_document_ids))
+    group by c.id
+    order by bm25 desc
+    limit (select pool from params)
+  ),
+  lexical_ranked as (
+    select id, bm25, row_number() over (order by bm25 desc) as rank from lexical
+  ),
+  semantic as (
+    select c.id, 1 - (c.embedding <=> query_embedding) as similarity
+    from document_chunks c
+    where query_embedding is not null
+      and c.embedding_model = match_document_chunks.embedding_model
+      and (filter_document_ids is null or c.document_id = any(filter_document_ids))
+    order by c.embedding <=> query_embedding
+    limit (select pool from params)
+  ),
+  semantic_ranked as (
+    select id, similarity, row_number() over (order by similarity desc) as rank from semantic
+  ),
+  fused as (
+    select coalesce(lr.id, sr.id) as id, lr.bm25, sr.similarity,
+      coalesce(1 / ((select rrf_k from params) + lr.rank), 0)
+        + coalesce(1 / ((select rrf_k from params) + sr.rank), 0) as score
+    from lexical_ranked lr
+    full outer join semantic_ranked sr on sr.id = lr.id
+  )
+  select c.id, c.document_id, c.chunk_index, c.page_number, c.content, f.bm25, f.similarity, f.score
+  from fused f
+  join document_chunks c on c.id = f.id
+  order by f.score desc
+  limit match_count;
+$$;
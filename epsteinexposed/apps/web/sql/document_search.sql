@@ -0,0 +1,68 @@
+-- Document full-text search: an indexed tsvector over documents.content, ranked with snippets in the database.
+-- Run once in the Supabase SQL editor. Adding the generated column rewrites the documents table.
+
+alter table documents
+  add column if not exists content_tsv tsvector generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists documents_content_tsv on documents using gin (content_tsv);
+
+-- Documents matching a to_tsquery() expression (built by lib/document-search.ts), best ts_rank first.
+-- Each comes with its best pages (split on form feeds, like the app) and a ts_headline per page:
+-- matches wrapped in <mark></mark>, fragments separated by form feeds - parseHeadline() reads them back.
+create or replace function search_documents(
+  query_text text,
+  filter_dataset text default null,
+  date_from text default null,
+  date_to text default null,
+  match_count integer default 20,
+  max_pages integer default 5
+)
+returns table (
+  id text,
+  doc_id text,
+  title text,
+  page_count integer,
+  metadata jsonb,
+  rank real,
+  pages jsonb
+)
+language sql stable as $$
+  with
+  ts as (
+    select to_tsquery('english', query_text) as q
+  ),
+  ranked as (
+    select d.id, d.doc_id, d.title, d.page_count, d.metadata, d.content, ts_rank(d.content_tsv, ts.q) as rank
+    from documents d
+    cross join ts
+    where d.content_tsv @@ ts.q
+      and (filter_dataset is null or d.metadata->>'dataset' = filter_dataset)
+      and (date_from is null or d.metadata->>'date' >= date_from)
+      and (date_to is null or d.metadata->>'date' <= date_to)
+    order by rank desc
+    limit match_count
+  )
+  select r.id, r.doc_id, r.title, r.page_count, r.metadata, r.rank,
+    coalesce((
+      select jsonb_agg(jsonb_build_object('page', best.page, 'headline', best.headline) order by best.page)
+      from (
+        select
+          -- No page breaks: page 1 for single-page documents, unknown otherwise
+          case
+            when cardinality(split.pages) > 1 then p.n::integer
+            when coalesce(r.page_count, 1) <= 1 then 1
+          end as page,
+          ts_headline('english', p.content, ts.q,
+            format('StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MinWords=8, MaxWords=24, FragmentDelimiter="%s"', chr(12))
+          ) as headline
+        from unnest(split.pages) with ordinality as p(content, n)
+        where to_tsvector('english', p.content) @@ ts.q
+        order by ts_rank(to_tsvector('english', p.content), ts.q) desc
+        limit max_pages
+      ) best
+    ), '[]'::jsonb) as pages
+  from ranked r
+  cross join ts
+  cross join lateral (select string_to_array(coalesce(r.content, ''), chr(12)) as pages) split
+  order by r.rank desc;
+$$;
@@ -0,0 +1,22 @@
+-- Typed relationships: who traveled with, worked for, represented, paid or is family of whom,
+-- with the text that says so. Co-occurrence edges stay in `connections`; these come from the
+-- API's relation extraction and the flight log / contact book parsers (lib/relationships.ts).
+-- Run once in the Supabase SQL editor, then fill it with scripts/build-connections.ts.
+
+create table if not exists entity_relationships (
+  id bigserial primary key,
+  source_id uuid not null references entities(id) on delete cascade,
+  target_id uuid not null references entities(id) on delete cascade,
+  relation_type text not null check (relation_type in ('traveled_with', 'employed_by', 'legal', 'financial_link', 'family', 'contact')),
+  directed boolean not null default false,      -- Directed edges read source → target (employee → employer, attorney → client)
+  strength integer not null default 1,          -- Documents (or flights, contact entries) stating the relation
+  confidence real not null default 0.5,         -- Highest rule confidence among them
+  document_ids text[] not null default '{}',
+  evidence jsonb not null default '[]',         -- Up to 10 spans: { documentId, cue, page, start, end, reference, text }
+  updated_at timestamptz not null default now(),
+  -- Undirected pairs are stored with source_id < target_id, so each pair is one row per type
+  unique (source_id, target_id, relation_type)
+);
+
+create index if not exists entity_relationships_target on entity_relationships (target_id);
+create index if not exists entity_relationships_type on entity_relationships (relation_type);
@@ -0,0 +1,47 @@
+-- Investigation sessions: a chat thread with the workspace it was asked in, resumable by id and
+-- shared read-only by share_id. Run once in the Supabase SQL editor.
+-- Only the API routes (service role) touch these tables - row level security with no policies keeps the anon key out.
+
+create table if not exists investigation_sessions (
+  id uuid primary key default gen_random_uuid(),      -- owner's key: anyone holding it can continue the thread
+  share_id uuid not null unique default gen_random_uuid(),  -- read-only permalink
+  title text,
+  selected_entities text[] not null default '{}',
+  pinned_documents jsonb not null default '[]',       -- [{ documentId, title, page? }]
+  viewport jsonb,                                     -- graph camera { position: [x, y, z], target: [x, y, z] }
+  forked_from uuid references investigation_sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists investigation_messages (
+  id bigserial primary key,
+  session_id uuid not null references investigation_sessions(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant', 'system')),
+  content text not null,
+  citations jsonb,
+  verification jsonb,
+  suggestions jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Tool calls behind an agent mode answer: [{ step, tool, arguments, status, summary, durationMs }]
+alter table investigation_messages add column if not exists tool_trace jsonb;
+
+create index if not exists investigation_messages_session on investigation_messages (session_id, id);
+
+alter table investigation_sessions enable row level security;
+alter table investigation_messages enable row level security;
+
+-- A new message counts as activity on the session
+create or replace function touch_investigation_session() returns trigger
+language plpgsql as $$
+begin
+  update investigation_sessions set updated_at = now() where id = new.session_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists investigation_messages_touch on investigation_messages;
+create trigger investigation_messages_touch after insert on investigation_messages
+  for each row execute function touch_investigation_session();
@@ -0,0 +1,25 @@
+-- Protected persons: victims, minors, Jane Does and people named only in victim statements.
+-- Their names are masked by every public API route and in chat answers (lib/protected-persons.ts)
+-- unless they are already public in a court caption. Run once in the Supabase SQL editor.
+-- The registry itself is sensitive - row level security with no policies keeps the anon key out,
+-- so only the API routes (service role) can read it. Add names here, never in the repo.
+
+create table if not exists protected_persons (
+  id bigserial primary key,
+  name text not null,
+  aliases text[] not null default '{}',               -- Other spellings, maiden names, surname-only forms ("Ms. Doe")
+  role text not null check (role in ('victim', 'minor', 'jane_doe', 'victim_statement')),
+  entity_id uuid references entities(id) on delete set null,   -- Masks the graph node even when its name is a variant
+  public_in_caption boolean not null default false,   -- Named in a public court caption - shown as is
+  caption_source text,                                -- The case that made the name public, e.g. "Giuffre v. Maxwell, 15-cv-7433"
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- A caption is the only reason to show a name, so it has to be recorded
+  constraint protected_persons_caption_source check (not public_in_caption or caption_source is not null)
+);
+
+create unique index if not exists protected_persons_name on protected_persons (lower(name));
+create index if not exists protected_persons_entity on protected_persons (entity_id);
+
+alter table protected_persons enable row level security;
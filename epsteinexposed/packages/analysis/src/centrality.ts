@@ -0,0 +1,332 @@
+/**
+ * Centrality algorithms
+ * Weighted degree, betweenness, eigenvector and PageRank over an undirected weighted edge list.
+ * The API's CentralityService runs them over the entity index, apps/web/scripts/compute-centrality.ts over Supabase
+ */
+
+export type CentralityMetric = 'weightedDegree' | 'betweenness' | 'eigenvector' | 'pageRank';
+
+export interface CentralityScores {
+  weightedDegree: number;   // Sum of connection strengths
+  betweenness: number;      // Share of shortest paths passing through the entity (0-1)
+  eigenvector: number;      // Connected to well-connected entities (top entity = 1)
+  pageRank: number;         // Random-walk importance (sums to 1 over the graph)
+}
+
+export interface CentralityOptions {
+  betweennessSamples?: number;   // Source nodes sampled for betweenness, 0 = exact
+  damping?: number;              // PageRank damping factor
+  maxIterations?: number;        // Power iteration cap for eigenvector / PageRank
+  tolerance?: number;
+  seed?: number;
+  onBetweennessProgress?: (done: number, total: number) => void;   // After each sampled source
+}
+
+export interface CentralityEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+// Compact weighted graph in CSR form: neighbours of node i are targets[offsets[i]..offsets[i + 1]]
+interface CsrGraph {
+  ids: string[];
+  offsets: Int32Array;
+  targets: Int32Array;
+  weights: Float64Array;
+}
+
+// Small deterministic PRNG so sampled betweenness is stable between runs
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Binary min-heap over node indexes, used by the weighted Brandes pass
+class IndexHeap {
+  private nodes: number[] = [];
+  private costs: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, cost: number) {
+    this.nodes.push(node);
+    this.costs.push(cost);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.costs[parent] <= this.costs[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; cost: number } {
+    const top = { node: this.nodes[0], cost: this.costs[0] };
+    const lastNode = this.nodes.pop()!;
+    const lastCost = this.costs.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.costs[0] = lastCost;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.costs[left] < this.costs[smallest]) smallest = left;
+        if (right < this.nodes.length && this.costs[right] < this.costs[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.costs[a], this.costs[b]] = [this.costs[b], this.costs[a]];
+  }
+}
+
+/**
+ * Compute all metrics for an edge list
+ */
+export function computeCentrality(edges: CentralityEdge[], options: CentralityOptions = {}): Map<string, CentralityScores> {
+  const graph = buildGraph(edges);
+  const n = graph.ids.length;
+  const result = new Map<string, CentralityScores>();
+  if (n === 0) return result;
+
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+
+  const degree = weightedDegree(graph);
+  const between = betweenness(graph, options.betweennessSamples ?? 500, options.seed ?? 42, options.onBetweennessProgress);
+  const eigen = eigenvector(graph, maxIterations, tolerance);
+  const rank = pageRank(graph, degree, options.damping ?? 0.85, maxIterations, tolerance);
+
+  for (let i = 0; i < n; i++) {
+    result.set(graph.ids[i], {
+      weightedDegree: degree[i],
+      betweenness: between[i],
+      eigenvector: eigen[i],
+      pageRank: rank[i],
+    });
+  }
+
+  return result;
+}
+
+function buildGraph(edges: CentralityEdge[]): CsrGraph {
+  const ids: string[] = [];
+  const indexOf = new Map<string, number>();
+  const nodeIndex = (id: string) => {
+    let index = indexOf.get(id);
+    if (index === undefined) {
+      index = ids.length;
+      ids.push(id);
+      indexOf.set(id, index);
+    }
+    return index;
+  };
+
+  const valid = edges.filter(e => e.weight > 0 && e.from !== e.to);
+  const pairs = valid.map(e => [nodeIndex(e.from), nodeIndex(e.to)]);
+  const n = ids.length;
+
+  // Prefix sums of node degrees give each node's slice of the neighbour arrays
+  const offsets = new Int32Array(n + 1);
+  for (const [a, b] of pairs) {
+    offsets[a + 1]++;
+    offsets[b + 1]++;
+  }
+  for (let i = 0; i < n; i++) offsets[i + 1] += offsets[i];
+
+  const cursor = offsets.slice(0, n);
+  const targets = new Int32Array(pairs.length * 2);
+  const weights = new Float64Array(pairs.length * 2);
+
+  pairs.forEach(([a, b], i) => {
+    const weight = valid[i].weight;
+    targets[cursor[a]] = b;
+    weights[cursor[a]++] = weight;
+    targets[cursor[b]] = a;
+    weights[cursor[b]++] = weight;
+  });
+
+  return { ids, offsets, targets, weights };
+}
+
+function weightedDegree(graph: CsrGraph): Float64Array {
+  const n = graph.ids.length;
+  const degree = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = graph.offsets[i]; j < graph.offsets[i + 1]; j++) {
+      degree[i] += graph.weights[j];
+    }
+  }
+  return degree;
+}
+
+/**
+ * Brandes' algorithm with Dijkstra. A connection's length is 1 / strength, so
+ * shortest paths prefer well-evidenced links (same as the path finder's strength weighting).
+ * On large graphs only a sample of sources is used and the totals are scaled up.
+ */
+function betweenness(graph: CsrGraph, samples: number, seed: number, onProgress?: (done: number, total: number) => void): Float64Array {
+  const n = graph.ids.length;
+  const centrality = new Float64Array(n);
+  if (n < 3) return centrality;
+
+  let sources = Array.from({ length: n }, (_, i) => i);
+  if (samples > 0 && samples < n) {
+    const random = mulberry32(seed);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [sources[i], sources[j]] = [sources[j], sources[i]];
+    }
+    sources = sources.slice(0, samples);
+  }
+
+  const dist = new Float64Array(n);
+  const sigma = new Float64Array(n);
+  const delta = new Float64Array(n);
+  const settled = new Uint8Array(n);
+  const predecessors: number[][] = Array.from({ length: n }, () => []);
+  // Path lengths are sums of floats - treat near-equal totals as ties
+  const EPSILON = 1e-9;
+
+  sources.forEach((source, s) => {
+    dist.fill(Infinity);
+    sigma.fill(0);
+    delta.fill(0);
+    settled.fill(0);
+    for (const list of predecessors) list.length = 0;
+
+    const order: number[] = [];
+    const heap = new IndexHeap();
+    dist[source] = 0;
+    sigma[source] = 1;
+    heap.push(source, 0);
+
+    while (heap.size > 0) {
+      const { node } = heap.pop();
+      if (settled[node]) continue;
+      settled[node] = 1;
+      order.push(node);
+
+      for (let j = graph.offsets[node]; j < graph.offsets[node + 1]; j++) {
+        const neighbor = graph.targets[j];
+        if (settled[neighbor]) continue;
+        const next = dist[node] + 1 / graph.weights[j];
+
+        if (next < dist[neighbor] - EPSILON) {
+          dist[neighbor] = next;
+          sigma[neighbor] = sigma[node];
+          predecessors[neighbor].length = 0;
+          predecessors[neighbor].push(node);
+          heap.push(neighbor, next);
+        } else if (Math.abs(next - dist[neighbor]) <= EPSILON) {
+          sigma[neighbor] += sigma[node];
+          predecessors[neighbor].push(node);
+        }
+      }
+    }
+
+    // Accumulate dependencies, farthest nodes first
+    for (let i = order.length - 1; i >= 0; i--) {
+      const w = order[i];
+      for (const v of predecessors[w]) {
+        delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      }
+      if (w !== source) centrality[w] += delta[w];
+    }
+
+    onProgress?.(s + 1, sources.length);
+  });
+
+  // Each undirected pair is counted from both ends; normalise to the 0-1 range
+  const scale = (n / sources.length) / ((n - 1) * (n - 2));
+  for (let i = 0; i < n; i++) centrality[i] *= scale;
+
+  return centrality;
+}
+
+/**
+ * Power iteration on (A + I) - the identity shift stops oscillation on
+ * near-bipartite graphs without changing the leading eigenvector
+ */
+function eigenvector(graph: CsrGraph, maxIterations: number, tolerance: number): Float64Array {
+  const n = graph.ids.length;
+  let x = new Float64Array(n).fill(1 / Math.sqrt(n));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      let sum = x[i];
+      for (let j = graph.offsets[i]; j < graph.offsets[i + 1]; j++) {
+        sum += graph.weights[j] * x[graph.targets[j]];
+      }
+      next[i] = sum;
+    }
+
+    let norm = 0;
+    for (let i = 0; i < n; i++) norm += next[i] * next[i];
+    norm = Math.sqrt(norm) || 1;
+
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] /= norm;
+      change += Math.abs(next[i] - x[i]);
+    }
+
+    x = next;
+    if (change < n * tolerance) break;
+  }
+
+  // Scale so the most central entity is 1, easier to read than a unit vector
+  let max = 0;
+  for (let i = 0; i < n; i++) max = Math.max(max, x[i]);
+  if (max > 0) {
+    for (let i = 0; i < n; i++) x[i] /= max;
+  }
+
+  return x;
+}
+
+/**
+ * Weighted PageRank - the walker follows connections in proportion to their strength
+ */
+function pageRank(graph: CsrGraph, weightedDegree: Float64Array, damping: number, maxIterations: number, tolerance: number): Float64Array {
+  const n = graph.ids.length;
+  let rank = new Float64Array(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Float64Array(n).fill((1 - damping) / n);
+
+    for (let i = 0; i < n; i++) {
+      if (weightedDegree[i] === 0) continue;
+      const share = damping * rank[i] / weightedDegree[i];
+      for (let j = graph.offsets[i]; j < graph.offsets[i + 1]; j++) {
+        next[graph.targets[j]] += share * graph.weights[j];
+      }
+    }
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs(next[i] - rank[i]);
+
+    rank = next;
+    if (change < tolerance) break;
+  }
+
+  return rank;
+}
@@ -0,0 +1,174 @@
+/**
+ * Edge weighting
+ * Alternative connection weights to raw document co-occurrence
+ * A long filing that names everyone inflates every pair equally; association measures
+ * (PMI, NPMI, Jaccard) and proximity counts (same page / same paragraph) don't.
+ * The API's entity index and apps/web/scripts/build-connections.ts both weigh connections here
+ */
+
+export const EDGE_WEIGHTINGS = ['cooccurrence', 'pmi', 'npmi', 'jaccard', 'page', 'paragraph'] as const;
+
+export type EdgeWeighting = typeof EDGE_WEIGHTINGS[number];
+
+export interface ConnectionWeights {
+  cooccurrence: number;   // Documents mentioning both entities
+  pmi: number;            // log2 of observed / expected co-occurrence
+  npmi: number;           // PMI scaled to -1..1 (1 = always appear together)
+  jaccard: number;        // Shared documents / documents mentioning either
+  page: number;           // Pages mentioning both
+  paragraph: number;      // Paragraphs mentioning both
+}
+
+export interface CooccurrenceCounts {
+  cooccurrence: number;
+  pageHits: number;
+  paragraphHits: number;
+  fromDocuments: number;  // Documents mentioning each entity
+  toDocuments: number;
+  totalDocuments: number;
+}
+
+export interface MentionLocations {
+  pages: number[];        // Sorted, unique page indexes
+  paragraphs: number[];   // Sorted, unique paragraph indexes
+}
+
+// Pages are separated by form feeds when the extractor kept page breaks
+const PAGE_SEPARATOR = '\f';
+const PARAGRAPH_BREAK = /\n[ \t\r]*\n/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Index of the segment containing `position`, given sorted segment start offsets
+function segmentAt(starts: number[], position: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+function countShared(a: number[], b: number[]): number {
+  let i = 0;
+  let j = 0;
+  let shared = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return shared;
+}
+
+/**
+ * Find which pages and paragraphs of a document mention each name.
+ * Without page breaks in the text, pages are approximated by splitting it into pageCount equal slices.
+ */
+export function locateMentions(text: string, pageCount: number, names: string[]): Map<string, MentionLocations> {
+  const locations = new Map<string, MentionLocations>();
+  if (!text) return locations;
+
+  const paragraphStarts = [0];
+  PARAGRAPH_BREAK.lastIndex = 0;
+  let breakMatch: RegExpExecArray | null;
+  while ((breakMatch = PARAGRAPH_BREAK.exec(text)) !== null) {
+    paragraphStarts.push(breakMatch.index + breakMatch[0].length);
+  }
+
+  const pageStarts = [0];
+  for (let i = text.indexOf(PAGE_SEPARATOR); i !== -1; i = text.indexOf(PAGE_SEPARATOR, i + 1)) {
+    pageStarts.push(i + 1);
+  }
+  const pageLength = pageStarts.length === 1 && pageCount > 1 ? text.length / pageCount : 0;
+  const pageAt = (position: number) => pageLength > 0
+    ? Math.min(Math.floor(position / pageLength), pageCount - 1)
+    : segmentAt(pageStarts, position);
+
+  for (const name of names) {
+    if (locations.has(name)) continue;
+    const words = name.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+    if (words.length === 0) continue;
+
+    // Names wrap across lines in OCR'd text, so any whitespace separates words
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+    const pages = new Set<number>();
+    const paragraphs = new Set<number>();
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      pages.add(pageAt(match.index));
+      paragraphs.add(segmentAt(paragraphStarts, match.index));
+    }
+
+    locations.set(name, {
+      pages: Array.from(pages).sort((a, b) => a - b),
+      paragraphs: Array.from(paragraphs).sort((a, b) => a - b),
+    });
+  }
+
+  return locations;
+}
+
+/**
+ * Pages and paragraphs where both entities are mentioned
+ */
+export function sharedLocations(a: MentionLocations | undefined, b: MentionLocations | undefined): { pageHits: number; paragraphHits: number } {
+  if (!a || !b) return { pageHits: 0, paragraphHits: 0 };
+  return {
+    pageHits: countShared(a.pages, b.pages),
+    paragraphHits: countShared(a.paragraphs, b.paragraphs),
+  };
+}
+
+/**
+ * Every weighting for one connection
+ */
+export function weighConnection(counts: CooccurrenceCounts): ConnectionWeights {
+  const { cooccurrence, totalDocuments } = counts;
+  // An entity's document count can't be below the documents it shares
+  const fromDocuments = Math.max(counts.fromDocuments, cooccurrence);
+  const toDocuments = Math.max(counts.toDocuments, cooccurrence);
+
+  let pmi = 0;
+  let npmi = 0;
+  if (cooccurrence > 0 && totalDocuments > 0) {
+    const jointProbability = cooccurrence / totalDocuments;
+    pmi = Math.log2((cooccurrence * totalDocuments) / (fromDocuments * toDocuments));
+    npmi = jointProbability >= 1 ? 1 : pmi / -Math.log2(jointProbability);
+  }
+
+  const union = fromDocuments + toDocuments - cooccurrence;
+
+  return {
+    cooccurrence,
+    pmi,
+    npmi,
+    jaccard: union > 0 ? cooccurrence / union : 0,
+    page: counts.pageHits,
+    paragraph: counts.paragraphHits,
+  };
+}
+
+export function parseEdgeWeighting(value: string | null): EdgeWeighting {
+  return EDGE_WEIGHTINGS.find(w => w === value) ?? 'cooccurrence';
+}
+
+/**
+ * Weight of a connection under the chosen weighting; connections built before
+ * weights were stored only have the raw count
+ */
+export function connectionWeight(strength: number, weights: Partial<ConnectionWeights> | null | undefined, weighting: EdgeWeighting): number {
+  if (weighting === 'cooccurrence') return strength;
+  return weights?.[weighting] ?? 0;
+}
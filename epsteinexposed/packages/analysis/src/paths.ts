@@ -0,0 +1,280 @@
+/**
+ * Path finding
+ * Answers "how is A linked to B" over an undirected weighted graph
+ * Shortest path (Dijkstra) and k-shortest simple paths (Yen's algorithm), with the hop limit
+ * enforced inside the search - a long cheap path never hides a shorter one that fits the limit.
+ * The API's PathFinderService runs it over the entity index, apps/web/lib/entity-paths.ts over Supabase
+ */
+
+export const PATH_WEIGHTINGS = ['hops', 'strength'] as const;
+
+export type PathWeighting = typeof PATH_WEIGHTINGS[number];
+
+export interface PathEdge {
+  source: string;
+  target: string;
+  weight: number;          // Co-occurrence strength (shared documents)
+}
+
+export interface GraphPath<E extends PathEdge = PathEdge> {
+  nodes: string[];
+  edges: E[];
+  cost: number;            // Total cost under the chosen weighting
+  weakestLink: number;     // Lowest edge weight along the path
+}
+
+export interface PathOptions {
+  k?: number;              // Number of paths to return (1 = shortest only)
+  minStrength?: number;    // Ignore edges weaker than this
+  maxHops?: number;        // Longest path to consider
+  weighting?: PathWeighting;
+}
+
+interface PathCandidate {
+  nodes: string[];
+  cost: number;
+}
+
+// Binary min-heap keyed on cost, used by Dijkstra
+class MinHeap<T> {
+  private items: Array<{ item: T; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, cost: number) {
+    this.items.push({ item, cost });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].cost <= this.items[i].cost) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { item: T; cost: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].cost < this.items[smallest].cost) smallest = left;
+        if (right < this.items.length && this.items[right].cost < this.items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export function pathEdgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function edgeCost(edge: PathEdge, weighting: PathWeighting): number {
+  // Stronger connections are "shorter" when weighting by strength
+  return weighting === 'strength' ? 1 / Math.max(edge.weight, 1) : 1;
+}
+
+/**
+ * Adjacency over an edge list, built once and searched as often as needed.
+ * Duplicate pairs keep their strongest edge; self-loops are dropped
+ */
+export class PathGraph<E extends PathEdge = PathEdge> {
+  private adjacency = new Map<string, Array<{ neighbor: string; edge: E }>>();
+  private byKey = new Map<string, E>();
+
+  constructor(edges: Iterable<E>) {
+    for (const edge of edges) {
+      if (edge.source === edge.target) continue;
+      const key = pathEdgeKey(edge.source, edge.target);
+      const existing = this.byKey.get(key);
+      if (existing && existing.weight >= edge.weight) continue;
+      this.byKey.set(key, edge);
+    }
+
+    for (const edge of this.byKey.values()) {
+      if (!this.adjacency.has(edge.source)) this.adjacency.set(edge.source, []);
+      if (!this.adjacency.has(edge.target)) this.adjacency.set(edge.target, []);
+      this.adjacency.get(edge.source)!.push({ neighbor: edge.target, edge });
+      this.adjacency.get(edge.target)!.push({ neighbor: edge.source, edge });
+    }
+  }
+
+  get size(): number {
+    return this.adjacency.size;
+  }
+
+  has(node: string): boolean {
+    return this.adjacency.has(node);
+  }
+
+  edge(a: string, b: string): E | undefined {
+    return this.byKey.get(pathEdgeKey(a, b));
+  }
+
+  /**
+   * Up to k loopless paths from source to target of at most maxHops, cheapest first
+   */
+  findPaths(source: string, target: string, options: PathOptions = {}): GraphPath<E>[] {
+    const k = options.k ?? 3;
+    const minStrength = options.minStrength ?? 1;
+    const maxHops = options.maxHops ?? Infinity;
+    const weighting = options.weighting ?? 'hops';
+
+    if (source === target || !this.has(source) || !this.has(target)) return [];
+    return this.kShortestPaths(source, target, k, minStrength, maxHops, weighting).map(c => this.toGraphPath(c));
+  }
+
+  /**
+   * Dijkstra from source to target in at most maxHops, skipping blocked nodes and edges.
+   * States are (node, hops so far): reaching a node cheaply over many hops mustn't rule out
+   * reaching it a little less cheaply over fewer when the hop budget is tight
+   */
+  private dijkstra(
+    source: string,
+    target: string,
+    minStrength: number,
+    maxHops: number,
+    weighting: PathWeighting,
+    blockedNodes: Set<string> = new Set(),
+    blockedEdges: Set<string> = new Set(),
+  ): PathCandidate | null {
+    const stateKey = (node: string, hops: number) => `${hops}:${node}`;
+    const dist = new Map<string, number>([[stateKey(source, 0), 0]]);
+    const prev = new Map<string, { node: string; hops: number }>();
+    // Fewest hops any settled state of a node used - a later (costlier) state with as many hops is no better
+    const settledHops = new Map<string, number>();
+    const heap = new MinHeap<{ node: string; hops: number }>();
+    heap.push({ node: source, hops: 0 }, 0);
+
+    while (heap.size > 0) {
+      const { item: state, cost } = heap.pop()!;
+      const { node, hops } = state;
+      if ((settledHops.get(node) ?? Infinity) <= hops) continue;
+      settledHops.set(node, hops);
+
+      if (node === target) {
+        const nodes = [target];
+        let current = prev.get(stateKey(node, hops));
+        while (current) {
+          nodes.unshift(current.node);
+          current = prev.get(stateKey(current.node, current.hops));
+        }
+        return { nodes, cost };
+      }
+      if (hops >= maxHops) continue;
+
+      for (const { neighbor, edge } of this.adjacency.get(node) || []) {
+        if (edge.weight < minStrength) continue;
+        if (blockedNodes.has(neighbor) || (settledHops.get(neighbor) ?? Infinity) <= hops + 1) continue;
+        if (blockedEdges.has(pathEdgeKey(node, neighbor))) continue;
+
+        const next = stateKey(neighbor, hops + 1);
+        const nextCost = cost + edgeCost(edge, weighting);
+        if (nextCost < (dist.get(next) ?? Infinity)) {
+          dist.set(next, nextCost);
+          prev.set(next, state);
+          heap.push({ node: neighbor, hops: hops + 1 }, nextCost);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private pathCost(nodes: string[], weighting: PathWeighting): number {
+    let cost = 0;
+    for (let i = 0; i < nodes.length - 1; i++) {
+      const edge = this.edge(nodes[i], nodes[i + 1]);
+      if (edge) cost += edgeCost(edge, weighting);
+    }
+    return cost;
+  }
+
+  /**
+   * Yen's algorithm - k loopless paths in increasing cost order.
+   * A spur search only gets the hops its root path leaves over
+   */
+  private kShortestPaths(
+    source: string,
+    target: string,
+    k: number,
+    minStrength: number,
+    maxHops: number,
+    weighting: PathWeighting,
+  ): PathCandidate[] {
+    const first = this.dijkstra(source, target, minStrength, maxHops, weighting);
+    if (!first) return [];
+
+    const accepted: PathCandidate[] = [first];
+    const candidates: PathCandidate[] = [];
+    const seen = new Set<string>([first.nodes.join('>')]);
+
+    while (accepted.length < k) {
+      const previous = accepted[accepted.length - 1].nodes;
+
+      for (let i = 0; i < previous.length - 1; i++) {
+        const spurNode = previous[i];
+        const rootPath = previous.slice(0, i + 1);
+
+        // Don't reuse the next edge of any accepted path sharing this root
+        const blockedEdges = new Set<string>();
+        for (const path of accepted) {
+          if (path.nodes.length > i + 1 && rootPath.every((node, j) => path.nodes[j] === node)) {
+            blockedEdges.add(pathEdgeKey(path.nodes[i], path.nodes[i + 1]));
+          }
+        }
+
+        // Keep paths simple - the root can't be revisited
+        const blockedNodes = new Set(rootPath.slice(0, -1));
+
+        const spurPath = this.dijkstra(spurNode, target, minStrength, maxHops - i, weighting, blockedNodes, blockedEdges);
+        if (!spurPath) continue;
+
+        const nodes = [...rootPath.slice(0, -1), ...spurPath.nodes];
+        const key = nodes.join('>');
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        candidates.push({ nodes, cost: this.pathCost(rootPath, weighting) + spurPath.cost });
+      }
+
+      if (candidates.length === 0) break;
+
+      candidates.sort((a, b) => a.cost - b.cost || a.nodes.length - b.nodes.length);
+      accepted.push(candidates.shift()!);
+    }
+
+    return accepted;
+  }
+
+  private toGraphPath(candidate: PathCandidate): GraphPath<E> {
+    const edges: E[] = [];
+    for (let i = 0; i < candidate.nodes.length - 1; i++) {
+      const edge = this.edge(candidate.nodes[i], candidate.nodes[i + 1]);
+      if (edge) edges.push(edge);
+    }
+    return {
+      nodes: candidate.nodes,
+      edges,
+      cost: candidate.cost,
+      weakestLink: edges.length > 0 ? Math.min(...edges.map(e => e.weight)) : 0,
+    };
+  }
+}
+
+/**
+ * One-off search over an edge list - build a PathGraph to search the same graph repeatedly
+ */
+export function findKShortestPaths<E extends PathEdge>(edges: Iterable<E>, source: string, target: string, options: PathOptions = {}): GraphPath<E>[] {
+  return new PathGraph(edges).findPaths(source, target, options);
+}
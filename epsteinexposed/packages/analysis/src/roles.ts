@@ -0,0 +1,143 @@
+/**
+ * Entity roles
+ * Infers a person's role in a document from the text around each mention - captions ("v. Maxwell"),
+ * "Deposition of", "counsel for", "Special Agent", "pilot" and so on - and aggregates a role profile
+ * per entity. Defence counsel and a flight manifest passenger are both just "mentioned" otherwise.
+ * The API's document ingestion and apps/web/scripts/classify-roles.ts both classify with these rules
+ */
+
+export const ENTITY_ROLES = ['defendant', 'witness', 'victim', 'attorney', 'staff', 'investigator', 'passenger'] as const;
+
+export type EntityRole = typeof ENTITY_ROLES[number];
+
+export interface RoleClassification {
+  role: EntityRole;
+  confidence: number;
+  cue: string;            // The rule that fired, e.g. "deposition of"
+}
+
+export interface RoleProfile {
+  primary: EntityRole | null;                     // Most frequent role, null when nothing was classified
+  counts: Partial<Record<EntityRole, number>>;    // Classified mentions per role
+  classified: number;
+  mentions: number;
+}
+
+export interface DocumentHints {
+  dataset?: string | null;
+  title?: string | null;
+}
+
+interface RoleCue {
+  role: EntityRole;
+  cue: string;
+  confidence: number;
+  before?: RegExp;        // Tested against the text just before the name
+  after?: RegExp;         // Tested against the text just after it
+}
+
+const WINDOW_CHARS = 60;
+
+const STAFF_TITLES = 'pilot|co-?pilot|flight attendant|assistant|housekeeper|house manager|butler|chef|cook|driver|chauffeur|scheduler|secretary|maid|bodyguard|employee';
+const INVESTIGATOR_TITLES = 'special agent|agent|detective|det\\.|officer|investigator|sergeant|sgt\\.|lieutenant|lt\\.|inspector|chief';
+
+// Most specific first - the highest confidence wins, ties go to the earlier rule
+const ROLE_CUES: RoleCue[] = [
+  { role: 'attorney', cue: 'esq.', confidence: 0.9, after: /^,?\s*(?:esq\b|esquire\b)/i },
+  { role: 'attorney', cue: 'counsel for', confidence: 0.85, after: /^,?\s*(?:(?:attorneys?|counsel|lawyers?)\s+(?:for|to|representing)\b|(?:of|for)\s+counsel\b)/i },
+  { role: 'attorney', cue: 'signature block', confidence: 0.75, before: /(?:\bby\s*:|\/s\/)\s*(?:\/s\/)?\s*$/i },
+  { role: 'attorney', cue: 'attorney', confidence: 0.7, before: /\b(?:attorney|counsel|lawyer|prosecutor|AUSA)\s*,?\s*$/i },
+  { role: 'defendant', cue: 'case caption', confidence: 0.85, before: /\b(?:v\.?|vs\.?|versus)\s*$/i },
+  { role: 'defendant', cue: 'defendant', confidence: 0.8, before: /\bdefendants?\s*,?\s*$/i },
+  { role: 'defendant', cue: 'defendant', confidence: 0.8, after: /^,?\s*(?:the\s+)?defendants?\b/i },
+  { role: 'witness', cue: 'deposition of', confidence: 0.85, before: /\b(?:deposition|testimony|examination|statement|affidavit|declaration|interview)\s+of\s*$/i },
+  { role: 'witness', cue: 'sworn', confidence: 0.75, after: /^,?\s*(?:having\s+been\s+(?:first\s+)?(?:duly\s+)?sworn|(?:was\s+)?(?:duly\s+)?sworn|testified|(?:was\s+)?deposed)\b/i },
+  { role: 'witness', cue: 'witness', confidence: 0.7, before: /\b(?:witness|deponent)\s*:?\s*$/i },
+  { role: 'witness', cue: 'witness', confidence: 0.7, after: /^,?\s*(?:a|the)?\s*(?:witness|deponent)\b/i },
+  { role: 'investigator', cue: 'law enforcement title', confidence: 0.8, before: new RegExp(`\\b(?:${INVESTIGATOR_TITLES})\\s*$`, 'i') },
+  { role: 'investigator', cue: 'law enforcement title', confidence: 0.75, after: /^,?\s*(?:(?:a|an|the)\s+)?(?:FBI|special agent|detective|investigator|police officer)\b/i },
+  { role: 'staff', cue: 'staff title', confidence: 0.75, before: new RegExp(`\\b(?:${STAFF_TITLES})\\s*,?\\s*$`, 'i') },
+  { role: 'staff', cue: 'staff title', confidence: 0.75, after: new RegExp(`^,?\\s*(?:(?:his|her|epstein'?s|maxwell'?s|the|a|an)\\s+)?(?:${STAFF_TITLES})\\b`, 'i') },
+  { role: 'victim', cue: 'victim', confidence: 0.75, before: /\b(?:victims?|minor(?:\s+victim)?|survivors?)\s*,?\s*$/i },
+  { role: 'victim', cue: 'victim', confidence: 0.75, after: /^,?\s*(?:(?:a|an|the)\s+)?(?:minor|victim|survivor)\b/i },
+  { role: 'passenger', cue: 'passenger list', confidence: 0.7, before: /\bpassengers?\s*:?[^.:]{0,60}$/i },
+];
+
+// A name on a flight log with no other cue is most likely a passenger
+const FLIGHT_LOG_PATTERN = /flight\s*logs?|manifest/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function isEntityRole(value: unknown): value is EntityRole {
+  return typeof value === 'string' && (ENTITY_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * The role a single mention suggests, or null when the context says nothing about it
+ */
+export function classifyMentionRole(name: string, context: string, hints: DocumentHints = {}): RoleClassification | null {
+  const words = name.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0 || !context) return null;
+
+  const match = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu').exec(context);
+  if (!match) return null;
+
+  const before = context.slice(Math.max(0, match.index - WINDOW_CHARS), match.index);
+  const after = context.slice(match.index + match[0].length, match.index + match[0].length + WINDOW_CHARS);
+
+  let best: RoleClassification | null = null;
+  for (const rule of ROLE_CUES) {
+    if (best && rule.confidence <= best.confidence) continue;
+    if ((rule.before && rule.before.test(before)) || (rule.after && rule.after.test(after))) {
+      best = { role: rule.role, confidence: rule.confidence, cue: rule.cue };
+    }
+  }
+  if (best) return best;
+
+  const source = `${hints.dataset || ''} ${hints.title || ''}`;
+  if (FLIGHT_LOG_PATTERN.test(source)) {
+    return { role: 'passenger', confidence: 0.5, cue: 'flight log' };
+  }
+  return null;
+}
+
+/**
+ * Count classified mentions per role - the most frequent is the primary role
+ */
+export function buildRoleProfile(roles: Array<EntityRole | null | undefined>): RoleProfile {
+  const counts: Partial<Record<EntityRole, number>> = {};
+  let classified = 0;
+  for (const role of roles) {
+    if (!role) continue;
+    counts[role] = (counts[role] || 0) + 1;
+    classified++;
+  }
+
+  let primary: EntityRole | null = null;
+  for (const role of ENTITY_ROLES) {
+    if ((counts[role] || 0) > (primary ? counts[primary] || 0 : 0)) primary = role;
+  }
+  return { primary, counts, classified, mentions: roles.length };
+}
+
+/**
+ * Roles by mention count, most frequent first
+ */
+export function rankedRoles(profile: RoleProfile): Array<{ role: EntityRole; count: number; share: number }> {
+  return ENTITY_ROLES
+    .map(role => ({ role, count: profile.counts[role] || 0 }))
+    .filter(r => r.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .map(r => ({ ...r, share: profile.classified > 0 ? r.count / profile.classified : 0 }));
+}
+
+/**
+ * One line for prompts and tool results, e.g. "attorney in 12 mentions, witness in 3 (of 40)"
+ */
+export function formatRoleProfile(profile: RoleProfile): string {
+  const roles = rankedRoles(profile);
+  if (roles.length === 0) return 'no role cues in the text around their mentions';
+  return `${roles.map(r => `${r.role} in ${r.count} mention${r.count === 1 ? '' : 's'}`).join(', ')} (of ${profile.mentions})`;
+}
@@ -0,0 +1,325 @@
+/**
+ * Ingestion ledger
+ * Records which pipeline stages each source file has been through, keyed by content hash
+ * Unchanged files are skipped on the next run and failed stages are retried up to MAX_ATTEMPTS
+ * The API's `pnpm ingest` and the scripts/data-extraction pipeline write to the same database,
+ * so `pnpm ingest status` covers both
+ */
+
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import path from 'path';
+
+export const INGESTION_STAGES = ['text', 'entities', 'upload', 'connections'] as const;
+
+export type IngestionStage = typeof INGESTION_STAGES[number];
+
+export const STAGE_LABELS: Record<IngestionStage, string> = {
+  text: 'Text extracted',
+  entities: 'Entities extracted',
+  upload: 'Uploaded',
+  connections: 'Connections rebuilt',
+};
+
+// A stage that failed this many times is skipped until `ingest retry` resets it
+export const MAX_ATTEMPTS = 3;
+
+export interface StageState {
+  status: 'done' | 'failed';
+  attempts: number;
+  error: string | null;
+  updatedAt: string;
+}
+
+export interface LedgerEntry {
+  contentHash: string;
+  source: string;             // File path, or the remote URL for scraped documents
+  documentId: string | null;
+  size: number;
+  firstSeen: string;
+  lastSeen: string;
+  stages: Partial<Record<IngestionStage, StageState>>;
+}
+
+export interface LedgerFailure {
+  contentHash: string;
+  source: string;
+  documentId: string | null;
+  stage: IngestionStage;
+  attempts: number;
+  error: string | null;
+  updatedAt: string;
+}
+
+export interface LedgerSummary {
+  files: number;
+  stages: Record<IngestionStage, { done: number; failed: number; pending: number }>;
+}
+
+const DEFAULT_LEDGER_PATH = path.join(__dirname, '../../../apps/api/data/ingestion-ledger.db');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS ledger_files (
+    content_hash TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    document_id TEXT,
+    size INTEGER NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ledger_files_source ON ledger_files(source);
+  CREATE INDEX IF NOT EXISTS ledger_files_document ON ledger_files(document_id);
+
+  CREATE TABLE IF NOT EXISTS ledger_stages (
+    content_hash TEXT NOT NULL,
+    stage TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (content_hash, stage)
+  );
+`;
+
+interface FileRow {
+  content_hash: string;
+  source: string;
+  document_id: string | null;
+  size: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+interface StageRow {
+  content_hash: string;
+  stage: IngestionStage;
+  status: 'done' | 'failed';
+  attempts: number;
+  error: string | null;
+  updated_at: string;
+}
+
+export function hashContent(content: Buffer | string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Ledger source for a document scraped from Journalist Studio (local files use their path)
+export function remoteSource(documentId: string): string {
+  return `journaliststudio:${documentId}`;
+}
+
+export class IngestionLedger {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || process.env.INGESTION_LEDGER_PATH || DEFAULT_LEDGER_PATH;
+  }
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    this.db = new Database(this.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    return this.db;
+  }
+
+  /**
+   * Record that a source currently has this content.
+   * If the source's content changed, the entry for the old content is dropped so its stages run again.
+   */
+  register(contentHash: string, source: string, size: number, documentId?: string): LedgerEntry {
+    const db = this.open();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      const stale = db.prepare('SELECT content_hash FROM ledger_files WHERE source = ? AND content_hash != ?')
+        .all(source, contentHash) as Array<{ content_hash: string }>;
+      for (const row of stale) {
+        db.prepare('DELETE FROM ledger_stages WHERE content_hash = ?').run(row.content_hash);
+        db.prepare('DELETE FROM ledger_files WHERE content_hash = ?').run(row.content_hash);
+      }
+
+      db.prepare(`
+        INSERT INTO ledger_files (content_hash, source, document_id, size, first_seen, last_seen)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(content_hash) DO UPDATE SET
+          source = excluded.source,
+          document_id = COALESCE(excluded.document_id, ledger_files.document_id),
+          last_seen = excluded.last_seen
+      `).run(contentHash, source, documentId ?? null, size, now, now);
+    })();
+
+    return this.get(contentHash)!;
+  }
+
+  get(contentHash: string): LedgerEntry | null {
+    const db = this.open();
+    const row = db.prepare('SELECT * FROM ledger_files WHERE content_hash = ?').get(contentHash) as FileRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  findBySource(source: string): LedgerEntry | null {
+    const db = this.open();
+    const row = db.prepare('SELECT * FROM ledger_files WHERE source = ? ORDER BY last_seen DESC LIMIT 1').get(source) as FileRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  findByDocument(documentId: string): LedgerEntry | null {
+    const db = this.open();
+    const row = db.prepare('SELECT * FROM ledger_files WHERE document_id = ? ORDER BY last_seen DESC LIMIT 1').get(documentId) as FileRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  hashForDocument(documentId: string): string | null {
+    return this.findByDocument(documentId)?.contentHash ?? null;
+  }
+
+  /**
+   * Sources that have completed a stage - lets a step skip work before fetching any content
+   */
+  doneSources(stage: IngestionStage): Set<string> {
+    const db = this.open();
+    const rows = db.prepare(`
+      SELECT f.source FROM ledger_files f
+      JOIN ledger_stages s ON s.content_hash = f.content_hash
+      WHERE s.stage = ? AND s.status = 'done'
+    `).all(stage) as Array<{ source: string }>;
+    return new Set(rows.map(r => r.source));
+  }
+
+  isDone(contentHash: string, stage: IngestionStage): boolean {
+    return this.stage(contentHash, stage)?.status === 'done';
+  }
+
+  /**
+   * Whether a stage still needs running and hasn't used up its attempts
+   */
+  canAttempt(contentHash: string, stage: IngestionStage): boolean {
+    const state = this.stage(contentHash, stage);
+    if (!state) return true;
+    return state.status === 'failed' && state.attempts < MAX_ATTEMPTS;
+  }
+
+  hasFailures(contentHash: string): boolean {
+    const db = this.open();
+    return db.prepare(`SELECT 1 FROM ledger_stages WHERE content_hash = ? AND status = 'failed' LIMIT 1`).get(contentHash) !== undefined;
+  }
+
+  markDone(contentHash: string, stage: IngestionStage) {
+    const db = this.open();
+    db.prepare(`
+      INSERT INTO ledger_stages (content_hash, stage, status, attempts, error, updated_at)
+      VALUES (?, ?, 'done', 1, NULL, ?)
+      ON CONFLICT(content_hash, stage) DO UPDATE SET
+        status = 'done',
+        attempts = ledger_stages.attempts + 1,
+        error = NULL,
+        updated_at = excluded.updated_at
+    `).run(contentHash, stage, new Date().toISOString());
+  }
+
+  markFailed(contentHash: string, stage: IngestionStage, error: unknown) {
+    const db = this.open();
+    const message = error instanceof Error ? error.message : String(error);
+    db.prepare(`
+      INSERT INTO ledger_stages (content_hash, stage, status, attempts, error, updated_at)
+      VALUES (?, ?, 'failed', 1, ?, ?)
+      ON CONFLICT(content_hash, stage) DO UPDATE SET
+        status = 'failed',
+        attempts = ledger_stages.attempts + 1,
+        error = excluded.error,
+        updated_at = excluded.updated_at
+    `).run(contentHash, stage, message.slice(0, 1000), new Date().toISOString());
+  }
+
+  /**
+   * Entries that finished `after` but haven't completed `stage` yet
+   */
+  awaiting(stage: IngestionStage, after: IngestionStage): LedgerEntry[] {
+    const db = this.open();
+    const rows = db.prepare(`
+      SELECT f.* FROM ledger_files f
+      JOIN ledger_stages prev ON prev.content_hash = f.content_hash AND prev.stage = ? AND prev.status = 'done'
+      LEFT JOIN ledger_stages s ON s.content_hash = f.content_hash AND s.stage = ?
+      WHERE s.status IS NULL OR s.status = 'failed'
+    `).all(after, stage) as FileRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  failures(): LedgerFailure[] {
+    const db = this.open();
+    const rows = db.prepare(`
+      SELECT s.*, f.source, f.document_id FROM ledger_stages s
+      JOIN ledger_files f ON f.content_hash = s.content_hash
+      WHERE s.status = 'failed'
+      ORDER BY s.updated_at DESC
+    `).all() as Array<StageRow & { source: string; document_id: string | null }>;
+
+    return rows.map(row => ({
+      contentHash: row.content_hash,
+      source: row.source,
+      documentId: row.document_id,
+      stage: row.stage,
+      attempts: row.attempts,
+      error: row.error,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Give every failed stage a fresh set of attempts
+   */
+  resetFailures(): number {
+    const db = this.open();
+    return db.prepare(`UPDATE ledger_stages SET attempts = 0 WHERE status = 'failed'`).run().changes;
+  }
+
+  summary(): LedgerSummary {
+    const db = this.open();
+    const files = (db.prepare('SELECT COUNT(*) AS count FROM ledger_files').get() as { count: number }).count;
+    const counts = db.prepare('SELECT stage, status, COUNT(*) AS count FROM ledger_stages GROUP BY stage, status')
+      .all() as Array<{ stage: IngestionStage; status: 'done' | 'failed'; count: number }>;
+
+    const stages = {} as LedgerSummary['stages'];
+    for (const stage of INGESTION_STAGES) {
+      const done = counts.find(c => c.stage === stage && c.status === 'done')?.count || 0;
+      const failed = counts.find(c => c.stage === stage && c.status === 'failed')?.count || 0;
+      stages[stage] = { done, failed, pending: Math.max(0, files - done - failed) };
+    }
+
+    return { files, stages };
+  }
+
+  close() {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private stage(contentHash: string, stage: IngestionStage): StageState | null {
+    const db = this.open();
+    const row = db.prepare('SELECT * FROM ledger_stages WHERE content_hash = ? AND stage = ?').get(contentHash, stage) as StageRow | undefined;
+    return row ? { status: row.status, attempts: row.attempts, error: row.error, updatedAt: row.updated_at } : null;
+  }
+
+  private toEntry(row: FileRow): LedgerEntry {
+    const db = this.open();
+    const stageRows = db.prepare('SELECT * FROM ledger_stages WHERE content_hash = ?').all(row.content_hash) as StageRow[];
+
+    const stages: LedgerEntry['stages'] = {};
+    for (const stage of stageRows) {
+      stages[stage.stage] = { status: stage.status, attempts: stage.attempts, error: stage.error, updatedAt: stage.updated_at };
+    }
+
+    return {
+      contentHash: row.content_hash,
+      source: row.source,
+      documentId: row.document_id,
+      size: row.size,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      stages,
+    };
+  }
+}
@@ -0,0 +1,643 @@
+/**
+ * Provider-agnostic LLM client - chat, streaming, tool calling, JSON extraction and token accounting.
+ * The web app's investigation chat and the API's ingestion both use it.
+ *
+ * Providers (LLM_PROVIDER):
+ *   openrouter         OpenRouter (OPENROUTER_API_KEY)
+ *   anthropic          Anthropic Messages API (ANTHROPIC_API_KEY)
+ *   openai-compatible  Any OpenAI-style server, e.g. Ollama or llama.cpp (LLM_BASE_URL, optional LLM_API_KEY)
+ *   replay             Deterministic responses from fixture files - no network
+ *
+ * Without LLM_PROVIDER, the caller's preferredProvider is used unless only the other one has a key.
+ * LLM_MODEL overrides the provider's default model. LLM_RECORD=1 saves every real
+ * response as a fixture so the same requests can later run under `replay`.
+ *
+ * Server-only: replay and recording read the filesystem.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readSSE } from './sse';
+
+export type LlmProviderName = 'anthropic' | 'openrouter' | 'openai-compatible' | 'replay';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean;         // Ask for a single JSON object (native JSON mode where the provider has one)
+  signal?: AbortSignal;
+  fixtureKey?: string;    // Replay and record under this name instead of the request hash
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;   // JSON Schema for the arguments object
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;    // {} when the model sent arguments that aren't valid JSON
+}
+
+// Tool-calling conversations add assistant turns that call tools, and the results sent back
+export type LlmAgentMessage =
+  | LlmMessage
+  | { role: 'assistant'; content: string; toolCalls: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface LlmToolChatOptions extends Omit<LlmChatOptions, 'json'> {
+  toolChoice?: 'auto' | 'none';          // 'none' forces a text answer
+}
+
+export interface LlmToolChatResult extends LlmChatResult {
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmChatResult {
+  text: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+// Streams yield text deltas; usage arrives once, at the end
+export type LlmStreamChunk = { text: string } | { usage: LlmUsage };
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  chat(messages: LlmMessage[], options: LlmChatOptions): Promise<LlmChatResult>;
+  stream(messages: LlmMessage[], options: LlmChatOptions): AsyncGenerator<LlmStreamChunk>;
+  chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions): Promise<LlmToolChatResult>;
+}
+
+export interface LlmConfig {
+  provider?: LlmProviderName;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  fixturesDir?: string;                              // Default: llm-fixtures in the working directory
+  record?: boolean;
+  preferredProvider?: 'anthropic' | 'openrouter';    // Default: openrouter
+  appTitle?: string;                                 // Shown in the OpenRouter dashboard
+}
+
+export interface LlmFixture {
+  key: string;
+  messages: LlmAgentMessage[];
+  json: boolean;
+  tools?: string[];                                  // Tool-calling requests only
+  response: LlmChatResult & { toolCalls?: LlmToolCall[] };
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  anthropic: 'claude-haiku-4-5-20251001',
+  openrouter: 'openai/gpt-4o-mini',
+  'openai-compatible': 'llama3.1',
+  replay: 'replay',
+};
+
+const API_KEY_ENV = { anthropic: 'ANTHROPIC_API_KEY', openrouter: 'OPENROUTER_API_KEY' } as const;
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Fixture key - the conversation and JSON flag only (plus the tool names for tool-calling
+ * requests), so recorded fixtures replay under any model
+ */
+export function fixtureKey(messages: LlmAgentMessage[], json: boolean, tools?: string[]): string {
+  const request = tools ? { messages, json, tools } : { messages, json };
+  return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 32);
+}
+
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Pull a JSON object out of model output that may be wrapped in prose or a code fence
+ */
+export function parseJsonResponse<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced?.[1] ?? text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate) as T;
+}
+
+async function ensureOk(response: Response, provider: string): Promise<void> {
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} - ${(await response.text()).slice(0, 500)}`);
+  }
+}
+
+class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+
+  constructor(readonly model: string, private apiKey: string) {}
+
+  private request(messages: LlmMessage[], options: LlmChatOptions, stream: boolean): Promise<Response> {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature,
+        ...(system && { system }),
+        messages: messages.filter(m => m.role !== 'system'),
+        stream,
+      }),
+      signal: options.signal,
+    });
+  }
+
+  async chat(messages: LlmMessage[], options: LlmChatOptions): Promise<LlmChatResult> {
+    const response = await this.request(messages, options, false);
+    await ensureOk(response, this.name);
+
+    const data = await response.json() as {
+      model: string;
+      content: Array<{ type: string; text?: string }>;
+      usage: { input_tokens: number; output_tokens: number };
+    };
+    return {
+      text: data.content.map(block => block.text || '').join(''),
+      model: data.model,
+      usage: { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens },
+    };
+  }
+
+  async chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions): Promise<LlmToolChatResult> {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    // Tool results go back as tool_result blocks in a user turn - consecutive results share one
+    const turns: Array<{ role: 'user' | 'assistant'; content: string | Array<Record<string, unknown>> }> = [];
+    for (const message of messages) {
+      if (message.role === 'system') continue;
+      if (message.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+        const last = turns[turns.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content)) last.content.push(block);
+        else turns.push({ role: 'user', content: [block] });
+      } else if (message.role === 'assistant' && 'toolCalls' in message) {
+        turns.push({
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+          ],
+        });
+      } else {
+        turns.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature,
+        ...(system && { system }),
+        messages: turns,
+        tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+        tool_choice: { type: options.toolChoice ?? 'auto' },
+      }),
+      signal: options.signal,
+    });
+    await ensureOk(response, this.name);
+
+    const data = await response.json() as {
+      model: string;
+      content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
+      usage: { input_tokens: number; output_tokens: number };
+    };
+    return {
+      text: data.content.filter(block => block.type === 'text').map(block => block.text || '').join(''),
+      toolCalls: data.content
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id || '', name: block.name || '', arguments: block.input || {} })),
+      model: data.model,
+      usage: { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens },
+    };
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmChatOptions): AsyncGenerator<LlmStreamChunk> {
+    const response = await this.request(messages, options, true);
+    await ensureOk(response, this.name);
+    if (!response.body) return;
+
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const { event, data } of sseEvents(response.body)) {
+      const payload = JSON.parse(data) as {
+        delta?: { type?: string; text?: string };
+        message?: { usage?: { input_tokens?: number } };
+        usage?: { output_tokens?: number };
+        error?: { message?: string };
+      };
+      if (event === 'content_block_delta' && payload.delta?.type === 'text_delta' && payload.delta.text) {
+        yield { text: payload.delta.text };
+      } else if (event === 'message_start') {
+        usage.inputTokens = payload.message?.usage?.input_tokens || 0;
+      } else if (event === 'message_delta') {
+        usage.outputTokens = payload.usage?.output_tokens || usage.outputTokens;
+      } else if (event === 'error') {
+        throw new Error(`anthropic stream error: ${payload.error?.message || data}`);
+      }
+    }
+    yield { usage };
+  }
+}
+
+class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: 'openrouter' | 'openai-compatible',
+    readonly model: string,
+    private baseUrl: string,
+    private apiKey?: string,
+    private headers: Record<string, string> = {}
+  ) {}
+
+  private request(messages: LlmMessage[], options: LlmChatOptions, stream: boolean): Promise<Response> {
+    return this.post({
+      model: this.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.json && { response_format: { type: 'json_object' } }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } }),
+    }, options.signal);
+  }
+
+  private post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+
+  async chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions): Promise<LlmToolChatResult> {
+    const response = await this.post({
+      model: this.model,
+      messages: messages.map(message => {
+        if (message.role === 'tool') {
+          return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+        }
+        if (message.role === 'assistant' && 'toolCalls' in message) {
+          return {
+            role: 'assistant',
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return message;
+      }),
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      tools: tools.map(tool => ({ type: 'function', function: tool })),
+      tool_choice: options.toolChoice ?? 'auto',
+    }, options.signal);
+    await ensureOk(response, this.name);
+
+    const data = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: {
+        content?: string | null;
+        tool_calls?: Array<{ id: string; function: { name: string; arguments?: string } }>;
+      } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const message = data.choices?.[0]?.message;
+    return {
+      text: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      })),
+      model: data.model || this.model,
+      usage: { inputTokens: data.usage?.prompt_tokens || 0, outputTokens: data.usage?.completion_tokens || 0 },
+    };
+  }
+
+  async chat(messages: LlmMessage[], options: LlmChatOptions): Promise<LlmChatResult> {
+    const response = await this.request(messages, options, false);
+    await ensureOk(response, this.name);
+
+    const data = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || this.model,
+      usage: { inputTokens: data.usage?.prompt_tokens || 0, outputTokens: data.usage?.completion_tokens || 0 },
+    };
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmChatOptions): AsyncGenerator<LlmStreamChunk> {
+    const response = await this.request(messages, options, true);
+    await ensureOk(response, this.name);
+    if (!response.body) return;
+
+    let usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const { data } of sseEvents(response.body)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data) as {
+        choices?: Array<{ delta?: { content?: string } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield { text };
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 };
+      }
+    }
+    yield { usage };
+  }
+}
+
+class ReplayProvider implements LlmProvider {
+  readonly name = 'replay';
+
+  constructor(readonly model: string, private fixturesDir: string, private strict: boolean) {}
+
+  async chat(messages: LlmMessage[], options: LlmChatOptions): Promise<LlmChatResult> {
+    const key = options.fixtureKey || fixtureKey(messages, options.json === true);
+    const file = path.join(this.fixturesDir, `${key}.json`);
+
+    if (fs.existsSync(file)) {
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as LlmFixture;
+      return fixture.response;
+    }
+
+    if (this.strict) {
+      throw new Error(`No LLM fixture for request ${key} in ${this.fixturesDir} (record one with LLM_RECORD=1)`);
+    }
+    // Same request, same placeholder - keeps offline runs deterministic
+    console.warn(`[LLM] No fixture for ${key} - using placeholder response`);
+    return {
+      text: options.json ? '{}' : `[replay] No recorded response for this request (${key}).`,
+      model: this.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+
+  async chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions): Promise<LlmToolChatResult> {
+    const toolNames = tools.map(tool => tool.name);
+    const key = options.fixtureKey || fixtureKey(messages, false, options.toolChoice === 'none' ? [] : toolNames);
+    const file = path.join(this.fixturesDir, `${key}.json`);
+
+    if (fs.existsSync(file)) {
+      const fixture = JSON.parse(fs.readFileSync(file, 'utf-8')) as LlmFixture;
+      return { ...fixture.response, toolCalls: fixture.response.toolCalls || [] };
+    }
+
+    if (this.strict) {
+      throw new Error(`No LLM fixture for request ${key} in ${this.fixturesDir} (record one with LLM_RECORD=1)`);
+    }
+    // No tool calls, so an agent loop ends on the placeholder instead of spinning
+    console.warn(`[LLM] No fixture for ${key} - using placeholder response`);
+    return {
+      text: `[replay] No recorded response for this request (${key}).`,
+      toolCalls: [],
+      model: this.model,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmChatOptions): AsyncGenerator<LlmStreamChunk> {
+    const result = await this.chat(messages, options);
+    // Word-sized chunks so the UI exercises its incremental rendering
+    for (const piece of result.text.match(/\S+\s*|\s+/g) || []) {
+      yield { text: piece };
+    }
+    yield { usage: result.usage };
+  }
+}
+
+/**
+ * Wraps a real provider and saves each response as a replay fixture
+ */
+class RecordingProvider implements LlmProvider {
+  constructor(private inner: LlmProvider, private fixturesDir: string) {}
+
+  get name() { return this.inner.name; }
+  get model() { return this.inner.model; }
+
+  async chat(messages: LlmMessage[], options: LlmChatOptions): Promise<LlmChatResult> {
+    const result = await this.inner.chat(messages, options);
+    this.save(messages, options, result);
+    return result;
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmChatOptions): AsyncGenerator<LlmStreamChunk> {
+    let text = '';
+    let usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of this.inner.stream(messages, options)) {
+      if ('text' in chunk) text += chunk.text;
+      else usage = chunk.usage;
+      yield chunk;
+    }
+    this.save(messages, options, { text, model: this.model, usage });
+  }
+
+  async chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions): Promise<LlmToolChatResult> {
+    const result = await this.inner.chatWithTools(messages, tools, options);
+    this.save(messages, { fixtureKey: options.fixtureKey }, result, options.toolChoice === 'none' ? [] : tools.map(tool => tool.name));
+    return result;
+  }
+
+  private save(messages: LlmAgentMessage[], options: LlmChatOptions, response: LlmFixture['response'], tools?: string[]) {
+    const json = options.json === true;
+    const key = options.fixtureKey || fixtureKey(messages, json, tools);
+    const fixture: LlmFixture = { key, messages, json, ...(tools && { tools }), response };
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(path.join(this.fixturesDir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2));
+  }
+}
+
+/**
+ * readSSE as an async iterator, so providers can yield from inside the loop
+ */
+async function* sseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const queue: Array<{ event: string; data: string }> = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+  let failure: unknown = null;
+
+  readSSE(body, (event, data) => {
+    queue.push({ event, data });
+    wake?.();
+  })
+    .catch(error => { failure = error; })
+    .finally(() => {
+      finished = true;
+      wake?.();
+    });
+
+  while (true) {
+    const next = queue.shift();
+    if (next) {
+      yield next;
+      continue;
+    }
+    if (failure) throw failure;
+    if (finished) return;
+    await new Promise<void>(resolve => { wake = resolve; });
+    wake = null;
+  }
+}
+
+export class LlmClient {
+  readonly usage = { calls: 0, inputTokens: 0, outputTokens: 0 };
+
+  constructor(private provider: LlmProvider) {}
+
+  get providerName(): LlmProviderName {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get totalTokens(): number {
+    return this.usage.inputTokens + this.usage.outputTokens;
+  }
+
+  async chat(messages: LlmMessage[], options: LlmChatOptions = {}): Promise<LlmChatResult> {
+    const result = await this.provider.chat(messages, options);
+    this.record(result.usage);
+    return result;
+  }
+
+  async *stream(messages: LlmMessage[], options: LlmChatOptions = {}): AsyncGenerator<LlmStreamChunk> {
+    for await (const chunk of this.provider.stream(messages, options)) {
+      if ('usage' in chunk) this.record(chunk.usage);
+      yield chunk;
+    }
+  }
+
+  /**
+   * One model turn with tools available - the caller runs any tool calls and sends the results back
+   */
+  async chatWithTools(messages: LlmAgentMessage[], tools: LlmToolDefinition[], options: LlmToolChatOptions = {}): Promise<LlmToolChatResult> {
+    const result = await this.provider.chatWithTools(messages, tools, options);
+    this.record(result.usage);
+    return result;
+  }
+
+  /**
+   * Chat in JSON mode and parse the object out of the reply
+   */
+  async extractJson<T>(messages: LlmMessage[], options: LlmChatOptions = {}): Promise<{ data: T; result: LlmChatResult }> {
+    const result = await this.chat(messages, { ...options, json: true });
+    return { data: parseJsonResponse<T>(result.text), result };
+  }
+
+  private record(usage: LlmUsage) {
+    this.usage.calls++;
+    this.usage.inputTokens += usage.inputTokens;
+    this.usage.outputTokens += usage.outputTokens;
+  }
+}
+
+function resolveProvider(config: LlmConfig): LlmProviderName {
+  const name = config.provider || process.env.LLM_PROVIDER;
+  if (name) {
+    if (!(name in DEFAULT_MODELS)) throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+    return name as LlmProviderName;
+  }
+  const preferred = config.preferredProvider ?? 'openrouter';
+  const other = preferred === 'openrouter' ? 'anthropic' : 'openrouter';
+  return process.env[API_KEY_ENV[preferred]] || !process.env[API_KEY_ENV[other]] ? preferred : other;
+}
+
+/**
+ * Whether the configured provider has what it needs to make calls
+ */
+export function isLlmConfigured(config: LlmConfig = {}): boolean {
+  switch (resolveProvider(config)) {
+    case 'anthropic': return Boolean(config.apiKey || process.env.ANTHROPIC_API_KEY);
+    case 'openrouter': return Boolean(config.apiKey || process.env.OPENROUTER_API_KEY);
+    case 'openai-compatible': return Boolean(config.baseUrl || process.env.LLM_BASE_URL);
+    case 'replay': return true;
+  }
+}
+
+export function createLlmClient(config: LlmConfig = {}): LlmClient {
+  const name = resolveProvider(config);
+  const model = config.model || process.env.LLM_MODEL || DEFAULT_MODELS[name];
+  const fixturesDir = config.fixturesDir || process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'llm-fixtures');
+
+  let provider: LlmProvider;
+  switch (name) {
+    case 'anthropic': {
+      const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) throw new Error('ANTHROPIC_API_KEY is not set');
+      provider = new AnthropicProvider(model, apiKey);
+      break;
+    }
+    case 'openrouter': {
+      const apiKey = config.apiKey || process.env.OPENROUTER_API_KEY;
+      if (!apiKey) throw new Error('OPENROUTER_API_KEY is not set');
+      provider = new OpenAiCompatibleProvider('openrouter', model, 'https://openrouter.ai/api/v1', apiKey, {
+        'HTTP-Referer': 'https://epsteinexposed.netlify.app',
+        'X-Title': config.appTitle || 'Epstein Exposed',
+      });
+      break;
+    }
+    case 'openai-compatible': {
+      const baseUrl = config.baseUrl || process.env.LLM_BASE_URL;
+      if (!baseUrl) throw new Error('LLM_BASE_URL is not set');
+      provider = new OpenAiCompatibleProvider('openai-compatible', model, baseUrl, config.apiKey || process.env.LLM_API_KEY);
+      break;
+    }
+    case 'replay':
+      provider = new ReplayProvider(model, fixturesDir, process.env.LLM_REPLAY_STRICT === '1');
+      break;
+  }
+
+  const record = config.record ?? process.env.LLM_RECORD === '1';
+  return new LlmClient(record && name !== 'replay' ? new RecordingProvider(provider, fixturesDir) : provider);
+}
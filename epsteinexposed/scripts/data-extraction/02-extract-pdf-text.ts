@@ -10,14 +10,14 @@
 import fs from 'fs/promises';
 import path from 'path';
 import puppeteer from 'puppeteer';
+import { IngestionLedger, MAX_ATTEMPTS, hashContent, remoteSource } from '@repo/ingestion/ledger';
 
 const DOCUMENT_LIST = './data/document-list.json';
 const OUTPUT_DIR = './data/documents';
-const PROGRESS_FILE = './data/text-extraction-progress.json';
 
 // Rate limiting to be respectful
 const DELAY_MS = 3000; // 3 seconds between requests
-const BATCH_SIZE = 50; // Save progress every 50 docs
+const BATCH_SIZE = 50; // Report progress every 50 docs
 
 interface DocumentMetadata {
   id: string;
@@ -45,17 +45,10 @@ async function ensureDirectory(dir: string) {
   }
 }
 
-async function loadProgress(): Promise<Set<string>> {
-  try {
-    const data = await fs.readFile(PROGRESS_FILE, 'utf-8');
-    return new Set(JSON.parse(data));
-  } catch {
-    return new Set();
-  }
-}
-
-async function saveProgress(processed: Set<string>) {
-  await fs.writeFile(PROGRESS_FILE, JSON.stringify([...processed], null, 2));
+// A document with no text has no content hash yet, so its failures are recorded under a hash of its
+// source - the entry is replaced when an extraction succeeds and registers the real content
+function failureHash(docId: string): string {
+  return hashContent(remoteSource(docId));
 }
 
 async function sleep(ms: number) {
@@ -65,7 +58,7 @@ async function sleep(ms: number) {
 async function extractDocumentText(
   page: puppeteer.Page, 
   doc: DocumentMetadata
-): Promise<ExtractedDocument | null> {
+): Promise<ExtractedDocument> {
   try {
     // Navigate to document page on Journalist Studio
     const docUrl = doc.url.startsWith('http') 
@@ -116,8 +109,7 @@ async function extractDocumentText(
     });
     
     if (!textContent || textContent.length < 50) {
-      console.log(`   ⚠️ Insufficient text extracted for ${doc.id}`);
-      return null;
+      throw new Error(`Insufficient text extracted (${textContent?.length || 0} chars)`);
     }
     
     return {
@@ -132,7 +124,7 @@ async function extractDocumentText(
     
   } catch (error) {
     console.error(`   ❌ Error extracting ${doc.id}:`, error);
-    return null;
+    throw error;
   }
 }
 
@@ -159,15 +151,22 @@ async function main() {
 
   console.log(`📄 Found ${documents.length} documents to process`);
 
-  // Load progress
-  const processed = await loadProgress();
-  console.log(`✅ Already processed: ${processed.size} documents`);
+  // Documents whose text is already in the ingestion ledger are skipped
+  const ledger = new IngestionLedger();
+  const extracted = ledger.doneSources('text');
+  console.log(`✅ Already extracted: ${extracted.size} documents`);
 
-  const remaining = documents.filter(d => !processed.has(d.id));
+  // Documents that failed MAX_ATTEMPTS times wait for `pnpm ingest retry` in apps/api
+  const pending = documents.filter(d => !extracted.has(remoteSource(d.id)));
+  const remaining = pending.filter(d => ledger.canAttempt(failureHash(d.id), 'text'));
+  if (remaining.length < pending.length) {
+    console.log(`⏭️  Out of attempts (${MAX_ATTEMPTS}): ${pending.length - remaining.length} documents`);
+  }
   console.log(`📋 Remaining: ${remaining.length} documents`);
 
   if (remaining.length === 0) {
     console.log('✅ All documents already processed!');
+    ledger.close();
     return;
   }
 
@@ -189,28 +188,37 @@ async function main() {
       const doc = remaining[i];
       console.log(`\n[${i + 1}/${remaining.length}] Processing: ${doc.title.substring(0, 50)}...`);
 
-      const extracted = await extractDocumentText(page, doc);
+      let result: ExtractedDocument | null = null;
+      try {
+        result = await extractDocumentText(page, doc);
+      } catch (error) {
+        const key = failureHash(doc.id);
+        ledger.register(key, remoteSource(doc.id), 0, doc.id);
+        ledger.markFailed(key, 'text', error);
+      }
 
-      if (extracted) {
+      if (result) {
         // Save extracted document
         await fs.writeFile(
           path.join(OUTPUT_DIR, `${doc.id}.json`),
-          JSON.stringify(extracted, null, 2)
+          JSON.stringify(result, null, 2)
         );
 
+        const contentHash = hashContent(result.text);
+        ledger.register(contentHash, remoteSource(doc.id), Buffer.byteLength(result.text), doc.id);
+        ledger.markDone(contentHash, 'text');
+
         successCount++;
-        totalChars += extracted.text.length;
-        console.log(`   ✅ Extracted ${extracted.text.length} chars`);
+        totalChars += result.text.length;
+        console.log(`   ✅ Extracted ${result.text.length} chars`);
       } else {
+        // Recorded as failed - the next run tries it again, up to MAX_ATTEMPTS
         errorCount++;
       }
 
-      processed.add(doc.id);
-
-      // Save progress periodically
+      // Report progress periodically
       if ((i + 1) % BATCH_SIZE === 0) {
-        await saveProgress(processed);
-        console.log(`\n💾 Progress saved: ${processed.size} documents processed`);
+        console.log(`\n📊 Progress: ${i + 1}/${remaining.length} documents attempted`);
         console.log(`   Success: ${successCount}, Errors: ${errorCount}`);
         console.log(`   Total text: ${(totalChars / 1000000).toFixed(2)}M chars`);
       }
@@ -221,7 +229,7 @@ async function main() {
 
   } finally {
     await browser.close();
-    await saveProgress(processed);
+    ledger.close();
   }
 
   console.log('\n' + '='.repeat(60));
@@ -8,25 +8,35 @@
 import fs from 'fs/promises';
 import path from 'path';
 import 'dotenv/config';
+import { IngestionLedger, MAX_ATTEMPTS, hashContent, remoteSource } from '@repo/ingestion/ledger';
 
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 const TEXT_DIR = './data/documents';
 const ENTITIES_DIR = './data/entities';
-const PROGRESS_FILE = './data/entity-extraction-progress.json';
 
 // Rate limiting
 const REQUESTS_PER_MINUTE = 20;
 const DELAY_MS = (60 * 1000) / REQUESTS_PER_MINUTE;
 
+// Mentions recorded per entity per document, with 1-based page and offset within the page
+const MAX_MENTIONS_PER_ENTITY = 50;
+const MENTION_CONTEXT_CHARS = 80;
+
+interface EntityMention {
+  page: number;
+  offset: number;
+  context: string;
+}
+
 interface ExtractedEntities {
   documentId: string;
   documentTitle: string;
   sourceUrl: string;
   extractedAt: string;
   entities: {
-    people: Array<{ name: string; role?: string; context?: string }>;
-    locations: Array<{ name: string; type?: string; context?: string }>;
-    organizations: Array<{ name: string; type?: string }>;
+    people: Array<{ name: string; role?: string; context?: string; mentions?: EntityMention[] }>;
+    locations: Array<{ name: string; type?: string; context?: string; mentions?: EntityMention[] }>;
+    organizations: Array<{ name: string; type?: string; mentions?: EntityMention[] }>;
     dates: Array<{ date: string; event?: string; context?: string }>;
     flights: Array<{ from?: string; to?: string; date?: string; passengers?: string[]; aircraft?: string }>;
     phoneNumbers: string[];
@@ -78,19 +88,6 @@ async function ensureDirectory(dir: string) {
   }
 }
 
-async function loadProgress(): Promise<Set<string>> {
-  try {
-    const data = await fs.readFile(PROGRESS_FILE, 'utf-8');
-    return new Set(JSON.parse(data));
-  } catch {
-    return new Set();
-  }
-}
-
-async function saveProgress(processed: Set<string>) {
-  await fs.writeFile(PROGRESS_FILE, JSON.stringify([...processed], null, 2));
-}
-
 async function extractEntities(text: string, documentId: string): Promise<any> {
   if (!OPENROUTER_API_KEY) {
     throw new Error('OPENROUTER_API_KEY not set');
@@ -139,6 +136,42 @@ async function extractEntities(text: string, documentId: string): Promise<any> {
   }
 }
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Find every occurrence of a name, page by page
+function locateMentions(pages: string[], name: string): EntityMention[] {
+  const words = (name || '').trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return [];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+  const mentions: EntityMention[] = [];
+
+  for (let i = 0; i < pages.length && mentions.length < MAX_MENTIONS_PER_ENTITY; i++) {
+    const page = pages[i];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(page)) !== null && mentions.length < MAX_MENTIONS_PER_ENTITY) {
+      const start = Math.max(0, match.index - MENTION_CONTEXT_CHARS);
+      const end = Math.min(page.length, match.index + match[0].length + MENTION_CONTEXT_CHARS);
+      mentions.push({
+        page: i + 1,
+        offset: match.index,
+        context: page.slice(start, end).replace(/\s+/g, ' ').trim(),
+      });
+    }
+  }
+
+  return mentions;
+}
+
+function attachMentions(entities: ExtractedEntities['entities'], pages: string[]) {
+  for (const person of entities.people) person.mentions = locateMentions(pages, person.name);
+  for (const location of entities.locations) location.mentions = locateMentions(pages, location.name);
+  for (const org of entities.organizations) org.mentions = locateMentions(pages, org.name);
+}
+
 async function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -167,32 +200,45 @@ async function main() {
 
   console.log(`📄 Found ${textFiles.length} documents to process`);
 
-  // Load progress
-  const processed = await loadProgress();
-  console.log(`✅ Already processed: ${processed.size} documents`);
-
-  const remaining = textFiles.filter(f => !processed.has(f.replace('.json', '')));
-  console.log(`📋 Remaining: ${remaining.length} documents`);
+  // Documents are skipped once the ingestion ledger has their entities;
+  // failures are retried on later runs up to MAX_ATTEMPTS
+  const ledger = new IngestionLedger();
 
   let successCount = 0;
+  let skippedCount = 0;
   let errorCount = 0;
   let totalEntities = 0;
   let totalConnections = 0;
 
-  for (let i = 0; i < remaining.length; i++) {
-    const file = remaining[i];
+  for (let i = 0; i < textFiles.length; i++) {
+    const file = textFiles[i];
     const docId = file.replace('.json', '');
+    let contentHash: string | null = null;
 
     try {
-      console.log(`\n[${i + 1}/${remaining.length}] Processing: ${docId}`);
-
       // Load document text
       const docData = JSON.parse(await fs.readFile(path.join(TEXT_DIR, file), 'utf-8'));
       const text = docData.text || '';
 
+      contentHash = hashContent(text);
+      ledger.register(contentHash, remoteSource(docId), Buffer.byteLength(text), docId);
+      if (!ledger.isDone(contentHash, 'text')) ledger.markDone(contentHash, 'text');
+
+      if (ledger.isDone(contentHash, 'entities')) {
+        skippedCount++;
+        continue;
+      }
+      if (!ledger.canAttempt(contentHash, 'entities')) {
+        console.log(`\n⏭️ Skipping ${docId}: failed ${MAX_ATTEMPTS} times (use pnpm ingest retry in apps/api)`);
+        skippedCount++;
+        continue;
+      }
+
+      console.log(`\n[${i + 1}/${textFiles.length}] Processing: ${docId}`);
+
       if (!text || text.length < 50) {
         console.log('   ⏭️ Skipping: insufficient text');
-        processed.add(docId);
+        ledger.markDone(contentHash, 'entities');
         continue;
       }
 
@@ -217,6 +263,10 @@ async function main() {
         connections: extracted.connections || [],
       };
 
+      // Page breaks come either as a pages array or as form feeds in the text
+      const pages: string[] = Array.isArray(docData.pages) ? docData.pages : text.split('\f');
+      attachMentions(result.entities, pages);
+
       // Count entities
       const entityCount = 
         result.entities.people.length +
@@ -237,36 +287,26 @@ async function main() {
         JSON.stringify(result, null, 2)
       );
 
-      processed.add(docId);
+      ledger.markDone(contentHash, 'entities');
       successCount++;
 
-      // Save progress every 10 documents
-      if (successCount % 10 === 0) {
-        await saveProgress(processed);
-        console.log(`   💾 Progress saved (${processed.size} total)`);
-      }
-
       // Rate limiting
       await sleep(DELAY_MS);
 
     } catch (error) {
       console.error(`   ❌ Error processing ${docId}:`, error);
       errorCount++;
-      
-      // Still mark as processed to avoid infinite retries
-      if (errorCount > 5) {
-        processed.add(docId);
-      }
+      if (contentHash) ledger.markFailed(contentHash, 'entities', error);
     }
   }
 
-  // Final save
-  await saveProgress(processed);
+  ledger.close();
 
   console.log('\n' + '='.repeat(60));
   console.log('EXTRACTION COMPLETE');
   console.log('='.repeat(60));
   console.log(`✅ Successfully processed: ${successCount}`);
+  console.log(`⏭️ Skipped (unchanged): ${skippedCount}`);
   console.log(`❌ Errors: ${errorCount}`);
   console.log(`📊 Total entities extracted: ${totalEntities}`);
   console.log(`🔗 Total connections found: ${totalConnections}`);
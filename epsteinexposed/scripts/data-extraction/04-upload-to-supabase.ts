@@ -9,6 +9,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createClient } from '@supabase/supabase-js';
 import 'dotenv/config';
+import { IngestionLedger, type IngestionStage } from '@repo/ingestion/ledger';
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
@@ -42,6 +43,25 @@ interface ConnectionRecord {
   context?: string;
 }
 
+interface EntityMention {
+  page: number;
+  offset: number;
+  context: string;
+  role?: string;      // People only - classified from the context by the API ingestion
+  roleCue?: string;
+}
+
+// One entity_mentions row - page_number/char_offset are null when the extractor found no page position
+interface MentionRecord {
+  entity_key: string;
+  document_id: string;
+  page_number: number | null;
+  char_offset: number | null;
+  context: string | null;
+  role: string | null;
+  role_cue: string | null;
+}
+
 interface DocumentRecord {
   id: string;
   title: string;
@@ -49,6 +69,10 @@ interface DocumentRecord {
   page_count?: number;
   entity_count: number;
   processed_at: string;
+  metadata: {
+    ocrConfidence: number | null;                   // Mean OCR confidence (0-100) for scanned pages
+    pageOcrConfidence: Array<number | null> | null; // Per page, null where the text layer was used
+  };
 }
 
 // Normalize entity names for deduplication
@@ -82,30 +106,66 @@ async function main() {
   const entityMap = new Map<string, EntityRecord>();
   const connectionMap = new Map<string, ConnectionRecord>();
   const documents: DocumentRecord[] = [];
+  const mentions: MentionRecord[] = [];
+
+  // Page-level mentions from the extractor, or a single document-level row without them
+  const recordMentions = (key: string, docId: string, found: EntityMention[] | undefined, fallbackContext?: string) => {
+    if (found && found.length > 0) {
+      for (const mention of found) {
+        mentions.push({
+          entity_key: key,
+          document_id: docId,
+          page_number: mention.page,
+          char_offset: mention.offset,
+          context: mention.context?.substring(0, 500) || null,
+          role: mention.role || null,
+          role_cue: mention.roleCue || null,
+        });
+      }
+    } else {
+      mentions.push({
+        entity_key: key,
+        document_id: docId,
+        page_number: null,
+        char_offset: null,
+        context: fallbackContext?.substring(0, 500) || null,
+        role: null,
+        role_cue: null,
+      });
+    }
+  };
 
   console.log('\n📊 Aggregating entities and connections...');
 
   for (const file of entityFiles) {
     try {
       const data = JSON.parse(await fs.readFile(path.join(ENTITIES_DIR, file), 'utf-8'));
-      const docId = data.documentId;
+      // Step 3 output has documentId; files from the API ingestion service nest it under document
+      const docId = data.documentId || data.document?.id;
+      if (!docId) continue;
 
       // Track document
       documents.push({
         id: docId,
-        title: data.documentTitle || docId,
+        title: data.documentTitle || data.document?.filename || docId,
         source_url: data.sourceUrl || `https://journaliststudio.google.com/pinpoint/document/${docId}`,
+        page_count: data.document?.pageCount,
         entity_count: 
           (data.entities?.people?.length || 0) +
           (data.entities?.locations?.length || 0) +
           (data.entities?.organizations?.length || 0),
-        processed_at: data.extractedAt || new Date().toISOString(),
+        processed_at: data.extractedAt || data.processedAt || new Date().toISOString(),
+        metadata: {
+          ocrConfidence: data.document?.ocrConfidence ?? null,
+          pageOcrConfidence: data.document?.pageOcrConfidence ?? null,
+        },
       });
 
       // Process people
       for (const person of data.entities?.people || []) {
         const key = normalizeEntityName(person.name);
         if (!key || key.length < 2) continue;
+        recordMentions(key, docId, person.mentions, person.context);
 
         const existing = entityMap.get(key);
         if (existing) {
@@ -131,6 +191,7 @@ async function main() {
       for (const location of data.entities?.locations || []) {
         const key = normalizeEntityName(location.name);
         if (!key || key.length < 2) continue;
+        recordMentions(key, docId, location.mentions, location.context);
 
         const existing = entityMap.get(key);
         if (existing) {
@@ -152,6 +213,7 @@ async function main() {
       for (const org of data.entities?.organizations || []) {
         const key = normalizeEntityName(org.name);
         if (!key || key.length < 2) continue;
+        recordMentions(key, docId, org.mentions);
 
         const existing = entityMap.get(key);
         if (existing) {
@@ -214,13 +276,45 @@ async function main() {
   console.log(`   📄 Documents: ${documents.length}`);
   console.log(`   👤 Entities: ${entityMap.size}`);
   console.log(`   🔗 Connections: ${connectionMap.size}`);
+  console.log(`   📍 Mentions: ${mentions.length} (${mentions.filter(m => m.page_number !== null).length} with page numbers)`);
+
+  // Documents and mentions are per document, so ones the ledger has uploaded are skipped. Entities and
+  // connections are totals over every file, so they are upserted in full whenever anything is pending
+  const ledger = new IngestionLedger();
+  const hashes = new Map<string, string>();
+  for (const doc of documents) {
+    const contentHash = ledger.hashForDocument(doc.id);
+    if (contentHash) hashes.set(doc.id, contentHash);
+  }
+  // Documents the ledger doesn't know are uploaded on every run
+  const needs = (docId: string, stage: IngestionStage) => {
+    const contentHash = hashes.get(docId);
+    return !contentHash || ledger.canAttempt(contentHash, stage);
+  };
+  const uploadDocs = documents.filter(d => needs(d.id, 'upload'));
+  const connectionDocIds = new Set(documents.filter(d => needs(d.id, 'connections')).map(d => d.id));
+
+  console.log(`   ⏭️  Already uploaded: ${documents.length - uploadDocs.length} documents`);
+  if (uploadDocs.length === 0 && connectionDocIds.size === 0) {
+    console.log('✅ All documents already uploaded!');
+    ledger.close();
+    return;
+  }
+
+  // First error per document - a failed batch only fails the documents in it
+  const uploadFailures = new Map<string, string>();
+  const connectionFailures = new Map<string, string>();
+  const fail = (failures: Map<string, string>, docIds: Iterable<string>, message: string) => {
+    for (const docId of docIds) {
+      if (!failures.has(docId)) failures.set(docId, message);
+    }
+  };
 
   // Upload documents
   console.log('\n📤 Uploading documents...');
   const docBatches = [];
-  const docArray = Array.from(documents);
-  for (let i = 0; i < docArray.length; i += BATCH_SIZE) {
-    docBatches.push(docArray.slice(i, i + BATCH_SIZE));
+  for (let i = 0; i < uploadDocs.length; i += BATCH_SIZE) {
+    docBatches.push(uploadDocs.slice(i, i + BATCH_SIZE));
   }
 
   for (let i = 0; i < docBatches.length; i++) {
@@ -230,6 +324,7 @@ async function main() {
     
     if (error) {
       console.error(`   ⚠️ Document batch ${i + 1} error:`, error.message);
+      fail(uploadFailures, docBatches[i].map(d => d.id), error.message);
     } else {
       console.log(`   ✅ Document batch ${i + 1}/${docBatches.length}`);
     }
@@ -237,40 +332,93 @@ async function main() {
 
   // Upload entities
   console.log('\n📤 Uploading entities...');
-  const entityArray = Array.from(entityMap.values()).map(e => ({
-    name: e.name,
-    type: e.type,
-    document_count: e.document_count,
-    connection_count: e.connection_count,
-    context: e.context?.substring(0, 500),
-  }));
+  const entityArray = Array.from(entityMap.values());
 
   const entityBatches = [];
   for (let i = 0; i < entityArray.length; i += BATCH_SIZE) {
     entityBatches.push(entityArray.slice(i, i + BATCH_SIZE));
   }
 
+  // Entity ids by name + type, needed for entity_mentions
+  const entityIds = new Map<string, string>();
+
   for (let i = 0; i < entityBatches.length; i++) {
-    const { error } = await supabase
+    const { data: upserted, error } = await supabase
       .from('entities')
-      .upsert(entityBatches[i], { onConflict: 'name,type' });
+      .upsert(entityBatches[i].map(e => ({
+        name: e.name,
+        type: e.type,
+        document_count: e.document_count,
+        connection_count: e.connection_count,
+        context: e.context?.substring(0, 500),
+      })), { onConflict: 'name,type' })
+      .select('id, name, type');
     
     if (error) {
       console.error(`   ⚠️ Entity batch ${i + 1} error:`, error.message);
+      // Their mentions can't be linked, so every document naming them is incomplete
+      fail(uploadFailures, entityBatches[i].flatMap(e => e.document_ids), error.message);
     } else {
+      for (const row of upserted || []) {
+        entityIds.set(`${row.name}::${row.type}`, row.id);
+      }
       console.log(`   ✅ Entity batch ${i + 1}/${entityBatches.length}`);
     }
   }
 
+  // Upload mentions - existing rows for these documents are replaced so re-runs don't duplicate them
+  console.log('\n📤 Uploading entity mentions...');
+  const uploadedDocIds = uploadDocs.map(d => d.id);
+  for (let i = 0; i < uploadedDocIds.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('entity_mentions')
+      .delete()
+      .in('document_id', uploadedDocIds.slice(i, i + BATCH_SIZE));
+
+    if (error) {
+      console.error(`   ⚠️ Mention cleanup error:`, error.message);
+      fail(uploadFailures, uploadedDocIds.slice(i, i + BATCH_SIZE), error.message);
+    }
+  }
+
+  const uploadedDocIdSet = new Set(uploadedDocIds);
+  const mentionArray = mentions.filter(m => uploadedDocIdSet.has(m.document_id)).flatMap(m => {
+    const entity = entityMap.get(m.entity_key);
+    const entityId = entity ? entityIds.get(`${entity.name}::${entity.type}`) : undefined;
+    if (!entityId) return [];
+    return [{
+      entity_id: entityId,
+      document_id: m.document_id,
+      page_number: m.page_number,
+      char_offset: m.char_offset,
+      context: m.context,
+      role: m.role,
+      role_cue: m.role_cue,
+      confidence: m.page_number !== null ? 1 : 0.8,
+    }];
+  });
+
+  const mentionBatches = [];
+  for (let i = 0; i < mentionArray.length; i += BATCH_SIZE) {
+    mentionBatches.push(mentionArray.slice(i, i + BATCH_SIZE));
+  }
+
+  for (let i = 0; i < mentionBatches.length; i++) {
+    const { error } = await supabase
+      .from('entity_mentions')
+      .insert(mentionBatches[i]);
+
+    if (error) {
+      console.error(`   ⚠️ Mention batch ${i + 1} error:`, error.message);
+      fail(uploadFailures, mentionBatches[i].map(m => m.document_id), error.message);
+    } else if ((i + 1) % 10 === 0 || i === mentionBatches.length - 1) {
+      console.log(`   ✅ Mention batch ${i + 1}/${mentionBatches.length}`);
+    }
+  }
+
   // Upload connections
   console.log('\n📤 Uploading connections...');
-  const connectionArray = Array.from(connectionMap.values()).map(c => ({
-    entity_a_name: c.entity_a_name,
-    entity_b_name: c.entity_b_name,
-    relationship: c.relationship,
-    strength: c.strength,
-    context: c.context?.substring(0, 500),
-  }));
+  const connectionArray = Array.from(connectionMap.values());
 
   const connBatches = [];
   for (let i = 0; i < connectionArray.length; i += BATCH_SIZE) {
@@ -280,21 +428,44 @@ async function main() {
   for (let i = 0; i < connBatches.length; i++) {
     const { error } = await supabase
       .from('connections')
-      .upsert(connBatches[i], { onConflict: 'entity_a_name,entity_b_name' });
+      .upsert(connBatches[i].map(c => ({
+        entity_a_name: c.entity_a_name,
+        entity_b_name: c.entity_b_name,
+        relationship: c.relationship,
+        strength: c.strength,
+        context: c.context?.substring(0, 500),
+      })), { onConflict: 'entity_a_name,entity_b_name' });
     
     if (error) {
       console.error(`   ⚠️ Connection batch ${i + 1} error:`, error.message);
+      fail(connectionFailures, connBatches[i].flatMap(c => c.document_ids), error.message);
     } else {
       console.log(`   ✅ Connection batch ${i + 1}/${connBatches.length}`);
     }
   }
 
+  // Record the stages this run attempted, for documents the ledger knows about
+  const record = (docIds: Iterable<string>, stage: IngestionStage, failures: Map<string, string>) => {
+    for (const docId of docIds) {
+      const contentHash = hashes.get(docId);
+      if (!contentHash) continue;
+      const error = failures.get(docId);
+      if (error) ledger.markFailed(contentHash, stage, error);
+      else ledger.markDone(contentHash, stage);
+    }
+  };
+  record(uploadedDocIds, 'upload', uploadFailures);
+  record(connectionDocIds, 'connections', connectionFailures);
+  ledger.close();
+
   console.log('\n' + '='.repeat(60));
   console.log('UPLOAD COMPLETE');
   console.log('='.repeat(60));
-  console.log(`📄 Documents uploaded: ${documents.length}`);
+  const failedUploads = uploadedDocIds.filter(id => uploadFailures.has(id)).length;
+  console.log(`📄 Documents uploaded: ${uploadDocs.length - failedUploads} (${failedUploads} failed)`);
   console.log(`👤 Entities uploaded: ${entityMap.size}`);
   console.log(`🔗 Connections uploaded: ${connectionMap.size}`);
+  console.log(`📍 Mentions uploaded: ${mentionArray.length}`);
 }
 
 main().catch(console.error);